@@ -1,5 +1,6 @@
 import { createServer } from 'node:http';
-import { promises as fs } from 'node:fs';
+import { promises as fs, createReadStream, createWriteStream } from 'node:fs';
+import { pipeline } from 'node:stream/promises';
 import { execFile, spawn, spawnSync } from 'node:child_process';
 import path from 'node:path';
 import os from 'node:os';
@@ -11,6 +12,21 @@ import {
   extractVoiceAgentFromApiServer,
   normalizeVoiceAgent,
 } from './license-utils.mjs';
+import { THUMBNAIL_CONTENT_TYPES, parseAvatarCatalog, resolveThumbnailPath } from './avatar-catalog.mjs';
+import { parseLevelCatalog } from './level-catalog.mjs';
+import { createFaceCapture } from './face-capture.mjs';
+import { getProcessPlatform } from './process-platform.mjs';
+import { createProcessLog, formatLogEvent, parseLogQueryNumber } from './process-logs.mjs';
+import { RESTART_POLICIES, createSupervisor, normalizeRestartPolicy } from './process-supervisor.mjs';
+import { describeProbe, parseReadinessConfig, waitForReady } from './readiness-probes.mjs';
+import { parseStartupProfiles, runStackStart, runStackStop, withReadinessFallback } from './startup-profiles.mjs';
+import {
+  MAX_BACKGROUND_BYTES,
+  backgroundType,
+  isBackgroundId,
+  sanitizeBackgroundName,
+  uniqueBackgroundName,
+} from './background-files.mjs';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -20,6 +36,12 @@ const PORT = 3210;
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const CONFIG_PATH = path.resolve(__dirname, '..', '.rvtr-config.json');
+/** Used when config has no `avatarCatalogPath` */
+const DEFAULT_AVATAR_CATALOG_PATH = path.resolve(__dirname, '..', 'avatars.json');
+/** Used when config has no `levelCatalogPath` */
+const DEFAULT_LEVEL_CATALOG_PATH = path.resolve(__dirname, '..', 'levels.json');
+/** Used when config has no `backgroundsDir` */
+const DEFAULT_BACKGROUNDS_DIR = path.resolve(__dirname, '..', 'backgrounds');
 
 // ---------------------------------------------------------------------------
 // Config persistence  (.rvtr-config.json next to the project root)
@@ -56,150 +78,110 @@ async function writeConfig(cfg) {
 
 /**
  * Named processes — multiple concurrent processes keyed by processId.
- * Legacy (no processId) uses the '__default__' key.
- * @type {Map<string, { deviceId: string, child: import('node:child_process').ChildProcess }>}
+ * Legacy (no processId) uses the '__default__' key. A process is tracked from
+ * spawn on; while its start is still watched, `cancelStart` ends that watch.
+ * @type {Map<string, { deviceId: string, child: import('node:child_process').ChildProcess, cancelStart?: () => void }>}
  */
 const activeProcesses = new Map();
-const DEFAULT_PROCESS_ID = '__default__';
 
 /**
- * Find processes whose CommandLine references a specific directory (Windows only).
- * This finds the ACTUAL running process (node.exe, LiveLinkHub.exe, etc.)
- * regardless of how it was started (.lnk, .ahk, .bat — doesn't matter).
- * Filters out shell/system processes that just happen to reference the path.
- * Returns array of PID strings.
+ * Starts not spawned yet (still reading their readiness check), so a stop in
+ * that window cancels them too. Keyed by processId.
+ * @type {Map<string, { cancelled: boolean }>}
  */
-function findProcessesByCwd(directory) {
-  if (!directory || os.platform() !== 'win32') return [];
-  try {
-    // Escape backslashes for PowerShell -like pattern
-    const pattern = directory.replace(/\\/g, '\\\\');
-    const result = spawnSync('powershell.exe', [
-      '-NoProfile', '-Command',
-      [
-        `Get-CimInstance Win32_Process`,
-        `| Where-Object {`,
-        `  $_.CommandLine -like '*${pattern}*'`,
-        `  -and $_.ProcessId -ne ${process.pid}`,
-        `  -and $_.Name -notmatch '^(cmd|powershell|conhost|explorer)\\.exe$'`,
-        `}`,
-        `| ForEach-Object { "$($_.ProcessId)|$($_.Name)" }`,
-      ].join(' '),
-    ], { encoding: 'utf8', stdio: ['pipe', 'pipe', 'ignore'], timeout: 10000 });
-
-    if (!result.stdout) return [];
-    const entries = result.stdout.split(/\r?\n/).map(l => l.trim()).filter(l => l.includes('|'));
-    if (entries.length) {
-      console.log(`[findProcessesByCwd] found in "${path.basename(directory)}": ${entries.join(', ')}`);
-    }
-    return entries.map(e => e.split('|')[0]);
-  } catch { return []; }
-}
+const pendingStarts = new Map();
+const DEFAULT_PROCESS_ID = '__default__';
 
 /**
- * Kill whatever is listening on a given TCP port (Windows only).
- * Uses PowerShell Get-NetTCPConnection for reliability.
+ * Output log per processId (see process-logs.mjs). Outlives the process and
+ * its restarts, so the output of a crashed run can still be read.
+ * @type {Map<string, ReturnType<typeof createProcessLog>>}
  */
-function stopPortListener(port) {
-  if (os.platform() !== 'win32') return;
-  try {
-    const pid = getPortListenerPid(port);
-    if (pid) {
-      console.log(`[stopPortListener] killing PID ${pid} on port ${port}`);
-      spawnSync('taskkill', ['/F', '/T', '/PID', pid], { shell: true, stdio: 'ignore' });
-    }
-  } catch { /* best effort */ }
-}
+const processLogs = new Map();
 
 /**
- * Get the PID listening on a specific TCP port (Windows only).
- * Returns PID string or null.
+ * Log streams opened for a processId that has no log yet, attached once its
+ * first start creates one. Reading a log never creates it.
+ * @type {Map<string, Set<(log: ReturnType<typeof createProcessLog>) => void>>}
  */
-function getPortListenerPid(port) {
-  if (os.platform() !== 'win32') return null;
-  try {
-    const result = spawnSync('powershell.exe', [
-      '-NoProfile', '-Command',
-      `Get-NetTCPConnection -LocalPort ${port} -State Listen -ErrorAction SilentlyContinue ` +
-      `| Select-Object -First 1 -ExpandProperty OwningProcess`,
-    ], { encoding: 'utf8', stdio: ['pipe', 'pipe', 'ignore'], timeout: 5000 });
-    const pid = (result.stdout || '').trim();
-    return /^\d+$/.test(pid) ? pid : null;
-  } catch { return null; }
+const logWaiters = new Map();
+
+function getProcessLog(processId) {
+  let log = processLogs.get(processId);
+  if (!log) {
+    log = createProcessLog();
+    processLogs.set(processId, log);
+    const waiters = logWaiters.get(processId);
+    logWaiters.delete(processId);
+    waiters?.forEach((attach) => attach(log));
+  }
+  return log;
+}
+
+/** Output lines (not the backend's own notes) after log seq `since` — for log-line readiness probes */
+function logLinesSince(log, since) {
+  return log.read({ since })
+    .filter((entry) => entry.stream !== 'system')
+    .map((entry) => entry.line);
 }
 
+/** Open SSE log streams — ended on shutdown so server.close() can finish */
+const logStreams = new Set();
+
+/** Process tracking for this OS (see process-platform.mjs) */
+const platform = getProcessPlatform();
+const { findProcessesByExecutable, getPortListenerPid, snapshotListeners, killPids } = platform;
+
 /**
- * Snapshot all listening TCP ports → PIDs (Windows only).
- * Returns Map<portString, pidString>.
+ * Kill whatever is listening on a given TCP port (Windows and Linux).
  */
-function snapshotListeners() {
-  if (os.platform() !== 'win32') return new Map();
+function stopPortListener(port) {
+  if (!platform.supported) return;
   try {
-    const result = spawnSync('powershell.exe', [
-      '-NoProfile', '-Command',
-      `Get-NetTCPConnection -State Listen -ErrorAction SilentlyContinue ` +
-      `| ForEach-Object { "$($_.LocalPort)|$($_.OwningProcess)" }`,
-    ], { encoding: 'utf8', stdio: ['pipe', 'pipe', 'ignore'], timeout: 10000 });
-    const map = new Map();
-    for (const line of (result.stdout || '').split(/\r?\n/)) {
-      const parts = line.trim().split('|');
-      if (parts.length === 2 && /^\d+$/.test(parts[0]) && /^\d+$/.test(parts[1])) {
-        map.set(parts[0], parts[1]);
-      }
+    const pid = getPortListenerPid(port);
+    if (pid) {
+      console.log(`[stopPortListener] killing PID ${pid} on port ${port}`);
+      killPids([pid]);
     }
-    return map;
-  } catch { return new Map(); }
+  } catch { /* best effort */ }
 }
 
 /**
  * Check if a tracked process entry is still alive.
  * For indirect spawns (.lnk/.ahk): checks tracked ports, then tracked PIDs.
- * For direct spawns (.bat/.exe): checks child exitCode.
+ * For direct spawns (.bat/.exe/scripts): checks tracked PIDs, else child exitCode.
  */
 function isProcessAlive(entry) {
-  const isWin = os.platform() === 'win32';
-
   // Indirect spawn — tracked via ports/PIDs, wrapper exitCode is irrelevant
   if (entry.trackedPorts && entry.trackedPorts.length) {
     return entry.trackedPorts.some(port => getPortListenerPid(port) !== null);
   }
-  if (entry.trackedPids && entry.trackedPids.length && isWin) {
-    try {
-      const pidList = entry.trackedPids.join(',');
-      const result = spawnSync('powershell.exe', [
-        '-NoProfile', '-Command',
-        `Get-Process -Id ${pidList} -ErrorAction SilentlyContinue | Measure-Object | Select-Object -ExpandProperty Count`,
-      ], { encoding: 'utf8', stdio: ['pipe', 'pipe', 'ignore'], timeout: 5000 });
-      return parseInt(result.stdout?.trim() || '0', 10) > 0;
-    } catch { return false; }
+  if (entry.trackedPids && entry.trackedPids.length && platform.supported) {
+    return platform.arePidsAlive(entry.trackedPids);
   }
 
   // Direct spawn — simple exitCode check
   return entry.child.exitCode === null;
 }
 
-/** Force-kill a list of PIDs on Windows. */
-function killPids(pids) {
-  if (!pids.length || os.platform() !== 'win32') return;
-  for (const pid of pids) {
-    try {
-      spawnSync('taskkill', ['/F', '/T', '/PID', pid], { shell: true, stdio: 'ignore' });
-    } catch { /* already dead */ }
-  }
-}
-
 /**
  * Kill a process by processId.  If no processId given, kills the default.
  * Strategy:
- *   1. taskkill /F /T on the spawn PID (works for .bat with clean tree)
- *   2. Kill tracked PIDs from startup (cwd scan or listener snapshot)
+ *   1. Force-kill the spawn PID tree (taskkill /T on Windows, /proc descendants on Linux)
+ *   2. Kill tracked PIDs from startup (folder scan or listener snapshot)
  *   3. Kill by tracked ports (new listeners detected at startup)
- *   4. Re-scan cwd for any remaining processes (safety net)
+ *   4. Re-scan the app folder for any remaining processes (safety net)
  *   5. Kill port 8080 listener as last resort
  */
 function killProcess(processId = DEFAULT_PROCESS_ID) {
+  const pending = pendingStarts.get(processId);
+  if (pending) {
+    pending.cancelled = true;
+    pendingStarts.delete(processId);
+  }
   const proc = activeProcesses.get(processId);
   if (!proc) return null;
+  proc.cancelStart?.();
 
   const pid = proc.child.pid;
   const killedDeviceId = proc.deviceId;
@@ -219,21 +201,17 @@ function killProcess(processId = DEFAULT_PROCESS_ID) {
 
   console.log(`[killProcess] ${processId}: pid=${pid}, trackedPids=[${trackedPids}], trackedPorts=[${trackedPorts}], cwd=${processCwd}`);
 
-  const isWin = os.platform() === 'win32';
-
   // 1. Force kill the spawn PID tree (works for .bat with clean parent-child chain)
   if (pid) {
-    try {
-      if (isWin) {
-        spawnSync('taskkill', ['/F', '/T', '/PID', String(pid)], { shell: true, stdio: 'ignore' });
-      } else {
-        process.kill(pid, 'SIGKILL');
-      }
-    } catch { /* already dead */ }
+    if (platform.supported) {
+      killPids([String(pid)]);
+    } else {
+      try { process.kill(pid, 'SIGKILL'); } catch { /* already dead */ }
+    }
   }
 
-  if (isWin) {
-    // 2. Kill tracked PIDs (from cwd scan or listener snapshot at startup)
+  if (platform.supported) {
+    // 2. Kill tracked PIDs (from folder scan or listener snapshot at startup)
     if (trackedPids.length) {
       console.log(`[killProcess] killing tracked PIDs: ${trackedPids.join(', ')}`);
       killPids(trackedPids);
@@ -244,11 +222,11 @@ function killProcess(processId = DEFAULT_PROCESS_ID) {
       stopPortListener(port);
     }
 
-    // 4. Re-scan cwd for any remaining/new processes
+    // 4. Re-scan the app folder for any remaining/new processes
     if (processCwd) {
-      const remaining = findProcessesByCwd(processCwd);
+      const remaining = findProcessesByExecutable(processCwd);
       if (remaining.length) {
-        console.log(`[killProcess] killing remaining cwd processes: ${remaining.join(', ')}`);
+        console.log(`[killProcess] killing remaining folder processes: ${remaining.join(', ')}`);
         killPids(remaining);
       }
     }
@@ -289,11 +267,23 @@ function getTrackingCwd(exePath) {
 }
 
 /**
- * How long to watch a newly spawned process before confirming it started.
- * If it exits within this window, we report a startup failure with stderr.
+ * How long to watch a newly spawned process before confirming it started,
+ * when it has no readiness check. If it exits within this window, we report
+ * a startup failure with stderr.
  */
 const STARTUP_WATCH_MS = 3_000;
 
+/** Kill a spawned process that never got ready — launchProcess then stops tracking it */
+function killUnready(child, trackingDir) {
+  const pids = trackingDir && platform.supported ? findProcessesByExecutable(trackingDir) : [];
+  if (child.exitCode === null && child.pid) pids.push(String(child.pid));
+  if (platform.supported) {
+    killPids(pids);
+  } else if (child.exitCode === null && child.pid) {
+    try { process.kill(child.pid, 'SIGKILL'); } catch { /* already dead */ }
+  }
+}
+
 /**
  * Spawn start2stream executable.
  *
@@ -304,8 +294,22 @@ const STARTUP_WATCH_MS = 3_000;
  *
  * .lnk/.ahk (ShellExecute): spawn wrapper exits immediately (expected).
  *   Wait STARTUP_WATCH_MS, then scan cwd for the real app process.
+ *
+ * With a readiness check (`ready`), its probe replaces the fixed watch: the
+ * promise settles once it passes, and a process that doesn't get ready in
+ * time is killed and reported as failed.
+ *
+ * `onSpawn` gets the child right after spawn, with a function that ends the
+ * watch early (the start is then reported as stopped — killing is up to the
+ * caller).
+ *
+ * stdout / stderr are echoed to the console and stored in `log` (the
+ * processId's output log). For .lnk/.ahk only the wrapper's output is seen.
+ *
+ * @param {import('./readiness-probes.mjs').ReadinessCheck | null} [ready]
+ * @param {(child: import('node:child_process').ChildProcess, cancel: () => void) => void} [onSpawn]
  */
-function spawnStart2stream(exePath) {
+function spawnStart2stream(exePath, log, ready = null, onSpawn = () => {}) {
   return new Promise((resolve, reject) => {
     const cwd = path.dirname(exePath);
     const isWin = os.platform() === 'win32';
@@ -318,25 +322,41 @@ function spawnStart2stream(exePath) {
 
     // On Windows, use just the filename so cmd.exe resolves it from cwd.
     const command = isWin ? path.basename(exePath) : exePath;
+    const logSince = log.nextSeq - 1;
 
     const child = spawn(command, [], {
       cwd,
-      stdio: ['ignore', 'inherit', 'pipe'],
+      stdio: ['ignore', 'pipe', 'pipe'],
       detached: false,
       windowsHide: false,
       shell: isWin,
     });
+    log.note(`Started ${exePath}${child.pid ? ` (pid ${child.pid})` : ''}`);
 
     let settled = false;
     const stderrChunks = [];
+    child._indirect = isIndirect;
+    onSpawn(child, () => {
+      if (settled) return;
+      settled = true;
+      log.note('Stopped during startup');
+      reject(new Error('Stopped during startup'));
+    });
+
+    child.stdout?.on('data', (chunk) => {
+      process.stdout.write(chunk);
+      log.write('stdout', chunk);
+    });
 
     child.stderr?.on('data', (chunk) => {
       process.stderr.write(`[start2stream:err] ${chunk}`);
+      log.write('stderr', chunk);
       if (!settled) stderrChunks.push(chunk);
     });
 
     child.on('error', (err) => {
       console.error(`[start2stream] error: ${err.message}`);
+      log.note(`Failed to start: ${err.message}`);
       if (!settled) {
         settled = true;
         reject(err);
@@ -347,11 +367,13 @@ function spawnStart2stream(exePath) {
       if (code !== 0 && !isIndirect) {
         console.error(`[start2stream] exited code=${code} signal=${signal}`);
       }
+      log.flush();
+      log.note(`Exited${child.pid ? ` (pid ${child.pid})` : ''} code=${code ?? '?'} signal=${signal ?? 'none'}`);
 
       if (!settled) {
         if (isIndirect) {
           // For .lnk/.ahk the wrapper exiting is expected — real app runs independently.
-          // Don't settle here — let the setTimeout handler do the cwd scan.
+          // Don't settle here — let the setTimeout handler do the folder scan.
           console.log(`[start2stream] wrapper exited (expected for ${ext}), waiting for real process...`);
           return;
         }
@@ -362,28 +384,39 @@ function spawnStart2stream(exePath) {
         reject(new Error(
           `Process exited during startup (code=${code ?? '?'}, signal=${signal ?? 'none'})${details}`,
         ));
+        // A failed start is untracked by launchProcess, not reaped
+        return;
       }
 
-      // Clean up from the map — but NOT for indirect spawns (real process is tracked by cwd)
+      // Clean up from the map — but NOT for indirect spawns (real process is tracked by folder scan)
       if (!isIndirect) {
         for (const [key, entry] of activeProcesses) {
-          if (entry.child === child) { activeProcesses.delete(key); break; }
+          if (entry.child === child) { reapProcess(key, code, signal); break; }
         }
       }
     });
 
-    // After startup watch: find real app processes
-    setTimeout(() => {
+    const watch = ready
+      ? waitForReady(ready.readiness, {
+        timeoutMs: ready.timeoutMs,
+        lines: () => logLinesSince(log, logSince),
+        // A .lnk/.ahk wrapper exits at once — only the timeout (or a stop) ends the wait
+        isAlive: () => !settled && (isIndirect || child.exitCode === null),
+      })
+      : new Promise((resolve) => setTimeout(resolve, STARTUP_WATCH_MS));
+
+    // After startup watch (or once ready): find real app processes
+    watch.then(() => {
       if (!settled) {
         settled = true;
 
         if (isIndirect) {
-          // .lnk/.ahk: find real processes by cwd scan
-          child._cwdPids = findProcessesByCwd(trackingDir);
+          // .lnk/.ahk: find real processes by folder scan
+          child._cwdPids = findProcessesByExecutable(trackingDir);
           child._cwd = trackingDir;
 
-          // Fallback: if cwd scan found nothing, detect NEW TCP listeners.
-          // npm/node CommandLine often lacks the directory path, so cwd scan misses them.
+          // Fallback: if folder scan found nothing, detect NEW TCP listeners.
+          // npm/node CommandLine often lacks the directory path, so folder scan misses them.
           // Comparing listeners before/after spawn reliably detects the actual process.
           child._trackedPorts = [];
           if (!child._cwdPids.length && listenersBefore) {
@@ -405,7 +438,9 @@ function spawnStart2stream(exePath) {
             console.log(`[start2stream] tracking ${child._cwdPids.length} process(es) for ${path.basename(trackingDir)}`);
             resolve(child);
           } else {
-            reject(new Error(`No processes found in ${path.basename(trackingDir)} after ${STARTUP_WATCH_MS}ms`));
+            reject(new Error(
+              `No processes found in ${path.basename(trackingDir)}${ready ? '' : ` after ${STARTUP_WATCH_MS}ms`}`,
+            ));
           }
           return;
         }
@@ -418,12 +453,18 @@ function spawnStart2stream(exePath) {
             `Process exited during startup (code=${child.exitCode})${details}`,
           ));
         } else {
-          child._cwdPids = findProcessesByCwd(trackingDir);
+          child._cwdPids = findProcessesByExecutable(trackingDir);
           child._cwd = trackingDir;
           resolve(child);
         }
       }
-    }, STARTUP_WATCH_MS);
+    }, (error) => {
+      if (settled) return;
+      settled = true;
+      log.note(`Not ready: ${error.message}`);
+      killUnready(child, isIndirect ? trackingDir : null);
+      reject(error);
+    });
   });
 }
 
@@ -504,6 +545,233 @@ async function validateExecutable(filePath) {
   return { valid: errors.length === 0, errors };
 }
 
+// ---------------------------------------------------------------------------
+// Launch + supervisor (restart policies, see process-supervisor.mjs)
+// ---------------------------------------------------------------------------
+
+/** How often supervised processes are checked for having died on their own */
+const SUPERVISOR_POLL_MS = 5_000;
+
+/**
+ * Restart policy per processId, persisted as `restartPolicies` in the config.
+ * @type {Record<string, import('./process-supervisor.mjs').RestartPolicy>}
+ */
+let restartPolicies = {};
+
+async function loadRestartPolicies() {
+  const cfg = await readConfig();
+  const raw = cfg?.restartPolicies && typeof cfg.restartPolicies === 'object' ? cfg.restartPolicies : {};
+  restartPolicies = Object.fromEntries(
+    Object.entries(raw).map(([processId, policy]) => [processId, normalizeRestartPolicy(policy)]),
+  );
+}
+
+function getRestartPolicy(processId) {
+  return restartPolicies[processId] ?? normalizeRestartPolicy(null);
+}
+
+/** Readiness check per processId (config `readiness`), re-read on every start */
+async function readReadinessChecks() {
+  const cfg = await readConfig();
+  const { checks, errors } = parseReadinessConfig(cfg?.readiness);
+  for (const error of errors) console.warn(`[readiness] ${error}`);
+  return checks;
+}
+
+/**
+ * Where the latest start of each processId is, for GET /process/status:
+ * starting (start watch) or waiting (readiness check), then ready / failed.
+ * @type {Map<string, { phase: 'starting' | 'waiting' | 'ready' | 'failed', waitingFor: string | null, error: string | null }>}
+ */
+const startupPhases = new Map();
+
+/**
+ * Spawn an (already resolved and validated) executable as processId,
+ * replacing whatever runs under that id. Resolves once it is ready: its
+ * readiness check passed, or the start watch without one. Stack runs pass
+ * the profile's check as `ready` (null for none) instead of the config's.
+ */
+async function launchProcess(processId, exePath, deviceId, { ready: readyOverride } = {}) {
+  killProcess(processId);
+
+  // Cancellable from here on — a stop during the config read must not be followed by a spawn
+  const pending = { cancelled: false };
+  pendingStarts.set(processId, pending);
+  let ready;
+  try {
+    ready = readyOverride !== undefined
+      ? readyOverride
+      : (await readReadinessChecks())[processId] ?? null;
+  } finally {
+    if (pendingStarts.get(processId) === pending) pendingStarts.delete(processId);
+  }
+  if (pending.cancelled) {
+    const error = new Error('Stopped during startup');
+    getProcessLog(processId).note(error.message);
+    // A newer start that cancelled this one reports its own phase
+    if (!pendingStarts.has(processId)) {
+      startupPhases.set(processId, { phase: 'failed', waitingFor: null, error: error.message });
+    }
+    throw error;
+  }
+  const phase = ready
+    ? { phase: 'waiting', waitingFor: describeProbe(ready.readiness), error: null }
+    : { phase: 'starting', waitingFor: null, error: null };
+  startupPhases.set(processId, phase);
+  let spawned = null;
+  let child;
+  try {
+    // Tracked while it starts, so a stop or another start can kill it
+    child = await spawnStart2stream(exePath, getProcessLog(processId), ready, (c, cancelStart) => {
+      spawned = c;
+      activeProcesses.set(processId, {
+        deviceId, child: c, exePath,
+        cwd: path.dirname(exePath),
+        trackedPids: [],
+        trackedPorts: [],
+        indirect: c._indirect === true,
+        cancelStart,
+      });
+    });
+  } catch (error) {
+    if (spawned && activeProcesses.get(processId)?.child === spawned) activeProcesses.delete(processId);
+    // A newer start of the same id reports its own phase
+    if (startupPhases.get(processId) === phase) {
+      startupPhases.set(processId, {
+        phase: 'failed',
+        waitingFor: null,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    throw error;
+  }
+  startupPhases.set(processId, { phase: 'ready', waitingFor: null, error: null });
+  activeProcesses.set(processId, {
+    deviceId, child, exePath,
+    cwd: child._cwd || path.dirname(exePath),
+    trackedPids: child._cwdPids || [],
+    trackedPorts: child._trackedPorts || [],
+    indirect: child._indirect === true,
+  });
+  return child;
+}
+
+const supervisor = createSupervisor({
+  getPolicy: getRestartPolicy,
+  relaunch: async (processId, { exePath, deviceId }) => {
+    const validation = await validateExecutable(exePath);
+    if (!validation.valid) throw new Error(`Executable invalid: ${validation.errors.join('; ')}`);
+    await launchProcess(processId, exePath, deviceId);
+  },
+  discard: (processId) => killProcess(processId),
+  note: (processId, message) => {
+    console.log(`[supervisor] ${processId}: ${message}`);
+    getProcessLog(processId).note(message);
+  },
+});
+
+/** Start (or replace) a process on request — supervised from here on */
+async function startSupervised(processId, exePath, deviceId, options) {
+  supervisor.stopped(processId);
+  const child = await launchProcess(processId, exePath, deviceId, options);
+  supervisor.started(processId, { exePath, deviceId });
+  return child;
+}
+
+/** Forget a tracked process that died on its own; the supervisor decides what's next */
+function reapProcess(processId, code, signal) {
+  activeProcesses.delete(processId);
+  supervisor.exited(processId, { code, signal });
+}
+
+// Direct spawns report their exit; the real app behind a .lnk/.ahk wrapper
+// only shows up as dead here. Exit codes of those are unknown.
+setInterval(() => {
+  for (const [key, entry] of activeProcesses) {
+    if (entry.cancelStart || getRestartPolicy(key).policy === 'never' || isProcessAlive(entry)) continue;
+    reapProcess(
+      key,
+      entry.indirect ? null : entry.child.exitCode,
+      entry.indirect ? null : entry.child.signalCode,
+    );
+  }
+}, SUPERVISOR_POLL_MS).unref();
+
+// ---------------------------------------------------------------------------
+// Startup profiles — start / stop a whole stack (see startup-profiles.mjs)
+// ---------------------------------------------------------------------------
+
+/**
+ * The last (or current) stack run, polled by the UI via GET /stack/status.
+ * @type {{ profile: string, action: 'start' | 'stop', state: 'running' | 'done' | 'failed',
+ *   steps: import('./startup-profiles.mjs').StackStep[], startedAt: string, finishedAt: string | null } | null}
+ */
+let stackRun = null;
+
+async function readStartupProfiles() {
+  const cfg = await readConfig();
+  const { profiles, errors } = parseStartupProfiles(cfg?.startupProfiles);
+  const { checks } = parseReadinessConfig(cfg?.readiness);
+  return {
+    profiles: Object.fromEntries(
+      Object.entries(profiles).map(([name, profile]) => [name, withReadinessFallback(profile, checks)]),
+    ),
+    errors,
+  };
+}
+
+/**
+ * Start one stack process unless it already runs, resolving once its
+ * profile probe passed. `exePaths` come with the request (the UI's shortcut
+ * paths). One that already runs counts as ready.
+ *
+ * @param {import('./startup-profiles.mjs').ProfileProcess} entry
+ */
+async function startStackProcess({ id: processId, readiness, timeoutMs }, exePaths) {
+  const running = activeProcesses.get(processId);
+  if (running && !running.cancelStart && isProcessAlive(running)) return;
+
+  const exePath = typeof exePaths?.[processId] === 'string' ? exePaths[processId].trim() : '';
+  if (!exePath) throw new Error(`No executable path for ${processId}`);
+  const resolved = path.resolve(exePath);
+  const validation = await validateExecutable(resolved);
+  if (!validation.valid) throw new Error(`Executable invalid: ${validation.errors.join('; ')}`);
+
+  await startSupervised(processId, resolved, '', { ready: readiness ? { readiness, timeoutMs } : null });
+}
+
+/** Run a stack action in the background; progress lands in `stackRun` */
+function beginStackRun(name, profile, action, exePaths) {
+  const run = { profile: name, action, state: 'running', steps: [], startedAt: new Date().toISOString(), finishedAt: null };
+  stackRun = run;
+  const onProgress = (steps) => { run.steps = steps; };
+
+  const result = action === 'start'
+    ? runStackStart(profile, {
+      start: (entry) => startStackProcess(entry, exePaths),
+      onProgress,
+    })
+    : runStackStop(profile, {
+      stop: (id) => {
+        supervisor.stopped(id);
+        killProcess(id);
+      },
+      onProgress,
+    });
+
+  result
+    .then(({ ok }) => { run.state = ok ? 'done' : 'failed'; })
+    .catch((error) => {
+      console.error(`[stack] ${name} ${action}: ${error instanceof Error ? error.message : error}`);
+      run.state = 'failed';
+    })
+    .finally(() => {
+      run.finishedAt = new Date().toISOString();
+      console.log(`[stack] ${name} ${action}: ${run.steps.map((s) => `${s.id}=${s.phase}`).join(', ')}`);
+    });
+  return run;
+}
+
 // ---------------------------------------------------------------------------
 // License file helpers (UTF-16LE JSON with BOM)
 // decodeFileBuffer, encodeToBuffer — imported from license-utils.mjs
@@ -634,6 +902,68 @@ async function validateLicenseFile(filePath) {
 
 // normalizeVoiceAgent — imported from license-utils.mjs
 
+// ---------------------------------------------------------------------------
+// Face capture (human assistant mode)
+// ---------------------------------------------------------------------------
+
+/** Face capture state and its routes (see face-capture.mjs) */
+const faceCapture = createFaceCapture({ readConfig, writeConfig });
+
+// ---------------------------------------------------------------------------
+// Catalogue files  (avatars.json, levels.json — formats in avatar-catalog.mjs
+// and level-catalog.mjs)
+// ---------------------------------------------------------------------------
+
+/**
+ * Read a JSON catalogue fresh on every request so edits show up without
+ * restarting the backend. The path comes from config `configKey`, else
+ * `defaultPath`. A missing file yields `data: null`.
+ * @returns {Promise<{ catalogPath: string, data: unknown }>}
+ */
+async function readCatalogFile(configKey, defaultPath, label) {
+  const cfg = await readConfig();
+  const configured = cfg?.[configKey];
+  const catalogPath = typeof configured === 'string' && configured.trim()
+    ? path.resolve(configured.trim())
+    : defaultPath;
+
+  let raw;
+  try {
+    raw = await fs.readFile(catalogPath, 'utf8');
+  } catch (err) {
+    if (err?.code === 'ENOENT') return { catalogPath, data: null };
+    throw err;
+  }
+
+  try {
+    return { catalogPath, data: JSON.parse(raw) };
+  } catch {
+    throw new Error(`${label} is not valid JSON: ${catalogPath}`);
+  }
+}
+
+function warnSkipped(tag, skipped, reason) {
+  if (skipped) console.warn(`[${tag}] skipped ${skipped} entr${skipped === 1 ? 'y' : 'ies'} ${reason}`);
+}
+
+/** @returns {Promise<{ catalogPath: string, avatars: { id: string, name: string, thumbnailPath: string | null, tags: string[] }[] }>} */
+async function loadAvatarCatalog() {
+  const { catalogPath, data } = await readCatalogFile('avatarCatalogPath', DEFAULT_AVATAR_CATALOG_PATH, 'Avatar catalogue');
+  if (data === null) return { catalogPath, avatars: [] };
+  const { avatars, skipped } = parseAvatarCatalog(data);
+  warnSkipped('avatars', skipped, 'without a unique id');
+  return { catalogPath, avatars };
+}
+
+/** @returns {Promise<{ catalogPath: string, levels: { id: string, label?: string }[] }>} */
+async function loadLevelCatalog() {
+  const { catalogPath, data } = await readCatalogFile('levelCatalogPath', DEFAULT_LEVEL_CATALOG_PATH, 'Level catalogue');
+  if (data === null) return { catalogPath, levels: [] };
+  const { levels, skipped } = parseLevelCatalog(data);
+  warnSkipped('levels', skipped, 'with a malformed or repeated id');
+  return { catalogPath, levels };
+}
+
 // ---------------------------------------------------------------------------
 // HTTP helpers
 // ---------------------------------------------------------------------------
@@ -810,6 +1140,89 @@ if ($result) {
   });
 }
 
+// ---------------------------------------------------------------------------
+// Custom backgrounds  (image/video files for LVL_Master_CustomBackground —
+// see background-files.mjs)
+// ---------------------------------------------------------------------------
+
+async function getBackgroundsDir() {
+  const cfg = await readConfig();
+  return typeof cfg?.backgroundsDir === 'string' && cfg.backgroundsDir.trim()
+    ? path.resolve(cfg.backgroundsDir.trim())
+    : DEFAULT_BACKGROUNDS_DIR;
+}
+
+/** Entry as returned by GET /backgrounds */
+function describeBackground(dir, id, stat) {
+  return {
+    id,
+    kind: backgroundType(id).kind,
+    size: stat.size,
+    modifiedAt: stat.mtime.toISOString(),
+    /** Absolute path — what UE is told to load */
+    path: path.join(dir, id),
+    url: `/backgrounds/file?id=${encodeURIComponent(id)}`,
+  };
+}
+
+/** Accepted files in the backgrounds folder, newest first. A missing folder is empty. */
+async function listBackgrounds() {
+  const dir = await getBackgroundsDir();
+  let names;
+  try {
+    names = await fs.readdir(dir);
+  } catch (err) {
+    if (err?.code === 'ENOENT') return [];
+    throw err;
+  }
+
+  const backgrounds = [];
+  for (const id of names.filter(isBackgroundId)) {
+    const stat = await fs.stat(path.join(dir, id)).catch(() => null);
+    if (stat?.isFile()) backgrounds.push(describeBackground(dir, id, stat));
+  }
+  return backgrounds.sort((a, b) => b.modifiedAt.localeCompare(a.modifiedAt));
+}
+
+/**
+ * Stream an upload body into the backgrounds folder. Written to a temp file
+ * first and renamed, so a broken upload never shows up in the list.
+ */
+async function saveBackgroundUpload(req, fileName) {
+  const name = sanitizeBackgroundName(fileName);
+  if (!name) {
+    throw Object.assign(new Error(`Unsupported background file: ${fileName || '(no name)'}`), { statusCode: 400 });
+  }
+  const declared = Number(req.headers['content-length']);
+  if (declared > MAX_BACKGROUND_BYTES) {
+    throw Object.assign(new Error('Background file is too large'), { statusCode: 413 });
+  }
+
+  const dir = await getBackgroundsDir();
+  await fs.mkdir(dir, { recursive: true });
+  const tempPath = path.join(dir, `.upload-${process.pid}-${Date.now()}`);
+
+  let received = 0;
+  req.on('data', (chunk) => {
+    received += chunk.length;
+    if (received > MAX_BACKGROUND_BYTES) {
+      req.destroy(Object.assign(new Error('Background file is too large'), { statusCode: 413 }));
+    }
+  });
+
+  try {
+    await pipeline(req, createWriteStream(tempPath));
+    if (received === 0) throw Object.assign(new Error('Empty upload'), { statusCode: 400 });
+    const id = uniqueBackgroundName(name, await fs.readdir(dir));
+    await fs.rename(tempPath, path.join(dir, id));
+    console.log(`[backgrounds] saved ${id} (${received} bytes)`);
+    return describeBackground(dir, id, await fs.stat(path.join(dir, id)));
+  } catch (err) {
+    await fs.unlink(tempPath).catch(() => {});
+    throw err;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // HTTP helpers
 // ---------------------------------------------------------------------------
@@ -1040,6 +1453,140 @@ const server = createServer(async (req, res) => {
       return;
     }
 
+    // -----------------------------------------------------------------------
+    // GET /face-capture — last confirmed face capture state
+    // POST /face-capture — forward FaceCapture command to UE
+    // -----------------------------------------------------------------------
+    if ((req.method === 'GET' || req.method === 'POST') && req.url === '/face-capture') {
+      const body = req.method === 'POST' ? await readBody(req) : undefined;
+      const { status, payload } = await faceCapture.handle(req.method, body);
+      sendJson(res, status, payload);
+      return;
+    }
+
+    // -----------------------------------------------------------------------
+    // GET /backgrounds — custom background files
+    // -----------------------------------------------------------------------
+    if (req.method === 'GET' && req.url === '/backgrounds') {
+      sendJson(res, 200, { ok: true, backgrounds: await listBackgrounds() });
+      return;
+    }
+
+    // -----------------------------------------------------------------------
+    // POST /backgrounds/upload?name=... — raw file body
+    // -----------------------------------------------------------------------
+    if (req.method === 'POST' && req.url.startsWith('/backgrounds/upload?')) {
+      const name = new URL(req.url, 'http://localhost').searchParams.get('name') ?? '';
+      try {
+        const background = await saveBackgroundUpload(req, name);
+        sendJson(res, 200, { ok: true, background });
+      } catch (error) {
+        console.error(`[backgrounds] upload failed: ${error instanceof Error ? error.message : error}`);
+        sendJson(res, error.statusCode ?? 500, {
+          ok: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      return;
+    }
+
+    // -----------------------------------------------------------------------
+    // POST /backgrounds/delete — remove a background file
+    // -----------------------------------------------------------------------
+    if (req.method === 'POST' && req.url === '/backgrounds/delete') {
+      const body = await readBody(req);
+      const id = typeof body.id === 'string' ? body.id : '';
+      if (!isBackgroundId(id)) {
+        sendJson(res, 400, { ok: false, error: 'id must be a background file name' });
+        return;
+      }
+      try {
+        await fs.unlink(path.join(await getBackgroundsDir(), id));
+      } catch (err) {
+        if (err?.code !== 'ENOENT') throw err;
+      }
+      console.log(`[backgrounds] deleted ${id}`);
+      sendJson(res, 200, { ok: true });
+      return;
+    }
+
+    // -----------------------------------------------------------------------
+    // GET /backgrounds/file?id=... — serve a background file (picker preview)
+    // -----------------------------------------------------------------------
+    if (req.method === 'GET' && req.url.startsWith('/backgrounds/file?')) {
+      const id = new URL(req.url, 'http://localhost').searchParams.get('id') ?? '';
+      const filePath = isBackgroundId(id) ? path.join(await getBackgroundsDir(), id) : null;
+      const stat = filePath ? await fs.stat(filePath).catch(() => null) : null;
+      if (!filePath || !stat?.isFile()) {
+        sendJson(res, 404, { ok: false, error: `Background not found: ${id}` });
+        return;
+      }
+      res.writeHead(200, {
+        'Content-Type': backgroundType(id).contentType,
+        'Content-Length': stat.size,
+        'Access-Control-Allow-Origin': '*',
+      });
+      // Client went away mid-stream — nothing left to answer
+      await pipeline(createReadStream(filePath), res).catch(() => {});
+      return;
+    }
+
+    // -----------------------------------------------------------------------
+    // GET /levels — UE level catalogue (empty when levels.json is missing)
+    // -----------------------------------------------------------------------
+    if (req.method === 'GET' && req.url === '/levels') {
+      const { catalogPath, levels } = await loadLevelCatalog();
+      sendJson(res, 200, { ok: true, catalogPath, levels });
+      return;
+    }
+
+    // -----------------------------------------------------------------------
+    // GET /avatars — avatar catalogue with thumbnail URLs
+    // -----------------------------------------------------------------------
+    if (req.method === 'GET' && req.url === '/avatars') {
+      const { catalogPath, avatars } = await loadAvatarCatalog();
+      sendJson(res, 200, {
+        ok: true,
+        catalogPath,
+        avatars: avatars.map((avatar) => ({
+          ...avatar,
+          thumbnailUrl: avatar.thumbnailPath
+            ? `/avatars/thumbnail?id=${encodeURIComponent(avatar.id)}`
+            : null,
+        })),
+      });
+      return;
+    }
+
+    // -----------------------------------------------------------------------
+    // GET /avatars/thumbnail?id=... — serve an avatar's thumbnail image
+    // -----------------------------------------------------------------------
+    if (req.method === 'GET' && req.url.startsWith('/avatars/thumbnail?')) {
+      const id = new URL(req.url, 'http://localhost').searchParams.get('id') ?? '';
+      const { catalogPath, avatars } = await loadAvatarCatalog();
+      const avatar = avatars.find((a) => a.id === id);
+      const filePath = avatar?.thumbnailPath ? resolveThumbnailPath(catalogPath, avatar.thumbnailPath) : null;
+      if (!filePath) {
+        sendJson(res, 404, { ok: false, error: `No thumbnail for avatar "${id}"` });
+        return;
+      }
+
+      let image;
+      try {
+        image = await fs.readFile(filePath);
+      } catch {
+        sendJson(res, 404, { ok: false, error: `Thumbnail not found: ${filePath}` });
+        return;
+      }
+      res.writeHead(200, {
+        'Content-Type': THUMBNAIL_CONTENT_TYPES[path.extname(filePath).toLowerCase()],
+        'Cache-Control': 'no-cache',
+        'Access-Control-Allow-Origin': '*',
+      });
+      res.end(image);
+      return;
+    }
+
     // -----------------------------------------------------------------------
     // POST /config/device-exe — set executable path for a specific device
     // -----------------------------------------------------------------------
@@ -1216,16 +1763,8 @@ const server = createServer(async (req, res) => {
       }
 
       try {
-        // Kill only the process with the same processId (not others)
-        killProcess(pid_key);
-
-        const child = await spawnStart2stream(resolved);
-        activeProcesses.set(pid_key, {
-          deviceId, child, exePath: resolved,
-          cwd: child._cwd || path.dirname(resolved),
-          trackedPids: child._cwdPids || [],
-          trackedPorts: child._trackedPorts || [],
-        });
+        // Replaces only the process with the same processId (not others)
+        const child = await startSupervised(pid_key, resolved, deviceId);
 
         // Bring the UE window to foreground once it appears (Windows, fire-and-forget)
         focusProcessWindow(child.pid);
@@ -1261,16 +1800,17 @@ const server = createServer(async (req, res) => {
       const exePath = typeof body.exePath === 'string' ? body.exePath.trim() : '';
       const pid_key = processId || DEFAULT_PROCESS_ID;
 
+      supervisor.stopped(pid_key);
       let killedDeviceId = killProcess(pid_key);
 
       // Fallback: if process wasn't tracked (e.g. server restarted) but exePath given,
-      // try cwd scan + port kill as safety net
-      if (killedDeviceId === null && exePath && os.platform() === 'win32') {
+      // try folder scan + port kill as safety net
+      if (killedDeviceId === null && exePath && platform.supported) {
         console.log(`[process/stop] no tracked process for "${pid_key}", fallback via exePath`);
         const trackDir = getTrackingCwd(exePath);
-        const pids = findProcessesByCwd(trackDir);
+        const pids = findProcessesByExecutable(trackDir);
         if (pids.length) {
-          console.log(`[process/stop] fallback: killing cwd processes: ${pids.join(', ')}`);
+          console.log(`[process/stop] fallback: killing folder processes: ${pids.join(', ')}`);
           killPids(pids);
         }
       }
@@ -1325,15 +1865,7 @@ const server = createServer(async (req, res) => {
       }
 
       try {
-        killProcess(pid_key);
-
-        const child = await spawnStart2stream(resolved);
-        activeProcesses.set(pid_key, {
-          deviceId, child, exePath: resolved,
-          cwd: child._cwd || path.dirname(resolved),
-          trackedPids: child._cwdPids || [],
-          trackedPorts: child._trackedPorts || [],
-        });
+        const child = await startSupervised(pid_key, resolved, deviceId);
 
         const realPid = (child._cwdPids && child._cwdPids.length)
           ? Number(child._cwdPids[0])
@@ -1360,21 +1892,35 @@ const server = createServer(async (req, res) => {
     // GET /process/status — check all process statuses
     // -----------------------------------------------------------------------
     if (req.method === 'GET' && req.url === '/process/status') {
-      // All named processes
-      const processes = {};
       for (const [key, entry] of activeProcesses) {
-        const alive = isProcessAlive(entry);
-        if (!alive) { activeProcesses.delete(key); continue; }
+        if (!entry.cancelStart && !isProcessAlive(entry)) {
+          reapProcess(
+            key,
+            entry.indirect ? null : entry.child.exitCode,
+            entry.indirect ? null : entry.child.signalCode,
+          );
+        }
+      }
+
+      // All named processes — running ones, ones still starting, and supervised ones that are down
+      const processes = {};
+      for (const key of new Set([...activeProcesses.keys(), ...startupPhases.keys(), ...supervisor.ids()])) {
+        const entry = activeProcesses.get(key);
 
         // For indirect spawns, return the real tracked PID, not the dead wrapper PID
-        const realPid = (entry.trackedPids && entry.trackedPids.length)
-          ? Number(entry.trackedPids[0])
-          : (entry.child.pid ?? null);
+        const realPid = !entry
+          ? null
+          : (entry.trackedPids && entry.trackedPids.length)
+            ? Number(entry.trackedPids[0])
+            : (entry.child.pid ?? null);
 
         processes[key] = {
-          running: true,
+          running: !!entry,
           pid: realPid,
-          deviceId: entry.deviceId || null,
+          deviceId: entry?.deviceId || null,
+          restartPolicy: getRestartPolicy(key),
+          supervisor: supervisor.status(key),
+          startup: startupPhases.get(key) ?? null,
         };
       }
 
@@ -1383,7 +1929,7 @@ const server = createServer(async (req, res) => {
 
       sendJson(res, 200, {
         ok: true,
-        running: !!defaultProc,
+        running: defaultProc?.running === true,
         pid: defaultProc?.pid ?? null,
         deviceId: defaultProc?.deviceId ?? null,
         processes,
@@ -1391,6 +1937,141 @@ const server = createServer(async (req, res) => {
       return;
     }
 
+    // -----------------------------------------------------------------------
+    // GET /process/policies — restart policy per processId
+    // -----------------------------------------------------------------------
+    if (req.method === 'GET' && req.url === '/process/policies') {
+      sendJson(res, 200, { ok: true, policies: restartPolicies });
+      return;
+    }
+
+    // -----------------------------------------------------------------------
+    // POST /process/policy — set a processId's restart policy
+    // -----------------------------------------------------------------------
+    if (req.method === 'POST' && req.url === '/process/policy') {
+      const body = await readBody(req);
+      const processId = typeof body.processId === 'string' ? body.processId.trim() : '';
+      if (!processId || !RESTART_POLICIES.includes(body.policy)) {
+        sendJson(res, 400, {
+          ok: false,
+          error: `processId and a policy (${RESTART_POLICIES.join(', ')}) are required`,
+        });
+        return;
+      }
+
+      const policy = normalizeRestartPolicy({
+        policy: body.policy,
+        maxRetries: body.maxRetries ?? getRestartPolicy(processId).maxRetries,
+      });
+      restartPolicies = { ...restartPolicies, [processId]: policy };
+      await writeConfig({ restartPolicies });
+      sendJson(res, 200, { ok: true, processId, ...policy });
+      return;
+    }
+
+    // -----------------------------------------------------------------------
+    // GET /stack/profiles — startup profiles (config, or the built-in kiosk one)
+    // -----------------------------------------------------------------------
+    if (req.method === 'GET' && req.url === '/stack/profiles') {
+      const { profiles, errors } = await readStartupProfiles();
+      sendJson(res, 200, { ok: true, profiles, errors });
+      return;
+    }
+
+    // -----------------------------------------------------------------------
+    // GET /stack/status — progress of the last stack start / stop
+    // -----------------------------------------------------------------------
+    if (req.method === 'GET' && req.url === '/stack/status') {
+      sendJson(res, 200, { ok: true, run: stackRun });
+      return;
+    }
+
+    // -----------------------------------------------------------------------
+    // POST /stack/start, /stack/stop — run a profile in dependency order
+    //   body: { profile, exePaths?: { [processId]: path } }; answers right away
+    // -----------------------------------------------------------------------
+    if (req.method === 'POST' && (req.url === '/stack/start' || req.url === '/stack/stop')) {
+      const body = await readBody(req);
+      const name = typeof body.profile === 'string' ? body.profile.trim() : '';
+      const { profiles } = await readStartupProfiles();
+      const profile = profiles[name];
+
+      if (!profile) {
+        sendJson(res, 404, { ok: false, error: `Unknown startup profile: ${name || '(none)'}` });
+        return;
+      }
+      if (stackRun?.state === 'running') {
+        sendJson(res, 409, { ok: false, error: `Stack ${stackRun.action} of ${stackRun.profile} still running` });
+        return;
+      }
+
+      const action = req.url === '/stack/start' ? 'start' : 'stop';
+      const exePaths = body.exePaths && typeof body.exePaths === 'object' ? body.exePaths : {};
+      sendJson(res, 202, { ok: true, run: beginStackRun(name, profile, action, exePaths) });
+      return;
+    }
+
+    // -----------------------------------------------------------------------
+    // GET /process/:id/logs?since=&limit= — stored output lines of a process
+    // GET /process/:id/logs/stream?since= — the same, then live, as SSE
+    // -----------------------------------------------------------------------
+    const logsRoute = req.method === 'GET' && /^\/process\/([^/?]+)\/logs(\/stream)?(?:\?|$)/.exec(req.url);
+    if (logsRoute) {
+      const processId = decodeURIComponent(logsRoute[1]);
+      const params = new URL(req.url, 'http://localhost').searchParams;
+      const log = processLogs.get(processId);
+
+      if (!logsRoute[2]) {
+        const since = parseLogQueryNumber(params.get('since'), 0);
+        const limit = parseLogQueryNumber(params.get('limit'), 500);
+        // A process that never started has no output yet
+        const entries = log ? log.read({ since, max: limit }) : [];
+        sendJson(res, 200, { ok: true, processId, entries, nextSeq: log?.nextSeq ?? 1 });
+        return;
+      }
+
+      // EventSource resends the last event id when it reconnects
+      const lastEventId = req.headers['last-event-id'];
+      const since = parseLogQueryNumber(
+        typeof lastEventId === 'string' ? lastEventId : params.get('since'),
+        0,
+      );
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'Access-Control-Allow-Origin': '*',
+      });
+      // Open the stream now, even when there is nothing to send yet
+      res.flushHeaders();
+      let unsubscribe;
+      const attach = (target) => {
+        for (const entry of target.read({ since })) res.write(formatLogEvent(entry));
+        unsubscribe = target.subscribe((entry) => res.write(formatLogEvent(entry)));
+      };
+      if (log) {
+        attach(log);
+      } else {
+        // Not started yet — stay open and follow the log its first start creates
+        if (!logWaiters.has(processId)) logWaiters.set(processId, new Set());
+        const waiters = logWaiters.get(processId);
+        waiters.add(attach);
+        unsubscribe = () => {
+          waiters.delete(attach);
+          if (!waiters.size && logWaiters.get(processId) === waiters) logWaiters.delete(processId);
+        };
+      }
+      // Comment lines keep proxies and idle timeouts from closing a quiet stream
+      const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 15_000);
+      logStreams.add(res);
+      req.on('close', () => {
+        unsubscribe();
+        clearInterval(keepAlive);
+        logStreams.delete(res);
+      });
+      return;
+    }
+
     // -----------------------------------------------------------------------
     // 404
     // -----------------------------------------------------------------------
@@ -1403,15 +2084,20 @@ const server = createServer(async (req, res) => {
   }
 });
 
+await faceCapture.load();
+await loadRestartPolicies();
+
 server.listen(PORT, '127.0.0.1', () => {
   console.log(`[agent-option-writer] listening on http://127.0.0.1:${PORT}`);
   console.log(`[agent-option-writer] config: ${CONFIG_PATH}`);
 });
 
 function shutdown() {
+  supervisor.stopAll();
   for (const key of [...activeProcesses.keys()]) {
     killProcess(key);
   }
+  for (const res of logStreams) res.end();
   server.close(() => process.exit(0));
   // Force exit if server.close hangs (e.g. browse request waiting for dialog)
   setTimeout(() => process.exit(1), 5_000).unref();
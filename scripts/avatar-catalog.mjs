@@ -0,0 +1,77 @@
+/**
+ * Avatar catalogue parsing for agent-option-writer.
+ *
+ * The catalogue is a local JSON file listing the avatars UE can switch to:
+ *
+ *   { "avatars": [
+ *       { "id": "AV_Anna", "name": "Anna", "thumbnail": "thumbs/anna.png", "tags": ["female", "business"] }
+ *   ] }
+ *
+ * A bare array of entries is accepted too. `thumbnail` is a path relative to
+ * the catalogue file (absolute paths are kept as-is).
+ */
+import path from 'node:path';
+
+/** Image types the thumbnail route serves, by lowercase extension */
+export const THUMBNAIL_CONTENT_TYPES = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+};
+
+/**
+ * Normalize parsed catalogue JSON.
+ * Entries without a usable id and repeated ids are skipped (first one wins);
+ * `name` defaults to the id, tags are trimmed, lowercased and de-duplicated.
+ *
+ * @param {unknown} data
+ * @returns {{ avatars: { id: string, name: string, thumbnailPath: string | null, tags: string[] }[], skipped: number }}
+ */
+export function parseAvatarCatalog(data) {
+  const entries = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray(data.avatars)
+      ? data.avatars
+      : null;
+  if (!entries) throw new Error('Avatar catalogue must be an array or { "avatars": [...] }');
+
+  const avatars = [];
+  const seen = new Set();
+  let skipped = 0;
+
+  for (const entry of entries) {
+    const id = entry && typeof entry.id === 'string' ? entry.id.trim() : '';
+    if (!id || seen.has(id)) {
+      skipped++;
+      continue;
+    }
+    seen.add(id);
+
+    const name = typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : id;
+    const thumbnail = typeof entry.thumbnail === 'string' ? entry.thumbnail.trim() : '';
+    const tags = Array.isArray(entry.tags)
+      ? [...new Set(entry.tags.filter((t) => typeof t === 'string').map((t) => t.trim().toLowerCase()).filter(Boolean))]
+      : [];
+
+    avatars.push({ id, name, thumbnailPath: thumbnail || null, tags });
+  }
+
+  return { avatars, skipped };
+}
+
+/**
+ * Absolute path of an avatar thumbnail, or null when the extension isn't a
+ * served image type.
+ *
+ * @param {string} catalogPath
+ * @param {string} thumbnailPath
+ * @returns {string | null}
+ */
+export function resolveThumbnailPath(catalogPath, thumbnailPath) {
+  const ext = path.extname(thumbnailPath).toLowerCase();
+  if (!(ext in THUMBNAIL_CONTENT_TYPES)) return null;
+  return path.resolve(path.dirname(catalogPath), thumbnailPath);
+}
@@ -0,0 +1,55 @@
+import path from 'node:path';
+import { describe, it, expect } from 'vitest';
+import { parseAvatarCatalog, resolveThumbnailPath } from './avatar-catalog.mjs';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// parseAvatarCatalog
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('parseAvatarCatalog', () => {
+  it('normalizes entries of an { avatars } object', () => {
+    const result = parseAvatarCatalog({
+      avatars: [
+        { id: ' AV_Anna ', name: 'Anna', thumbnail: 'thumbs/anna.png', tags: ['Female', ' business ', 'female', 3] },
+        { id: 'AV_Max' },
+      ],
+    });
+
+    expect(result).toEqual({
+      avatars: [
+        { id: 'AV_Anna', name: 'Anna', thumbnailPath: 'thumbs/anna.png', tags: ['female', 'business'] },
+        { id: 'AV_Max', name: 'AV_Max', thumbnailPath: null, tags: [] },
+      ],
+      skipped: 0,
+    });
+  });
+
+  it('accepts a bare array and skips entries without an id or with a repeated id', () => {
+    const result = parseAvatarCatalog([{ id: 'AV_Anna' }, { name: 'No id' }, null, { id: 'AV_Anna', name: 'Dup' }]);
+
+    expect(result.avatars.map((a) => a.name)).toEqual(['AV_Anna']);
+    expect(result.skipped).toBe(3);
+  });
+
+  it('rejects other shapes', () => {
+    expect(() => parseAvatarCatalog({ list: [] })).toThrow(/array/);
+    expect(() => parseAvatarCatalog('AV_Anna')).toThrow(/array/);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// resolveThumbnailPath
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('resolveThumbnailPath', () => {
+  const catalog = path.resolve('/data/avatars/avatars.json');
+
+  it('resolves relative to the catalogue file', () => {
+    expect(resolveThumbnailPath(catalog, 'thumbs/anna.PNG')).toBe(path.resolve('/data/avatars/thumbs/anna.PNG'));
+  });
+
+  it('refuses non-image files', () => {
+    expect(resolveThumbnailPath(catalog, '../../etc/passwd')).toBeNull();
+    expect(resolveThumbnailPath(catalog, 'notes.txt')).toBeNull();
+  });
+});
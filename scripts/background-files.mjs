@@ -0,0 +1,82 @@
+/**
+ * Custom background files for agent-option-writer.
+ *
+ * Backgrounds are plain image/video files in one local folder (config
+ * `backgroundsDir`, default `backgrounds/` next to the project root). The
+ * file name is the background id; UE receives the absolute path.
+ */
+import path from 'node:path';
+
+/** Accepted background files by lowercase extension */
+export const BACKGROUND_TYPES = {
+  '.png': { kind: 'image', contentType: 'image/png' },
+  '.jpg': { kind: 'image', contentType: 'image/jpeg' },
+  '.jpeg': { kind: 'image', contentType: 'image/jpeg' },
+  '.webp': { kind: 'image', contentType: 'image/webp' },
+  '.mp4': { kind: 'video', contentType: 'video/mp4' },
+  '.webm': { kind: 'video', contentType: 'video/webm' },
+  '.mov': { kind: 'video', contentType: 'video/quicktime' },
+};
+
+/** Uploads larger than this are rejected */
+export const MAX_BACKGROUND_BYTES = 500 * 1024 * 1024;
+
+/**
+ * Type info for a background file name, or null if it isn't an accepted type.
+ * @param {string} fileName
+ * @returns {{ kind: 'image' | 'video', contentType: string } | null}
+ */
+export function backgroundType(fileName) {
+  return BACKGROUND_TYPES[path.extname(fileName).toLowerCase()] ?? null;
+}
+
+/**
+ * Turn an uploaded file name into a safe background id: no directories,
+ * only letters, digits, `-`, `_` and `.` (others become `_`), accepted
+ * extension required. Returns null when nothing usable is left.
+ *
+ * @param {string} fileName
+ * @returns {string | null}
+ */
+export function sanitizeBackgroundName(fileName) {
+  const base = path.basename(String(fileName).replace(/\\/g, '/'));
+  const ext = path.extname(base).toLowerCase();
+  if (!(ext in BACKGROUND_TYPES)) return null;
+
+  const stem = base
+    .slice(0, base.length - ext.length)
+    .replace(/[^A-Za-z0-9._-]+/g, '_')
+    .replace(/^[._]+|[._]+$/g, '')
+    .slice(0, 80);
+  return stem ? `${stem}${ext}` : null;
+}
+
+/**
+ * `name`, or `name-2`, `name-3`, … when the name is already taken.
+ *
+ * @param {string} name sanitized file name
+ * @param {Iterable<string>} existing
+ * @returns {string}
+ */
+export function uniqueBackgroundName(name, existing) {
+  const taken = new Set([...existing].map((n) => n.toLowerCase()));
+  if (!taken.has(name.toLowerCase())) return name;
+
+  const ext = path.extname(name);
+  const stem = name.slice(0, name.length - ext.length);
+  for (let i = 2; ; i++) {
+    const candidate = `${stem}-${i}${ext}`;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
+  }
+}
+
+/**
+ * Whether `id` names a file directly inside the backgrounds folder
+ * (guards delete/serve against path traversal).
+ *
+ * @param {string} id
+ * @returns {boolean}
+ */
+export function isBackgroundId(id) {
+  return typeof id === 'string' && sanitizeBackgroundName(id) === id;
+}
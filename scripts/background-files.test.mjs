@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  backgroundType,
+  sanitizeBackgroundName,
+  uniqueBackgroundName,
+  isBackgroundId,
+} from './background-files.mjs';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// sanitizeBackgroundName
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('sanitizeBackgroundName', () => {
+  it('keeps safe names and lowercases the extension', () => {
+    expect(sanitizeBackgroundName('booth-wall_2.JPG')).toBe('booth-wall_2.jpg');
+  });
+
+  it('strips directories and replaces unsafe characters', () => {
+    expect(sanitizeBackgroundName('C:\\Users\\me\\Trade Show (final).mp4')).toBe('Trade_Show_final.mp4');
+    expect(sanitizeBackgroundName('../../etc/passwd.png')).toBe('passwd.png');
+  });
+
+  it('rejects unsupported types and empty stems', () => {
+    expect(sanitizeBackgroundName('notes.txt')).toBeNull();
+    expect(sanitizeBackgroundName('.png')).toBeNull();
+    expect(sanitizeBackgroundName('???.webm')).toBeNull();
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// uniqueBackgroundName / isBackgroundId / backgroundType
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('uniqueBackgroundName', () => {
+  it('numbers names that are taken (case-insensitive)', () => {
+    expect(uniqueBackgroundName('wall.png', [])).toBe('wall.png');
+    expect(uniqueBackgroundName('wall.png', ['Wall.png', 'wall-2.png'])).toBe('wall-3.png');
+  });
+});
+
+describe('isBackgroundId', () => {
+  it('accepts only plain file names of accepted types', () => {
+    expect(isBackgroundId('wall.png')).toBe(true);
+    expect(isBackgroundId('../wall.png')).toBe(false);
+    expect(isBackgroundId('wall png')).toBe(false);
+    expect(isBackgroundId('wall.exe')).toBe(false);
+  });
+});
+
+describe('backgroundType', () => {
+  it('classifies images and videos', () => {
+    expect(backgroundType('a.webp')).toEqual({ kind: 'image', contentType: 'image/webp' });
+    expect(backgroundType('a.MOV')).toEqual({ kind: 'video', contentType: 'video/quicktime' });
+    expect(backgroundType('a.gif')).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Face capture (human assistant mode) for agent-option-writer: forwards the
+ * `FaceCapture` command to the UE Remote API and remembers the last state UE
+ * confirmed, persisted as `faceCapture` (and the UE URL as `ueApiUrl`) in the
+ * writer config.
+ *
+ *   GET  /face-capture                         → 200 { ok, enabled, ueApiUrl, updatedAt }
+ *   POST /face-capture { enabled, ueApiUrl? }  → 200 state | 400 bad input / no URL | 502 UE failed
+ *
+ * The UE call times out after `UE_REQUEST_TIMEOUT_MS`; the client allows the
+ * POST longer (FACE_CAPTURE_TIMEOUT_MS in voiceAgentWriter.ts), so the UI gets
+ * "UE API unreachable" rather than a generic timeout of its own.
+ */
+
+/** Timeout for a single UE Remote API call (mirrors the Vite ue-api proxy). */
+export const UE_REQUEST_TIMEOUT_MS = 5_000;
+
+/**
+ * POST a command to the UE Remote API (`<baseUrl>/ravatar`).
+ * Same payload shape as `sendUeCommand` in src/services/ueRemoteApi.ts.
+ * Throws on network error, timeout or non-2xx response.
+ *
+ * @param {string} baseUrl
+ * @param {{ command: string } & Record<string, string>} payload
+ * @param {{ timeoutMs?: number }} [options]
+ */
+export async function sendUeCommand(baseUrl, payload, { timeoutMs = UE_REQUEST_TIMEOUT_MS } = {}) {
+  const url = `${baseUrl.replace(/\/+$/, '')}/ravatar`;
+  let res;
+  try {
+    res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (err) {
+    const reason = err?.name === 'TimeoutError' ? 'timeout' : err?.message ?? String(err);
+    throw new Error(`UE API unreachable at ${baseUrl} (${reason})`);
+  }
+  if (!res.ok) {
+    throw new Error(`UE API rejected ${payload.command} (HTTP ${res.status})`);
+  }
+}
+
+/**
+ * @typedef {{ enabled: boolean, ueApiUrl: string, updatedAt: string | null }} FaceCaptureState
+ */
+
+/**
+ * Face capture state plus the `/face-capture` routes, over the writer's
+ * config helpers. `sendCommand` is injectable for tests.
+ *
+ * @param {{
+ *   readConfig: () => Promise<Record<string, any> | null>,
+ *   writeConfig: (patch: Record<string, unknown>) => Promise<unknown>,
+ *   sendCommand?: typeof sendUeCommand,
+ * }} deps
+ */
+export function createFaceCapture({ readConfig, writeConfig, sendCommand = sendUeCommand }) {
+  /**
+   * Last confirmed state. Seeded from config by `load` so GET reports the real
+   * state after a page reload or backend restart. `enabled` only changes after
+   * UE accepted the command.
+   * @type {FaceCaptureState}
+   */
+  const state = { enabled: false, ueApiUrl: '', updatedAt: null };
+
+  /**
+   * Forward a FaceCapture command to UE and remember the confirmed state.
+   * `ueApiUrl` falls back to the last URL saved in config.
+   */
+  async function set(enabled, ueApiUrl) {
+    const baseUrl = ueApiUrl || state.ueApiUrl;
+    if (!baseUrl) {
+      throw Object.assign(new Error('No UE API URL configured'), { statusCode: 400 });
+    }
+
+    try {
+      await sendCommand(baseUrl, { command: 'FaceCapture', isFaceCapture: String(enabled) });
+    } catch (err) {
+      throw Object.assign(err, { statusCode: 502 });
+    }
+
+    state.enabled = enabled;
+    state.ueApiUrl = baseUrl;
+    state.updatedAt = new Date().toISOString();
+    await writeConfig({
+      ueApiUrl: baseUrl,
+      faceCapture: { enabled, updatedAt: state.updatedAt },
+    });
+
+    console.log(`[face-capture] ${enabled ? 'enabled' : 'disabled'} via ${baseUrl}`);
+    return { ...state };
+  }
+
+  return {
+    async load() {
+      const cfg = await readConfig();
+      state.enabled = cfg?.faceCapture?.enabled === true;
+      state.updatedAt = typeof cfg?.faceCapture?.updatedAt === 'string' ? cfg.faceCapture.updatedAt : null;
+      state.ueApiUrl = typeof cfg?.ueApiUrl === 'string' ? cfg.ueApiUrl : '';
+    },
+
+    /**
+     * Answer a `/face-capture` request.
+     *
+     * @param {'GET' | 'POST'} method
+     * @param {Record<string, unknown>} [body] parsed POST body
+     * @returns {Promise<{ status: number, payload: Record<string, unknown> }>}
+     */
+    async handle(method, body = {}) {
+      if (method === 'GET') return { status: 200, payload: { ok: true, ...state } };
+
+      if (typeof body.enabled !== 'boolean') {
+        return { status: 400, payload: { ok: false, error: 'enabled (boolean) is required' } };
+      }
+      const ueApiUrl = typeof body.ueApiUrl === 'string' ? body.ueApiUrl.trim() : '';
+
+      try {
+        return { status: 200, payload: { ok: true, ...(await set(body.enabled, ueApiUrl)) } };
+      } catch (error) {
+        console.error(`[face-capture] ${error instanceof Error ? error.message : error}`);
+        return {
+          status: error.statusCode ?? 500,
+          payload: {
+            ok: false,
+            error: error instanceof Error ? error.message : String(error),
+            enabled: state.enabled,
+          },
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer } from 'node:http';
+import { createFaceCapture, sendUeCommand } from './face-capture.mjs';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// sendUeCommand — against a local stand-in for UE
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('sendUeCommand', () => {
+  let server;
+  let baseUrl;
+  const received = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ url: req.url, body: JSON.parse(body) });
+        const payload = JSON.parse(body);
+        if (payload.command === 'Slow') return; // never answers
+        res.writeHead(payload.command === 'Bad' ? 500 : 200);
+        res.end();
+      });
+    });
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}/`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('posts the payload to <baseUrl>/ravatar', async () => {
+    await sendUeCommand(baseUrl, { command: 'FaceCapture', isFaceCapture: 'true' });
+    expect(received.at(-1)).toEqual({ url: '/ravatar', body: { command: 'FaceCapture', isFaceCapture: 'true' } });
+  });
+
+  it('reports rejections and timeouts as errors', async () => {
+    await expect(sendUeCommand(baseUrl, { command: 'Bad' })).rejects.toThrow('UE API rejected Bad (HTTP 500)');
+    await expect(sendUeCommand(baseUrl, { command: 'Slow' }, { timeoutMs: 50 })).rejects.toThrow(
+      `UE API unreachable at ${baseUrl} (timeout)`,
+    );
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GET / POST /face-capture
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('createFaceCapture', () => {
+  let config;
+  let sendCommand;
+  let faceCapture;
+
+  beforeEach(() => {
+    config = { ueApiUrl: 'http://ue:8081', faceCapture: { enabled: true, updatedAt: '2026-10-01T10:00:00.000Z' } };
+    sendCommand = vi.fn(async () => {});
+    faceCapture = createFaceCapture({
+      readConfig: async () => config,
+      writeConfig: async (patch) => {
+        config = { ...config, ...patch };
+      },
+      sendCommand,
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('GET reports the state saved in config', async () => {
+    await faceCapture.load();
+    expect(await faceCapture.handle('GET')).toEqual({
+      status: 200,
+      payload: { ok: true, enabled: true, ueApiUrl: 'http://ue:8081', updatedAt: '2026-10-01T10:00:00.000Z' },
+    });
+  });
+
+  it('POST forwards the command and persists the confirmed state', async () => {
+    await faceCapture.load();
+    const { status, payload } = await faceCapture.handle('POST', { enabled: false, ueApiUrl: ' http://ue-b:8081 ' });
+
+    expect(status).toBe(200);
+    expect(sendCommand).toHaveBeenCalledWith('http://ue-b:8081', { command: 'FaceCapture', isFaceCapture: 'false' });
+    expect(payload).toMatchObject({ ok: true, enabled: false, ueApiUrl: 'http://ue-b:8081' });
+    expect(config.ueApiUrl).toBe('http://ue-b:8081');
+    expect(config.faceCapture).toEqual({ enabled: false, updatedAt: payload.updatedAt });
+    expect((await faceCapture.handle('GET')).payload).toEqual(payload);
+  });
+
+  it('POST reuses the saved UE URL when none is given', async () => {
+    await faceCapture.load();
+    await faceCapture.handle('POST', { enabled: true });
+    expect(sendCommand).toHaveBeenCalledWith('http://ue:8081', { command: 'FaceCapture', isFaceCapture: 'true' });
+  });
+
+  it('POST rejects bad input and a missing UE URL without touching config', async () => {
+    config = null;
+    await faceCapture.load();
+
+    expect(await faceCapture.handle('POST', { enabled: 'yes' })).toEqual({
+      status: 400,
+      payload: { ok: false, error: 'enabled (boolean) is required' },
+    });
+    expect(await faceCapture.handle('POST', { enabled: true })).toEqual({
+      status: 400,
+      payload: { ok: false, error: 'No UE API URL configured', enabled: false },
+    });
+    expect(sendCommand).not.toHaveBeenCalled();
+    expect(config).toBeNull();
+  });
+
+  it('POST answers 502 and keeps the last state when UE fails', async () => {
+    await faceCapture.load();
+    sendCommand.mockRejectedValueOnce(new Error('UE API unreachable at http://ue:8081 (timeout)'));
+
+    expect(await faceCapture.handle('POST', { enabled: false })).toEqual({
+      status: 502,
+      payload: { ok: false, error: 'UE API unreachable at http://ue:8081 (timeout)', enabled: true },
+    });
+    expect(config.faceCapture.enabled).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * UE level catalogue parsing for agent-option-writer.
+ *
+ * The catalogue is a local JSON file listing the levels UE can load, so the
+ * content team can ship new levels without a frontend release:
+ *
+ *   { "levels": [
+ *       { "id": "LVL_Master_ModernOffice", "label": "Modern Office" },
+ *       "LVL_Master_Beach"
+ *   ] }
+ *
+ * A bare array is accepted too. Entries may be plain ids; `label` is optional.
+ */
+
+/** Same rule as LEVEL_ID_PATTERN in src/stores/ueControlStore.ts */
+export const LEVEL_ID_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+/**
+ * Normalize parsed catalogue JSON.
+ * Entries with a malformed or repeated id are skipped (first one wins);
+ * a missing label is left for the frontend to derive from the id.
+ *
+ * @param {unknown} data
+ * @returns {{ levels: { id: string, label?: string }[], skipped: number }}
+ */
+export function parseLevelCatalog(data) {
+  const entries = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray(data.levels)
+      ? data.levels
+      : null;
+  if (!entries) throw new Error('Level catalogue must be an array or { "levels": [...] }');
+
+  const levels = [];
+  const seen = new Set();
+  let skipped = 0;
+
+  for (const entry of entries) {
+    const raw = typeof entry === 'string' ? entry : entry && typeof entry.id === 'string' ? entry.id : '';
+    const id = raw.trim();
+    if (!LEVEL_ID_PATTERN.test(id) || seen.has(id)) {
+      skipped++;
+      continue;
+    }
+    seen.add(id);
+
+    const label = entry && typeof entry.label === 'string' ? entry.label.trim() : '';
+    levels.push(label ? { id, label } : { id });
+  }
+
+  return { levels, skipped };
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { parseLevelCatalog } from './level-catalog.mjs';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// parseLevelCatalog
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('parseLevelCatalog', () => {
+  it('accepts ids and { id, label } entries of a { levels } object', () => {
+    const result = parseLevelCatalog({
+      levels: [' LVL_Master_Beach ', { id: 'LVL_Master_Studio', label: ' Studio ' }, { id: 'LVL_Master_Roof' }],
+    });
+
+    expect(result).toEqual({
+      levels: [{ id: 'LVL_Master_Beach' }, { id: 'LVL_Master_Studio', label: 'Studio' }, { id: 'LVL_Master_Roof' }],
+      skipped: 0,
+    });
+  });
+
+  it('accepts a bare array and skips malformed or repeated ids', () => {
+    const result = parseLevelCatalog(['LVL_Master_Beach', 'LVL Master; rm', '', 42, 'LVL_Master_Beach']);
+
+    expect(result.levels).toEqual([{ id: 'LVL_Master_Beach' }]);
+    expect(result.skipped).toBe(4);
+  });
+
+  it('rejects other shapes', () => {
+    expect(() => parseLevelCatalog({ maps: [] })).toThrow(/array/);
+    expect(() => parseLevelCatalog(null)).toThrow(/array/);
+  });
+});
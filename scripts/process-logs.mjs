@@ -0,0 +1,121 @@
+/**
+ * Per-process output log for agent-option-writer: a ring buffer of the
+ * stdout / stderr lines a started process printed.
+ *
+ * Output arrives in arbitrary chunks; a line is only stored once its newline
+ * arrived (or the process exited — `flush`). Every line gets a sequence number
+ * that keeps counting across restarts of the same process id, so a client can
+ * ask for "everything after line N" and resume a stream without duplicates.
+ *
+ * `system` lines are the writer's own notes (started / exited) between runs.
+ */
+
+/** Lines kept per process; older ones are dropped */
+export const PROCESS_LOG_LIMIT = 2000;
+/** Longest stored line — a binary blob without newlines must not grow unbounded */
+export const PROCESS_LOG_LINE_MAX = 4000;
+
+/** @typedef {'stdout' | 'stderr' | 'system'} LogStream */
+/** @typedef {{ seq: number, at: string, stream: LogStream, line: string }} LogEntry */
+
+/**
+ * @param {number} [limit]
+ */
+export function createProcessLog(limit = PROCESS_LOG_LIMIT) {
+  /** @type {LogEntry[]} */
+  let entries = [];
+  let nextSeq = 1;
+  /** Unterminated tail of each stream's output */
+  const partial = { stdout: '', stderr: '' };
+  /** @type {Set<(entry: LogEntry) => void>} */
+  const listeners = new Set();
+
+  /** @param {LogStream} stream @param {string} line */
+  const append = (stream, line) => {
+    const entry = {
+      seq: nextSeq++,
+      at: new Date().toISOString(),
+      stream,
+      line: line.length > PROCESS_LOG_LINE_MAX ? `${line.slice(0, PROCESS_LOG_LINE_MAX)}…` : line,
+    };
+    entries.push(entry);
+    if (entries.length > limit) entries = entries.slice(-limit);
+    for (const listener of listeners) listener(entry);
+    return entry;
+  };
+
+  return {
+    /**
+     * Add a chunk of a process's output; returns the lines it completed.
+     * @param {'stdout' | 'stderr'} stream
+     * @param {Buffer | string} chunk
+     */
+    write(stream, chunk) {
+      const lines = (partial[stream] + chunk.toString()).split(/\r?\n/);
+      partial[stream] = lines.pop() ?? '';
+      // Keep the pending tail bounded too; it is stored once it hits the cap
+      if (partial[stream].length > PROCESS_LOG_LINE_MAX) {
+        lines.push(partial[stream]);
+        partial[stream] = '';
+      }
+      return lines.map((line) => append(stream, line));
+    },
+
+    /** Store unterminated output (the process exited mid-line) */
+    flush() {
+      for (const stream of /** @type {const} */ (['stdout', 'stderr'])) {
+        if (partial[stream]) append(stream, partial[stream]);
+        partial[stream] = '';
+      }
+    },
+
+    /** @param {string} line */
+    note(line) {
+      return append('system', line);
+    },
+
+    /**
+     * Stored lines after `since` (a seq), at most the last `max` of them.
+     * @param {{ since?: number, max?: number }} [options]
+     */
+    read({ since = 0, max = limit } = {}) {
+      const after = entries.filter((entry) => entry.seq > since);
+      return max > 0 ? after.slice(-max) : [];
+    },
+
+    /** Seq the next line will get */
+    get nextSeq() {
+      return nextSeq;
+    },
+
+    /**
+     * Call `listener` with every new line; returns the unsubscribe function.
+     * @param {(entry: LogEntry) => void} listener
+     */
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+/**
+ * Non-negative integer query parameter, or `fallback` if absent or malformed.
+ *
+ * @param {string | null} value
+ * @param {number} fallback
+ */
+export function parseLogQueryNumber(value, fallback) {
+  if (value === null || !/^\d+$/.test(value)) return fallback;
+  return Number(value);
+}
+
+/**
+ * One Server-Sent Events message for a line; `id` lets EventSource resume
+ * with `Last-Event-ID` after a reconnect.
+ *
+ * @param {LogEntry} entry
+ */
+export function formatLogEvent(entry) {
+  return `id: ${entry.seq}\ndata: ${JSON.stringify(entry)}\n\n`;
+}
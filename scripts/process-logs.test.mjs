@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createProcessLog,
+  formatLogEvent,
+  parseLogQueryNumber,
+  PROCESS_LOG_LINE_MAX,
+} from './process-logs.mjs';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Ring buffer
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('createProcessLog', () => {
+  it('stores complete lines only, joining lines split across chunks', () => {
+    const log = createProcessLog();
+    expect(log.write('stdout', 'listening on')).toEqual([]);
+    log.write('stdout', ' 8080\r\nready\npart');
+
+    expect(log.read().map((e) => [e.seq, e.stream, e.line])).toEqual([
+      [1, 'stdout', 'listening on 8080'],
+      [2, 'stdout', 'ready'],
+    ]);
+  });
+
+  it('keeps the pending tail of stdout and stderr apart', () => {
+    const log = createProcessLog();
+    log.write('stdout', 'out-');
+    log.write('stderr', 'err\n');
+    log.write('stdout', 'done\n');
+
+    expect(log.read().map((e) => `${e.stream}:${e.line}`)).toEqual(['stderr:err', 'stdout:out-done']);
+  });
+
+  it('stores unterminated output on flush', () => {
+    const log = createProcessLog();
+    log.write('stderr', 'fatal: no GPU');
+    log.flush();
+    log.flush();
+
+    expect(log.read().map((e) => e.line)).toEqual(['fatal: no GPU']);
+  });
+
+  it('drops the oldest lines beyond the limit and keeps numbering', () => {
+    const log = createProcessLog(3);
+    log.write('stdout', 'a\nb\nc\nd\ne\n');
+
+    expect(log.read().map((e) => [e.seq, e.line])).toEqual([[3, 'c'], [4, 'd'], [5, 'e']]);
+    expect(log.nextSeq).toBe(6);
+  });
+
+  it('reads after a seq and caps the count to the newest lines', () => {
+    const log = createProcessLog();
+    log.note('started');
+    log.write('stdout', '1\n2\n3\n');
+
+    expect(log.read({ since: 2 }).map((e) => e.line)).toEqual(['2', '3']);
+    expect(log.read({ max: 2 }).map((e) => e.line)).toEqual(['2', '3']);
+    expect(log.read({ max: 0 })).toEqual([]);
+    expect(log.read()[0]).toMatchObject({ stream: 'system', line: 'started' });
+  });
+
+  it('truncates very long lines, including ones without a newline', () => {
+    const log = createProcessLog();
+    log.write('stdout', `${'x'.repeat(PROCESS_LOG_LINE_MAX + 10)}\n`);
+    log.write('stdout', 'y'.repeat(PROCESS_LOG_LINE_MAX + 1));
+
+    const [long, pending] = log.read();
+    expect(long?.line).toHaveLength(PROCESS_LOG_LINE_MAX + 1);
+    expect(long?.line.endsWith('…')).toBe(true);
+    expect(pending?.line).toHaveLength(PROCESS_LOG_LINE_MAX + 1);
+  });
+
+  it('notifies subscribers of each new line until unsubscribed', () => {
+    const log = createProcessLog();
+    const seen = [];
+    const unsubscribe = log.subscribe((entry) => seen.push(entry.line));
+    log.write('stdout', 'a\nb\n');
+    unsubscribe();
+    log.note('c');
+
+    expect(seen).toEqual(['a', 'b']);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HTTP helpers
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('parseLogQueryNumber', () => {
+  it('accepts non-negative integers only', () => {
+    expect(parseLogQueryNumber('42', 0)).toBe(42);
+    expect(parseLogQueryNumber(null, 7)).toBe(7);
+    expect(parseLogQueryNumber('-1', 7)).toBe(7);
+    expect(parseLogQueryNumber('1e3', 7)).toBe(7);
+  });
+});
+
+describe('formatLogEvent', () => {
+  it('writes an SSE message with the seq as event id', () => {
+    const entry = { seq: 9, at: '2026-10-19T10:00:00.000Z', stream: 'stderr', line: 'boom' };
+    expect(formatLogEvent(entry)).toBe(`id: 9\ndata: ${JSON.stringify(entry)}\n\n`);
+  });
+});
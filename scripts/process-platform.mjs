@@ -0,0 +1,340 @@
+/**
+ * Platform layer for start2stream process tracking in agent-option-writer.
+ *
+ * Every platform implements the same operations:
+ *   - findProcessesByExecutable(directory) — PIDs of processes running an app from a directory
+ *   - getPortListenerPid(port)              — PID listening on a TCP port, or null
+ *   - snapshotListeners()                   — Map<portString, pidString> of all TCP listeners
+ *   - arePidsAlive(pids)                    — true if any of the PIDs still runs
+ *   - killPids(pids)                        — force-kill the PIDs and their child processes
+ *
+ * Windows asks PowerShell / taskkill; its directory match is a CommandLine
+ * search. Linux reads `/proc`: a process's `exe` link and `cmdline` for
+ * directory matching — by executable or interpreted script only, never by
+ * working directory (see processMatchesDirectory) — `/proc/net/tcp{,6}` plus
+ * the `fd` socket links for listeners, `stat` for parents and zombie state.
+ * Other platforms (macOS) track nothing — only the spawned child itself.
+ *
+ * PIDs and ports are strings throughout, like the PowerShell output they
+ * started as.
+ */
+import { readdirSync, readFileSync, readlinkSync } from 'node:fs';
+import { spawnSync } from 'node:child_process';
+import path from 'node:path';
+import os from 'node:os';
+
+/** Shells that merely sit in a directory (a terminal, the launcher) aren't the app */
+const LINUX_SHELL_NAMES = /^(bash|sh|dash|zsh|fish|ksh)$/;
+
+/** Interpreters whose first script argument, not the binary, is the app */
+const LINUX_INTERPRETER_NAMES = /^(node|nodejs|deno|bun|python[\d.]*|ruby|perl|java)$/;
+
+/** TCP state code for LISTEN in /proc/net/tcp */
+const TCP_LISTEN = '0A';
+
+// ---------------------------------------------------------------------------
+// /proc parsing (pure)
+// ---------------------------------------------------------------------------
+
+/**
+ * Listening sockets from the text of /proc/net/tcp or /proc/net/tcp6.
+ *
+ * @param {string} text
+ * @returns {{ port: string, inode: string }[]}
+ */
+export function parseProcNetTcp(text) {
+  const listeners = [];
+  for (const line of text.split('\n').slice(1)) {
+    const fields = line.trim().split(/\s+/);
+    // sl local_address rem_address st tx:rx tr:when retrnsmt uid timeout inode
+    if (fields.length < 10 || fields[3] !== TCP_LISTEN) continue;
+    const portHex = fields[1].split(':')[1];
+    const inode = fields[9];
+    if (!portHex || !/^[0-9A-Fa-f]+$/.test(portHex) || !/^\d+$/.test(inode) || inode === '0') continue;
+    listeners.push({ port: String(parseInt(portHex, 16)), inode });
+  }
+  return listeners;
+}
+
+/**
+ * Command name, state and parent PID from the text of /proc/<pid>/stat.
+ * The name is parenthesised and may itself contain spaces or parentheses.
+ *
+ * @param {string} text
+ * @returns {{ comm: string, state: string, ppid: string } | null}
+ */
+export function parseProcStat(text) {
+  const open = text.indexOf('(');
+  const close = text.lastIndexOf(')');
+  if (open < 0 || close < open) return null;
+  const [state, ppid] = text.slice(close + 2).split(' ');
+  if (!state || !ppid) return null;
+  return { comm: text.slice(open + 1, close), state, ppid };
+}
+
+/**
+ * Whether a process runs from `directory`: its executable lives in the
+ * directory (or below), or it is an interpreter whose script does. The
+ * working directory alone never counts, nor does an argument that merely
+ * mentions the path — an editor, `tail -f` or a second checkout isn't the app.
+ *
+ * @param {{ exe: string | null, cwd: string | null, args: string[] }} proc
+ * @param {string} directory absolute path
+ * @returns {boolean}
+ */
+export function processMatchesDirectory(proc, directory) {
+  const dir = directory.replace(/\/+$/, '') || '/';
+  const inside = (file) => {
+    if (!file) return false;
+    const resolved = path.resolve(proc.cwd ?? '/', file);
+    return resolved === dir || resolved.startsWith(`${dir}/`);
+  };
+  const [argv0 = '', ...rest] = proc.args;
+  if (inside(proc.exe) || (argv0.includes('/') && inside(argv0))) return true;
+  if (!LINUX_INTERPRETER_NAMES.test(path.basename(proc.exe ?? argv0))) return false;
+  return inside(rest.find((arg) => !arg.startsWith('-')));
+}
+
+/**
+ * The given PIDs plus every descendant, parents before children.
+ *
+ * @param {string[]} roots
+ * @param {Map<string, string>} parents pid → parent pid
+ * @returns {string[]}
+ */
+export function withDescendants(roots, parents) {
+  const children = new Map();
+  for (const [pid, ppid] of parents) {
+    if (!children.has(ppid)) children.set(ppid, []);
+    children.get(ppid).push(pid);
+  }
+  const result = [];
+  const seen = new Set();
+  const queue = [...roots];
+  while (queue.length) {
+    const pid = queue.shift();
+    if (seen.has(pid)) continue;
+    seen.add(pid);
+    result.push(pid);
+    queue.push(...(children.get(pid) ?? []));
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Linux (/proc)
+// ---------------------------------------------------------------------------
+
+/**
+ * @param {string} [procRoot] where procfs is mounted (tests point it at a fixture)
+ */
+export function createLinuxPlatform(procRoot = '/proc') {
+  const read = (...parts) => {
+    try { return readFileSync(path.join(procRoot, ...parts), 'utf8'); } catch { return null; }
+  };
+  const link = (...parts) => {
+    try { return readlinkSync(path.join(procRoot, ...parts)); } catch { return null; }
+  };
+  const pids = () => {
+    try { return readdirSync(procRoot).filter((name) => /^\d+$/.test(name)); } catch { return []; }
+  };
+  const stat = (pid) => {
+    const text = read(pid, 'stat');
+    return text ? parseProcStat(text) : null;
+  };
+
+  /** Map<inode, portString> of listening TCP sockets (IPv4 and IPv6) */
+  const listenerInodes = () => {
+    const inodes = new Map();
+    for (const file of ['tcp', 'tcp6']) {
+      for (const { port, inode } of parseProcNetTcp(read('net', file) ?? '')) inodes.set(inode, port);
+    }
+    return inodes;
+  };
+
+  /** Map<portString, pidString> — first process holding each listening socket */
+  const listenersByPort = () => {
+    const inodes = listenerInodes();
+    const ports = new Map();
+    if (!inodes.size) return ports;
+    for (const pid of pids()) {
+      let fds;
+      try { fds = readdirSync(path.join(procRoot, pid, 'fd')); } catch { continue; }
+      for (const fd of fds) {
+        const match = /^socket:\[(\d+)\]$/.exec(link(pid, 'fd', fd) ?? '');
+        const port = match && inodes.get(match[1]);
+        if (port && !ports.has(port)) ports.set(port, pid);
+      }
+    }
+    return ports;
+  };
+
+  const isAlive = (pid) => {
+    const info = stat(pid);
+    return info !== null && info.state !== 'Z';
+  };
+
+  return {
+    findProcessesByExecutable(directory) {
+      if (!directory) return [];
+      const dir = path.resolve(directory);
+      const found = [];
+      for (const pid of pids()) {
+        if (pid === String(process.pid)) continue;
+        const info = stat(pid);
+        if (!info || info.state === 'Z' || LINUX_SHELL_NAMES.test(info.comm)) continue;
+        const args = (read(pid, 'cmdline') ?? '').split('\0').filter(Boolean);
+        const proc = { exe: link(pid, 'exe'), cwd: link(pid, 'cwd'), args };
+        if (processMatchesDirectory(proc, dir)) found.push(`${pid}|${info.comm}`);
+      }
+      if (found.length) {
+        console.log(`[findProcessesByExecutable] found in "${path.basename(dir)}": ${found.join(', ')}`);
+      }
+      return found.map((e) => e.split('|')[0]);
+    },
+
+    getPortListenerPid(port) {
+      return listenersByPort().get(String(port)) ?? null;
+    },
+
+    snapshotListeners() {
+      return listenersByPort();
+    },
+
+    arePidsAlive(pidList) {
+      return pidList.some(isAlive);
+    },
+
+    killPids(pidList) {
+      if (!pidList.length) return;
+      const parents = new Map();
+      for (const pid of pids()) {
+        const info = stat(pid);
+        if (info) parents.set(pid, info.ppid);
+      }
+      // Whole trees, like taskkill /T — a wrapper's children would outlive it otherwise
+      for (const pid of withDescendants(pidList.map(String), parents)) {
+        if (pid === String(process.pid)) continue;
+        try { process.kill(Number(pid), 'SIGKILL'); } catch { /* already dead */ }
+      }
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Windows (PowerShell / taskkill)
+// ---------------------------------------------------------------------------
+
+function powershell(command, timeout) {
+  return spawnSync('powershell.exe', ['-NoProfile', '-Command', command], {
+    encoding: 'utf8', stdio: ['pipe', 'pipe', 'ignore'], timeout,
+  });
+}
+
+export function createWindowsPlatform() {
+  return {
+    /**
+     * Processes whose CommandLine references the directory — the ACTUAL running
+     * process (node.exe, LiveLinkHub.exe, etc.) regardless of how it was
+     * started (.lnk, .ahk, .bat). Shell/system processes that just happen to
+     * reference the path are filtered out.
+     */
+    findProcessesByExecutable(directory) {
+      if (!directory) return [];
+      try {
+        // Escape backslashes for PowerShell -like pattern
+        const pattern = directory.replace(/\\/g, '\\\\');
+        const result = powershell([
+          `Get-CimInstance Win32_Process`,
+          `| Where-Object {`,
+          `  $_.CommandLine -like '*${pattern}*'`,
+          `  -and $_.ProcessId -ne ${process.pid}`,
+          `  -and $_.Name -notmatch '^(cmd|powershell|conhost|explorer)\\.exe$'`,
+          `}`,
+          `| ForEach-Object { "$($_.ProcessId)|$($_.Name)" }`,
+        ].join(' '), 10000);
+
+        if (!result.stdout) return [];
+        const entries = result.stdout.split(/\r?\n/).map(l => l.trim()).filter(l => l.includes('|'));
+        if (entries.length) {
+          console.log(`[findProcessesByExecutable] found in "${path.basename(directory)}": ${entries.join(', ')}`);
+        }
+        return entries.map(e => e.split('|')[0]);
+      } catch { return []; }
+    },
+
+    getPortListenerPid(port) {
+      try {
+        const result = powershell(
+          `Get-NetTCPConnection -LocalPort ${port} -State Listen -ErrorAction SilentlyContinue ` +
+          `| Select-Object -First 1 -ExpandProperty OwningProcess`,
+          5000,
+        );
+        const pid = (result.stdout || '').trim();
+        return /^\d+$/.test(pid) ? pid : null;
+      } catch { return null; }
+    },
+
+    snapshotListeners() {
+      try {
+        const result = powershell(
+          `Get-NetTCPConnection -State Listen -ErrorAction SilentlyContinue ` +
+          `| ForEach-Object { "$($_.LocalPort)|$($_.OwningProcess)" }`,
+          10000,
+        );
+        const map = new Map();
+        for (const line of (result.stdout || '').split(/\r?\n/)) {
+          const parts = line.trim().split('|');
+          if (parts.length === 2 && /^\d+$/.test(parts[0]) && /^\d+$/.test(parts[1])) {
+            map.set(parts[0], parts[1]);
+          }
+        }
+        return map;
+      } catch { return new Map(); }
+    },
+
+    arePidsAlive(pids) {
+      if (!pids.length) return false;
+      try {
+        const result = powershell(
+          `Get-Process -Id ${pids.join(',')} -ErrorAction SilentlyContinue | Measure-Object | Select-Object -ExpandProperty Count`,
+          5000,
+        );
+        return parseInt(result.stdout?.trim() || '0', 10) > 0;
+      } catch { return false; }
+    },
+
+    killPids(pids) {
+      for (const pid of pids) {
+        try {
+          spawnSync('taskkill', ['/F', '/T', '/PID', String(pid)], { shell: true, stdio: 'ignore' });
+        } catch { /* already dead */ }
+      }
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+/** No tracking: only the spawned child itself is known */
+const UNSUPPORTED_PLATFORM = {
+  findProcessesByExecutable: () => [],
+  getPortListenerPid: () => null,
+  snapshotListeners: () => new Map(),
+  arePidsAlive: () => false,
+  killPids: () => {},
+};
+
+/**
+ * Process tracking for a platform; `supported` is false where nothing beyond
+ * the spawned child can be found or killed.
+ *
+ * @param {NodeJS.Platform} [platform]
+ */
+export function getProcessPlatform(platform = os.platform()) {
+  if (platform === 'win32') return { supported: true, ...createWindowsPlatform() };
+  if (platform === 'linux') return { supported: true, ...createLinuxPlatform() };
+  return { supported: false, ...UNSUPPORTED_PLATFORM };
+}
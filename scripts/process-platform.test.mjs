@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  parseProcNetTcp,
+  parseProcStat,
+  processMatchesDirectory,
+  withDescendants,
+  createLinuxPlatform,
+  getProcessPlatform,
+} from './process-platform.mjs';
+
+const TCP_HEADER =
+  '  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// /proc parsing
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('parseProcNetTcp', () => {
+  it('returns listening sockets with decimal ports', () => {
+    const text = [
+      TCP_HEADER,
+      '   0: 00000000:1F90 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 5555 1 0000000000000000 100 0 0 10 0',
+      '   1: 0100007F:0CEA 0100007F:D2F0 01 00000000:00000000 00:00000000 00000000  1000        0 7777 1 0000000000000000 20 4 30 10 -1',
+      '   2: 00000000:0050 00000000:0000 0A 00000000:00000000 00:00000000 00000000     0        0 0 1 0000000000000000 100 0 0 10 0',
+    ].join('\n');
+
+    expect(parseProcNetTcp(text)).toEqual([{ port: '8080', inode: '5555' }]);
+  });
+
+  it('reads IPv6 addresses', () => {
+    const text = [
+      TCP_HEADER,
+      '   0: 00000000000000000000000000000000:22B8 00000000000000000000000000000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 6666 1 0000000000000000 100 0 0 10 0',
+    ].join('\n');
+
+    expect(parseProcNetTcp(text)).toEqual([{ port: '8888', inode: '6666' }]);
+  });
+});
+
+describe('parseProcStat', () => {
+  it('keeps command names with spaces and parentheses intact', () => {
+    expect(parseProcStat('4242 (Web Content (x)) S 17 4242 4242 0 -1')).toEqual({
+      comm: 'Web Content (x)',
+      state: 'S',
+      ppid: '17',
+    });
+    expect(parseProcStat('garbage')).toBeNull();
+  });
+});
+
+describe('processMatchesDirectory', () => {
+  it('matches an executable inside the folder', () => {
+    expect(processMatchesDirectory({ exe: '/srv/s2s/bin/UnrealGame', cwd: '/', args: [] }, '/srv/s2s/')).toBe(true);
+    expect(processMatchesDirectory({ exe: null, cwd: '/srv/s2s', args: ['./bin/UnrealGame'] }, '/srv/s2s')).toBe(true);
+    expect(processMatchesDirectory({ exe: '/srv/s2s-old/run', cwd: '/', args: [] }, '/srv/s2s')).toBe(false);
+  });
+
+  it('matches an interpreter running a script inside the folder', () => {
+    const node = { exe: '/usr/bin/node', cwd: '/', args: ['node', '--inspect', '/srv/s2s/server.js'] };
+    expect(processMatchesDirectory(node, '/srv/s2s')).toBe(true);
+    expect(processMatchesDirectory({ ...node, cwd: '/srv/s2s', args: ['node', 'server.js'] }, '/srv/s2s')).toBe(true);
+    expect(processMatchesDirectory({ ...node, args: ['node', '/srv/other/x.js', '/srv/s2s/a'] }, '/srv/s2s')).toBe(false);
+  });
+
+  it('ignores the working directory and arguments that merely mention the folder', () => {
+    expect(processMatchesDirectory({ exe: '/usr/bin/vim', cwd: '/srv/s2s/bin', args: ['vim'] }, '/srv/s2s')).toBe(false);
+    expect(processMatchesDirectory({ exe: null, cwd: '/srv/s2s', args: ['less'] }, '/srv/s2s')).toBe(false);
+    const tail = { exe: '/usr/bin/tail', cwd: '/', args: ['tail', '-f', '/srv/s2s/log.txt'] };
+    expect(processMatchesDirectory(tail, '/srv/s2s')).toBe(false);
+    expect(processMatchesDirectory({ exe: null, cwd: null, args: [] }, '/srv/s2s')).toBe(false);
+  });
+});
+
+describe('withDescendants', () => {
+  it('adds children and grandchildren after their parents', () => {
+    const parents = new Map([
+      ['10', '1'],
+      ['11', '10'],
+      ['12', '11'],
+      ['20', '1'],
+    ]);
+    expect(withDescendants(['10'], parents)).toEqual(['10', '11', '12']);
+    expect(withDescendants(['99'], parents)).toEqual(['99']);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// createLinuxPlatform — against a /proc fixture
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('createLinuxPlatform', () => {
+  let procRoot;
+
+  function addProcess(pid, { comm, state = 'S', ppid = '1', exe, cwd, args = [], sockets = [] }) {
+    const dir = path.join(procRoot, pid);
+    mkdirSync(path.join(dir, 'fd'), { recursive: true });
+    writeFileSync(path.join(dir, 'stat'), `${pid} (${comm}) ${state} ${ppid} ${pid} ${pid} 0 -1`);
+    writeFileSync(path.join(dir, 'cmdline'), args.map((a) => `${a}\0`).join(''));
+    if (exe) symlinkSync(exe, path.join(dir, 'exe'));
+    symlinkSync(cwd, path.join(dir, 'cwd'));
+    sockets.forEach((inode, i) => symlinkSync(`socket:[${inode}]`, path.join(dir, 'fd', String(i + 3))));
+  }
+
+  beforeAll(() => {
+    procRoot = mkdtempSync(path.join(os.tmpdir(), 'rvtr-proc-'));
+    mkdirSync(path.join(procRoot, 'net'));
+    writeFileSync(
+      path.join(procRoot, 'net', 'tcp'),
+      `${TCP_HEADER}\n   0: 00000000:1F90 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 5555 1\n`,
+    );
+    writeFileSync(
+      path.join(procRoot, 'net', 'tcp6'),
+      `${TCP_HEADER}\n   0: 00000000000000000000000000000000:22B8 00000000000000000000000000000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 6666 1\n`,
+    );
+    addProcess('100', {
+      comm: 'node',
+      exe: '/usr/bin/node',
+      cwd: '/home/ops',
+      args: ['node', '/srv/s2s/server.js'],
+      sockets: ['5555'],
+    });
+    addProcess('200', { comm: 'bash', exe: '/usr/bin/bash', cwd: '/srv/s2s' });
+    addProcess('300', { comm: 'UnrealGame', ppid: '100', exe: '/srv/s2s/bin/UnrealGame', cwd: '/', sockets: ['6666'] });
+    addProcess('400', { comm: 'defunct', state: 'Z', cwd: '/srv/s2s' });
+    addProcess('500', { comm: 'other', exe: '/usr/bin/other', cwd: '/srv/other' });
+    addProcess('600', { comm: 'tail', exe: '/usr/bin/tail', cwd: '/srv/s2s', args: ['tail', '-f', '/srv/s2s/log.txt'] });
+  });
+
+  afterAll(() => {
+    rmSync(procRoot, { recursive: true, force: true });
+  });
+
+  it('finds processes by executable or interpreted script, skipping shells, zombies and viewers', () => {
+    const found = createLinuxPlatform(procRoot).findProcessesByExecutable('/srv/s2s');
+    expect(found.sort()).toEqual(['100', '300']);
+  });
+
+  it('maps listening ports to the processes holding the sockets', () => {
+    const platform = createLinuxPlatform(procRoot);
+    expect(platform.snapshotListeners()).toEqual(
+      new Map([
+        ['8080', '100'],
+        ['8888', '300'],
+      ]),
+    );
+    expect(platform.getPortListenerPid(8888)).toBe('300');
+    expect(platform.getPortListenerPid(9999)).toBeNull();
+  });
+
+  it('counts zombies and missing PIDs as dead', () => {
+    const platform = createLinuxPlatform(procRoot);
+    expect(platform.arePidsAlive(['400', '999'])).toBe(false);
+    expect(platform.arePidsAlive(['400', '300'])).toBe(true);
+  });
+});
+
+describe('getProcessPlatform', () => {
+  it('tracks nothing beyond the spawned child on other platforms', () => {
+    const platform = getProcessPlatform('darwin');
+    expect(platform.supported).toBe(false);
+    expect(platform.findProcessesByExecutable('/srv/s2s')).toEqual([]);
+    expect(platform.snapshotListeners()).toEqual(new Map());
+  });
+});
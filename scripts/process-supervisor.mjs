@@ -0,0 +1,223 @@
+/**
+ * Supervisor for processes started through agent-option-writer: restarts a
+ * process that exited on its own, according to its restart policy.
+ *
+ *   never      — leave it down
+ *   on-failure — restart unless it exited with code 0
+ *   always     — restart after any exit
+ *
+ * Restarts wait an exponential backoff (1s, 2s, 4s … 30s). The supervisor
+ * gives up after `maxRetries` restarts since the last manual start, or at
+ * once when the process crash-loops (`CRASH_LOOP_EXITS` exits within
+ * `CRASH_LOOP_WINDOW_MS`) — a process that can't stay up needs a person.
+ *
+ * Only exits the writer didn't cause count: Stop / Start / Restart tell the
+ * supervisor first (`stopped`, `started`).
+ */
+
+export const RESTART_POLICIES = ['never', 'on-failure', 'always'];
+export const DEFAULT_MAX_RETRIES = 5;
+export const RESTART_BACKOFF_BASE_MS = 1_000;
+export const RESTART_BACKOFF_MAX_MS = 30_000;
+export const CRASH_LOOP_EXITS = 3;
+export const CRASH_LOOP_WINDOW_MS = 60_000;
+
+/**
+ * @typedef {'never' | 'on-failure' | 'always'} RestartPolicyName
+ * @typedef {{ policy: RestartPolicyName, maxRetries: number }} RestartPolicy
+ * @typedef {'running' | 'backoff' | 'restarting' | 'exited' | 'crash-loop' | 'gave-up' | 'stopped'} SupervisorState
+ */
+
+/**
+ * A restart policy from config / request input; invalid fields fall back to
+ * the defaults (never, `DEFAULT_MAX_RETRIES`).
+ *
+ * @param {unknown} raw
+ * @returns {RestartPolicy}
+ */
+export function normalizeRestartPolicy(raw) {
+  const record = raw && typeof raw === 'object' ? /** @type {Record<string, unknown>} */ (raw) : {};
+  const policy = RESTART_POLICIES.includes(/** @type {string} */ (record.policy))
+    ? /** @type {RestartPolicyName} */ (record.policy)
+    : 'never';
+  const maxRetries =
+    Number.isInteger(record.maxRetries) && /** @type {number} */ (record.maxRetries) >= 0
+      ? /** @type {number} */ (record.maxRetries)
+      : DEFAULT_MAX_RETRIES;
+  return { policy, maxRetries };
+}
+
+/**
+ * Delay before the `attempt`-th restart (1-based).
+ *
+ * @param {number} attempt
+ */
+export function restartBackoffMs(attempt) {
+  return Math.min(RESTART_BACKOFF_BASE_MS * 2 ** Math.max(0, attempt - 1), RESTART_BACKOFF_MAX_MS);
+}
+
+/**
+ * @param {number[]} exitTimes epoch ms of recent exits
+ * @param {number} now
+ */
+export function isCrashLoop(exitTimes, now) {
+  return exitTimes.filter((at) => now - at < CRASH_LOOP_WINDOW_MS).length >= CRASH_LOOP_EXITS;
+}
+
+/**
+ * @param {RestartPolicyName} policy
+ * @param {number | null} code exit code; null = unknown or killed by a signal
+ */
+export function shouldRestart(policy, code) {
+  if (policy === 'always') return true;
+  if (policy === 'on-failure') return code !== 0;
+  return false;
+}
+
+/**
+ * @template Launch
+ * @param {{
+ *   getPolicy: (processId: string) => RestartPolicy,
+ *   relaunch: (processId: string, launch: Launch) => Promise<unknown>,
+ *   discard: (processId: string) => void,
+ *   note?: (processId: string, message: string) => void,
+ *   now?: () => number,
+ *   setTimer?: (fn: () => void, ms: number) => unknown,
+ *   clearTimer?: (timer: unknown) => void,
+ * }} deps `relaunch` starts the process again (rejects if it fails to come up);
+ *   `discard` kills one that came up after it was stopped meanwhile
+ */
+export function createSupervisor({
+  getPolicy,
+  relaunch,
+  discard,
+  note = () => {},
+  now = Date.now,
+  setTimer = setTimeout,
+  clearTimer = clearTimeout,
+}) {
+  /**
+   * @type {Map<string, {
+   *   state: SupervisorState, launch: Launch, restarts: number, exits: number[],
+   *   lastExitCode: number | null, lastExitSignal: string | null, lastExitAt: number | null,
+   *   nextRestartAt: number | null, timer: unknown,
+   * }>}
+   */
+  const processes = new Map();
+
+  const cancelTimer = (entry) => {
+    if (entry.timer !== null) clearTimer(entry.timer);
+    entry.timer = null;
+    entry.nextRestartAt = null;
+  };
+
+  const attempt = async (processId, entry) => {
+    entry.timer = null;
+    entry.nextRestartAt = null;
+    entry.state = 'restarting';
+    entry.restarts += 1;
+    note(processId, `Restarting (${entry.restarts}/${getPolicy(processId).maxRetries})`);
+    try {
+      await relaunch(processId, entry.launch);
+      if (entry.state === 'restarting') entry.state = 'running';
+      else discard(processId);
+    } catch (error) {
+      if (entry.state !== 'restarting') return;
+      note(processId, `Restart failed: ${error instanceof Error ? error.message : error}`);
+      entry.state = 'running';
+      supervisor.exited(processId, { code: null, signal: null });
+    }
+  };
+
+  const supervisor = {
+    /**
+     * A manual start succeeded — supervise it with a fresh retry budget.
+     * @param {string} processId
+     * @param {Launch} launch what `relaunch` needs to start it again
+     */
+    started(processId, launch) {
+      const previous = processes.get(processId);
+      if (previous) cancelTimer(previous);
+      processes.set(processId, {
+        state: 'running',
+        launch,
+        restarts: 0,
+        exits: [],
+        lastExitCode: previous?.lastExitCode ?? null,
+        lastExitSignal: previous?.lastExitSignal ?? null,
+        lastExitAt: previous?.lastExitAt ?? null,
+        nextRestartAt: null,
+        timer: null,
+      });
+    },
+
+    /**
+     * The process is being stopped (or replaced) on purpose; cancels a pending restart.
+     * @param {string} processId
+     */
+    stopped(processId) {
+      const entry = processes.get(processId);
+      if (!entry) return;
+      cancelTimer(entry);
+      entry.state = 'stopped';
+    },
+
+    /**
+     * The process went away on its own. Ignored unless it is supervised and running.
+     * @param {string} processId
+     * @param {{ code: number | null, signal: string | null }} exit
+     */
+    exited(processId, { code, signal }) {
+      const entry = processes.get(processId);
+      if (!entry || entry.state !== 'running') return;
+      const at = now();
+      entry.lastExitCode = code;
+      entry.lastExitSignal = signal;
+      entry.lastExitAt = at;
+      entry.exits = [...entry.exits, at].filter((t) => at - t < CRASH_LOOP_WINDOW_MS);
+
+      const { policy, maxRetries } = getPolicy(processId);
+      if (!shouldRestart(policy, code)) {
+        entry.state = 'exited';
+      } else if (isCrashLoop(entry.exits, at)) {
+        entry.state = 'crash-loop';
+        note(processId, `Crash loop: ${entry.exits.length} exits within ${CRASH_LOOP_WINDOW_MS / 1000}s, not restarting`);
+      } else if (entry.restarts >= maxRetries) {
+        entry.state = 'gave-up';
+        note(processId, `Gave up after ${entry.restarts} restart${entry.restarts === 1 ? '' : 's'}`);
+      } else {
+        const delay = restartBackoffMs(entry.restarts + 1);
+        entry.state = 'backoff';
+        entry.nextRestartAt = at + delay;
+        entry.timer = setTimer(() => void attempt(processId, entry), delay);
+        note(processId, `Exited (code=${code ?? '?'}), restarting in ${delay / 1000}s`);
+      }
+    },
+
+    /**
+     * @param {string} processId
+     * @returns {{
+     *   state: SupervisorState, restarts: number, lastExitCode: number | null,
+     *   lastExitSignal: string | null, lastExitAt: number | null, nextRestartAt: number | null,
+     * } | null}
+     */
+    status(processId) {
+      const entry = processes.get(processId);
+      if (!entry) return null;
+      const { state, restarts, lastExitCode, lastExitSignal, lastExitAt, nextRestartAt } = entry;
+      return { state, restarts, lastExitCode, lastExitSignal, lastExitAt, nextRestartAt };
+    },
+
+    /** Ids the supervisor has seen started */
+    ids() {
+      return [...processes.keys()];
+    },
+
+    /** Cancel every pending restart (shutdown) */
+    stopAll() {
+      for (const processId of processes.keys()) supervisor.stopped(processId);
+    },
+  };
+
+  return supervisor;
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createSupervisor,
+  isCrashLoop,
+  normalizeRestartPolicy,
+  restartBackoffMs,
+  shouldRestart,
+  CRASH_LOOP_WINDOW_MS,
+  DEFAULT_MAX_RETRIES,
+  RESTART_BACKOFF_MAX_MS,
+} from './process-supervisor.mjs';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Policy helpers
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('normalizeRestartPolicy', () => {
+  it('keeps valid fields and defaults the rest', () => {
+    expect(normalizeRestartPolicy({ policy: 'always', maxRetries: 2 })).toEqual({ policy: 'always', maxRetries: 2 });
+    expect(normalizeRestartPolicy({ policy: 'sometimes', maxRetries: -1 })).toEqual({
+      policy: 'never',
+      maxRetries: DEFAULT_MAX_RETRIES,
+    });
+    expect(normalizeRestartPolicy(null)).toEqual({ policy: 'never', maxRetries: DEFAULT_MAX_RETRIES });
+  });
+});
+
+describe('restartBackoffMs', () => {
+  it('doubles per attempt up to the cap', () => {
+    expect([1, 2, 3, 4].map(restartBackoffMs)).toEqual([1_000, 2_000, 4_000, 8_000]);
+    expect(restartBackoffMs(20)).toBe(RESTART_BACKOFF_MAX_MS);
+  });
+});
+
+describe('shouldRestart / isCrashLoop', () => {
+  it('restarts per policy', () => {
+    expect(shouldRestart('never', 1)).toBe(false);
+    expect(shouldRestart('on-failure', 0)).toBe(false);
+    expect(shouldRestart('on-failure', null)).toBe(true);
+    expect(shouldRestart('always', 0)).toBe(true);
+  });
+
+  it('counts only exits inside the window', () => {
+    const now = 100_000;
+    expect(isCrashLoop([now - 1_000, now - 2_000, now - 3_000], now)).toBe(true);
+    expect(isCrashLoop([now - CRASH_LOOP_WINDOW_MS, now - 2_000, now - 3_000], now)).toBe(false);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Supervisor
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('createSupervisor', () => {
+  let policy;
+  let relaunch;
+  let discard;
+  let supervisor;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    policy = { policy: 'on-failure', maxRetries: 5 };
+    relaunch = vi.fn(() => Promise.resolve());
+    discard = vi.fn();
+    supervisor = createSupervisor({ getPolicy: () => policy, relaunch, discard });
+    supervisor.started('kiosk-app', { exePath: '/srv/kiosk/run.sh' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('restarts a failed process after the backoff with its launch info', async () => {
+    supervisor.exited('kiosk-app', { code: 1, signal: null });
+    expect(supervisor.status('kiosk-app')).toMatchObject({ state: 'backoff', lastExitCode: 1, restarts: 0 });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(relaunch).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(relaunch).toHaveBeenCalledWith('kiosk-app', { exePath: '/srv/kiosk/run.sh' });
+    expect(supervisor.status('kiosk-app')).toMatchObject({ state: 'running', restarts: 1, nextRestartAt: null });
+  });
+
+  it('leaves clean exits alone under on-failure and every exit under never', () => {
+    supervisor.exited('kiosk-app', { code: 0, signal: null });
+    expect(supervisor.status('kiosk-app')?.state).toBe('exited');
+
+    policy = { policy: 'never', maxRetries: 5 };
+    supervisor.started('kiosk-app', { exePath: '/srv/kiosk/run.sh' });
+    supervisor.exited('kiosk-app', { code: 3, signal: null });
+    expect(supervisor.status('kiosk-app')?.state).toBe('exited');
+  });
+
+  it('ignores exits it caused and cancels a pending restart on stop', async () => {
+    supervisor.exited('kiosk-app', { code: 1, signal: null });
+    supervisor.stopped('kiosk-app');
+    supervisor.exited('kiosk-app', { code: null, signal: 'SIGKILL' });
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(relaunch).not.toHaveBeenCalled();
+    expect(supervisor.status('kiosk-app')).toMatchObject({ state: 'stopped', lastExitCode: 1 });
+  });
+
+  it('gives up after maxRetries restarts', async () => {
+    policy = { policy: 'always', maxRetries: 1 };
+    supervisor.exited('kiosk-app', { code: 1, signal: null });
+    await vi.advanceTimersByTimeAsync(1_000);
+    // Outside the crash-loop window
+    await vi.advanceTimersByTimeAsync(CRASH_LOOP_WINDOW_MS);
+    supervisor.exited('kiosk-app', { code: 1, signal: null });
+
+    expect(relaunch).toHaveBeenCalledTimes(1);
+    expect(supervisor.status('kiosk-app')).toMatchObject({ state: 'gave-up', restarts: 1 });
+  });
+
+  it('stops restarting when the process crash-loops, counting failed relaunches', async () => {
+    relaunch.mockRejectedValue(new Error('Process exited during startup'));
+    supervisor.exited('kiosk-app', { code: 1, signal: null });
+    await vi.advanceTimersByTimeAsync(1_000);
+    await vi.advanceTimersByTimeAsync(2_000);
+
+    expect(relaunch).toHaveBeenCalledTimes(2);
+    expect(supervisor.status('kiosk-app')).toMatchObject({ state: 'crash-loop', restarts: 2, lastExitCode: null });
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(relaunch).toHaveBeenCalledTimes(2);
+  });
+
+  it('discards a relaunch that finished after a stop', async () => {
+    let finish;
+    relaunch.mockReturnValue(new Promise((resolve) => (finish = resolve)));
+    supervisor.exited('kiosk-app', { code: 1, signal: null });
+    await vi.advanceTimersByTimeAsync(1_000);
+    supervisor.stopped('kiosk-app');
+    finish();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(discard).toHaveBeenCalledWith('kiosk-app');
+    expect(supervisor.status('kiosk-app')?.state).toBe('stopped');
+  });
+
+  it('resets the retry budget on a manual start but keeps the last exit', async () => {
+    supervisor.exited('kiosk-app', { code: 2, signal: null });
+    await vi.advanceTimersByTimeAsync(1_000);
+    supervisor.started('kiosk-app', { exePath: '/srv/kiosk/run.sh' });
+
+    expect(supervisor.status('kiosk-app')).toMatchObject({ state: 'running', restarts: 0, lastExitCode: 2 });
+    expect(supervisor.status('agentic-proxy')).toBeNull();
+  });
+});
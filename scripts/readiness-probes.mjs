@@ -0,0 +1,181 @@
+/**
+ * Readiness probes for processes started by agent-option-writer — "is it
+ * actually up?", beyond "the process didn't exit".
+ *
+ *   { type: 'port', port, host? }  — a TCP connection to the port succeeds
+ *   { type: 'http', url }          — GET answers 200
+ *   { type: 'log', pattern }       — an output line matches the regex
+ *
+ * `waitForReady` retries a probe every `PROBE_INTERVAL_MS` until it passes or
+ * the timeout runs out.
+ *
+ * Probes per processId live in the writer config's `readiness` (used by
+ * /process/start and supervisor restarts); startup profiles may set their own.
+ */
+import net from 'node:net';
+
+export const PROBE_TYPES = ['port', 'http', 'log'];
+export const PROBE_INTERVAL_MS = 500;
+export const DEFAULT_READY_TIMEOUT_MS = 30_000;
+/** Cap for per-process checks — /process/start holds the request open meanwhile */
+export const MAX_READY_TIMEOUT_MS = 120_000;
+/** One connection / request attempt */
+const PROBE_ATTEMPT_TIMEOUT_MS = 2_000;
+
+/**
+ * @typedef {{ type: 'port', port: number, host: string }
+ *   | { type: 'http', url: string }
+ *   | { type: 'log', pattern: string }} ReadinessProbe
+ * @typedef {{ readiness: ReadinessProbe, timeoutMs: number }} ReadinessCheck
+ */
+
+/**
+ * A probe from config / request input.
+ *
+ * @param {unknown} raw
+ * @returns {{ probe: ReadinessProbe | null, error: string | null }}
+ */
+export function parseReadinessProbe(raw) {
+  if (!raw || typeof raw !== 'object') return { probe: null, error: 'must be an object' };
+  const r = /** @type {Record<string, unknown>} */ (raw);
+  if (r.type === 'port') {
+    if (!Number.isInteger(r.port) || /** @type {number} */ (r.port) < 1 || /** @type {number} */ (r.port) > 65535) {
+      return { probe: null, error: 'port must be 1-65535' };
+    }
+    const host = typeof r.host === 'string' && r.host.trim() ? r.host.trim() : '127.0.0.1';
+    return { probe: { type: 'port', port: /** @type {number} */ (r.port), host }, error: null };
+  }
+  if (r.type === 'http') {
+    let url;
+    try {
+      url = new URL(String(r.url));
+    } catch {
+      return { probe: null, error: 'url must be an http(s) URL' };
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return { probe: null, error: 'url must be an http(s) URL' };
+    }
+    return { probe: { type: 'http', url: url.href }, error: null };
+  }
+  if (r.type === 'log') {
+    if (typeof r.pattern !== 'string' || !r.pattern) return { probe: null, error: 'pattern is required' };
+    try {
+      new RegExp(r.pattern);
+    } catch {
+      return { probe: null, error: `invalid pattern: ${r.pattern}` };
+    }
+    return { probe: { type: 'log', pattern: r.pattern }, error: null };
+  }
+  return { probe: null, error: `type must be one of ${PROBE_TYPES.join(', ')}` };
+}
+
+/**
+ * Per-process checks from the config's `readiness`, keyed by processId:
+ * a probe plus an optional `timeoutMs` (default 30s, at most 120s), e.g.
+ * `{ "kiosk-app": { "type": "port", "port": 8080, "timeoutMs": 60000 } }`.
+ * Invalid entries are left out with an error each.
+ *
+ * @param {unknown} raw
+ * @returns {{ checks: Record<string, ReadinessCheck>, errors: string[] }}
+ */
+export function parseReadinessConfig(raw) {
+  if (raw === undefined || raw === null) return { checks: {}, errors: [] };
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { checks: {}, errors: ['readiness must be an object keyed by processId'] };
+  }
+
+  const checks = {};
+  const errors = [];
+  for (const [processId, value] of Object.entries(raw)) {
+    const { probe, error } = parseReadinessProbe(value);
+    if (error) {
+      errors.push(`${processId}: ${error}`);
+      continue;
+    }
+    const timeoutMs = /** @type {Record<string, unknown>} */ (value).timeoutMs;
+    checks[processId] = {
+      readiness: probe,
+      timeoutMs: Number.isInteger(timeoutMs) && /** @type {number} */ (timeoutMs) > 0
+        ? Math.min(/** @type {number} */ (timeoutMs), MAX_READY_TIMEOUT_MS)
+        : DEFAULT_READY_TIMEOUT_MS,
+    };
+  }
+  return { checks, errors };
+}
+
+/** @param {ReadinessProbe} probe */
+export function describeProbe(probe) {
+  if (probe.type === 'port') return `port ${probe.host}:${probe.port}`;
+  if (probe.type === 'http') return `HTTP 200 from ${probe.url}`;
+  return `output matching /${probe.pattern}/`;
+}
+
+/**
+ * @param {number} port
+ * @param {string} host
+ * @returns {Promise<boolean>}
+ */
+export function checkPort(port, host) {
+  return new Promise((resolve) => {
+    const socket = net.connect({ port, host });
+    const done = (open) => {
+      socket.destroy();
+      resolve(open);
+    };
+    socket.setTimeout(PROBE_ATTEMPT_TIMEOUT_MS, () => done(false));
+    socket.once('connect', () => done(true));
+    socket.once('error', () => done(false));
+  });
+}
+
+/**
+ * @param {string} url
+ * @returns {Promise<boolean>}
+ */
+export async function checkHttp(url) {
+  try {
+    const res = await fetch(url, { signal: AbortSignal.timeout(PROBE_ATTEMPT_TIMEOUT_MS) });
+    return res.status === 200;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve once `probe` passes; reject when `timeoutMs` runs out or
+ * `isAlive()` turns false (no point waiting for a process that died).
+ *
+ * @param {ReadinessProbe} probe
+ * @param {{
+ *   timeoutMs?: number,
+ *   lines?: () => string[],
+ *   isAlive?: () => boolean,
+ *   intervalMs?: number,
+ *   checks?: { port: typeof checkPort, http: typeof checkHttp },
+ * }} [options] `lines` = output lines since the start (log probes)
+ */
+export async function waitForReady(probe, {
+  timeoutMs = DEFAULT_READY_TIMEOUT_MS,
+  lines = () => [],
+  isAlive = () => true,
+  intervalMs = PROBE_INTERVAL_MS,
+  checks = { port: checkPort, http: checkHttp },
+} = {}) {
+  const deadline = Date.now() + timeoutMs;
+  const regex = probe.type === 'log' ? new RegExp(probe.pattern) : null;
+
+  const passes = async () => {
+    if (probe.type === 'port') return checks.port(probe.port, probe.host);
+    if (probe.type === 'http') return checks.http(probe.url);
+    return lines().some((line) => regex.test(line));
+  };
+
+  for (;;) {
+    if (await passes()) return;
+    if (!isAlive()) throw new Error(`Process exited before ${describeProbe(probe)}`);
+    if (Date.now() >= deadline) {
+      throw new Error(`Not ready after ${Math.round(timeoutMs / 1000)}s (waiting for ${describeProbe(probe)})`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer } from 'node:http';
+import {
+  checkHttp,
+  checkPort,
+  describeProbe,
+  parseReadinessConfig,
+  parseReadinessProbe,
+  waitForReady,
+  DEFAULT_READY_TIMEOUT_MS,
+  MAX_READY_TIMEOUT_MS,
+} from './readiness-probes.mjs';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Parsing
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('parseReadinessProbe', () => {
+  it('accepts port, http and log probes', () => {
+    expect(parseReadinessProbe({ type: 'port', port: 8080 }).probe).toEqual({ type: 'port', port: 8080, host: '127.0.0.1' });
+    expect(parseReadinessProbe({ type: 'http', url: 'http://127.0.0.1:8081/health' }).probe).toEqual({
+      type: 'http',
+      url: 'http://127.0.0.1:8081/health',
+    });
+    expect(parseReadinessProbe({ type: 'log', pattern: 'Listening on \\d+' }).probe).toEqual({
+      type: 'log',
+      pattern: 'Listening on \\d+',
+    });
+  });
+
+  it('explains what is wrong', () => {
+    expect(parseReadinessProbe({ type: 'port', port: 70000 }).error).toBe('port must be 1-65535');
+    expect(parseReadinessProbe({ type: 'http', url: 'ftp://x' }).error).toBe('url must be an http(s) URL');
+    expect(parseReadinessProbe({ type: 'log', pattern: '(' }).error).toBe('invalid pattern: (');
+    expect(parseReadinessProbe({ type: 'tcp' }).error).toBe('type must be one of port, http, log');
+    expect(parseReadinessProbe('port').error).toBe('must be an object');
+  });
+});
+
+describe('parseReadinessConfig', () => {
+  it('keys checks by processId with a bounded timeout', () => {
+    const { checks, errors } = parseReadinessConfig({
+      'kiosk-app': { type: 'port', port: 8080, timeoutMs: 600_000 },
+      'agentic-proxy': { type: 'log', pattern: 'ready' },
+      'livelink-hub': { type: 'http', url: 'not a url' },
+    });
+
+    expect(checks).toEqual({
+      'kiosk-app': { readiness: { type: 'port', port: 8080, host: '127.0.0.1' }, timeoutMs: MAX_READY_TIMEOUT_MS },
+      'agentic-proxy': { readiness: { type: 'log', pattern: 'ready' }, timeoutMs: DEFAULT_READY_TIMEOUT_MS },
+    });
+    expect(errors).toEqual(['livelink-hub: url must be an http(s) URL']);
+  });
+
+  it('treats a missing section as no checks', () => {
+    expect(parseReadinessConfig(undefined)).toEqual({ checks: {}, errors: [] });
+    expect(parseReadinessConfig([]).errors).toEqual(['readiness must be an object keyed by processId']);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Checks against a local server
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('checkPort / checkHttp', () => {
+  let server;
+  let port;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      res.writeHead(req.url === '/health' ? 200 : 503);
+      res.end();
+    });
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = server.address().port;
+  });
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  it('sees an open port and a closed one', async () => {
+    expect(await checkPort(port, '127.0.0.1')).toBe(true);
+    const closed = createServer();
+    await new Promise((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const closedPort = closed.address().port;
+    await new Promise((resolve) => closed.close(resolve));
+    expect(await checkPort(closedPort, '127.0.0.1')).toBe(false);
+  });
+
+  it('needs a 200 answer', async () => {
+    expect(await checkHttp(`http://127.0.0.1:${port}/health`)).toBe(true);
+    expect(await checkHttp(`http://127.0.0.1:${port}/other`)).toBe(false);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// waitForReady
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('waitForReady', () => {
+  const never = { port: async () => false, http: async () => false };
+
+  it('resolves once an output line matches', async () => {
+    const lines = ['booting'];
+    setTimeout(() => lines.push('Server listening on 8080'), 20);
+
+    await expect(
+      waitForReady({ type: 'log', pattern: 'listening on \\d+' }, { lines: () => lines, intervalMs: 5, timeoutMs: 1_000 }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('rejects on timeout with what it waited for', async () => {
+    const probe = { type: 'port', port: 8080, host: '127.0.0.1' };
+    await expect(waitForReady(probe, { checks: never, intervalMs: 5, timeoutMs: 20 })).rejects.toThrow(
+      `Not ready after 0s (waiting for ${describeProbe(probe)})`,
+    );
+  });
+
+  it('stops waiting when the process died', async () => {
+    await expect(
+      waitForReady({ type: 'http', url: 'http://127.0.0.1:1/' }, { checks: never, isAlive: () => false, timeoutMs: 1_000 }),
+    ).rejects.toThrow('Process exited before HTTP 200 from http://127.0.0.1:1/');
+  });
+});
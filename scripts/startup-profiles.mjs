@@ -0,0 +1,202 @@
+/**
+ * Startup profiles for agent-option-writer: which processes make up a stack,
+ * what each waits for, and how to tell it is ready.
+ *
+ * A profile lists processes by id (the OverviewPage shortcut ids), each with
+ * `dependsOn` (ids that must be ready first), an optional readiness probe
+ * (see readiness-probes.mjs) and `timeoutMs` for it (at most
+ * `MAX_READY_TIMEOUT_MS`, like per-process checks). "Start stack" starts
+ * them one at a time in dependency order; a process whose dependency failed
+ * is skipped. "Stop stack" stops them in reverse order.
+ *
+ * Profiles come from `startupProfiles` in the writer config; without one the
+ * built-in `kiosk` profile applies. A process without its own probe uses the
+ * per-process one from the config's `readiness`, if any.
+ */
+import { DEFAULT_READY_TIMEOUT_MS, MAX_READY_TIMEOUT_MS, parseReadinessProbe } from './readiness-probes.mjs';
+
+/**
+ * @typedef {import('./readiness-probes.mjs').ReadinessProbe} ReadinessProbe
+ * @typedef {import('./readiness-probes.mjs').ReadinessCheck} ReadinessCheck
+ * @typedef {{ id: string, dependsOn: string[], readiness: ReadinessProbe | null, timeoutMs: number }} ProfileProcess
+ * @typedef {{ label: string, processes: ProfileProcess[] }} StartupProfile
+ * @typedef {'pending' | 'starting' | 'waiting' | 'ready' | 'failed' | 'skipped' | 'stopping' | 'stopped'} StepPhase
+ * @typedef {{ id: string, phase: StepPhase, error: string | null }} StackStep
+ */
+
+/** @type {Record<string, StartupProfile>} */
+export const DEFAULT_STARTUP_PROFILES = {
+  kiosk: {
+    label: 'Kiosk stack',
+    processes: [
+      { id: 'agentic-proxy', dependsOn: [], readiness: null, timeoutMs: DEFAULT_READY_TIMEOUT_MS },
+      { id: 'livelink-hub', dependsOn: [], readiness: null, timeoutMs: DEFAULT_READY_TIMEOUT_MS },
+      { id: 'kiosk-app', dependsOn: ['agentic-proxy'], readiness: null, timeoutMs: DEFAULT_READY_TIMEOUT_MS },
+    ],
+  },
+};
+
+/**
+ * Ids in start order: every process after its dependencies, otherwise in
+ * listed order. Throws on a duplicate id, an unknown dependency or a cycle.
+ *
+ * @param {ProfileProcess[]} processes
+ * @returns {string[]}
+ */
+export function startOrder(processes) {
+  const byId = new Map(processes.map((p) => [p.id, p]));
+  if (byId.size < processes.length) throw new Error('process ids must be unique');
+  for (const p of processes) {
+    const unknown = p.dependsOn.find((dep) => !byId.has(dep));
+    if (unknown) throw new Error(`${p.id} depends on unknown process ${unknown}`);
+  }
+
+  const order = [];
+  const placed = new Set();
+  while (order.length < processes.length) {
+    const next = processes.find((p) => !placed.has(p.id) && p.dependsOn.every((dep) => placed.has(dep)));
+    if (!next) {
+      const stuck = processes.filter((p) => !placed.has(p.id)).map((p) => p.id);
+      throw new Error(`Dependency cycle between ${stuck.join(', ')}`);
+    }
+    order.push(next.id);
+    placed.add(next.id);
+  }
+  return order;
+}
+
+/**
+ * Profiles from the config's `startupProfiles` (absent = the defaults).
+ * Invalid profiles are left out with an error each.
+ *
+ * @param {unknown} raw
+ * @returns {{ profiles: Record<string, StartupProfile>, errors: string[] }}
+ */
+export function parseStartupProfiles(raw) {
+  if (raw === undefined || raw === null) return { profiles: DEFAULT_STARTUP_PROFILES, errors: [] };
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { profiles: DEFAULT_STARTUP_PROFILES, errors: ['startupProfiles must be an object keyed by profile name'] };
+  }
+
+  const profiles = {};
+  const errors = [];
+  for (const [name, value] of Object.entries(raw)) {
+    const list = value && typeof value === 'object' ? value.processes : undefined;
+    if (!Array.isArray(list) || list.length === 0) {
+      errors.push(`${name}: processes must be a non-empty list`);
+      continue;
+    }
+
+    const profileErrors = [];
+    const processes = list.map((entry, i) => {
+      const at = `${name}.processes[${i}]`;
+      const id = entry && typeof entry.id === 'string' ? entry.id.trim() : '';
+      if (!id) profileErrors.push(`${at}: id is required`);
+      const dependsOn = Array.isArray(entry?.dependsOn) ? entry.dependsOn.filter((d) => typeof d === 'string') : [];
+      let readiness = null;
+      if (entry?.readiness !== undefined && entry?.readiness !== null) {
+        const parsed = parseReadinessProbe(entry.readiness);
+        if (parsed.error) profileErrors.push(`${at}.readiness: ${parsed.error}`);
+        readiness = parsed.probe;
+      }
+      const timeoutMs = Number.isInteger(entry?.timeoutMs) && entry.timeoutMs > 0
+        ? Math.min(entry.timeoutMs, MAX_READY_TIMEOUT_MS)
+        : DEFAULT_READY_TIMEOUT_MS;
+      return { id, dependsOn, readiness, timeoutMs };
+    });
+
+    if (!profileErrors.length) {
+      try {
+        startOrder(processes);
+      } catch (error) {
+        profileErrors.push(`${name}: ${error.message}`);
+      }
+    }
+    if (profileErrors.length) {
+      errors.push(...profileErrors);
+      continue;
+    }
+    profiles[name] = { label: typeof value.label === 'string' && value.label ? value.label : name, processes };
+  }
+  return { profiles, errors };
+}
+
+/**
+ * `profile` with each process that has no probe of its own given the
+ * per-process check for its id (probe and timeout), where there is one.
+ *
+ * @param {StartupProfile} profile
+ * @param {Record<string, ReadinessCheck>} checks see parseReadinessConfig
+ * @returns {StartupProfile}
+ */
+export function withReadinessFallback(profile, checks) {
+  return {
+    ...profile,
+    processes: profile.processes.map((p) => (p.readiness || !checks[p.id] ? p : { ...p, ...checks[p.id] })),
+  };
+}
+
+/**
+ * Start a profile's processes in dependency order.
+ *
+ * @param {StartupProfile} profile
+ * @param {{
+ *   start: (process: ProfileProcess) => Promise<unknown>,
+ *   onProgress?: (steps: StackStep[]) => void,
+ * }} deps `start` resolves once the process is ready (its probe passed, if
+ *   it has one) and rejects if it didn't come up or its probe failed
+ * @returns {Promise<{ ok: boolean, steps: StackStep[] }>}
+ */
+export async function runStackStart(profile, { start, onProgress = () => {} }) {
+  const byId = new Map(profile.processes.map((p) => [p.id, p]));
+  let steps = startOrder(profile.processes).map((id) => ({ id, phase: 'pending', error: null }));
+  const update = (id, phase, error = null) => {
+    steps = steps.map((step) => (step.id === id ? { id, phase, error } : step));
+    onProgress(steps);
+  };
+  onProgress(steps);
+
+  for (const { id } of steps) {
+    const entry = byId.get(id);
+    const blocked = entry.dependsOn.find((dep) => steps.find((s) => s.id === dep)?.phase !== 'ready');
+    if (blocked) {
+      update(id, 'skipped', `${blocked} is not ready`);
+      continue;
+    }
+    try {
+      update(id, entry.readiness ? 'waiting' : 'starting');
+      await start(entry);
+      update(id, 'ready');
+    } catch (error) {
+      update(id, 'failed', error instanceof Error ? error.message : String(error));
+    }
+  }
+  return { ok: steps.every((step) => step.phase === 'ready'), steps };
+}
+
+/**
+ * Stop a profile's processes, dependents first.
+ *
+ * @param {StartupProfile} profile
+ * @param {{ stop: (id: string) => unknown, onProgress?: (steps: StackStep[]) => void }} deps
+ * @returns {Promise<{ ok: boolean, steps: StackStep[] }>}
+ */
+export async function runStackStop(profile, { stop, onProgress = () => {} }) {
+  let steps = startOrder(profile.processes).reverse().map((id) => ({ id, phase: 'pending', error: null }));
+  const update = (id, phase, error = null) => {
+    steps = steps.map((step) => (step.id === id ? { id, phase, error } : step));
+    onProgress(steps);
+  };
+  onProgress(steps);
+
+  for (const { id } of steps) {
+    try {
+      update(id, 'stopping');
+      await stop(id);
+      update(id, 'stopped');
+    } catch (error) {
+      update(id, 'failed', error instanceof Error ? error.message : String(error));
+    }
+  }
+  return { ok: steps.every((step) => step.phase === 'stopped'), steps };
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_STARTUP_PROFILES,
+  parseStartupProfiles,
+  runStackStart,
+  runStackStop,
+  startOrder,
+  withReadinessFallback,
+} from './startup-profiles.mjs';
+import { DEFAULT_READY_TIMEOUT_MS, MAX_READY_TIMEOUT_MS } from './readiness-probes.mjs';
+
+const proc = (id, dependsOn = [], readiness = null) => ({ id, dependsOn, readiness, timeoutMs: 1_000 });
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Profiles
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('startOrder', () => {
+  it('puts dependencies first and keeps listed order otherwise', () => {
+    expect(startOrder([proc('kiosk-app', ['agentic-proxy']), proc('livelink-hub'), proc('agentic-proxy')])).toEqual([
+      'livelink-hub',
+      'agentic-proxy',
+      'kiosk-app',
+    ]);
+  });
+
+  it('rejects unknown dependencies, duplicates and cycles', () => {
+    expect(() => startOrder([proc('a', ['ghost'])])).toThrow('a depends on unknown process ghost');
+    expect(() => startOrder([proc('a'), proc('a')])).toThrow('unique');
+    expect(() => startOrder([proc('a', ['b']), proc('b', ['a']), proc('c')])).toThrow('Dependency cycle between a, b');
+  });
+});
+
+describe('parseStartupProfiles', () => {
+  it('falls back to the built-in kiosk profile, proxy before kiosk app', () => {
+    const { profiles } = parseStartupProfiles(undefined);
+    expect(profiles).toBe(DEFAULT_STARTUP_PROFILES);
+    expect(startOrder(profiles.kiosk.processes).indexOf('agentic-proxy')).toBeLessThan(
+      startOrder(profiles.kiosk.processes).indexOf('kiosk-app'),
+    );
+  });
+
+  it('reads probes and timeouts, defaulting missing ones', () => {
+    const { profiles, errors } = parseStartupProfiles({
+      demo: {
+        label: 'Demo',
+        processes: [
+          { id: 'agentic-proxy', readiness: { type: 'port', port: 8080 }, timeoutMs: 5_000 },
+          { id: 'kiosk-app', dependsOn: ['agentic-proxy'], readiness: { type: 'log', pattern: 'ready' } },
+        ],
+      },
+    });
+
+    expect(errors).toEqual([]);
+    expect(profiles.demo).toEqual({
+      label: 'Demo',
+      processes: [
+        {
+          id: 'agentic-proxy',
+          dependsOn: [],
+          readiness: { type: 'port', port: 8080, host: '127.0.0.1' },
+          timeoutMs: 5_000,
+        },
+        {
+          id: 'kiosk-app',
+          dependsOn: ['agentic-proxy'],
+          readiness: { type: 'log', pattern: 'ready' },
+          timeoutMs: DEFAULT_READY_TIMEOUT_MS,
+        },
+      ],
+    });
+  });
+
+  it('caps timeouts like per-process readiness checks', () => {
+    const { profiles } = parseStartupProfiles({
+      demo: { processes: [{ id: 'kiosk-app', readiness: { type: 'port', port: 8080 }, timeoutMs: 36_000_000 }] },
+    });
+    expect(profiles.demo.processes[0].timeoutMs).toBe(MAX_READY_TIMEOUT_MS);
+  });
+
+  it('leaves out invalid profiles with an error each', () => {
+    const { profiles, errors } = parseStartupProfiles({
+      ok: { processes: [{ id: 'a' }] },
+      empty: { processes: [] },
+      badProbe: { processes: [{ id: 'a', readiness: { type: 'port', port: 0 } }] },
+      cycle: { processes: [{ id: 'a', dependsOn: ['b'] }, { id: 'b', dependsOn: ['a'] }] },
+    });
+
+    expect(Object.keys(profiles)).toEqual(['ok']);
+    expect(errors).toEqual([
+      'empty: processes must be a non-empty list',
+      'badProbe.processes[0].readiness: port must be 1-65535',
+      'cycle: Dependency cycle between a, b',
+    ]);
+  });
+});
+
+describe('withReadinessFallback', () => {
+  it('fills in per-process checks where the profile has no probe', () => {
+    const own = { type: 'port', port: 9000, host: '127.0.0.1' };
+    const profile = { label: 'Kiosk', processes: [proc('a', [], own), proc('b'), proc('c')] };
+    const check = { readiness: { type: 'log', pattern: 'up' }, timeoutMs: 5_000 };
+
+    const { processes } = withReadinessFallback(profile, { a: check, b: check });
+    expect(processes.map((p) => [p.id, p.readiness, p.timeoutMs])).toEqual([
+      ['a', own, 1_000],
+      ['b', check.readiness, 5_000],
+      ['c', null, 1_000],
+    ]);
+    expect(processes[1].dependsOn).toEqual([]);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Running a stack
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('runStackStart', () => {
+  const profile = {
+    label: 'Kiosk',
+    processes: [
+      proc('agentic-proxy', [], { type: 'port', port: 8080, host: '127.0.0.1' }),
+      proc('livelink-hub'),
+      proc('kiosk-app', ['agentic-proxy']),
+    ],
+  };
+
+  it('starts in order, waiting for readiness where a probe is set', async () => {
+    const calls = [];
+    const phases = [];
+    const result = await runStackStart(profile, {
+      start: async ({ id }) => calls.push(`start ${id}`),
+      onProgress: (steps) => phases.push(steps.map((s) => s.phase[0]).join('')),
+    });
+
+    expect(result.ok).toBe(true);
+    expect(calls).toEqual(['start agentic-proxy', 'start livelink-hub', 'start kiosk-app']);
+    expect(phases).toEqual(['ppp', 'wpp', 'rpp', 'rsp', 'rrp', 'rrs', 'rrr']);
+  });
+
+  it('skips dependents of a process that never got ready and carries on with the rest', async () => {
+    const start = vi.fn(async ({ readiness }) => {
+      if (readiness) throw new Error('Not ready after 1s (waiting for port 127.0.0.1:8080)');
+    });
+    const result = await runStackStart(profile, { start });
+
+    expect(result.ok).toBe(false);
+    expect(result.steps).toEqual([
+      { id: 'agentic-proxy', phase: 'failed', error: 'Not ready after 1s (waiting for port 127.0.0.1:8080)' },
+      { id: 'livelink-hub', phase: 'ready', error: null },
+      { id: 'kiosk-app', phase: 'skipped', error: 'agentic-proxy is not ready' },
+    ]);
+    expect(start).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('runStackStop', () => {
+  it('stops dependents first', async () => {
+    const stop = vi.fn();
+    const result = await runStackStop(
+      { label: 'Kiosk', processes: [proc('agentic-proxy'), proc('kiosk-app', ['agentic-proxy'])] },
+      { stop },
+    );
+
+    expect(stop.mock.calls.map(([id]) => id)).toEqual(['kiosk-app', 'agentic-proxy']);
+    expect(result).toEqual({
+      ok: true,
+      steps: [
+        { id: 'kiosk-app', phase: 'stopped', error: null },
+        { id: 'agentic-proxy', phase: 'stopped', error: null },
+      ],
+    });
+  });
+});
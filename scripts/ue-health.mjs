@@ -0,0 +1,90 @@
+/**
+ * `/ue-health` for the Vite dev server (see vite.config.ts): does the UE
+ * Remote API's host accept TCP connections? No UE command is sent.
+ *
+ *   GET /ue-health  +  X-Ue-Target: http://127.0.0.1:8081
+ *     → 200 { ok, latencyMs } | 400 bad target | 502 unreachable | 504 timeout
+ */
+import net from 'node:net';
+
+/** TCP connect timeout for the UE health probe */
+export const UE_HEALTH_TIMEOUT_MS = 3_000;
+
+/**
+ * Open (and immediately close) a TCP connection to the UE host.
+ * Resolves with the connect latency in ms; rejects with 'timeout' or the socket error.
+ *
+ * @param {string} hostname
+ * @param {number} port
+ * @param {number} [timeoutMs]
+ * @returns {Promise<number>}
+ */
+export function probeTcp(hostname, port, timeoutMs = UE_HEALTH_TIMEOUT_MS) {
+  return new Promise((resolve, reject) => {
+    const startedAt = Date.now();
+    const socket = net.connect({ host: hostname, port });
+    socket.setTimeout(timeoutMs);
+
+    socket.once('connect', () => {
+      const latencyMs = Date.now() - startedAt;
+      socket.destroy();
+      resolve(latencyMs);
+    });
+    socket.once('timeout', () => {
+      socket.destroy();
+      reject(new Error('timeout'));
+    });
+    socket.once('error', (err) => {
+      socket.destroy();
+      reject(err);
+    });
+  });
+}
+
+/**
+ * @param {import('node:http').ServerResponse} res
+ * @param {number} status
+ * @param {object} body
+ */
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Connect middleware for `/ue-health`. `probe` is injectable for tests.
+ *
+ * @param {import('node:http').IncomingMessage} req
+ * @param {import('node:http').ServerResponse} res
+ * @param {{ probe?: typeof probeTcp }} [deps]
+ * @returns {Promise<void>}
+ */
+export async function handleUeHealth(req, res, { probe = probeTcp } = {}) {
+  const targetHeader = req.headers['x-ue-target'];
+  if (!targetHeader || typeof targetHeader !== 'string') {
+    sendJson(res, 400, { ok: false, error: 'Missing X-Ue-Target header' });
+    return;
+  }
+
+  let targetUrl;
+  try {
+    targetUrl = new URL(targetHeader);
+  } catch {
+    sendJson(res, 400, { ok: false, error: 'Invalid X-Ue-Target URL' });
+    return;
+  }
+
+  const port = Number(targetUrl.port) || (targetUrl.protocol === 'https:' ? 443 : 80);
+
+  try {
+    const latencyMs = await probe(targetUrl.hostname, port);
+    sendJson(res, 200, { ok: true, latencyMs });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const timedOut = message === 'timeout';
+    sendJson(res, timedOut ? 504 : 502, {
+      ok: false,
+      error: timedOut ? 'UE API timeout' : `UE API unreachable (${message})`,
+    });
+  }
+}
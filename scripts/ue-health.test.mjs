@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import net from 'node:net';
+import { handleUeHealth, probeTcp } from './ue-health.mjs';
+
+/** Minimal ServerResponse stand-in: records status and parsed JSON body */
+function fakeResponse() {
+  const res = {
+    status: 0,
+    body: null,
+    writeHead(status) {
+      res.status = status;
+    },
+    end(text) {
+      res.body = JSON.parse(text);
+    },
+  };
+  return res;
+}
+
+const request = (target) => ({ headers: target === undefined ? {} : { 'x-ue-target': target } });
+
+// ═══════════════════════════════════════════════════════════════════════════
+// probeTcp — against a local listener
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('probeTcp', () => {
+  let server;
+  let openPort;
+  let closedPort;
+
+  beforeAll(async () => {
+    server = net.createServer((socket) => socket.destroy());
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+    openPort = server.address().port;
+
+    const closed = net.createServer();
+    await new Promise((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    closedPort = closed.address().port;
+    await new Promise((resolve) => closed.close(resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('resolves with the connect latency when the port accepts', async () => {
+    const latencyMs = await probeTcp('127.0.0.1', openPort);
+    expect(latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('rejects with the socket error when nothing listens', async () => {
+    await expect(probeTcp('127.0.0.1', closedPort)).rejects.toThrow(/ECONNREFUSED/);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// handleUeHealth — /ue-health middleware
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('handleUeHealth', () => {
+  it('rejects a missing or malformed target', async () => {
+    const missing = fakeResponse();
+    await handleUeHealth(request(undefined), missing);
+    expect(missing.status).toBe(400);
+    expect(missing.body).toEqual({ ok: false, error: 'Missing X-Ue-Target header' });
+
+    const invalid = fakeResponse();
+    await handleUeHealth(request('not a url'), invalid);
+    expect(invalid.status).toBe(400);
+  });
+
+  it('probes the target host and port, defaulting the port by protocol', async () => {
+    const probed = [];
+    const probe = async (host, port) => {
+      probed.push(`${host}:${port}`);
+      return 7;
+    };
+
+    const res = fakeResponse();
+    await handleUeHealth(request('http://ue-host:8081/'), res, { probe });
+    await handleUeHealth(request('https://ue-host'), fakeResponse(), { probe });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ ok: true, latencyMs: 7 });
+    expect(probed).toEqual(['ue-host:8081', 'ue-host:443']);
+  });
+
+  it('answers 504 on timeout and 502 on any other failure', async () => {
+    const timedOut = fakeResponse();
+    await handleUeHealth(request('http://ue-host:8081'), timedOut, {
+      probe: async () => {
+        throw new Error('timeout');
+      },
+    });
+    expect(timedOut.status).toBe(504);
+    expect(timedOut.body).toEqual({ ok: false, error: 'UE API timeout' });
+
+    const refused = fakeResponse();
+    await handleUeHealth(request('http://ue-host:8081'), refused, {
+      probe: async () => {
+        throw new Error('connect ECONNREFUSED');
+      },
+    });
+    expect(refused.status).toBe(502);
+    expect(refused.body).toEqual({ ok: false, error: 'UE API unreachable (connect ECONNREFUSED)' });
+  });
+});
@@ -103,9 +103,15 @@ function PersistentIframe({ url, isVisible, viewport }: PersistentIframeProps) {
         /^(text|email|password|url|search|number|tel)$/.test(el.type)) ||
       el instanceof HTMLTextAreaElement;
 
-    /** True for elements that need transient focus protection. */
+    /**
+     * True for elements that need transient focus protection. Elements marked
+     * `data-input-capture` (camera input capture, key binding buttons) are
+     * explicitly taking keyboard input away from the stream.
+     */
     const keepFocus = (el: Element | null): boolean =>
-      isTextEntry(el) || el instanceof HTMLSelectElement;
+      isTextEntry(el) ||
+      el instanceof HTMLSelectElement ||
+      (el instanceof HTMLElement && el.dataset.inputCapture !== undefined);
 
     /** Focus both the <iframe> element AND its content window. */
     const focusIframe = () => {
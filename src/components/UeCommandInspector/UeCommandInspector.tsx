@@ -0,0 +1,196 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useUeCommandLogStore, type UeCommandLogEntry } from '@/stores/ueCommandLogStore';
+import { findUeCommandByName } from '@/services/ueCommandRegistry';
+import { buildUeCurlCommand, describeUeError, sendUeCommand } from '@/services/ueRemoteApi';
+import { noFocusSteal } from '@/components/UeControlPanel/noFocusSteal';
+import styles from './UeCommandInspector.module.css';
+
+const COPIED_FEEDBACK_MS = 1_500;
+
+function formatTime(at: number): string {
+  const d = new Date(at);
+  return `${d.toLocaleTimeString('en-GB')}.${String(d.getMilliseconds()).padStart(3, '0')}`;
+}
+
+function formatParams(entry: UeCommandLogEntry): string {
+  return Object.entries(entry.payload)
+    .filter(([key]) => key !== 'command')
+    .map(([key, value]) => `${key}=${value}`)
+    .join(' ');
+}
+
+function formatStatus(entry: UeCommandLogEntry): string {
+  const { result } = entry;
+  if (result.ok) return String(result.status);
+  return result.status !== null ? `${result.errorClass} ${result.status}` : (result.errorClass ?? 'error');
+}
+
+function matchesFilter(entry: UeCommandLogEntry, query: string): boolean {
+  if (!query) return true;
+  const q = query.toLowerCase();
+  return Object.values(entry.payload).some((v) => v.toLowerCase().includes(q));
+}
+
+/** Offsets are cumulative — replaying one would move UE without updating its committed camera */
+function isReplayable(entry: UeCommandLogEntry): boolean {
+  return findUeCommandByName(entry.payload.command)?.kind !== 'offset';
+}
+
+/**
+ * Collapsible UE command log for streaming device pages.
+ *
+ * Lists everything `sendUeCommand` sent (sliders, toggles, batch applies,
+ * camera read-backs), newest first. Entries can be filtered by command or
+ * parameter text, copied as a curl command that hits UE directly, and
+ * replayed — except camera offsets, which aren't idempotent.
+ */
+export function UeCommandInspector() {
+  const entries = useUeCommandLogStore((s) => s.entries);
+  const clear = useUeCommandLogStore((s) => s.clear);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [failedOnly, setFailedOnly] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [copiedId, setCopiedId] = useState<number | null>(null);
+
+  const failedCount = useMemo(() => entries.filter((e) => !e.result.ok).length, [entries]);
+
+  const visible = useMemo(
+    () =>
+      entries
+        .filter((e) => (!failedOnly || !e.result.ok) && matchesFilter(e, query.trim()))
+        .reverse(),
+    [entries, failedOnly, query],
+  );
+
+  useEffect(() => {
+    if (copiedId === null) return;
+    const timer = window.setTimeout(() => setCopiedId(null), COPIED_FEEDBACK_MS);
+    return () => window.clearTimeout(timer);
+  }, [copiedId]);
+
+  const copyAsCurl = (entry: UeCommandLogEntry) => {
+    void navigator.clipboard
+      .writeText(buildUeCurlCommand(entry.target, entry.payload))
+      .then(() => setCopiedId(entry.id), () => setCopiedId(null));
+  };
+
+  return (
+    <div className={styles.inspector}>
+      <button
+        type="button"
+        className={styles.toggleButton}
+        onMouseDown={noFocusSteal}
+        onClick={() => setIsOpen((v) => !v)}
+        aria-expanded={isOpen}
+      >
+        {isOpen ? '▾' : '▸'} UE log ({entries.length}
+        {failedCount > 0 && <span className={styles.failedCount}> · {failedCount} failed</span>})
+      </button>
+
+      {isOpen && (
+        <div className={styles.body}>
+          <div className={styles.toolbar}>
+            <input
+              type="search"
+              className={styles.filterInput}
+              placeholder="Filter command or value"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+            <label className={styles.failedOnly}>
+              <input
+                type="checkbox"
+                className={styles.checkbox}
+                checked={failedOnly}
+                onMouseDown={noFocusSteal}
+                onChange={(e) => setFailedOnly(e.target.checked)}
+              />
+              Failed only
+            </label>
+            <button
+              type="button"
+              className={styles.smallButton}
+              onMouseDown={noFocusSteal}
+              onClick={clear}
+              disabled={entries.length === 0}
+            >
+              Clear
+            </button>
+          </div>
+
+          {visible.length === 0 ? (
+            <div className={styles.empty}>{entries.length === 0 ? 'No commands sent yet' : 'No matches'}</div>
+          ) : (
+            <ul className={styles.list}>
+              {visible.map((entry) => {
+                const expanded = expandedId === entry.id;
+                return (
+                  <li key={entry.id} className={styles.entry}>
+                    <button
+                      type="button"
+                      className={styles.entryRow}
+                      onMouseDown={noFocusSteal}
+                      onClick={() => setExpandedId(expanded ? null : entry.id)}
+                      aria-expanded={expanded}
+                    >
+                      <span className={styles.time}>{formatTime(entry.at)}</span>
+                      <span className={styles.command}>{entry.payload.command}</span>
+                      <span className={styles.params}>{formatParams(entry)}</span>
+                      <span className={entry.result.ok ? styles.statusOk : styles.statusFailed}>
+                        {formatStatus(entry)}
+                      </span>
+                      <span className={styles.duration}>{entry.durationMs}ms</span>
+                    </button>
+
+                    {expanded && (
+                      <div className={styles.details}>
+                        <div className={styles.detailLine}>→ {entry.target}</div>
+                        {!entry.result.ok && (
+                          <div className={styles.detailError}>{describeUeError(entry.result)}</div>
+                        )}
+                        <pre className={styles.json}>{JSON.stringify(entry.payload, null, 2)}</pre>
+                        {entry.result.body !== null && (
+                          <pre className={styles.json}>
+                            {typeof entry.result.body === 'string'
+                              ? entry.result.body
+                              : JSON.stringify(entry.result.body, null, 2)}
+                          </pre>
+                        )}
+                        <div className={styles.actions}>
+                          <button
+                            type="button"
+                            className={styles.smallButton}
+                            onMouseDown={noFocusSteal}
+                            onClick={() => copyAsCurl(entry)}
+                          >
+                            {copiedId === entry.id ? 'Copied' : 'Copy as curl'}
+                          </button>
+                          <button
+                            type="button"
+                            className={styles.smallButton}
+                            onMouseDown={noFocusSteal}
+                            onClick={() => void sendUeCommand(entry.target, entry.payload)}
+                            disabled={!isReplayable(entry)}
+                            title={
+                              isReplayable(entry)
+                                ? 'Send this command again'
+                                : 'Camera offsets are cumulative — replaying would desync the committed camera'
+                            }
+                          >
+                            Replay
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
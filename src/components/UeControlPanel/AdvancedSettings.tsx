@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import { useUeControlStore, type UeDeviceSettings } from '@/stores/ueControlStore';
+import type { PendingUeSetting } from '@/stores/ueCommandQueueStore';
+import {
+  DEVICE_SETTING_FIELDS,
+  SETTING_FIELD_GROUPS,
+  type SettingField,
+  type SettingOptionSources,
+} from './deviceSettingFields';
+import { UnsyncedMark } from './UnsyncedMark';
+import { noFocusSteal } from './noFocusSteal';
+import styles from './UeControlPanel.module.css';
+
+type SettingKey = keyof UeDeviceSettings;
+type SettingValue = UeDeviceSettings[SettingKey];
+
+const FIELD_KEYS = Object.keys(DEVICE_SETTING_FIELDS) as SettingKey[];
+
+interface AdvancedSettingsProps {
+  settings: UeDeviceSettings;
+  /** Queued settings UE hasn't confirmed, keyed by setting */
+  pending: Partial<Record<string, PendingUeSetting>>;
+  /** Latest command error per control */
+  errors: Record<string, string>;
+  /** Store + send one setting; `value` always matches the field's type */
+  onChange: (key: SettingKey, value: SettingValue) => void;
+}
+
+/** Text settings are sent on Enter / blur, not per keystroke. */
+function TextSetting({
+  value,
+  placeholder,
+  disabled,
+  onCommit,
+}: {
+  value: string;
+  placeholder?: string;
+  disabled?: boolean;
+  onCommit: (value: string) => void;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const commit = () => {
+    if (draft !== null && draft.trim() !== value) onCommit(draft.trim());
+    setDraft(null);
+  };
+  return (
+    <input
+      type="text"
+      className={styles.presetInput}
+      placeholder={placeholder}
+      disabled={disabled}
+      value={draft ?? value}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+    />
+  );
+}
+
+/**
+ * Number settings are sent on Enter / blur like text ones — typing "120"
+ * is one command and one undo entry, clamped to the field's range.
+ */
+function NumberSetting({
+  value,
+  field,
+  onCommit,
+}: {
+  value: number;
+  field: { min: number; max: number; step: number };
+  onCommit: (value: number) => void;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const commit = () => {
+    const next = draft === null || draft.trim() === '' ? NaN : Number(draft);
+    if (Number.isFinite(next)) {
+      const clamped = Math.min(field.max, Math.max(field.min, next));
+      if (clamped !== value) onCommit(clamped);
+    }
+    setDraft(null);
+  };
+  return (
+    <input
+      type="number"
+      className={styles.numberInput}
+      min={field.min}
+      max={field.max}
+      step={field.step}
+      value={draft ?? value}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+    />
+  );
+}
+
+/**
+ * Collapsible "Advanced" section: one control per `UeDeviceSettings` field,
+ * generated from `DEVICE_SETTING_FIELDS` and grouped by the field's group.
+ *
+ * Fields with a `confirm` message ask before the change is sent.
+ */
+export function AdvancedSettings({ settings, pending, errors, onChange }: AdvancedSettingsProps) {
+  const [open, setOpen] = useState(false);
+  const [confirming, setConfirming] = useState<{ key: SettingKey; value: SettingValue } | null>(null);
+  const levels = useUeControlStore((s) => s.levelCatalog.levels);
+  const optionSources: SettingOptionSources = { levels };
+
+  const change = (key: SettingKey, value: SettingValue) => {
+    if (DEVICE_SETTING_FIELDS[key].confirm) setConfirming({ key, value });
+    else onChange(key, value);
+  };
+
+  const renderControl = (key: SettingKey) => {
+    const field = DEVICE_SETTING_FIELDS[key] as SettingField<SettingValue>;
+    const value = settings[key];
+    switch (field.kind) {
+      case 'toggle':
+        return (
+          <input
+            type="checkbox"
+            className={styles.toggle}
+            checked={value as boolean}
+            onMouseDown={noFocusSteal}
+            onChange={(e) => change(key, e.target.checked)}
+          />
+        );
+      case 'number':
+        return <NumberSetting value={value as number} field={field} onCommit={(v) => change(key, v)} />;
+      case 'select':
+        return (
+          <select className={styles.select} value={value as string} onChange={(e) => change(key, e.target.value)}>
+            {field.options(optionSources).map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        );
+      case 'text':
+        return (
+          <TextSetting
+            value={value as string}
+            placeholder={field.placeholder}
+            // Same lock as AvatarPicker
+            disabled={key === 'avatarId' && !settings.allowAvatarChange}
+            onCommit={(v) => change(key, v)}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className={styles.section}>
+      <button
+        type="button"
+        className={styles.sectionToggle}
+        onMouseDown={noFocusSteal}
+        onClick={() => setOpen((o) => !o)}
+        aria-expanded={open}
+      >
+        <h3 className={styles.sectionTitle}>Advanced {open ? '▾' : '▸'}</h3>
+      </button>
+
+      {open &&
+        SETTING_FIELD_GROUPS.map((group) => {
+          const keys = FIELD_KEYS.filter((key) => DEVICE_SETTING_FIELDS[key].group === group);
+          if (keys.length === 0) return null;
+          return (
+            <div key={group} className={styles.settingGroup}>
+              <span className={styles.settingGroupTitle}>{group}</span>
+              {keys.map((key) => (
+                <div key={key}>
+                  <div className={styles.controlRow}>
+                    <span className={styles.controlLabel}>
+                      {DEVICE_SETTING_FIELDS[key].label} <UnsyncedMark entry={pending[key]} />
+                    </span>
+                    {renderControl(key)}
+                  </div>
+                  {errors[key] && (
+                    <div className={styles.controlError} role="alert">
+                      {errors[key]}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+
+      {confirming && (
+        <div className={styles.confirmPrompt} role="alertdialog">
+          <span>{DEVICE_SETTING_FIELDS[confirming.key].confirm}</span>
+          <div className={styles.buttonRow}>
+            <button
+              type="button"
+              className={styles.smallButton}
+              onMouseDown={noFocusSteal}
+              onClick={() => {
+                onChange(confirming.key, confirming.value);
+                setConfirming(null);
+              }}
+            >
+              Apply
+            </button>
+            <button
+              type="button"
+              className={styles.smallButton}
+              onMouseDown={noFocusSteal}
+              onClick={() => setConfirming(null)}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
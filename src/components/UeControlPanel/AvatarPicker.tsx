@@ -0,0 +1,98 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAvatarCatalogStore, filterAvatars } from '@/stores/avatarCatalogStore';
+import { noFocusSteal } from './noFocusSteal';
+import styles from './UeControlPanel.module.css';
+
+interface AvatarPickerProps {
+  /** Device's current avatar id ('' = none chosen yet) */
+  value: string;
+  /** Avatar change switched off for the device — list is read-only */
+  disabled: boolean;
+  /** Store + send the new avatar (lives in the panel) */
+  onSelect: (avatarId: string) => void;
+}
+
+/**
+ * Searchable list of the avatar catalogue served by the writer backend.
+ *
+ * Search matches name, id and tags; clicking an entry selects it. The
+ * catalogue loads on first mount and can be reloaded after editing the file.
+ * An avatar id missing from the catalogue is still shown as current.
+ */
+export function AvatarPicker({ value, disabled, onSelect }: AvatarPickerProps) {
+  const avatars = useAvatarCatalogStore((s) => s.avatars);
+  const status = useAvatarCatalogStore((s) => s.status);
+  const error = useAvatarCatalogStore((s) => s.error);
+  const load = useAvatarCatalogStore((s) => s.load);
+
+  const [query, setQuery] = useState('');
+  const visible = useMemo(() => filterAvatars(avatars, query), [avatars, query]);
+  const inCatalog = avatars.some((a) => a.id === value);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  return (
+    <div className={disabled ? styles.sectionDisabled : undefined}>
+      <div className={styles.controlRow}>
+        <input
+          type="search"
+          className={styles.presetInput}
+          placeholder="Search avatars"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          disabled={disabled}
+          aria-label="Search avatars"
+        />
+        <button
+          type="button"
+          className={styles.smallButton}
+          onMouseDown={noFocusSteal}
+          onClick={() => void load(true)}
+          disabled={status === 'loading'}
+          title="Reload the avatar catalogue"
+        >
+          Reload
+        </button>
+      </div>
+
+      {value && !inCatalog && <div className={styles.avatarNote}>Current: {value}</div>}
+      {status === 'error' && (
+        <div className={styles.controlError} role="alert">
+          {error}
+        </div>
+      )}
+      {status === 'ready' && avatars.length === 0 && (
+        <div className={styles.avatarNote}>No avatars in the catalogue</div>
+      )}
+      {avatars.length > 0 && visible.length === 0 && <div className={styles.avatarNote}>No matches</div>}
+
+      {visible.length > 0 && (
+        <ul className={styles.avatarList} role="listbox" aria-label="Avatars">
+          {visible.map((avatar) => (
+            <li key={avatar.id} role="option" aria-selected={avatar.id === value}>
+              <button
+                type="button"
+                className={`${styles.avatarItem} ${avatar.id === value ? styles.avatarItemActive : ''}`}
+                onMouseDown={noFocusSteal}
+                onClick={() => onSelect(avatar.id)}
+                disabled={disabled}
+                title={avatar.tags.length ? `${avatar.id} · ${avatar.tags.join(', ')}` : avatar.id}
+              >
+                {avatar.thumbnailUrl ? (
+                  <img className={styles.avatarThumb} src={avatar.thumbnailUrl} alt="" loading="lazy" />
+                ) : (
+                  <span className={styles.avatarThumb} aria-hidden>
+                    {avatar.name.charAt(0).toUpperCase()}
+                  </span>
+                )}
+                <span className={styles.avatarName}>{avatar.name}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
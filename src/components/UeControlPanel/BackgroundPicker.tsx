@@ -0,0 +1,131 @@
+import { useEffect, useRef } from 'react';
+import { useBackgroundLibraryStore } from '@/stores/backgroundLibraryStore';
+import { noFocusSteal } from './noFocusSteal';
+import styles from './UeControlPanel.module.css';
+
+/** Same extensions the writer backend accepts (scripts/background-files.mjs) */
+const BACKGROUND_ACCEPT = '.png,.jpg,.jpeg,.webp,.mp4,.webm,.mov';
+
+interface BackgroundPickerProps {
+  /** Device's current background path ('' = none chosen yet) */
+  value: string;
+  /** Store + send the background path (lives in the panel) */
+  onSelect: (path: string) => void;
+}
+
+/**
+ * Custom background library served by the writer backend.
+ *
+ * Clicking a file selects it; an upload is selected as soon as it's stored.
+ * The background in use can't be deleted from here. A path missing from the
+ * library (e.g. set in the Advanced section) is still shown as current.
+ */
+export function BackgroundPicker({ value, onSelect }: BackgroundPickerProps) {
+  const backgrounds = useBackgroundLibraryStore((s) => s.backgrounds);
+  const status = useBackgroundLibraryStore((s) => s.status);
+  const error = useBackgroundLibraryStore((s) => s.error);
+  const uploading = useBackgroundLibraryStore((s) => s.uploading);
+  const load = useBackgroundLibraryStore((s) => s.load);
+  const upload = useBackgroundLibraryStore((s) => s.upload);
+  const remove = useBackgroundLibraryStore((s) => s.remove);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const inLibrary = backgrounds.some((b) => b.path === value);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const stored = await upload(file);
+    if (stored) onSelect(stored.path);
+  };
+
+  return (
+    <div>
+      <div className={styles.buttonRow}>
+        <button
+          type="button"
+          className={styles.smallButton}
+          onMouseDown={noFocusSteal}
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploading !== null}
+        >
+          {uploading ? 'Uploading…' : 'Upload'}
+        </button>
+        <button
+          type="button"
+          className={styles.smallButton}
+          onMouseDown={noFocusSteal}
+          onClick={() => void load(true)}
+          disabled={status === 'loading'}
+          title="Reload the background library"
+        >
+          Reload
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={BACKGROUND_ACCEPT}
+          hidden
+          onChange={(e) => {
+            void handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {value && !inLibrary && <div className={styles.avatarNote}>Current: {value}</div>}
+      {error && (
+        <div className={styles.controlError} role="alert">
+          {error}
+        </div>
+      )}
+      {status === 'ready' && backgrounds.length === 0 && (
+        <div className={styles.avatarNote}>No backgrounds uploaded yet</div>
+      )}
+
+      {backgrounds.length > 0 && (
+        <ul className={styles.avatarList} role="listbox" aria-label="Backgrounds">
+          {backgrounds.map((background) => (
+            <li
+              key={background.id}
+              className={styles.backgroundRow}
+              role="option"
+              aria-selected={background.path === value}
+            >
+              <button
+                type="button"
+                className={`${styles.avatarItem} ${background.path === value ? styles.avatarItemActive : ''}`}
+                onMouseDown={noFocusSteal}
+                onClick={() => onSelect(background.path)}
+                title={background.path}
+              >
+                {background.kind === 'image' ? (
+                  <img className={styles.backgroundThumb} src={background.url} alt="" loading="lazy" />
+                ) : (
+                  <span className={styles.backgroundThumb} aria-hidden>
+                    ▶
+                  </span>
+                )}
+                <span className={styles.avatarName}>{background.id}</span>
+              </button>
+              <button
+                type="button"
+                className={styles.smallButton}
+                onMouseDown={noFocusSteal}
+                onClick={() => void remove(background.id)}
+                disabled={background.path === value}
+                title={background.path === value ? 'In use on this device' : 'Delete from the library'}
+                aria-label={`Delete ${background.id}`}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  useCameraInputStore,
+  keyCodeLabel,
+  CAMERA_INPUT_ACTIONS,
+  GAMEPAD_STICK_AXES,
+  type CameraAxis,
+  type CameraInputAction,
+} from '@/stores/cameraInputStore';
+import { noFocusSteal } from './noFocusSteal';
+import styles from './UeControlPanel.module.css';
+
+const ACTIONS = Object.keys(CAMERA_INPUT_ACTIONS) as CameraInputAction[];
+
+const GAMEPAD_AXIS_LABELS: Record<CameraAxis, string> = {
+  zoom: 'Zoom',
+  cameraVertical: 'Vertical',
+  cameraHorizontal: 'Horizontal',
+  cameraPitch: 'Pitch',
+};
+
+/**
+ * Capture toggle for keyboard / gamepad camera control.
+ *
+ * While on, the button holds focus (the PS focus guard leaves
+ * `data-input-capture` elements alone), so bound keys reach the page instead
+ * of the stream. Clicking anywhere else, Escape or clicking it again ends capture.
+ */
+export function CameraInputCapture() {
+  const capturing = useCameraInputStore((s) => s.capturing);
+  const setCapturing = useCameraInputStore((s) => s.setCapturing);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  // Hold focus while capturing; on release hand it back to the focus guard
+  useEffect(() => {
+    const button = buttonRef.current;
+    if (!button) return;
+    if (capturing) button.focus();
+    else if (document.activeElement === button) button.blur();
+  }, [capturing]);
+
+  // Capture never outlives the panel
+  useEffect(() => () => useCameraInputStore.getState().setCapturing(false), []);
+
+  return (
+    <button
+      type="button"
+      className={`${styles.captureToggle} ${capturing ? styles.captureToggleActive : ''}`}
+      data-input-capture={capturing ? '' : undefined}
+      aria-pressed={capturing}
+      ref={buttonRef}
+      onMouseDown={(e) => {
+        // Focus is taken explicitly when capture turns on
+        e.preventDefault();
+      }}
+      onClick={() => setCapturing(!capturing)}
+      onBlur={() => setCapturing(false)}
+      title={capturing ? 'Camera keys active — click or Esc to release' : 'Control the camera with keyboard / gamepad'}
+    >
+      ⌨
+    </button>
+  );
+}
+
+/** Key binding button: click, then press a key (Esc cancels, Backspace unbinds). */
+function KeyBindingButton({ action }: { action: CameraInputAction }) {
+  const code = useCameraInputStore((s) => s.keyBindings[action]);
+  const setKeyBinding = useCameraInputStore((s) => s.setKeyBinding);
+  const [listening, setListening] = useState(false);
+
+  return (
+    <button
+      type="button"
+      className={styles.smallButton}
+      data-input-capture={listening ? '' : undefined}
+      onClick={(e) => {
+        e.currentTarget.focus();
+        setListening(true);
+      }}
+      onBlur={() => setListening(false)}
+      onKeyDown={(e) => {
+        if (!listening) return;
+        e.preventDefault();
+        e.stopPropagation();
+        if (e.code === 'Backspace' || e.code === 'Delete') setKeyBinding(action, '');
+        else if (e.code !== 'Escape') setKeyBinding(action, e.code);
+        setListening(false);
+        e.currentTarget.blur();
+      }}
+      aria-label={`${CAMERA_INPUT_ACTIONS[action].label} key`}
+    >
+      {listening ? 'Press a key…' : keyCodeLabel(code)}
+    </button>
+  );
+}
+
+/**
+ * Collapsible "Camera input" section: key per nudge action, gamepad on/off
+ * and the stick axis driving each camera axis. Bindings are persisted.
+ */
+export function CameraInputSettings() {
+  const [open, setOpen] = useState(false);
+  const gamepadEnabled = useCameraInputStore((s) => s.gamepadEnabled);
+  const gamepadBindings = useCameraInputStore((s) => s.gamepadBindings);
+  const setGamepadEnabled = useCameraInputStore((s) => s.setGamepadEnabled);
+  const setGamepadBinding = useCameraInputStore((s) => s.setGamepadBinding);
+  const resetBindings = useCameraInputStore((s) => s.resetBindings);
+
+  return (
+    <div className={styles.section}>
+      <button
+        type="button"
+        className={styles.sectionToggle}
+        onMouseDown={noFocusSteal}
+        onClick={() => setOpen((o) => !o)}
+        aria-expanded={open}
+      >
+        <h3 className={styles.sectionTitle}>Camera input {open ? '▾' : '▸'}</h3>
+      </button>
+
+      {open && (
+        <>
+          <div className={styles.settingGroup}>
+            <span className={styles.settingGroupTitle}>Keyboard</span>
+            {ACTIONS.map((action) => (
+              <div key={action} className={styles.controlRow}>
+                <span className={styles.controlLabel}>{CAMERA_INPUT_ACTIONS[action].label}</span>
+                <KeyBindingButton action={action} />
+              </div>
+            ))}
+          </div>
+
+          <div className={styles.settingGroup}>
+            <span className={styles.settingGroupTitle}>Gamepad</span>
+            <div className={styles.controlRow}>
+              <span className={styles.controlLabel}>Use gamepad</span>
+              <input
+                type="checkbox"
+                className={styles.toggle}
+                checked={gamepadEnabled}
+                onMouseDown={noFocusSteal}
+                onChange={(e) => setGamepadEnabled(e.target.checked)}
+              />
+            </div>
+            {gamepadEnabled &&
+              (Object.keys(GAMEPAD_AXIS_LABELS) as CameraAxis[]).map((axis) => {
+                const binding = gamepadBindings[axis];
+                return (
+                  <div key={axis} className={styles.controlRow}>
+                    <span className={styles.controlLabel}>{GAMEPAD_AXIS_LABELS[axis]}</span>
+                    <select
+                      className={styles.select}
+                      value={binding.axis ?? ''}
+                      onChange={(e) =>
+                        setGamepadBinding(axis, {
+                          ...binding,
+                          axis: e.target.value === '' ? null : Number(e.target.value),
+                        })
+                      }
+                    >
+                      <option value="">None</option>
+                      {GAMEPAD_STICK_AXES.map((stick) => (
+                        <option key={stick.index} value={stick.index}>
+                          {stick.label}
+                        </option>
+                      ))}
+                    </select>
+                    <label className={styles.controlLabel}>
+                      <input
+                        type="checkbox"
+                        className={styles.toggle}
+                        checked={binding.invert}
+                        onMouseDown={noFocusSteal}
+                        onChange={(e) => setGamepadBinding(axis, { ...binding, invert: e.target.checked })}
+                      />{' '}
+                      Invert
+                    </label>
+                  </div>
+                );
+              })}
+          </div>
+
+          <div className={styles.buttonRow}>
+            <button type="button" className={styles.smallButton} onMouseDown={noFocusSteal} onClick={resetBindings}>
+              Reset bindings
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
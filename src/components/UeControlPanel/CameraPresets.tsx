@@ -0,0 +1,135 @@
+import { useMemo, useState } from 'react';
+import {
+  useUeControlStore,
+  DEFAULT_DEVICE_SETTINGS,
+  type CameraPreset,
+  type CameraPosition,
+} from '@/stores/ueControlStore';
+import { noFocusSteal } from './noFocusSteal';
+import styles from './UeControlPanel.module.css';
+
+interface CameraPresetsProps {
+  deviceId: string;
+  /** Move the camera to the preset (store update + UE transition live in the panel) */
+  onApply: (preset: CameraPreset) => void;
+}
+
+/**
+ * Named camera presets for one device — save the current camera framing,
+ * then apply / rename / delete it later.
+ *
+ * Text inputs are the only focusable elements here: typing a name needs focus,
+ * and the PS iframe focus guard takes it back once the input blurs.
+ */
+export function CameraPresets({ deviceId, onApply }: CameraPresetsProps) {
+  const presetsSelector = useMemo(
+    () => (s: { cameraPresets: Record<string, CameraPreset[]> }) =>
+      s.cameraPresets[deviceId],
+    [deviceId],
+  );
+  const presets = useUeControlStore(presetsSelector);
+  const savePreset = useUeControlStore((s) => s.saveCameraPreset);
+  const renamePreset = useUeControlStore((s) => s.renameCameraPreset);
+  const deletePreset = useUeControlStore((s) => s.deleteCameraPreset);
+
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  const handleSave = () => {
+    const settings = useUeControlStore.getState().deviceSettings[deviceId] ?? DEFAULT_DEVICE_SETTINGS;
+    const camera: CameraPosition = {
+      zoom: settings.zoom,
+      cameraVertical: settings.cameraVertical,
+      cameraHorizontal: settings.cameraHorizontal,
+      cameraPitch: settings.cameraPitch,
+    };
+    if (savePreset(deviceId, newName, camera)) setNewName('');
+  };
+
+  const startRename = (preset: CameraPreset) => {
+    setEditingId(preset.id);
+    setEditName(preset.name);
+  };
+
+  const commitRename = () => {
+    if (editingId) renamePreset(deviceId, editingId, editName);
+    setEditingId(null);
+  };
+
+  return (
+    <div className={styles.section}>
+      <h3 className={styles.sectionTitle}>Presets</h3>
+
+      <div className={styles.controlRow}>
+        <input
+          type="text"
+          className={styles.presetInput}
+          placeholder="Preset name"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSave();
+          }}
+        />
+        <button
+          type="button"
+          className={styles.smallButton}
+          onMouseDown={noFocusSteal}
+          onClick={handleSave}
+          disabled={!newName.trim()}
+          title="Save the current camera as a preset"
+        >
+          Save
+        </button>
+      </div>
+
+      {presets?.map((preset) => (
+        <div key={preset.id} className={styles.controlRow}>
+          {editingId === preset.id ? (
+            <input
+              type="text"
+              className={styles.presetInput}
+              value={editName}
+              autoFocus
+              onChange={(e) => setEditName(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setEditingId(null);
+              }}
+            />
+          ) : (
+            <button
+              type="button"
+              className={styles.presetName}
+              onMouseDown={noFocusSteal}
+              onClick={() => onApply(preset)}
+              title="Apply preset"
+            >
+              {preset.name}
+            </button>
+          )}
+          <button
+            type="button"
+            className={styles.smallButton}
+            onMouseDown={noFocusSteal}
+            onClick={() => startRename(preset)}
+            disabled={editingId === preset.id}
+          >
+            Rename
+          </button>
+          <button
+            type="button"
+            className={styles.smallButton}
+            onMouseDown={noFocusSteal}
+            onClick={() => deletePreset(deviceId, preset.id)}
+            aria-label={`Delete preset ${preset.name}`}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
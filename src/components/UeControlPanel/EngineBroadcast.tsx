@@ -0,0 +1,126 @@
+import { useMemo } from 'react';
+import { useUeControlStore, ueEndpointKey, type UeDeviceGroup } from '@/stores/ueControlStore';
+import { describeUeError } from '@/services/ueRemoteApi';
+import type { UeBroadcastMatrix } from '@/hooks/useUeBroadcast';
+import { noFocusSteal } from './noFocusSteal';
+import styles from './UeControlPanel.module.css';
+
+/** Matrix row labels; unknown controls show their key */
+const CONTROL_LABELS: Record<string, string> = {
+  zoom: 'Zoom',
+  cameraVertical: 'Vertical',
+  cameraHorizontal: 'Horizontal',
+  cameraPitch: 'Pitch',
+  camera: 'Preset',
+  level: 'Scene',
+  showLogo: 'Logo',
+  avatarId: 'Avatar',
+  stopAnswer: 'Stop answer',
+  lighting: 'Lighting',
+  allowInterruption: 'Interruption',
+  sync: 'Sync',
+};
+
+/** Short column header for an engine — its host:port */
+function engineLabel(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+interface EngineBroadcastProps {
+  deviceId: string;
+  group: UeDeviceGroup | null;
+  matrix: UeBroadcastMatrix;
+  onRetry: (control: string) => void;
+}
+
+/**
+ * Broadcast target picker plus the per-engine success/failure matrix.
+ *
+ * Rows are controls, columns the group's engines; a cell shows the control's
+ * last outcome on that engine (hover for the error). Rows sent as one logical
+ * command offer "Retry" for the engines that failed.
+ *
+ * Hidden when no engine groups exist (configured on the Settings page).
+ */
+export function EngineBroadcast({ deviceId, group, matrix, onRetry }: EngineBroadcastProps) {
+  const groups = useUeControlStore((s) => s.deviceGroups);
+  const setBroadcastGroup = useUeControlStore((s) => s.setBroadcastGroup);
+
+  const rows = useMemo(() => Object.entries(matrix), [matrix]);
+
+  if (groups.length === 0) return null;
+
+  return (
+    <div className={styles.section}>
+      <h3 className={styles.sectionTitle}>Broadcast</h3>
+
+      <select
+        className={styles.select}
+        value={group?.id ?? ''}
+        onChange={(e) => setBroadcastGroup(deviceId, e.target.value || null)}
+        aria-label="Broadcast target"
+      >
+        <option value="">This device only</option>
+        {groups.map((g) => (
+          <option key={g.id} value={g.id}>
+            {g.name} ({g.endpoints.length} engines)
+          </option>
+        ))}
+      </select>
+
+      {group && rows.length > 0 && (
+        <table className={styles.broadcastMatrix}>
+          <thead>
+            <tr>
+              <th scope="col" />
+              {group.endpoints.map((url) => (
+                <th key={url} scope="col" title={url}>
+                  {engineLabel(url)}
+                </th>
+              ))}
+              <th scope="col" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(([control, row]) => {
+              const hasFailure = group.endpoints.some((url) => row.results[ueEndpointKey(url)]?.ok === false);
+              return (
+                <tr key={control}>
+                  <th scope="row">{CONTROL_LABELS[control] ?? control}</th>
+                  {group.endpoints.map((url) => {
+                    const result = row.results[ueEndpointKey(url)];
+                    return (
+                      <td
+                        key={url}
+                        className={!result ? styles.cellIdle : result.ok ? styles.cellOk : styles.cellFailed}
+                        title={result ? (result.ok ? 'Applied' : describeUeError(result)) : 'Not sent'}
+                      >
+                        {!result ? '·' : result.ok ? '✓' : '✗'}
+                      </td>
+                    );
+                  })}
+                  <td>
+                    {row.retryable && hasFailure && (
+                      <button
+                        type="button"
+                        className={styles.smallButton}
+                        onMouseDown={noFocusSteal}
+                        onClick={() => onRetry(control)}
+                      >
+                        Retry
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
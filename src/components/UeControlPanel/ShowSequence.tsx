@@ -0,0 +1,207 @@
+import {
+  useShowSequenceStore,
+  SHOW_COMMANDS,
+  type ShowCommandId,
+  type ShowStep,
+} from '@/stores/showSequenceStore';
+import { useUeControlStore } from '@/stores/ueControlStore';
+import type { ShowStepStatus, UseShowRunnerResult } from '@/hooks/useShowRunner';
+import { SLIDER_RANGES } from './deviceSettingFields';
+import { noFocusSteal } from './noFocusSteal';
+import styles from './UeControlPanel.module.css';
+
+const STATUS_ICON: Record<ShowStepStatus, string> = {
+  pending: '·',
+  running: '▶',
+  done: '✓',
+  failed: '✕',
+};
+
+const STATUS_CLASS: Record<ShowStepStatus, string | undefined> = {
+  pending: styles.stepPending,
+  running: styles.stepRunning,
+  done: styles.stepDone,
+  failed: styles.stepFailed,
+};
+
+interface ShowSequenceProps {
+  deviceId: string;
+  /** Owned by the panel so the show keeps playing while the dropdown is closed */
+  runner: UseShowRunnerResult;
+}
+
+/**
+ * Show mode — edit and play the device's scripted demo sequence.
+ *
+ * Each step is a UE command with its parameter and a delay before it runs.
+ * Playback state and per-step results come from `useShowRunner`.
+ */
+export function ShowSequence({ deviceId, runner }: ShowSequenceProps) {
+  const { steps, runState, currentIndex, stepStatus, loop, setLoop, play, pause, stop } = runner;
+  const addStep = useShowSequenceStore((s) => s.addStep);
+  const updateStep = useShowSequenceStore((s) => s.updateStep);
+  const removeStep = useShowSequenceStore((s) => s.removeStep);
+  const moveStep = useShowSequenceStore((s) => s.moveStep);
+
+  const levels = useUeControlStore((s) => s.levelCatalog.levels);
+
+  const playing = runState === 'playing';
+
+  const renderParam = (step: ShowStep) => {
+    switch (SHOW_COMMANDS[step.command].param) {
+      case 'level':
+        return (
+          <select
+            className={styles.select}
+            value={step.param}
+            onChange={(e) => updateStep(deviceId, step.id, { param: e.target.value })}
+          >
+            {levels.map((lvl) => (
+              <option key={lvl.id} value={lvl.id}>
+                {lvl.label}
+              </option>
+            ))}
+          </select>
+        );
+      case 'boolean':
+        return (
+          <input
+            type="checkbox"
+            className={styles.toggle}
+            checked={step.param === 'true'}
+            onMouseDown={noFocusSteal}
+            onChange={(e) => updateStep(deviceId, step.id, { param: String(e.target.checked) })}
+          />
+        );
+      case 'number':
+        return (
+          <input
+            type="number"
+            className={styles.numberInput}
+            min={SLIDER_RANGES.zoom.min * SLIDER_RANGES.zoom.scale}
+            max={SLIDER_RANGES.zoom.max * SLIDER_RANGES.zoom.scale}
+            step={SLIDER_RANGES.zoom.scale}
+            value={step.param}
+            onChange={(e) => updateStep(deviceId, step.id, { param: e.target.value })}
+            title="Absolute zoom offset (UE units)"
+          />
+        );
+      case 'none':
+        return null;
+    }
+  };
+
+  return (
+    <div className={styles.section}>
+      <h3 className={styles.sectionTitle}>Show mode</h3>
+
+      {steps.map((step, i) => {
+        const status = stepStatus[step.id] ?? 'pending';
+        return (
+          <div
+            key={step.id}
+            className={`${styles.showStep} ${playing && i === currentIndex ? styles.showStepActive : ''}`}
+          >
+            <div className={styles.controlRow}>
+              <span className={`${styles.stepStatus} ${STATUS_CLASS[status] ?? ''}`} title={status}>
+                {STATUS_ICON[status]}
+              </span>
+              <select
+                className={styles.select}
+                value={step.command}
+                onChange={(e) => updateStep(deviceId, step.id, { command: e.target.value as ShowCommandId })}
+              >
+                {(Object.keys(SHOW_COMMANDS) as ShowCommandId[]).map((id) => (
+                  <option key={id} value={id}>
+                    {SHOW_COMMANDS[id].label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                className={styles.smallButton}
+                onMouseDown={noFocusSteal}
+                onClick={() => removeStep(deviceId, step.id)}
+                aria-label={`Remove step ${i + 1}`}
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className={styles.controlRow}>
+              <span className={styles.controlLabel}>after</span>
+              <input
+                type="number"
+                className={styles.numberInput}
+                min={0}
+                step={0.1}
+                value={step.delayMs / 1000}
+                onChange={(e) =>
+                  updateStep(deviceId, step.id, { delayMs: Math.round((Number(e.target.value) || 0) * 1000) })
+                }
+                title="Delay before this step, seconds"
+              />
+              <span className={styles.controlLabel}>s</span>
+              {renderParam(step)}
+              <button
+                type="button"
+                className={styles.smallButton}
+                onMouseDown={noFocusSteal}
+                onClick={() => moveStep(deviceId, step.id, -1)}
+                disabled={i === 0}
+                aria-label={`Move step ${i + 1} up`}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                className={styles.smallButton}
+                onMouseDown={noFocusSteal}
+                onClick={() => moveStep(deviceId, step.id, 1)}
+                disabled={i === steps.length - 1}
+                aria-label={`Move step ${i + 1} down`}
+              >
+                ↓
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className={styles.buttonRow}>
+        <button type="button" className={styles.smallButton} onMouseDown={noFocusSteal} onClick={() => addStep(deviceId)}>
+          + Step
+        </button>
+        <button
+          type="button"
+          className={styles.smallButton}
+          onMouseDown={noFocusSteal}
+          onClick={playing ? pause : play}
+          disabled={steps.length === 0}
+        >
+          {playing ? 'Pause' : runState === 'paused' ? 'Resume' : 'Play'}
+        </button>
+        <button
+          type="button"
+          className={styles.smallButton}
+          onMouseDown={noFocusSteal}
+          onClick={stop}
+          disabled={runState === 'idle'}
+        >
+          Stop
+        </button>
+      </div>
+
+      <div className={styles.controlRow}>
+        <span className={styles.controlLabel}>Loop</span>
+        <input
+          type="checkbox"
+          className={styles.toggle}
+          checked={loop}
+          onMouseDown={noFocusSteal}
+          onChange={(e) => setLoop(e.target.checked)}
+        />
+      </div>
+    </div>
+  );
+}
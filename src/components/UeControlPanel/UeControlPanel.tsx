@@ -2,38 +2,51 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Link } from 'react-router-dom';
 import {
   useUeControlStore,
-  UE_LEVELS,
+  CUSTOM_BACKGROUND_LEVEL,
   DEFAULT_DEVICE_SETTINGS,
+  LIGHT_BRIGHTNESS_RANGE,
+  LIGHT_PRESET_COUNT,
   ZERO_CAMERA,
+  ZERO_LIGHTING,
+  lightingOf,
+  stepLighting,
+  type CameraPreset,
+  type LightingAction,
   type UeDeviceSettings,
   type UeLevelId,
 } from '@/stores/ueControlStore';
 import {
-  changeLevel,
-  setLogo,
-  setInterruption,
-  lightUp,
-  lightDown,
-  changeLight,
   stopAnswer,
   resetCameraToZero,
   applyDeviceSettings,
+  applyLightingTransition,
+  animateCameraTransition,
+  sendDeviceSetting,
+  type CommittedEngineState,
+  type UeCommandResult,
 } from '@/services/ueRemoteApi';
-import { useSliderSend } from '@/hooks/useSliderSend';
+import { useSliderSend, type SliderKey } from '@/hooks/useSliderSend';
+import { useUeCommandFeedback } from '@/hooks/useUeCommandFeedback';
+import { useUeCommandQueue } from '@/hooks/useUeCommandQueue';
+import { useUeBroadcast } from '@/hooks/useUeBroadcast';
+import { useCameraReconciliation } from '@/hooks/useCameraReconciliation';
+import { useShowRunner } from '@/hooks/useShowRunner';
+import { useLevelCatalog } from '@/hooks/useLevelCatalog';
+import { useCameraInput } from '@/hooks/useCameraInput';
+import { useUeHistoryStore, type UeSettingsPatch } from '@/stores/ueHistoryStore';
+import { DEVICE_SETTING_COMMANDS, type DeviceSettingKey } from '@/services/ueCommandRegistry';
+import { AdvancedSettings } from './AdvancedSettings';
+import { AvatarPicker } from './AvatarPicker';
+import { BackgroundPicker } from './BackgroundPicker';
+import { CameraInputCapture, CameraInputSettings } from './CameraInputSettings';
+import { CameraPresets } from './CameraPresets';
+import { EngineBroadcast } from './EngineBroadcast';
+import { ShowSequence } from './ShowSequence';
+import { SLIDER_RANGES } from './deviceSettingFields';
+import { UnsyncedMark } from './UnsyncedMark';
+import { noFocusSteal } from './noFocusSteal';
 import styles from './UeControlPanel.module.css';
 
-/** Prevent mousedown from stealing focus from the PS iframe. */
-const noFocusSteal = (e: React.MouseEvent) => e.preventDefault();
-
-/** Slider min/max ranges per camera axis (UI steps).
- *  `scale` converts a UI step to UE units (offset / angle). */
-const SLIDER_RANGES = {
-  zoom:             { min: -20, max: 20, scale: 50   },
-  cameraVertical:   { min: -20, max: 20, scale: 15   },
-  cameraHorizontal: { min: -20, max: 20, scale: 15   },
-  cameraPitch:      { min: -20, max: 20, scale: 2.25 },
-} as const;
-
 // ── Focus-free slider ──────────────────────────────────────────────────
 // Uses <div> instead of <input type="range"> so it never enters the
 // browser focus system.  Mouse events work normally on non-focusable
@@ -46,13 +59,17 @@ interface DivSliderProps {
   max: number;
   value: number;
   onChange: (value: number) => void;
+  /** Drag ended (mouse released) */
+  onRelease?: () => void;
 }
 
-function DivSlider({ min, max, value, onChange }: DivSliderProps) {
+function DivSlider({ min, max, value, onChange, onRelease }: DivSliderProps) {
   const trackRef = useRef<HTMLDivElement>(null);
   const [dragging, setDragging] = useState(false);
   const onChangeRef = useRef(onChange);
   onChangeRef.current = onChange;
+  const onReleaseRef = useRef(onRelease);
+  onReleaseRef.current = onRelease;
   const rangeRef = useRef({ min, max });
   rangeRef.current = { min, max };
 
@@ -78,6 +95,7 @@ function DivSlider({ min, max, value, onChange }: DivSliderProps) {
       setDragging(false);
       document.removeEventListener('mousemove', onMove);
       document.removeEventListener('mouseup', onUp);
+      onReleaseRef.current?.();
     };
     document.addEventListener('mousemove', onMove);
     document.addEventListener('mouseup', onUp);
@@ -97,6 +115,29 @@ function DivSlider({ min, max, value, onChange }: DivSliderProps) {
   );
 }
 
+/** Committed camera + lighting of an engine — what `applyDeviceSettings` replays from */
+function committedEngineState(url: string): CommittedEngineState {
+  const store = useUeControlStore.getState();
+  return { camera: store.getCommittedCamera(url), lighting: store.getCommittedLighting(url) };
+}
+
+function commitEngineState(url: string, committed: CommittedEngineState): void {
+  const store = useUeControlStore.getState();
+  store.setUeCommittedCamera(url, committed.camera);
+  store.setUeCommittedLighting(url, committed.lighting);
+}
+
+/** First error among a section's controls, as an inline line under the section. */
+function ControlError({ errors, controls }: { errors: Record<string, string>; controls: readonly string[] }) {
+  const message = controls.map((c) => errors[c]).find(Boolean);
+  if (!message) return null;
+  return (
+    <div className={styles.controlError} role="alert">
+      {message}
+    </div>
+  );
+}
+
 interface UeControlPanelProps {
   deviceId: string;
 }
@@ -107,12 +148,57 @@ interface UeControlPanelProps {
  * Features:
  *   - Camera sliders (zoom, vertical, horizontal, pitch) — debounced at 200ms,
  *     accumulates deltas so rapid drags don't lose offset.
- *   - Scene (level) selector, logo toggle, lighting controls, audio interruption toggle.
+ *   - Keyboard / gamepad camera control — while the ⌨ capture toggle is on,
+ *     bound keys and gamepad sticks nudge the camera sliders one step at a
+ *     time through the same debounced delta path (`useCameraInput`). Bindings
+ *     are editable in the "Camera input" section and persisted.
+ *   - Named camera presets per device — applying one animates the camera
+ *     from committed to preset via `animateCameraTransition`.
+ *   - Scene (level) selector — levels from the cached catalogue (`useLevelCatalog`),
+ *     logo toggle, audio interruption toggle.
+ *   - Lighting — brightness / preset buttons update the device's lighting
+ *     settings; each engine is then stepped there from its committed lighting
+ *     (`applyLightingTransition`), one transition at a time.
+ *   - Custom background picker — on `LVL_Master_CustomBackground`, images and
+ *     videos uploaded to the writer backend; the chosen file's path is stored
+ *     per device and sent as SetCustomBackground (again after each switch to
+ *     that level).
+ *   - Advanced section — every `UeDeviceSettings` field, generated from
+ *     `DEVICE_SETTING_FIELDS`; disruptive ones (audio format) ask first.
+ *   - Avatar picker — searchable catalogue from the writer backend; the choice
+ *     is stored per device and sent as ChangeAvatarByID. Disabled while the
+ *     device's "Allow avatar change" switch is off.
  *   - "Reset to defaults" — reverses camera offsets via `resetCameraToZero`,
  *     then applies `DEFAULT_DEVICE_SETTINGS`.
+ *   - Undo / redo per device (`useUeHistoryStore`) — every settings change the
+ *     panel makes is recorded first; a slider drag (or a run of key / stick
+ *     nudges on one axis) is one entry. Undoing re-sends the restored fields,
+ *     camera axes as deltas from the engine's committed camera.
+ *   - Per-device engine — every command targets `getUeApiUrl(deviceId)` (the
+ *     device's override or the default URL) and tracks that engine's committed
+ *     camera; the mounted panel marks its device active for health polling.
+ *   - Broadcast — with an engine group selected, every command goes to all of
+ *     the group's engines in parallel (`useUeBroadcast`); camera moves start
+ *     from each engine's own committed camera, and a matrix shows per-engine
+ *     success/failure. Drift checks and show mode stay on the device's own engine.
+ *   - Camera drift prompt — on open, UE's camera is read back and compared with
+ *     the committed camera; a mismatch offers "Resync" (trust UE) or "Ignore".
+ *   - Show mode — scripted demo sequence per device (play / pause / loop).
+ *   - Offline queue — level and toggle changes are queued per device
+ *     (`useUeCommandQueue`) and retried with backoff until UE confirms them;
+ *     unconfirmed controls carry an "unsynced" dot. Broadcasts bypass the
+ *     queue — failed engines are retried from the matrix instead.
+ *   - Command feedback — failed sends show an inline error under the control's
+ *     section and a short-lived toast (visible even while the panel is closed).
  *   - UE connection status badge (bottom-right pill).
  *   - Auto-closes on outside click; returns focus to PS iframe when closed.
  *
+ * Animated camera moves:
+ *   `cameraMoveRef` holds the running preset move. Every other camera action
+ *   (sliders, reset, re-sync, device switch) aborts it first and waits for the
+ *   in-flight step, so it starts from a committed camera that `onStep` has
+ *   kept exact.
+ *
  * Slider delta tracking:
  *   `sentValueRef` holds the last baseline successfully sent to UE.
  *   On debounce fire, delta is computed as (latest store value − baseline).
@@ -123,7 +209,9 @@ export function UeControlPanel({ deviceId }: UeControlPanelProps) {
   const [isOpen, setIsOpen] = useState(false);
   const panelRef = useRef<HTMLDivElement>(null);
 
-  const ueApiUrl = useUeControlStore((s) => s.ueApiUrl);
+  const ueApiUrl = useUeControlStore((s) => s.getUeApiUrl(deviceId));
+  const ueReachable = useUeControlStore((s) => s.ueReachable);
+  const ueLatencyMs = useUeControlStore((s) => s.ueLatencyMs);
   // Stable selector: memoize per deviceId to avoid re-subscriptions
   const settingsSelector = useMemo(
     () => (s: { deviceSettings: Record<string, UeDeviceSettings> }) =>
@@ -131,8 +219,30 @@ export function UeControlPanel({ deviceId }: UeControlPanelProps) {
     [deviceId],
   );
   const settings = useUeControlStore(settingsSelector);
-  const updateSettings = useUeControlStore((s) => s.updateDeviceSettings);
+  const storeUpdateSettings = useUeControlStore((s) => s.updateDeviceSettings);
   const resetSettings = useUeControlStore((s) => s.resetDeviceSettings);
+  const canUndo = useUeHistoryStore((s) => (s.histories[deviceId]?.past.length ?? 0) > 0);
+  const canRedo = useUeHistoryStore((s) => (s.histories[deviceId]?.future.length ?? 0) > 0);
+
+  /** True while an undo / redo is re-applied — those changes aren't recorded again */
+  const replayingRef = useRef(false);
+
+  /** Store a settings change, recording it in the device's undo history first */
+  const updateSettings = useCallback(
+    (id: string, patch: UeSettingsPatch, gesture?: string) => {
+      if (!replayingRef.current) {
+        useUeHistoryStore.getState().record(id, useUeControlStore.getState().getDeviceSettings(id), patch, gesture);
+      }
+      storeUpdateSettings(id, patch);
+    },
+    [storeUpdateSettings],
+  );
+
+  // Health polling and the status pill follow this device's engine
+  useEffect(() => {
+    useUeControlStore.getState().setActiveUeDevice(deviceId);
+    return () => useUeControlStore.getState().setActiveUeDevice(null);
+  }, [deviceId]);
 
   // Close panel on outside click
   useEffect(() => {
@@ -147,54 +257,288 @@ export function UeControlPanel({ deviceId }: UeControlPanelProps) {
     return () => document.removeEventListener('mousedown', handler);
   }, [isOpen]);
 
-  const { handleSlider, resetSliderState } = useSliderSend({ deviceId });
+  const { errors, toasts, report, dismissToast } = useUeCommandFeedback();
+  const { group, endpoints, matrix, broadcast, record, retryFailed } = useUeBroadcast({ deviceId, onResult: report });
+  const handleSliderResult = useCallback(
+    (key: SliderKey, result: UeCommandResult, url: string) => {
+      report(key, result);
+      record(key, url, result);
+    },
+    [report, record],
+  );
+  const { handleSlider, resetSliderState } = useSliderSend({ deviceId, onResult: handleSliderResult });
+  const { pending, submit: submitSetting } = useUeCommandQueue({ deviceId, onResult: report });
+  const { levels } = useLevelCatalog(deviceId);
+  const { drift, resync, dismiss: dismissDrift, checkCamera } = useCameraReconciliation({ deviceId, onResult: report });
+  const showRunner = useShowRunner({ deviceId });
 
   const applyGenRef = useRef(0);
+  const cameraMoveRef = useRef<{ controller: AbortController; done: Promise<unknown> } | null>(null);
+
+  /** Abort the running animated move and wait until its in-flight step lands. */
+  const cancelCameraMove = useCallback(async () => {
+    const move = cameraMoveRef.current;
+    if (!move) return;
+    move.controller.abort();
+    await move.done;
+  }, []);
+
+  // Stop any animation when the panel unmounts
+  useEffect(() => () => cameraMoveRef.current?.controller.abort(), []);
+
+  /**
+   * `gesture` groups a drag (or a run of nudges) into one undo entry. The send
+   * waits for an animated move's in-flight step, so its delta starts from the
+   * committed camera that step leaves.
+   */
+  const handleCameraSlider = useCallback(
+    (key: SliderKey, value: number, gesture?: string) => {
+      updateSettings(deviceId, { [key]: value }, gesture);
+      if (cameraMoveRef.current) void cancelCameraMove().then(() => handleSlider(key, value));
+      else handleSlider(key, value);
+    },
+    [deviceId, updateSettings, handleSlider, cancelCameraMove],
+  );
+
+  const endSliderGesture = useCallback(() => useUeHistoryStore.getState().endGesture(deviceId), [deviceId]);
+
+  /** Move a camera slider by whole steps (keyboard / gamepad input), clamped to its range */
+  const handleNudge = useCallback(
+    (axis: SliderKey, steps: number) => {
+      const { min, max, scale } = SLIDER_RANGES[axis];
+      const current = useUeControlStore.getState().getDeviceSettings(deviceId)[axis];
+      const next = Math.min(max, Math.max(min, Math.round(current / scale) + steps));
+      if (next * scale !== current) handleCameraSlider(axis, next * scale, `nudge:${axis}`);
+    },
+    [deviceId, handleCameraSlider],
+  );
+  useCameraInput({ onNudge: handleNudge });
+
+  // Read UE's camera back whenever the panel opens
+  useEffect(() => {
+    if (!isOpen) return;
+    void checkCamera();
+  }, [isOpen, checkCamera]);
+
+  const handleResyncDrift = useCallback(() => {
+    // Invalidate any in-flight auto-apply or reset — they computed deltas from the stale model
+    ++applyGenRef.current;
+    resetSliderState();
+    void cancelCameraMove().then(resync);
+  }, [resync, resetSliderState, cancelCameraMove]);
+
+  const handleApplyPreset = useCallback(
+    (preset: CameraPreset) => {
+      // Invalidate any in-flight auto-apply or reset — the preset wins
+      const gen = ++applyGenRef.current;
+      resetSliderState();
+      updateSettings(deviceId, { ...preset.camera });
+
+      if (useUeControlStore.getState().getUeEndpoints(deviceId).length === 0) return;
+
+      void (async () => {
+        await cancelCameraMove();
+        if (applyGenRef.current !== gen) return;
+
+        const controller = new AbortController();
+        const done = broadcast(
+          'camera',
+          async (url) => {
+            const { results } = await animateCameraTransition(
+              url,
+              useUeControlStore.getState().getCommittedCamera(url),
+              preset.camera,
+              {
+                signal: controller.signal,
+                onStep: (committed) => useUeControlStore.getState().setUeCommittedCamera(url, committed),
+              },
+            );
+            return results;
+          },
+          { retryable: false },
+        );
+        cameraMoveRef.current = { controller, done };
+        await done;
+        if (cameraMoveRef.current?.controller === controller) cameraMoveRef.current = null;
+      })();
+    },
+    [deviceId, updateSettings, resetSliderState, cancelCameraMove, broadcast],
+  );
 
   // ── Auto-apply device settings when switching devices ───────────────────
-  // Sends camera deltas (committed → desired) + absolute commands to UE.
+  // Sends camera deltas (committed → desired) + absolute commands to the new
+  // device's engines, each starting from its own committed camera.
   const prevDeviceIdRef = useRef(deviceId);
   useEffect(() => {
     if (prevDeviceIdRef.current === deviceId) return;
     prevDeviceIdRef.current = deviceId;
 
     const gen = ++applyGenRef.current;
-    const url = useUeControlStore.getState().ueApiUrl;
-    if (!url) return;
+    if (useUeControlStore.getState().getUeEndpoints(deviceId).length === 0) return;
 
     const desired = useUeControlStore.getState().getDeviceSettings(deviceId);
-    const committed = useUeControlStore.getState().ueCommittedCamera;
 
-    void applyDeviceSettings(url, desired, committed).then(({ newCommitted }) => {
+    void (async () => {
+      await cancelCameraMove();
       if (applyGenRef.current !== gen) return;
-      useUeControlStore.getState().setUeCommittedCamera(newCommitted);
-    });
-  }, [deviceId]);
-
-  // ── Toggle handler ────────────────────────────────────────────────────────
+      await broadcast(
+        'sync',
+        async (url) => {
+          const { newCommitted, results } = await applyDeviceSettings(url, desired, committedEngineState(url));
+          if (applyGenRef.current === gen) commitEngineState(url, newCommitted);
+          return results;
+        },
+        { retryable: false },
+      );
+    })();
+  }, [deviceId, cancelCameraMove, broadcast]);
+
+  // ── Absolute settings ─────────────────────────────────────────────────────
+  // Single engine: through the command queue — retried until UE confirms.
+  // Group: broadcast to every engine — failures are retried from the matrix.
+
+  const sendSetting = useCallback(
+    <K extends DeviceSettingKey>(key: K, value: UeDeviceSettings[K]) => {
+      if (group) void broadcast(key, (url) => sendDeviceSetting(url, key, value));
+      else if (useUeControlStore.getState().getUeApiUrl(deviceId)) submitSetting(key, value);
+    },
+    [deviceId, group, broadcast, submitSetting],
+  );
 
   const handleToggle = useCallback(
-    (
-      key: keyof Pick<UeDeviceSettings, 'showLogo' | 'allowInterruption'>,
-      value: boolean,
-      sendFn: (baseUrl: string, val: boolean) => Promise<boolean>,
-    ) => {
+    (key: keyof Pick<UeDeviceSettings, 'showLogo' | 'allowAvatarChange' | 'allowInterruption'>, value: boolean) => {
       updateSettings(deviceId, { [key]: value });
-      const url = useUeControlStore.getState().ueApiUrl;
-      if (url) void sendFn(url, value);
+      sendSetting(key, value);
     },
-    [deviceId, updateSettings],
+    [deviceId, updateSettings, sendSetting],
   );
 
-  // ── Level handler ─────────────────────────────────────────────────────────
-
   const handleLevel = useCallback(
     (level: UeLevelId) => {
       updateSettings(deviceId, { level });
-      const url = useUeControlStore.getState().ueApiUrl;
-      if (url) void changeLevel(url, level);
+      sendSetting('level', level);
+      // A fresh level load shows no background until it's set again
+      const { customBackground } = useUeControlStore.getState().getDeviceSettings(deviceId);
+      if (level === CUSTOM_BACKGROUND_LEVEL && customBackground) sendSetting('customBackground', customBackground);
+    },
+    [deviceId, updateSettings, sendSetting],
+  );
+
+  /** Stored either way; only sent while the custom background level is active */
+  const handleBackground = useCallback(
+    (customBackground: string) => {
+      updateSettings(deviceId, { customBackground });
+      const { level } = useUeControlStore.getState().getDeviceSettings(deviceId);
+      if (level === CUSTOM_BACKGROUND_LEVEL && customBackground) sendSetting('customBackground', customBackground);
+    },
+    [deviceId, updateSettings, sendSetting],
+  );
+
+  const handleAvatar = useCallback(
+    (avatarId: string) => {
+      updateSettings(deviceId, { avatarId });
+      sendSetting('avatarId', avatarId);
+    },
+    [deviceId, updateSettings, sendSetting],
+  );
+
+  // ── Lighting ─────────────────────────────────────────────────────────────
+  // Buttons change the device's lighting settings; `syncLighting` then steps
+  // every engine from its committed lighting to them. Transitions are chained
+  // so a burst of clicks can't replay the same steps twice — each starts from
+  // what the previous one left committed.
+
+  const lightingChainRef = useRef<Promise<void>>(Promise.resolve());
+
+  const syncLighting = useCallback(() => {
+    const send = async (url: string) => {
+      const store = useUeControlStore.getState();
+      const desired = lightingOf(store.getDeviceSettings(deviceId));
+      const committed = store.getCommittedLighting(url);
+      const { newCommitted, results } = await applyLightingTransition(url, committed, desired);
+      useUeControlStore.getState().setUeCommittedLighting(url, newCommitted);
+      return results;
+    };
+    lightingChainRef.current = lightingChainRef.current.then(() => broadcast('lighting', send));
+  }, [deviceId, broadcast]);
+
+  const handleLighting = useCallback(
+    (action: LightingAction) => {
+      const current = useUeControlStore.getState().getDeviceSettings(deviceId);
+      updateSettings(deviceId, stepLighting(lightingOf(current), action));
+      syncLighting();
+    },
+    [deviceId, updateSettings, syncLighting],
+  );
+
+  /**
+   * Advanced section: camera axes go through the slider path, lighting through
+   * `syncLighting`, the rest like any setting.
+   */
+  const handleSettingChange = useCallback(
+    (key: keyof UeDeviceSettings, value: UeDeviceSettings[keyof UeDeviceSettings]) => {
+      if (key in SLIDER_RANGES) {
+        handleCameraSlider(key as SliderKey, value as number);
+        return;
+      }
+      if (key === 'level') {
+        handleLevel(value as UeLevelId);
+        return;
+      }
+      if (key === 'customBackground') {
+        handleBackground(value as string);
+        return;
+      }
+      if (key === 'lightBrightness' || key === 'lightPreset') {
+        updateSettings(deviceId, { [key]: value });
+        syncLighting();
+        return;
+      }
+      updateSettings(deviceId, { [key]: value });
+      if (key in DEVICE_SETTING_COMMANDS) sendSetting(key as DeviceSettingKey, value as UeDeviceSettings[DeviceSettingKey]);
     },
-    [deviceId, updateSettings],
+    [deviceId, updateSettings, sendSetting, handleCameraSlider, handleLevel, handleBackground, syncLighting],
+  );
+
+  // ── Undo / redo ──────────────────────────────────────────────────────────
+  // The restored fields are stored in one go, then each is re-sent through its
+  // usual path — camera axes as slider deltas from the committed camera,
+  // lighting as net steps, the level (with its custom background) last.
+
+  const replayHistory = useCallback(
+    (patch: UeSettingsPatch | null) => {
+      if (!patch) return;
+      replayingRef.current = true;
+      try {
+        resetSliderState();
+        updateSettings(deviceId, patch);
+        const keys = (Object.keys(patch) as (keyof UeDeviceSettings)[])
+          .filter((key) => !(key === 'customBackground' && 'level' in patch))
+          .sort((a, b) => Number(a === 'level') - Number(b === 'level'));
+        for (const key of keys) handleSettingChange(key, patch[key]!);
+      } finally {
+        replayingRef.current = false;
+      }
+    },
+    [deviceId, updateSettings, resetSliderState, handleSettingChange],
+  );
+
+  const handleUndo = useCallback(
+    () => replayHistory(useUeHistoryStore.getState().undo(deviceId)),
+    [deviceId, replayHistory],
+  );
+  const handleRedo = useCallback(
+    () => replayHistory(useUeHistoryStore.getState().redo(deviceId)),
+    [deviceId, replayHistory],
+  );
+
+  // ── Fire-and-forget actions (stop answer) ────────────────────────────────
+
+  const handleAction = useCallback(
+    (control: string, sendFn: (baseUrl: string) => Promise<UeCommandResult>) => {
+      void broadcast(control, sendFn);
+    },
+    [broadcast],
   );
 
   const handleReset = useCallback(() => {
@@ -203,37 +547,88 @@ export function UeControlPanel({ deviceId }: UeControlPanelProps) {
 
     resetSliderState();
 
-    // Reset device settings in store (UI immediately shows defaults)
+    // Reset device settings in store (UI immediately shows defaults) — undoable as one entry
+    useUeHistoryStore
+      .getState()
+      .record(deviceId, useUeControlStore.getState().getDeviceSettings(deviceId), DEFAULT_DEVICE_SETTINGS);
     resetSettings(deviceId);
 
-    // Send reverse camera deltas from committed position + default absolute commands
-    const url = useUeControlStore.getState().ueApiUrl;
-    const committed = useUeControlStore.getState().ueCommittedCamera;
+    // Send reverse camera deltas from each engine's committed position + default absolute commands
+    if (useUeControlStore.getState().getUeEndpoints(deviceId).length === 0) return;
 
-    if (url) {
-      void (async () => {
-        const newCommitted = await resetCameraToZero(url, committed);
-        if (applyGenRef.current !== gen) return;
-        useUeControlStore.getState().setUeCommittedCamera(newCommitted);
-        await applyDeviceSettings(url, DEFAULT_DEVICE_SETTINGS, newCommitted);
-      })();
-    }
-  }, [deviceId, resetSettings, resetSliderState]);
+    void (async () => {
+      await cancelCameraMove();
+      if (applyGenRef.current !== gen) return;
+      await broadcast(
+        'sync',
+        async (url) => {
+          const committed = useUeControlStore.getState().getCommittedCamera(url);
+          const reset = await resetCameraToZero(url, committed);
+          if (applyGenRef.current !== gen) return reset.results;
+          useUeControlStore.getState().setUeCommittedCamera(url, reset.newCommitted);
+          const applied = await applyDeviceSettings(url, DEFAULT_DEVICE_SETTINGS, {
+            camera: reset.newCommitted,
+            lighting: useUeControlStore.getState().getCommittedLighting(url),
+          });
+          if (applyGenRef.current === gen) commitEngineState(url, applied.newCommitted);
+          return [...reset.results, ...applied.results];
+        },
+        { retryable: false },
+      );
+    })();
+  }, [deviceId, resetSettings, resetSliderState, cancelCameraMove, broadcast]);
+
+  const handleResyncAll = useCallback(() => {
+    // Invalidate any in-flight auto-apply or previous reset
+    const gen = ++applyGenRef.current;
+    // Assume UE is at zero (fresh start), then re-apply current settings
+    const desired = useUeControlStore.getState().getDeviceSettings(deviceId);
+    resetSliderState();
+    void (async () => {
+      await cancelCameraMove();
+      if (applyGenRef.current !== gen) return;
+      await broadcast(
+        'sync',
+        async (url) => {
+          const zero = { camera: ZERO_CAMERA, lighting: ZERO_LIGHTING };
+          commitEngineState(url, zero);
+          const { newCommitted, results } = await applyDeviceSettings(url, desired, zero);
+          if (applyGenRef.current === gen) commitEngineState(url, newCommitted);
+          return results;
+        },
+        { retryable: false },
+      );
+    })();
+  }, [deviceId, resetSliderState, cancelCameraMove, broadcast]);
 
   return (
     <div ref={panelRef} className={styles.wrapper} data-ue-panel>
-      {/* Status label — HIDDEN until backend provides a dedicated health-check endpoint.
-          The previous `{ command: 'ping' }` was not a real UE command, causing false
-          "UE Offline" reports. To re-enable: add a real ping endpoint, uncomment
-          the health check in useStatusPolling.ts, and restore this block. */}
+      {/* Status pill — driven by useStatusPolling's /ue-health probe */}
+      {ueApiUrl && ueReachable !== null && (
+        <div
+          className={`${styles.statusLabel} ${ueReachable ? styles.statusConnected : styles.statusDisconnected}`}
+          role="status"
+          title={ueApiUrl}
+        >
+          <span
+            className={`${styles.statusDot} ${ueReachable ? styles.statusDotConnected : styles.statusDotDisconnected}`}
+            aria-hidden="true"
+          />
+          <span className={styles.statusText}>
+            {ueReachable
+              ? `UE Online${ueLatencyMs !== null ? ` · ${ueLatencyMs}ms` : ''}`
+              : 'UE Offline'}
+          </span>
+        </div>
+      )}
 
       {/* Trigger button — always visible, dimmed when no UE URL */}
       <button
         type="button"
-        className={`${styles.trigger} ${isOpen ? styles.triggerActive : ''} ${!ueApiUrl ? styles.triggerDimmed : ''}`}
+        className={`${styles.trigger} ${isOpen ? styles.triggerActive : ''} ${endpoints.length === 0 ? styles.triggerDimmed : ''}`}
         onMouseDown={(e) => e.preventDefault()}
         onClick={() => setIsOpen((v) => !v)}
-        title={ueApiUrl ? 'UE Remote Control' : 'UE Remote Control — set API URL in Settings'}
+        title={endpoints.length > 0 ? 'UE Remote Control' : 'UE Remote Control — set API URL in Settings'}
       >
         <span className={styles.triggerIcon} aria-hidden="true">
           <svg width="20" height="20" viewBox="0 0 20 20" fill="none" stroke="currentColor" strokeWidth="1.4" strokeLinecap="round" strokeLinejoin="round">
@@ -253,16 +648,38 @@ export function UeControlPanel({ deviceId }: UeControlPanelProps) {
         </span>
       </button>
 
+      {/* Camera input capture — beside the trigger, usable with the panel closed */}
+      {endpoints.length > 0 && <CameraInputCapture />}
+
       {/* Dropdown panel */}
       {isOpen && (
         <div className={styles.panel}>
-          {!ueApiUrl && (
+          {endpoints.length === 0 && (
             <div className={styles.noUrlHint}>
               Set <strong>UE API URL</strong> on the{' '}
               <Link to="/" className={styles.noUrlLink} onMouseDown={noFocusSteal}>Settings</Link> page to enable controls.
             </div>
           )}
 
+          {drift && (
+            <div className={styles.driftPrompt} role="alert">
+              <span>
+                Camera drift detected ({drift.axes.join(', ')}). Resync with UE?
+              </span>
+              <div className={styles.buttonRow}>
+                <button type="button" className={styles.smallButton} onMouseDown={noFocusSteal} onClick={handleResyncDrift}>
+                  Resync
+                </button>
+                <button type="button" className={styles.smallButton} onMouseDown={noFocusSteal} onClick={dismissDrift}>
+                  Ignore
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* ── Broadcast target + per-engine results ── */}
+          <EngineBroadcast deviceId={deviceId} group={group} matrix={matrix} onRetry={retryFailed} />
+
           {/* ── Camera & Zoom ── */}
           <div className={styles.section}>
             <h3 className={styles.sectionTitle}>Camera</h3>
@@ -273,7 +690,8 @@ export function UeControlPanel({ deviceId }: UeControlPanelProps) {
                 min={SLIDER_RANGES.zoom.min}
                 max={SLIDER_RANGES.zoom.max}
                 value={Math.round(settings.zoom / SLIDER_RANGES.zoom.scale)}
-                onChange={(v) => handleSlider('zoom', v * SLIDER_RANGES.zoom.scale)}
+                onChange={(v) => handleCameraSlider('zoom', v * SLIDER_RANGES.zoom.scale, 'slider')}
+                onRelease={endSliderGesture}
               />
               <span className={styles.controlValue}>{Math.round(settings.zoom / SLIDER_RANGES.zoom.scale)}</span>
             </div>
@@ -284,7 +702,8 @@ export function UeControlPanel({ deviceId }: UeControlPanelProps) {
                 min={SLIDER_RANGES.cameraVertical.min}
                 max={SLIDER_RANGES.cameraVertical.max}
                 value={Math.round(settings.cameraVertical / SLIDER_RANGES.cameraVertical.scale)}
-                onChange={(v) => handleSlider('cameraVertical', v * SLIDER_RANGES.cameraVertical.scale)}
+                onChange={(v) => handleCameraSlider('cameraVertical', v * SLIDER_RANGES.cameraVertical.scale, 'slider')}
+                onRelease={endSliderGesture}
               />
               <span className={styles.controlValue}>{Math.round(settings.cameraVertical / SLIDER_RANGES.cameraVertical.scale)}</span>
             </div>
@@ -295,7 +714,8 @@ export function UeControlPanel({ deviceId }: UeControlPanelProps) {
                 min={SLIDER_RANGES.cameraHorizontal.min}
                 max={SLIDER_RANGES.cameraHorizontal.max}
                 value={Math.round(settings.cameraHorizontal / SLIDER_RANGES.cameraHorizontal.scale)}
-                onChange={(v) => handleSlider('cameraHorizontal', v * SLIDER_RANGES.cameraHorizontal.scale)}
+                onChange={(v) => handleCameraSlider('cameraHorizontal', v * SLIDER_RANGES.cameraHorizontal.scale, 'slider')}
+                onRelease={endSliderGesture}
               />
               <span className={styles.controlValue}>{Math.round(settings.cameraHorizontal / SLIDER_RANGES.cameraHorizontal.scale)}</span>
             </div>
@@ -306,40 +726,90 @@ export function UeControlPanel({ deviceId }: UeControlPanelProps) {
                 min={SLIDER_RANGES.cameraPitch.min}
                 max={SLIDER_RANGES.cameraPitch.max}
                 value={Math.round(settings.cameraPitch / SLIDER_RANGES.cameraPitch.scale)}
-                onChange={(v) => handleSlider('cameraPitch', v * SLIDER_RANGES.cameraPitch.scale)}
+                onChange={(v) => handleCameraSlider('cameraPitch', v * SLIDER_RANGES.cameraPitch.scale, 'slider')}
+                onRelease={endSliderGesture}
               />
               <span className={styles.controlValue}>{Math.round(settings.cameraPitch / SLIDER_RANGES.cameraPitch.scale)}</span>
             </div>
+
+            <ControlError
+              errors={errors}
+              controls={['zoom', 'cameraVertical', 'cameraHorizontal', 'cameraPitch', 'camera']}
+            />
           </div>
 
+          {/* ── Camera presets ── */}
+          <CameraPresets deviceId={deviceId} onApply={handleApplyPreset} />
+
+          {/* ── Camera input bindings ── */}
+          <CameraInputSettings />
+
           {/* ── Scene / Level ── */}
           <div className={styles.section}>
-            <h3 className={styles.sectionTitle}>Scene</h3>
+            <h3 className={styles.sectionTitle}>
+              Scene <UnsyncedMark entry={pending.level} />
+            </h3>
             <select
               className={styles.select}
               value={settings.level}
-              onChange={(e) => handleLevel(e.target.value as UeLevelId)}
+              onChange={(e) => handleLevel(e.target.value)}
             >
-              {UE_LEVELS.map((lvl) => (
+              {levels.map((lvl) => (
                 <option key={lvl.id} value={lvl.id}>
                   {lvl.label}
                 </option>
               ))}
             </select>
+            <ControlError errors={errors} controls={['level']} />
+
+            {settings.level === CUSTOM_BACKGROUND_LEVEL && (
+              <>
+                <div className={styles.controlRow}>
+                  <span className={styles.controlLabel}>
+                    Background <UnsyncedMark entry={pending.customBackground} />
+                  </span>
+                </div>
+                <BackgroundPicker value={settings.customBackground} onSelect={handleBackground} />
+                <ControlError errors={errors} controls={['customBackground']} />
+              </>
+            )}
           </div>
 
           {/* ── Avatar ── */}
           <div className={styles.section}>
-            <h3 className={styles.sectionTitle}>Avatar</h3>
+            <h3 className={styles.sectionTitle}>
+              Avatar <UnsyncedMark entry={pending.avatarId} />
+            </h3>
 
             <div className={styles.controlRow}>
-              <span className={styles.controlLabel}>Show logo</span>
+              <span className={styles.controlLabel}>
+                Allow avatar change <UnsyncedMark entry={pending.allowAvatarChange} />
+              </span>
+              <input
+                type="checkbox"
+                className={styles.toggle}
+                checked={settings.allowAvatarChange}
+                onMouseDown={noFocusSteal}
+                onChange={(e) => handleToggle('allowAvatarChange', e.target.checked)}
+              />
+            </div>
+
+            <AvatarPicker
+              value={settings.avatarId}
+              disabled={!settings.allowAvatarChange}
+              onSelect={handleAvatar}
+            />
+
+            <div className={styles.controlRow}>
+              <span className={styles.controlLabel}>
+                Show logo <UnsyncedMark entry={pending.showLogo} />
+              </span>
               <input
                 type="checkbox"
                 className={styles.toggle}
                 checked={settings.showLogo}
                 onMouseDown={noFocusSteal}
-                onChange={(e) => handleToggle('showLogo', e.target.checked, setLogo)}
+                onChange={(e) => handleToggle('showLogo', e.target.checked)}
               />
             </div>
 
@@ -348,23 +818,35 @@ export function UeControlPanel({ deviceId }: UeControlPanelProps) {
                 type="button"
                 className={styles.smallButton}
                 onMouseDown={noFocusSteal}
-                onClick={() => { const u = useUeControlStore.getState().ueApiUrl; if (u) void stopAnswer(u); }}
+                onClick={() => handleAction('stopAnswer', stopAnswer)}
               >
                 Stop Answer
               </button>
             </div>
+
+            <ControlError errors={errors} controls={['avatarId', 'allowAvatarChange', 'showLogo', 'stopAnswer']} />
           </div>
 
           {/* ── Lighting ── */}
           <div className={styles.section}>
             <h3 className={styles.sectionTitle}>Lighting</h3>
 
+            <div className={styles.controlRow}>
+              <span className={styles.controlLabel}>Brightness</span>
+              <span className={styles.controlValue}>{settings.lightBrightness}</span>
+              <span className={styles.controlLabel}>Preset</span>
+              <span className={styles.controlValue}>
+                {settings.lightPreset + 1}/{LIGHT_PRESET_COUNT}
+              </span>
+            </div>
+
             <div className={styles.buttonRow}>
               <button
                 type="button"
                 className={styles.smallButton}
                 onMouseDown={noFocusSteal}
-                onClick={() => { const u = useUeControlStore.getState().ueApiUrl; if (u) void lightUp(u); }}
+                onClick={() => handleLighting('lightUp')}
+                disabled={settings.lightBrightness >= LIGHT_BRIGHTNESS_RANGE.max}
               >
                 Light +
               </button>
@@ -372,7 +854,8 @@ export function UeControlPanel({ deviceId }: UeControlPanelProps) {
                 type="button"
                 className={styles.smallButton}
                 onMouseDown={noFocusSteal}
-                onClick={() => { const u = useUeControlStore.getState().ueApiUrl; if (u) void lightDown(u); }}
+                onClick={() => handleLighting('lightDown')}
+                disabled={settings.lightBrightness <= LIGHT_BRIGHTNESS_RANGE.min}
               >
                 Light -
               </button>
@@ -380,11 +863,13 @@ export function UeControlPanel({ deviceId }: UeControlPanelProps) {
                 type="button"
                 className={styles.smallButton}
                 onMouseDown={noFocusSteal}
-                onClick={() => { const u = useUeControlStore.getState().ueApiUrl; if (u) void changeLight(u); }}
+                onClick={() => handleLighting('changeLight')}
               >
-                Toggle type
+                Next preset
               </button>
             </div>
+
+            <ControlError errors={errors} controls={['lighting']} />
           </div>
 
           {/* ── Audio ── */}
@@ -392,19 +877,49 @@ export function UeControlPanel({ deviceId }: UeControlPanelProps) {
             <h3 className={styles.sectionTitle}>Audio</h3>
 
             <div className={styles.controlRow}>
-              <span className={styles.controlLabel}>Allow interruption</span>
+              <span className={styles.controlLabel}>
+                Allow interruption <UnsyncedMark entry={pending.allowInterruption} />
+              </span>
               <input
                 type="checkbox"
                 className={styles.toggle}
                 checked={settings.allowInterruption}
                 onMouseDown={noFocusSteal}
-                onChange={(e) => handleToggle('allowInterruption', e.target.checked, setInterruption)}
+                onChange={(e) => handleToggle('allowInterruption', e.target.checked)}
               />
             </div>
+
+            <ControlError errors={errors} controls={['allowInterruption']} />
           </div>
 
-          {/* Reset / Re-sync */}
+          {/* ── Advanced: every device setting ── */}
+          <AdvancedSettings settings={settings} pending={pending} errors={errors} onChange={handleSettingChange} />
+
+          {/* ── Show mode ── */}
+          <ShowSequence deviceId={deviceId} runner={showRunner} />
+
+          {/* Undo / Redo / Reset / Re-sync */}
           <div className={styles.buttonRow}>
+            <button
+              type="button"
+              className={styles.smallButton}
+              onMouseDown={noFocusSteal}
+              onClick={handleUndo}
+              disabled={!canUndo}
+              title="Undo the last change on this device"
+            >
+              ↶ Undo
+            </button>
+            <button
+              type="button"
+              className={styles.smallButton}
+              onMouseDown={noFocusSteal}
+              onClick={handleRedo}
+              disabled={!canRedo}
+              title="Redo"
+            >
+              ↷ Redo
+            </button>
             <button type="button" className={styles.resetButton} onMouseDown={noFocusSteal} onClick={handleReset}>
               Reset to defaults
             </button>
@@ -412,25 +927,32 @@ export function UeControlPanel({ deviceId }: UeControlPanelProps) {
               type="button"
               className={styles.resetButton}
               onMouseDown={noFocusSteal}
-              onClick={() => {
-                // Invalidate any in-flight auto-apply or previous reset
-                const gen = ++applyGenRef.current;
-                // Assume UE is at zero (fresh start), then re-apply current settings
-                const desired = useUeControlStore.getState().getDeviceSettings(deviceId);
-                resetSliderState();
-                useUeControlStore.getState().resetUeCommittedCamera();
-                const url = useUeControlStore.getState().ueApiUrl;
-                if (url) {
-                  void applyDeviceSettings(url, desired, ZERO_CAMERA).then(({ newCommitted }) => {
-                    if (applyGenRef.current !== gen) return;
-                    useUeControlStore.getState().setUeCommittedCamera(newCommitted);
-                  });
-                }
-              }}
+              onClick={handleResyncAll}
             >
               Re-sync UE
             </button>
           </div>
+          <ControlError errors={errors} controls={['sync']} />
+        </div>
+      )}
+
+      {/* Command failure toasts — shown even while the dropdown is closed */}
+      {toasts.length > 0 && (
+        <div className={styles.toastStack}>
+          {toasts.map((toast) => (
+            <div key={toast.id} className={styles.toast} role="alert">
+              <span>{toast.message}</span>
+              <button
+                type="button"
+                className={styles.toastDismiss}
+                onMouseDown={noFocusSteal}
+                onClick={() => dismissToast(toast.id)}
+                aria-label="Dismiss"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
         </div>
       )}
     </div>
@@ -0,0 +1,15 @@
+import type { PendingUeSetting } from '@/stores/ueCommandQueueStore';
+import styles from './UeControlPanel.module.css';
+
+/** Dot beside a control whose last change UE hasn't confirmed yet. */
+export function UnsyncedMark({ entry }: { entry: PendingUeSetting | undefined }) {
+  if (!entry) return null;
+  const title = entry.lastError
+    ? `Not applied in UE yet — retrying (${entry.lastError})`
+    : 'Not applied in UE yet — sending';
+  return (
+    <span className={styles.unsynced} title={title} aria-label={title}>
+      ●
+    </span>
+  );
+}
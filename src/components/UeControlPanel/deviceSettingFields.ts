@@ -0,0 +1,101 @@
+import {
+  LIGHT_BRIGHTNESS_RANGE,
+  LIGHT_PRESET_COUNT,
+  type UeDeviceSettings,
+  type UeLevel,
+} from '@/stores/ueControlStore';
+
+/** Slider min/max ranges per camera axis (UI steps).
+ *  `scale` converts a UI step to UE units (offset / angle). */
+export const SLIDER_RANGES = {
+  zoom:             { min: -20, max: 20, scale: 50   },
+  cameraVertical:   { min: -20, max: 20, scale: 15   },
+  cameraHorizontal: { min: -20, max: 20, scale: 15   },
+  cameraPitch:      { min: -20, max: 20, scale: 2.25 },
+} as const;
+
+/** Runtime lists a select field can draw its options from */
+export interface SettingOptionSources {
+  levels: readonly UeLevel[];
+}
+
+export type SettingFieldGroup = 'Camera' | 'Scene' | 'Lighting' | 'Avatar' | 'Audio';
+
+/** Section order in the Advanced panel */
+export const SETTING_FIELD_GROUPS: readonly SettingFieldGroup[] = [
+  'Camera',
+  'Scene',
+  'Lighting',
+  'Avatar',
+  'Audio',
+];
+
+interface SettingFieldBase {
+  label: string;
+  group: SettingFieldGroup;
+  /** Shown as a prompt before the change is sent — for disruptive settings */
+  confirm?: string;
+}
+
+/** How a field is edited, derived from its value type */
+type SettingFieldControl<V> = V extends boolean
+  ? { kind: 'toggle' }
+  : V extends number
+    ? { kind: 'number'; min: number; max: number; step: number }
+    : V extends string
+      ?
+          | { kind: 'text'; placeholder?: string }
+          | { kind: 'select'; options: (sources: SettingOptionSources) => readonly { id: string; label: string }[] }
+      : never;
+
+export type SettingField<V> = SettingFieldBase & SettingFieldControl<V>;
+
+function cameraField(label: string, axis: keyof typeof SLIDER_RANGES): SettingField<number> {
+  const { min, max, scale } = SLIDER_RANGES[axis];
+  return { label, group: 'Camera', kind: 'number', min: min * scale, max: max * scale, step: scale };
+}
+
+/**
+ * Metadata for every `UeDeviceSettings` field, in display order.
+ * The mapped type makes a new settings field a type error until it's described
+ * here — the Advanced section then renders it without further JSX.
+ */
+export const DEVICE_SETTING_FIELDS: { [K in keyof UeDeviceSettings]: SettingField<UeDeviceSettings[K]> } = {
+  zoom: cameraField('Zoom', 'zoom'),
+  cameraVertical: cameraField('Vertical', 'cameraVertical'),
+  cameraHorizontal: cameraField('Horizontal', 'cameraHorizontal'),
+  cameraPitch: cameraField('Pitch', 'cameraPitch'),
+  level: { label: 'Scene', group: 'Scene', kind: 'select', options: (sources) => sources.levels },
+  customBackground: {
+    label: 'Custom background',
+    group: 'Scene',
+    kind: 'text',
+    placeholder: 'Path on the UE machine',
+  },
+  showLogo: { label: 'Show logo', group: 'Scene', kind: 'toggle' },
+  lightBrightness: {
+    label: 'Brightness',
+    group: 'Lighting',
+    kind: 'number',
+    min: LIGHT_BRIGHTNESS_RANGE.min,
+    max: LIGHT_BRIGHTNESS_RANGE.max,
+    step: 1,
+  },
+  lightPreset: {
+    label: 'Light preset',
+    group: 'Lighting',
+    kind: 'number',
+    min: 0,
+    max: LIGHT_PRESET_COUNT - 1,
+    step: 1,
+  },
+  avatarId: { label: 'Avatar ID', group: 'Avatar', kind: 'text', placeholder: 'e.g. AV_Anna' },
+  allowAvatarChange: { label: 'Allow avatar change', group: 'Avatar', kind: 'toggle' },
+  allowInterruption: { label: 'Allow interruption', group: 'Audio', kind: 'toggle' },
+  isPcm: {
+    label: 'PCM audio output',
+    group: 'Audio',
+    kind: 'toggle',
+    confirm: 'Switching the audio format restarts UE audio output — connected voice sessions may drop.',
+  },
+};
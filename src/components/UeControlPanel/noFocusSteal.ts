@@ -0,0 +1,2 @@
+/** Prevent mousedown from stealing focus from the PS iframe. */
+export const noFocusSteal = (e: React.MouseEvent) => e.preventDefault();
@@ -0,0 +1,94 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import {
+  useCameraInputStore,
+  DEFAULT_KEY_BINDINGS,
+  DEFAULT_GAMEPAD_BINDINGS,
+} from '@/stores/cameraInputStore';
+import { useCameraInput, gamepadDirections } from './useCameraInput';
+
+function press(code: string, init: KeyboardEventInit = {}) {
+  const event = new KeyboardEvent('keydown', { code, cancelable: true, ...init });
+  act(() => {
+    window.dispatchEvent(event);
+  });
+  return event;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// gamepadDirections
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('gamepadDirections', () => {
+  it('ignores sticks inside the deadzone', () => {
+    expect(gamepadDirections([0.1, -0.2, 0, 0.3], DEFAULT_GAMEPAD_BINDINGS)).toEqual({});
+  });
+
+  it('maps bound stick axes to camera directions, honouring invert', () => {
+    // Left stick up-right, right stick pushed down
+    expect(gamepadDirections([0.8, -0.9, 0, 0.7], DEFAULT_GAMEPAD_BINDINGS)).toEqual({
+      cameraHorizontal: 1,
+      cameraVertical: 1,
+      zoom: -1,
+    });
+  });
+
+  it('skips unbound camera axes', () => {
+    const bindings = { ...DEFAULT_GAMEPAD_BINDINGS, cameraHorizontal: { axis: null, invert: false } };
+    expect(gamepadDirections([1, 0, 0, 0], bindings)).toEqual({});
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// useCameraInput — keyboard
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('useCameraInput', () => {
+  beforeEach(() => {
+    useCameraInputStore.setState({
+      keyBindings: DEFAULT_KEY_BINDINGS,
+      gamepadEnabled: false,
+      gamepadBindings: DEFAULT_GAMEPAD_BINDINGS,
+      capturing: false,
+    });
+  });
+
+  it('ignores keys until capture is on', () => {
+    const onNudge = vi.fn();
+    renderHook(() => useCameraInput({ onNudge }));
+
+    press('KeyE');
+    expect(onNudge).not.toHaveBeenCalled();
+
+    act(() => useCameraInputStore.getState().setCapturing(true));
+    const event = press('KeyE');
+    expect(onNudge).toHaveBeenCalledWith('zoom', 1);
+    expect(event.defaultPrevented).toBe(true);
+  });
+
+  it('leaves unbound and modified keys alone', () => {
+    useCameraInputStore.setState({ capturing: true });
+    const onNudge = vi.fn();
+    renderHook(() => useCameraInput({ onNudge }));
+
+    expect(press('KeyZ').defaultPrevented).toBe(false);
+    press('KeyA', { ctrlKey: true });
+    expect(onNudge).not.toHaveBeenCalled();
+
+    press('KeyA');
+    expect(onNudge).toHaveBeenCalledWith('cameraHorizontal', -1);
+  });
+
+  it('ends capture on Escape', () => {
+    useCameraInputStore.setState({ capturing: true });
+    const onNudge = vi.fn();
+    renderHook(() => useCameraInput({ onNudge }));
+
+    press('Escape');
+    expect(useCameraInputStore.getState().capturing).toBe(false);
+
+    press('KeyW');
+    expect(onNudge).not.toHaveBeenCalled();
+  });
+});
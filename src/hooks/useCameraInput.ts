@@ -0,0 +1,117 @@
+import { useEffect, useRef } from 'react';
+import {
+  useCameraInputStore,
+  actionForKey,
+  CAMERA_INPUT_ACTIONS,
+  type CameraAxis,
+  type CameraGamepadBindings,
+} from '@/stores/cameraInputStore';
+
+/** Stick deflection ignored as drift */
+export const GAMEPAD_DEADZONE = 0.35;
+/** Interval between repeated nudges while a stick is held */
+export const GAMEPAD_REPEAT_MS = 150;
+
+const CAMERA_AXES = Object.keys(CAMERA_INPUT_ACTIONS)
+  .map((action) => CAMERA_INPUT_ACTIONS[action as keyof typeof CAMERA_INPUT_ACTIONS].axis)
+  .filter((axis, i, all) => all.indexOf(axis) === i);
+
+/**
+ * Direction each camera axis is pushed by a gamepad's stick axes
+ * (only axes outside the deadzone are listed).
+ */
+export function gamepadDirections(
+  axes: readonly number[],
+  bindings: CameraGamepadBindings,
+  deadzone = GAMEPAD_DEADZONE,
+): Partial<Record<CameraAxis, 1 | -1>> {
+  const directions: Partial<Record<CameraAxis, 1 | -1>> = {};
+  for (const axis of CAMERA_AXES) {
+    const { axis: index, invert } = bindings[axis];
+    const raw = index === null ? undefined : axes[index];
+    if (raw === undefined || Math.abs(raw) < deadzone) continue;
+    directions[axis] = (raw > 0) !== invert ? 1 : -1;
+  }
+  return directions;
+}
+
+/** True for elements where the user is typing — their keys aren't camera input. */
+function isTextEntry(el: EventTarget | null): boolean {
+  return (
+    (el instanceof HTMLInputElement && !/^(checkbox|radio|button|range)$/.test(el.type)) ||
+    el instanceof HTMLTextAreaElement ||
+    el instanceof HTMLSelectElement
+  );
+}
+
+interface UseCameraInputOptions {
+  /** Move a camera axis by `steps` slider steps */
+  onNudge: (axis: CameraAxis, steps: number) => void;
+}
+
+/**
+ * Routes bound keys and (optionally) gamepad sticks to camera nudges while
+ * `capturing` is on in `useCameraInputStore`.
+ *
+ * Keys nudge once per keydown (auto-repeat included); modified keys and keys
+ * typed into form fields are left alone. Escape ends capture. Sticks are
+ * polled once per frame from the first connected gamepad and nudge every
+ * `GAMEPAD_REPEAT_MS` while held outside the deadzone.
+ */
+export function useCameraInput({ onNudge }: UseCameraInputOptions): void {
+  const capturing = useCameraInputStore((s) => s.capturing);
+  const gamepadEnabled = useCameraInputStore((s) => s.gamepadEnabled);
+  const onNudgeRef = useRef(onNudge);
+  onNudgeRef.current = onNudge;
+
+  useEffect(() => {
+    if (!capturing) return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTextEntry(e.target)) return;
+      if (e.code === 'Escape') {
+        useCameraInputStore.getState().setCapturing(false);
+        return;
+      }
+      const action = actionForKey(useCameraInputStore.getState().keyBindings, e.code);
+      if (!action) return;
+      e.preventDefault();
+      const { axis, direction } = CAMERA_INPUT_ACTIONS[action];
+      onNudgeRef.current(axis, direction);
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [capturing]);
+
+  useEffect(() => {
+    if (!capturing || !gamepadEnabled || typeof navigator.getGamepads !== 'function') return;
+
+    /** Time of each held axis' last nudge */
+    const lastNudge = new Map<CameraAxis, number>();
+    let frame = 0;
+
+    const poll = (now: number) => {
+      const pad = navigator.getGamepads().find((p) => p?.connected);
+      const directions = pad
+        ? gamepadDirections(pad.axes, useCameraInputStore.getState().gamepadBindings)
+        : {};
+
+      for (const axis of CAMERA_AXES) {
+        const direction = directions[axis];
+        if (!direction) {
+          lastNudge.delete(axis);
+          continue;
+        }
+        const last = lastNudge.get(axis);
+        if (last !== undefined && now - last < GAMEPAD_REPEAT_MS) continue;
+        lastNudge.set(axis, now);
+        onNudgeRef.current(axis, direction);
+      }
+      frame = requestAnimationFrame(poll);
+    };
+
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [capturing, gamepadEnabled]);
+}
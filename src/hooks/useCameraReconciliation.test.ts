@@ -0,0 +1,185 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useUeControlStore, ZERO_CAMERA, type CameraPosition } from '@/stores/ueControlStore';
+import type { CameraTransitionResult, UeCommandResult } from '@/services/ueRemoteApi';
+import { useCameraReconciliation } from './useCameraReconciliation';
+
+// ── helpers ───────────────────────────────────────────────────────────────────
+
+const DEVICE = 'test-device';
+const UE_URL = 'http://ue:8081';
+
+// ── suite ─────────────────────────────────────────────────────────────────────
+
+describe('useCameraReconciliation', () => {
+  let queryCamera: ReturnType<typeof vi.fn<(url: string) => Promise<CameraPosition | null>>>;
+  let transition: ReturnType<
+    typeof vi.fn<(url: string, committed: CameraPosition, desired: CameraPosition) => Promise<CameraTransitionResult>>
+  >;
+
+  beforeEach(() => {
+    queryCamera = vi.fn();
+    transition = vi.fn((_url, _committed, desired) => Promise.resolve({ newCommitted: { ...desired }, results: [] }));
+    useUeControlStore.setState({
+      ueApiUrl: UE_URL,
+      deviceSettings: {},
+      ueReachable: null,
+      deviceUeApiUrls: {},
+      ueCommittedCameras: {},
+      ueCameraDrift: null,
+    });
+  });
+
+  function renderReconciliationHook() {
+    return renderHook(() => useCameraReconciliation({ deviceId: DEVICE, queryCamera, transition }));
+  }
+
+  it('reports in-sync and clears drift when UE matches committed', async () => {
+    queryCamera.mockResolvedValueOnce({ ...ZERO_CAMERA });
+    const { result } = renderReconciliationHook();
+
+    let status: string | undefined;
+    await act(async () => { status = await result.current.checkCamera(); });
+
+    expect(queryCamera).toHaveBeenCalledWith(UE_URL);
+    expect(status).toBe('in-sync');
+    expect(result.current.drift).toBeNull();
+  });
+
+  it('records drift with the mismatching axes', async () => {
+    queryCamera.mockResolvedValueOnce({ ...ZERO_CAMERA, zoom: 150 });
+    const { result } = renderReconciliationHook();
+
+    await act(async () => { await result.current.checkCamera(); });
+
+    expect(result.current.lastStatus).toBe('drift');
+    expect(result.current.drift?.axes).toEqual(['zoom']);
+    expect(result.current.drift?.actual.zoom).toBe(150);
+  });
+
+  it('reports unavailable and keeps drift untouched when UE gives no answer', async () => {
+    queryCamera.mockResolvedValueOnce(null);
+    const { result } = renderReconciliationHook();
+
+    await act(async () => { await result.current.checkCamera(); });
+
+    expect(result.current.lastStatus).toBe('unavailable');
+    expect(result.current.drift).toBeNull();
+  });
+
+  it('does not query without a UE URL', async () => {
+    useUeControlStore.setState({ ueApiUrl: '' });
+    const { result } = renderReconciliationHook();
+
+    await act(async () => { await result.current.checkCamera(); });
+
+    expect(queryCamera).not.toHaveBeenCalled();
+  });
+
+  it('resync adopts actual as committed, then transitions to desired', async () => {
+    useUeControlStore.getState().updateDeviceSettings(DEVICE, { zoom: 50 });
+    queryCamera.mockResolvedValueOnce({ ...ZERO_CAMERA, zoom: 200 });
+    const { result } = renderReconciliationHook();
+
+    await act(async () => { await result.current.checkCamera(); });
+    await act(async () => { await result.current.resync(); });
+
+    expect(transition).toHaveBeenCalledWith(
+      UE_URL,
+      { ...ZERO_CAMERA, zoom: 200 },
+      { ...ZERO_CAMERA, zoom: 50 },
+    );
+    expect(useUeControlStore.getState().getCommittedCamera(UE_URL).zoom).toBe(50);
+    expect(result.current.drift).toBeNull();
+  });
+
+  it('keeps the prompt during the re-apply and reports a failed one', async () => {
+    useUeControlStore.getState().updateDeviceSettings(DEVICE, { zoom: 50 });
+    queryCamera.mockResolvedValueOnce({ ...ZERO_CAMERA, zoom: 200 });
+    const failed: UeCommandResult = {
+      ok: false,
+      command: 'zoom',
+      errorClass: 'unreachable',
+      error: 'UE API unreachable',
+      status: 502,
+      latencyMs: 1,
+      body: null,
+    };
+    let finish!: (value: CameraTransitionResult) => void;
+    transition.mockReturnValueOnce(new Promise((resolve) => (finish = resolve)));
+    const onResult = vi.fn();
+    const { result } = renderHook(() => useCameraReconciliation({ deviceId: DEVICE, queryCamera, transition, onResult }));
+
+    await act(async () => { await result.current.checkCamera(); });
+    let resyncing!: Promise<void>;
+    act(() => { resyncing = result.current.resync(); });
+    expect(result.current.drift).not.toBeNull();
+
+    await act(async () => {
+      finish({ newCommitted: { ...ZERO_CAMERA, zoom: 200 }, results: [failed] });
+      await resyncing;
+    });
+
+    expect(onResult).toHaveBeenCalledWith('camera', [failed]);
+    expect(result.current.lastStatus).toBe('unavailable');
+    expect(result.current.drift).toBeNull();
+    expect(useUeControlStore.getState().getCommittedCamera(UE_URL).zoom).toBe(200);
+  });
+
+  it('drops a read-back that finishes after a device switch', async () => {
+    const OTHER_URL = 'http://ue-b:8081';
+    useUeControlStore.setState({ deviceUeApiUrls: { 'other-device': OTHER_URL } });
+    let answer!: (camera: CameraPosition) => void;
+    queryCamera.mockReturnValueOnce(new Promise((resolve) => (answer = resolve)));
+    const { result, rerender } = renderHook(
+      ({ deviceId }) => useCameraReconciliation({ deviceId, queryCamera, transition }),
+      { initialProps: { deviceId: DEVICE } },
+    );
+
+    let checking!: Promise<string>;
+    act(() => { checking = result.current.checkCamera(); });
+    rerender({ deviceId: 'other-device' });
+    await act(async () => {
+      answer({ ...ZERO_CAMERA, zoom: 300 });
+      await checking;
+    });
+
+    expect(result.current.drift).toBeNull();
+    await act(async () => { await result.current.resync(); });
+    expect(transition).not.toHaveBeenCalled();
+    expect(useUeControlStore.getState().getCommittedCamera(OTHER_URL)).toEqual(ZERO_CAMERA);
+  });
+
+  it('resync discards drift read from another engine', async () => {
+    const OTHER_URL = 'http://ue-b:8081';
+    useUeControlStore.setState({ deviceUeApiUrls: { 'other-device': OTHER_URL } });
+    const { result } = renderHook(() => useCameraReconciliation({ deviceId: 'other-device', queryCamera, transition }));
+    act(() => {
+      useUeControlStore.getState().setUeCameraDrift({
+        ueApiUrl: UE_URL,
+        actual: { ...ZERO_CAMERA, zoom: 300 },
+        axes: ['zoom'],
+        detectedAt: 0,
+      });
+    });
+
+    await act(async () => { await result.current.resync(); });
+
+    expect(transition).not.toHaveBeenCalled();
+    expect(result.current.drift).toBeNull();
+    expect(useUeControlStore.getState().getCommittedCamera(OTHER_URL)).toEqual(ZERO_CAMERA);
+  });
+
+  it('dismiss clears drift without touching committed camera', async () => {
+    queryCamera.mockResolvedValueOnce({ ...ZERO_CAMERA, cameraPitch: 9 });
+    const { result } = renderReconciliationHook();
+
+    await act(async () => { await result.current.checkCamera(); });
+    act(() => result.current.dismiss());
+
+    expect(result.current.drift).toBeNull();
+    expect(useUeControlStore.getState().getCommittedCamera(UE_URL)).toEqual(ZERO_CAMERA);
+    expect(transition).not.toHaveBeenCalled();
+  });
+});
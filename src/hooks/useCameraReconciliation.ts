@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ueEndpointKey,
+  useUeControlStore,
+  type CameraDrift,
+  type CameraPosition,
+} from '@/stores/ueControlStore';
+import {
+  applyCameraTransition,
+  detectCameraDrift,
+  getCameraState,
+  type UeCommandResult,
+} from '@/services/ueRemoteApi';
+
+/** Outcome of the last read-back: in sync, drifted, or UE gave no usable answer. */
+export type CameraCheckStatus = 'in-sync' | 'drift' | 'unavailable';
+
+interface UseCameraReconciliationOptions {
+  deviceId: string;
+  /** Inject for tests — defaults to real getCameraState */
+  queryCamera?: typeof getCameraState;
+  /** Inject for tests — defaults to real applyCameraTransition */
+  transition?: typeof applyCameraTransition;
+  /** Outcome of the re-apply after a resync, reported as control `camera` */
+  onResult?: (control: string, results: UeCommandResult[]) => void;
+}
+
+interface UseCameraReconciliationResult {
+  drift: CameraDrift | null;
+  checking: boolean;
+  lastStatus: CameraCheckStatus | null;
+  /** Query the device's engine and compare against its committed camera. */
+  checkCamera: () => Promise<CameraCheckStatus>;
+  /**
+   * Adopt UE's actual camera as committed, then move it to the device's desired
+   * position. The prompt stays until that re-apply finished; a failed one leaves
+   * the status `unavailable`.
+   */
+  resync: () => Promise<void>;
+  /** Keep the committed model and hide the prompt. */
+  dismiss: () => void;
+}
+
+/**
+ * Reconciles the committed camera model with UE's real camera state.
+ *
+ * The committed camera is only our model of where UE is — it drifts after a UE
+ * restart or a command that failed after UE applied it. `checkCamera` reads the
+ * real position back (`GetCameraState`) and records a `CameraDrift` in the store
+ * when axes disagree. `resync` then trusts UE: actual becomes committed and the
+ * device's desired camera is re-applied from there.
+ *
+ * `checkGenRef` drops read-backs that finish after a newer check or resync
+ * started, or after the device changed — a drift always belongs to the engine
+ * it was read from (`CameraDrift.ueApiUrl`), never to the next device's.
+ */
+export function useCameraReconciliation({
+  deviceId,
+  queryCamera = getCameraState,
+  transition = applyCameraTransition,
+  onResult,
+}: UseCameraReconciliationOptions): UseCameraReconciliationResult {
+  const drift = useUeControlStore((s) => s.ueCameraDrift);
+  const [checking, setChecking] = useState(false);
+  const [lastStatus, setLastStatus] = useState<CameraCheckStatus | null>(null);
+  const checkGenRef = useRef(0);
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+
+  // A read-back of the previous device's engine must not land on this one
+  useEffect(() => {
+    ++checkGenRef.current;
+    setChecking(false);
+    setLastStatus(null);
+    useUeControlStore.getState().setUeCameraDrift(null);
+  }, [deviceId]);
+
+  const checkCamera = useCallback(async (): Promise<CameraCheckStatus> => {
+    const url = useUeControlStore.getState().getUeApiUrl(deviceId);
+    if (!url) return 'unavailable';
+
+    const gen = ++checkGenRef.current;
+    setChecking(true);
+    try {
+      const actual = await queryCamera(url);
+      if (checkGenRef.current !== gen) return 'unavailable';
+
+      const { getCommittedCamera, setUeCameraDrift } = useUeControlStore.getState();
+      if (!actual) {
+        setLastStatus('unavailable');
+        return 'unavailable';
+      }
+
+      const axes = detectCameraDrift(getCommittedCamera(url), actual);
+      if (axes.length) {
+        setUeCameraDrift({ ueApiUrl: url, actual, axes, detectedAt: Date.now() });
+        setLastStatus('drift');
+        return 'drift';
+      }
+
+      setUeCameraDrift(null);
+      setLastStatus('in-sync');
+      return 'in-sync';
+    } finally {
+      if (checkGenRef.current === gen) setChecking(false);
+    }
+  }, [deviceId, queryCamera]);
+
+  const resync = useCallback(async () => {
+    const state = useUeControlStore.getState();
+    const current = state.ueCameraDrift;
+    if (!current) return;
+
+    // Invalidate in-flight checks — their result is stale after this
+    const gen = ++checkGenRef.current;
+    setChecking(false);
+
+    // Drift read from another engine says nothing about this device's camera
+    const url = state.getUeApiUrl(deviceId);
+    if (!url || ueEndpointKey(url) !== ueEndpointKey(current.ueApiUrl)) {
+      state.setUeCameraDrift(null);
+      return;
+    }
+
+    state.setUeCommittedCamera(url, { ...current.actual });
+
+    const settings = state.getDeviceSettings(deviceId);
+    const desired: CameraPosition = {
+      zoom: settings.zoom,
+      cameraVertical: settings.cameraVertical,
+      cameraHorizontal: settings.cameraHorizontal,
+      cameraPitch: settings.cameraPitch,
+    };
+
+    const { newCommitted, results } = await transition(url, current.actual, desired);
+    useUeControlStore.getState().setUeCommittedCamera(url, newCommitted);
+    onResultRef.current?.('camera', results);
+
+    // A check started meanwhile owns the prompt and status now
+    if (checkGenRef.current !== gen) return;
+    useUeControlStore.getState().setUeCameraDrift(null);
+    setLastStatus(results.every((r) => r.ok) ? 'in-sync' : 'unavailable');
+  }, [deviceId, transition]);
+
+  const dismiss = useCallback(() => {
+    useUeControlStore.getState().setUeCameraDrift(null);
+  }, []);
+
+  return { drift, checking, lastStatus, checkCamera, resync, dismiss };
+}
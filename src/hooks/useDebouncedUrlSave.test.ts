@@ -178,4 +178,20 @@ describe('useDebouncedUrlSave', () => {
     });
     expect(saveFn).toHaveBeenCalledWith('http://fast.com');
   });
+
+  it('follows an outside store change instead of saving the old input back', async () => {
+    const saveFn = vi.fn();
+    const { result, rerender } = renderHook(
+      ({ storeValue }) => useDebouncedUrlSave({ storeValue, saveFn }),
+      { initialProps: { storeValue: 'http://old.com' } },
+    );
+
+    rerender({ storeValue: 'http://imported.com' });
+    expect(result.current.input).toBe('http://imported.com');
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(500);
+    });
+    expect(saveFn).not.toHaveBeenCalled();
+  });
 });
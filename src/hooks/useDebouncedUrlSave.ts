@@ -29,6 +29,11 @@ export function useDebouncedUrlSave({
     setInputRaw(value);
   };
 
+  // Follow outside changes to the stored value (e.g. a config import) unless mid-edit
+  useEffect(() => {
+    if (!dirtyRef.current) setInputRaw(storeValue);
+  }, [storeValue]);
+
   useEffect(() => {
     const trimmed = input.trim();
     if (trimmed === storeValue) {
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useUeControlStore, type UeLevel, type UeLevelCatalog, type UeLevelSource } from '@/stores/ueControlStore';
+import { loadLevelCatalog, isLevelCatalogStale } from '@/services/ueLevelCatalog';
+
+interface UseLevelCatalogResult {
+  levels: readonly UeLevel[];
+  catalog: UeLevelCatalog;
+  /** Configured source (the catalogue's own `source` differs after a fallback) */
+  source: UeLevelSource;
+  loading: boolean;
+  /** Why the last refresh couldn't use the configured source */
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Level catalogue for the scene selector, kept fresh from the configured
+ * `levelSource`. Refreshes on mount and on source change when the cached
+ * catalogue is stale; `refresh()` forces a fetch.
+ *
+ * When the source fails, a cached catalogue from that same source is kept
+ * (UE being briefly down shouldn't shrink the list); otherwise the built-in
+ * list takes over. `ue` asks the engine of `deviceId` (default URL when null).
+ */
+export function useLevelCatalog(deviceId: string | null): UseLevelCatalogResult {
+  const catalog = useUeControlStore((s) => s.levelCatalog);
+  const source = useUeControlStore((s) => s.levelSource);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  /** Ignore results of refreshes overtaken by a newer one */
+  const genRef = useRef(0);
+
+  const refresh = useCallback(async () => {
+    const gen = ++genRef.current;
+    const store = useUeControlStore.getState();
+    const wanted = store.levelSource;
+    setLoading(true);
+
+    const result = await loadLevelCatalog(wanted, store.getUeApiUrl(deviceId));
+    if (genRef.current !== gen) return;
+
+    const current = useUeControlStore.getState().levelCatalog;
+    if (!result.error || current.source !== wanted) useUeControlStore.getState().setLevelCatalog(result.catalog);
+    setError(result.error);
+    setLoading(false);
+  }, [deviceId]);
+
+  useEffect(() => {
+    const { levelCatalog } = useUeControlStore.getState();
+    if (isLevelCatalogStale(levelCatalog, source)) void refresh();
+  }, [source, refresh]);
+
+  return { levels: catalog.levels, catalog, source, loading, error, refresh };
+}
@@ -0,0 +1,99 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import type { ProcessLogEntry } from '@/services/voiceAgentWriter';
+
+const close = vi.fn();
+let handlers: { onEntry: (entry: ProcessLogEntry) => void; onOpen?: () => void; onError?: () => void } | null =
+  null;
+
+vi.mock('@/services/voiceAgentWriter', () => ({
+  subscribeProcessLogs: vi.fn(
+    (
+      _processId: string,
+      onEntry: (entry: ProcessLogEntry) => void,
+      options: { onOpen?: () => void; onError?: () => void },
+    ) => {
+      handlers = { onEntry, ...options };
+      return close;
+    },
+  ),
+}));
+
+const { subscribeProcessLogs } = await import('@/services/voiceAgentWriter');
+const { useProcessLogs, PROCESS_LOG_VIEW_LIMIT } = await import('./useProcessLogs');
+
+const entry = (seq: number): ProcessLogEntry => ({
+  seq,
+  at: '2026-10-19T10:00:00.000Z',
+  stream: 'stdout',
+  line: `line ${seq}`,
+});
+
+describe('useProcessLogs', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(subscribeProcessLogs).mockClear();
+    close.mockClear();
+    handlers = null;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stays closed while disabled', () => {
+    renderHook(() => useProcessLogs('kiosk-app', false));
+    expect(subscribeProcessLogs).not.toHaveBeenCalled();
+  });
+
+  it('renders lines in batches and skips ones already shown', () => {
+    const { result } = renderHook(() => useProcessLogs('kiosk-app', true));
+    act(() => handlers?.onOpen?.());
+    expect(result.current.connected).toBe(true);
+
+    act(() => {
+      handlers?.onEntry(entry(1));
+      handlers?.onEntry(entry(2));
+    });
+    expect(result.current.entries).toEqual([]);
+
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    expect(result.current.entries.map((e) => e.seq)).toEqual([1, 2]);
+
+    // A reconnect may resend lines
+    act(() => {
+      handlers?.onError?.();
+      handlers?.onEntry(entry(2));
+      handlers?.onEntry(entry(3));
+      vi.advanceTimersByTime(100);
+    });
+    expect(result.current.entries.map((e) => e.seq)).toEqual([1, 2, 3]);
+    expect(result.current.connected).toBe(false);
+  });
+
+  it('keeps the newest lines only', () => {
+    const { result } = renderHook(() => useProcessLogs('kiosk-app', true));
+    act(() => {
+      for (let seq = 1; seq <= PROCESS_LOG_VIEW_LIMIT + 5; seq++) handlers?.onEntry(entry(seq));
+      vi.advanceTimersByTime(100);
+    });
+
+    expect(result.current.entries).toHaveLength(PROCESS_LOG_VIEW_LIMIT);
+    expect(result.current.entries[0]?.seq).toBe(6);
+  });
+
+  it('closes the stream when disabled or unmounted', () => {
+    const { rerender, unmount } = renderHook(({ on }) => useProcessLogs('kiosk-app', on), {
+      initialProps: { on: true },
+    });
+    rerender({ on: false });
+    expect(close).toHaveBeenCalledTimes(1);
+
+    rerender({ on: true });
+    unmount();
+    expect(close).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { subscribeProcessLogs, type ProcessLogEntry } from '@/services/voiceAgentWriter';
+
+/** Lines kept in view; matches the backend's buffer */
+export const PROCESS_LOG_VIEW_LIMIT = 2_000;
+/** Lines arriving within this window render together */
+const LOG_FLUSH_MS = 100;
+
+interface ProcessLogsState {
+  entries: ProcessLogEntry[];
+  /** False until the stream opened, and again while the backend is unreachable */
+  connected: boolean;
+}
+
+/**
+ * Output of a backend process (stored lines, then live) while `enabled`.
+ *
+ * Lines are batched per `LOG_FLUSH_MS` so a backlog of thousands doesn't
+ * render one by one, and de-duplicated by seq in case a reconnect resends any.
+ */
+export function useProcessLogs(processId: string, enabled: boolean): ProcessLogsState {
+  const [state, setState] = useState<ProcessLogsState>({ entries: [], connected: false });
+
+  useEffect(() => {
+    if (!enabled) return;
+    setState({ entries: [], connected: false });
+
+    let pending: ProcessLogEntry[] = [];
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+      flushTimer = null;
+      const batch = pending;
+      pending = [];
+      setState((prev) => {
+        const lastSeq = prev.entries[prev.entries.length - 1]?.seq ?? 0;
+        const fresh = batch.filter((entry) => entry.seq > lastSeq);
+        return { ...prev, entries: [...prev.entries, ...fresh].slice(-PROCESS_LOG_VIEW_LIMIT) };
+      });
+    };
+
+    const close = subscribeProcessLogs(
+      processId,
+      (entry) => {
+        pending.push(entry);
+        flushTimer ??= setTimeout(flush, LOG_FLUSH_MS);
+      },
+      {
+        onOpen: () => setState((prev) => ({ ...prev, connected: true })),
+        onError: () => setState((prev) => ({ ...prev, connected: false })),
+      },
+    );
+
+    return () => {
+      close();
+      if (flushTimer) clearTimeout(flushTimer);
+    };
+  }, [processId, enabled]);
+
+  return state;
+}
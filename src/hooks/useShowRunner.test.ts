@@ -0,0 +1,163 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useUeControlStore } from '@/stores/ueControlStore';
+import { useShowSequenceStore, type ShowStep } from '@/stores/showSequenceStore';
+import { runShowStep, useShowRunner, SHOW_LOOP_GAP_MS } from './useShowRunner';
+
+vi.mock('@/services/ueRemoteApi', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/ueRemoteApi')>()),
+  animateCameraTransition: vi.fn((_url: string, _committed: unknown, desired: object) =>
+    Promise.resolve({ newCommitted: { ...desired }, results: [] }),
+  ),
+}));
+
+// ── helpers ───────────────────────────────────────────────────────────────────
+
+const DEVICE = 'kiosk';
+const UE_URL = 'http://ue:8081';
+
+function seedSteps(steps: Array<Partial<Omit<ShowStep, 'id'>>>): string[] {
+  return steps.map((step) => useShowSequenceStore.getState().addStep(DEVICE, step));
+}
+
+// ── suite ─────────────────────────────────────────────────────────────────────
+
+describe('useShowRunner', () => {
+  let executeStep: ReturnType<
+    typeof vi.fn<(url: string, step: ShowStep, deviceId: string, signal?: AbortSignal) => Promise<boolean>>
+  >;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    executeStep = vi.fn(() => Promise.resolve(true));
+    useShowSequenceStore.setState({ sequences: {} });
+    useUeControlStore.setState({
+      ueApiUrl: UE_URL,
+      deviceSettings: {},
+      deviceUeApiUrls: {},
+      ueCommittedCameras: {},
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function renderRunner() {
+    return renderHook(() => useShowRunner({ deviceId: DEVICE, executeStep }));
+  }
+
+  it('runs steps in order after their delays and returns to idle', async () => {
+    const [first, second] = seedSteps([
+      { command: 'lightUp', delayMs: 500 },
+      { command: 'stopAnswer', delayMs: 1000 },
+    ]);
+    const { result } = renderRunner();
+
+    act(() => result.current.play());
+    expect(result.current.runState).toBe('playing');
+
+    await act(() => vi.advanceTimersByTimeAsync(499));
+    expect(executeStep).not.toHaveBeenCalled();
+
+    await act(() => vi.advanceTimersByTimeAsync(1));
+    expect(executeStep).toHaveBeenCalledTimes(1);
+    expect(executeStep.mock.calls[0]?.[1].command).toBe('lightUp');
+
+    await act(() => vi.advanceTimersByTimeAsync(1000));
+    expect(executeStep).toHaveBeenCalledTimes(2);
+    expect(result.current.stepStatus).toEqual({ [first!]: 'done', [second!]: 'done' });
+    expect(result.current.runState).toBe('idle');
+  });
+
+  it('marks failed steps and keeps going', async () => {
+    const [first, second] = seedSteps([
+      { command: 'lightUp', delayMs: 0 },
+      { command: 'lightDown', delayMs: 0 },
+    ]);
+    executeStep.mockResolvedValueOnce(false);
+    const { result } = renderRunner();
+
+    act(() => result.current.play());
+    await act(() => vi.advanceTimersByTimeAsync(0));
+
+    expect(result.current.stepStatus).toEqual({ [first!]: 'failed', [second!]: 'done' });
+  });
+
+  it('fails steps without a UE URL instead of sending', async () => {
+    useUeControlStore.setState({ ueApiUrl: '' });
+    const [id] = seedSteps([{ command: 'lightUp', delayMs: 0 }]);
+    const { result } = renderRunner();
+
+    act(() => result.current.play());
+    await act(() => vi.advanceTimersByTimeAsync(0));
+
+    expect(executeStep).not.toHaveBeenCalled();
+    expect(result.current.stepStatus[id!]).toBe('failed');
+  });
+
+  it('pause keeps position, resume continues with the next step', async () => {
+    seedSteps([
+      { command: 'lightUp', delayMs: 100 },
+      { command: 'lightDown', delayMs: 100 },
+      { command: 'changeLight', delayMs: 100 },
+    ]);
+    const { result } = renderRunner();
+
+    act(() => result.current.play());
+    await act(() => vi.advanceTimersByTimeAsync(150));
+    act(() => result.current.pause());
+    expect(result.current.runState).toBe('paused');
+
+    await act(() => vi.advanceTimersByTimeAsync(1000));
+    expect(executeStep).toHaveBeenCalledTimes(1);
+
+    act(() => result.current.play());
+    await act(() => vi.advanceTimersByTimeAsync(200));
+
+    expect(executeStep.mock.calls.map((c) => c[1].command)).toEqual(['lightUp', 'lightDown', 'changeLight']);
+  });
+
+  it('loops after a gap until stopped', async () => {
+    seedSteps([{ command: 'lightUp', delayMs: 0 }]);
+    const { result } = renderRunner();
+
+    act(() => result.current.setLoop(true));
+    act(() => result.current.play());
+    await act(() => vi.advanceTimersByTimeAsync(0));
+    expect(executeStep).toHaveBeenCalledTimes(1);
+
+    await act(() => vi.advanceTimersByTimeAsync(SHOW_LOOP_GAP_MS));
+    expect(executeStep).toHaveBeenCalledTimes(2);
+
+    act(() => result.current.stop());
+    await act(() => vi.advanceTimersByTimeAsync(SHOW_LOOP_GAP_MS * 3));
+    expect(executeStep).toHaveBeenCalledTimes(2);
+    expect(result.current.runState).toBe('idle');
+  });
+
+  it('stops when unmounted', async () => {
+    seedSteps([{ command: 'lightUp', delayMs: 500 }]);
+    const { result, unmount } = renderRunner();
+
+    act(() => result.current.play());
+    unmount();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(executeStep).not.toHaveBeenCalled();
+  });
+});
+
+describe('runShowStep', () => {
+  beforeEach(() => {
+    useUeControlStore.setState({ ueApiUrl: UE_URL, deviceSettings: {}, deviceUeApiUrls: {}, ueCommittedCameras: {} });
+  });
+
+  it('clamps a zoom step to the zoom slider range', async () => {
+    const ok = await runShowStep(UE_URL, { id: 's1', command: 'zoom', param: '5000', delayMs: 0 }, DEVICE);
+
+    expect(ok).toBe(true);
+    expect(useUeControlStore.getState().getDeviceSettings(DEVICE).zoom).toBe(1000);
+  });
+});
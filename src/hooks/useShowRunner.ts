@@ -0,0 +1,243 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useShowSequenceStore, type ShowStep } from '@/stores/showSequenceStore';
+import { useUeControlStore, lightingOf, stepLighting } from '@/stores/ueControlStore';
+import {
+  changeLevel,
+  setLogo,
+  setInterruption,
+  stopAnswer,
+  animateCameraTransition,
+  applyLightingTransition,
+} from '@/services/ueRemoteApi';
+import { SLIDER_RANGES } from '@/components/UeControlPanel/deviceSettingFields';
+
+/** Pause before a looped sequence starts over — keeps a zero-delay loop from spamming UE */
+export const SHOW_LOOP_GAP_MS = 1_000;
+
+export type ShowRunState = 'idle' | 'playing' | 'paused';
+export type ShowStepStatus = 'pending' | 'running' | 'done' | 'failed';
+
+/**
+ * Run one show step against UE. Absolute commands also update the device's
+ * settings so the panel reflects them; `zoom` (clamped to the zoom slider's
+ * range) animates from the committed camera and keeps the engine's committed
+ * camera in step. Lighting steps
+ * move the device's lighting one step and replay it from the committed lighting.
+ *
+ * Returns false when UE rejected the command or `param` is invalid.
+ */
+export async function runShowStep(
+  baseUrl: string,
+  step: ShowStep,
+  deviceId: string,
+  signal?: AbortSignal,
+): Promise<boolean> {
+  const store = useUeControlStore.getState();
+
+  switch (step.command) {
+    case 'level': {
+      // Steps may name a level the current catalogue no longer lists
+      if (!store.levelCatalog.levels.some((l) => l.id === step.param)) return false;
+      const level = step.param;
+      store.updateDeviceSettings(deviceId, { level });
+      return (await changeLevel(baseUrl, level)).ok;
+    }
+    case 'logo': {
+      const showLogo = step.param === 'true';
+      store.updateDeviceSettings(deviceId, { showLogo });
+      return (await setLogo(baseUrl, showLogo)).ok;
+    }
+    case 'interruption': {
+      const allowInterruption = step.param === 'true';
+      store.updateDeviceSettings(deviceId, { allowInterruption });
+      return (await setInterruption(baseUrl, allowInterruption)).ok;
+    }
+    case 'lightUp':
+    case 'lightDown':
+    case 'changeLight': {
+      const desired = stepLighting(lightingOf(store.getDeviceSettings(deviceId)), step.command);
+      store.updateDeviceSettings(deviceId, desired);
+      const { newCommitted, results } = await applyLightingTransition(
+        baseUrl,
+        store.getCommittedLighting(baseUrl),
+        desired,
+        signal,
+      );
+      useUeControlStore.getState().setUeCommittedLighting(baseUrl, newCommitted);
+      return results.every((r) => r.ok);
+    }
+    case 'stopAnswer':
+      return (await stopAnswer(baseUrl)).ok;
+    case 'zoom': {
+      const raw = Number(step.param);
+      if (step.param.trim() === '' || !Number.isFinite(raw)) return false;
+      const { min, max, scale } = SLIDER_RANGES.zoom;
+      const zoom = Math.min(max * scale, Math.max(min * scale, raw));
+      store.updateDeviceSettings(deviceId, { zoom });
+      const committed = store.getCommittedCamera(baseUrl);
+      const { newCommitted } = await animateCameraTransition(baseUrl, committed, { ...committed, zoom }, {
+        signal,
+        onStep: (pos) => useUeControlStore.getState().setUeCommittedCamera(baseUrl, pos),
+      });
+      return newCommitted.zoom === zoom;
+    }
+  }
+}
+
+/** Resolve after `ms`, or immediately once `signal` aborts. */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (ms <= 0 || signal.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+  });
+}
+
+interface UseShowRunnerOptions {
+  deviceId: string;
+  /** Inject for tests — defaults to real runShowStep */
+  executeStep?: typeof runShowStep;
+}
+
+export interface UseShowRunnerResult {
+  steps: ShowStep[];
+  runState: ShowRunState;
+  /** Index of the step being waited on / executed (or resumed from) */
+  currentIndex: number;
+  /** Per-step outcome of the current run, keyed by step id */
+  stepStatus: Record<string, ShowStepStatus>;
+  loop: boolean;
+  setLoop: (loop: boolean) => void;
+  /** Start from the first step, or resume a paused run */
+  play: () => void;
+  /** Stop after the in-flight step; `play` resumes at the next one */
+  pause: () => void;
+  /** Abort and rewind to the first step */
+  stop: () => void;
+}
+
+/**
+ * Plays a device's show sequence: wait `delayMs`, run the step, move on.
+ *
+ * Steps are re-read from the store before each one runs, so edits made while
+ * playing apply from the next step. A failed step is marked `failed` and the
+ * show continues — a demo shouldn't halt on one missed light command.
+ *
+ * Pausing aborts the current wait (and an in-flight zoom animation, whose
+ * partial move is still committed); the resumed run restarts that step's delay,
+ * or continues after the step if it was already executing.
+ */
+export function useShowRunner({
+  deviceId,
+  executeStep = runShowStep,
+}: UseShowRunnerOptions): UseShowRunnerResult {
+  const stepsSelector = useMemo(
+    () => (s: { sequences: Record<string, ShowStep[]> }) => s.sequences[deviceId],
+    [deviceId],
+  );
+  const storedSteps = useShowSequenceStore(stepsSelector);
+  const steps = useMemo(() => storedSteps ?? [], [storedSteps]);
+
+  const [runState, setRunState] = useState<ShowRunState>('idle');
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [stepStatus, setStepStatus] = useState<Record<string, ShowStepStatus>>({});
+  const [loop, setLoopState] = useState(false);
+
+  const loopRef = useRef(loop);
+  const indexRef = useRef(0);
+  const controllerRef = useRef<AbortController | null>(null);
+  /** Settles when the last run loop has exited (incl. its in-flight step) */
+  const runDoneRef = useRef<Promise<void>>(Promise.resolve());
+
+  const setLoop = useCallback((value: boolean) => {
+    loopRef.current = value;
+    setLoopState(value);
+  }, []);
+
+  const run = useCallback(
+    async (controller: AbortController) => {
+      const { signal } = controller;
+
+      while (!signal.aborted) {
+        const sequence = useShowSequenceStore.getState().getSteps(deviceId);
+        let index = indexRef.current;
+
+        if (index >= sequence.length) {
+          if (!loopRef.current || sequence.length === 0) break;
+          await sleep(SHOW_LOOP_GAP_MS, signal);
+          if (signal.aborted) break;
+          index = indexRef.current = 0;
+          setStepStatus({});
+        }
+
+        const step = sequence[index];
+        if (!step) break;
+        setCurrentIndex(index);
+
+        await sleep(step.delayMs, signal);
+        if (signal.aborted) break;
+
+        setStepStatus((prev) => ({ ...prev, [step.id]: 'running' }));
+        const url = useUeControlStore.getState().getUeApiUrl(deviceId);
+        const ok = url ? await executeStep(url, step, deviceId, signal).catch(() => false) : false;
+        setStepStatus((prev) => ({ ...prev, [step.id]: ok ? 'done' : 'failed' }));
+        indexRef.current = index + 1;
+      }
+
+      // Reached the end without being paused/stopped
+      if (controllerRef.current === controller && !signal.aborted) {
+        controllerRef.current = null;
+        indexRef.current = 0;
+        setCurrentIndex(0);
+        setRunState('idle');
+      }
+    },
+    [deviceId, executeStep],
+  );
+
+  const play = useCallback(() => {
+    if (controllerRef.current) return;
+
+    const fromStart = runState !== 'paused';
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunState('playing');
+
+    // A paused/stopped run may still be finishing its step — start after it lands
+    runDoneRef.current = runDoneRef.current.then(() => {
+      if (fromStart) {
+        indexRef.current = 0;
+        setStepStatus({});
+      }
+      return run(controller);
+    });
+  }, [run, runState]);
+
+  const pause = useCallback(() => {
+    if (!controllerRef.current) return;
+    controllerRef.current.abort();
+    controllerRef.current = null;
+    setRunState('paused');
+  }, []);
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    indexRef.current = 0;
+    setCurrentIndex(0);
+    setRunState('idle');
+  }, []);
+
+  // Device switch or unmount ends the show
+  useEffect(() => stop, [deviceId, stop]);
+
+  return { steps, runState, currentIndex, stepStatus, loop, setLoop, play, pause, stop };
+}
@@ -2,6 +2,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useUeControlStore } from '@/stores/ueControlStore';
+import type { UeCommandResult } from '@/services/ueRemoteApi';
 import { useSliderSend, SLIDER_DEBOUNCE_MS } from './useSliderSend';
 
 // ── helpers ───────────────────────────────────────────────────────────────────
@@ -19,6 +20,12 @@ function seedStore(url = 'http://ue:8081') {
   });
 }
 
+function commandResult(command: string, ok: boolean): UeCommandResult {
+  return ok
+    ? { ok, command, errorClass: null, error: null, status: 200, latencyMs: 1, body: null }
+    : { ok, command, errorClass: 'ue', error: 'HTTP 500', status: 500, latencyMs: 1, body: null };
+}
+
 function setSliderInStore(key: string, value: number) {
   useUeControlStore.getState().updateDeviceSettings(DEVICE, { [key]: value });
 }
@@ -26,16 +33,16 @@ function setSliderInStore(key: string, value: number) {
 // ── suite ─────────────────────────────────────────────────────────────────────
 
 describe('useSliderSend', () => {
-  let sendCommand: ReturnType<typeof vi.fn<(url: string, payload: Record<string, string>) => Promise<boolean>>>;
+  let sendCommand: ReturnType<typeof vi.fn<(url: string, payload: { command: string }) => Promise<UeCommandResult>>>;
   /** Collected resolve/reject callbacks for the sendCommand promises */
   let pendingSends: Array<{ resolve: (ok: boolean) => void; reject: (e: Error) => void }>;
 
   beforeEach(() => {
     vi.useFakeTimers();
     pendingSends = [];
-    sendCommand = vi.fn(() => {
-      return new Promise<boolean>((resolve, reject) => {
-        pendingSends.push({ resolve, reject });
+    sendCommand = vi.fn((_url, payload) => {
+      return new Promise<UeCommandResult>((resolve, reject) => {
+        pendingSends.push({ resolve: (ok) => resolve(commandResult(payload.command, ok)), reject });
       });
     });
     // Reset Zustand store to defaults
@@ -43,7 +50,10 @@ describe('useSliderSend', () => {
       ueApiUrl: '',
       deviceSettings: {},
       ueReachable: null,
-      ueCommittedCamera: { zoom: 0, cameraVertical: 0, cameraHorizontal: 0, cameraPitch: 0 },
+      deviceUeApiUrls: {},
+      ueCommittedCameras: {},
+      deviceGroups: [],
+      broadcastGroupIds: {},
     });
     seedStore();
   });
@@ -147,7 +157,7 @@ describe('useSliderSend', () => {
     // Resolve the in-flight send
     await act(async () => { pendingSends[0]!.resolve(true); });
 
-    expect(useUeControlStore.getState().ueCommittedCamera.zoom).toBe(50);
+    expect(useUeControlStore.getState().getCommittedCamera('http://ue:8081').zoom).toBe(50);
 
     // Second drag should compute delta from new baseline (50)
     act(() => result.current.handleSlider('zoom', 80));
@@ -172,7 +182,7 @@ describe('useSliderSend', () => {
     await act(async () => { pendingSends[0]!.resolve(false); });
 
     // Committed camera should NOT have changed
-    expect(useUeControlStore.getState().ueCommittedCamera.zoom).toBe(0);
+    expect(useUeControlStore.getState().getCommittedCamera('http://ue:8081').zoom).toBe(0);
 
     // Next drag — delta should still include the previously-missed 50
     act(() => result.current.handleSlider('zoom', 70));
@@ -251,7 +261,7 @@ describe('useSliderSend', () => {
     // Start a drag (creates a pending timer)
     act(() => result.current.handleSlider('zoom', 50));
 
-    // Reset (no args — baseline is now always ueCommittedCamera in store)
+    // Reset (no args — baseline is now always the committed camera in store)
     act(() => {
       result.current.resetSliderState();
     });
@@ -260,4 +270,83 @@ describe('useSliderSend', () => {
     await act(async () => { vi.advanceTimersByTime(SLIDER_DEBOUNCE_MS); });
     expect(sendCommand).not.toHaveBeenCalled();
   });
+
+  // ── 11. Oversized delta → clamped chunks ───────────────────────────────
+
+  it('splits a delta beyond the registry range into clamped sends', async () => {
+    useUeControlStore.getState().patchUeCommittedCamera('http://ue:8081', { zoom: -1000 });
+    const { result } = renderSliderHook();
+
+    act(() => result.current.handleSlider('zoom', 1000));
+    await act(async () => { vi.advanceTimersByTime(SLIDER_DEBOUNCE_MS); });
+
+    expect(sendCommand).toHaveBeenLastCalledWith('http://ue:8081', { command: 'zoom', offset: '1000' });
+
+    await act(async () => { pendingSends[0]?.resolve(true); });
+
+    expect(sendCommand).toHaveBeenCalledTimes(2);
+    expect(sendCommand).toHaveBeenLastCalledWith('http://ue:8081', { command: 'zoom', offset: '1000' });
+    expect(useUeControlStore.getState().getCommittedCamera('http://ue:8081').zoom).toBe(0);
+  });
+
+  // ── 12. onResult → every send outcome reported per key ─────────────────
+
+  it('reports each send result to onResult with its slider key', async () => {
+    const onResult = vi.fn();
+    const { result } = renderHook(() => useSliderSend({ deviceId: DEVICE, sendCommand, onResult }));
+
+    act(() => result.current.handleSlider('cameraPitch', 10));
+    await act(async () => { vi.advanceTimersByTime(SLIDER_DEBOUNCE_MS); });
+    await act(async () => { pendingSends[0]!.resolve(false); });
+
+    expect(onResult).toHaveBeenCalledOnce();
+    expect(onResult).toHaveBeenCalledWith(
+      'cameraPitch',
+      expect.objectContaining({ ok: false, command: 'cameraPitch', errorClass: 'ue', status: 500 }),
+      'http://ue:8081',
+    );
+  });
+
+  // ── 13. Device endpoint override → own engine, own committed camera ────
+
+  it('sends to the device engine and advances only that engine\'s committed camera', async () => {
+    useUeControlStore.getState().setDeviceUeApiUrl(DEVICE, 'http://holobox-ue:8081/');
+    const { result } = renderSliderHook();
+
+    act(() => result.current.handleSlider('zoom', 40));
+    await act(async () => { vi.advanceTimersByTime(SLIDER_DEBOUNCE_MS); });
+    await act(async () => { pendingSends[0]!.resolve(true); });
+
+    expect(sendCommand).toHaveBeenCalledWith('http://holobox-ue:8081/', { command: 'zoom', offset: '40' });
+    const { getCommittedCamera } = useUeControlStore.getState();
+    expect(getCommittedCamera('http://holobox-ue:8081').zoom).toBe(40);
+    expect(getCommittedCamera('http://ue:8081').zoom).toBe(0);
+  });
+
+  // ── 14. Broadcast group → every engine, delta from its own committed ───
+
+  it('sends each engine of a broadcast group its own delta', async () => {
+    const store = useUeControlStore.getState();
+    const groupId = store.saveDeviceGroup('Booth', ['http://holo-1:8081', 'http://holo-2:8081'])!;
+    store.setBroadcastGroup(DEVICE, groupId);
+    store.setUeCommittedCamera('http://holo-2:8081', { zoom: 30, cameraVertical: 0, cameraHorizontal: 0, cameraPitch: 0 });
+    const { result } = renderSliderHook();
+
+    act(() => result.current.handleSlider('zoom', 50));
+    await act(async () => { vi.advanceTimersByTime(SLIDER_DEBOUNCE_MS); });
+
+    expect(sendCommand.mock.calls).toEqual([
+      ['http://holo-1:8081', { command: 'zoom', offset: '50' }],
+      ['http://holo-2:8081', { command: 'zoom', offset: '20' }],
+    ]);
+
+    // One engine fails — only the other one advances
+    await act(async () => {
+      pendingSends[0]!.resolve(false);
+      pendingSends[1]!.resolve(true);
+    });
+    const { getCommittedCamera } = useUeControlStore.getState();
+    expect(getCommittedCamera('http://holo-1:8081').zoom).toBe(0);
+    expect(getCommittedCamera('http://holo-2:8081').zoom).toBe(50);
+  });
 });
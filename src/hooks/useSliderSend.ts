@@ -1,23 +1,25 @@
 import { useCallback, useEffect, useRef } from 'react';
 import { useUeControlStore } from '@/stores/ueControlStore';
-import { sendUeCommand } from '@/services/ueRemoteApi';
+import { sendUeCommand, type UeCommandResult } from '@/services/ueRemoteApi';
+import {
+  CAMERA_AXIS_COMMANDS,
+  buildCameraOffsetPayload,
+  clampCameraDelta,
+} from '@/services/ueCommandRegistry';
 
 export const SLIDER_DEBOUNCE_MS = 200;
 
-/** Slider key → UE command name mapping */
-export const SLIDER_COMMANDS: Record<string, { command: string; param: string }> = {
-  zoom: { command: 'zoom', param: 'offset' },
-  cameraVertical: { command: 'CameraVertical', param: 'offset' },
-  cameraHorizontal: { command: 'CameraHorizontal', param: 'offset' },
-  cameraPitch: { command: 'cameraPitch', param: 'angle' },
-};
+/** Slider key → registry command id (wire name and param come from UE_COMMANDS) */
+export const SLIDER_COMMANDS = CAMERA_AXIS_COMMANDS;
 
-export type SliderKey = 'zoom' | 'cameraVertical' | 'cameraHorizontal' | 'cameraPitch';
+export type SliderKey = keyof typeof SLIDER_COMMANDS;
 
 interface UseSliderSendOptions {
   deviceId: string;
   /** Inject for tests — defaults to real sendUeCommand */
   sendCommand?: typeof sendUeCommand;
+  /** Called with every send's result and its engine (success clears, failure reports an error) */
+  onResult?: (key: SliderKey, result: UeCommandResult, url: string) => void;
 }
 
 interface UseSliderSendResult {
@@ -29,23 +31,33 @@ interface UseSliderSendResult {
  * Hook that debounces slider changes and sends delta commands to UE.
  *
  * Delta computation:
- *   delta = deviceSettings[deviceId][key] − ueCommittedCamera[key]
+ *   delta = deviceSettings[deviceId][key] − committed[key]
  *
- * `ueCommittedCamera` represents UE's actual camera position (updated after
+ * `committed` is the engine's entry in `ueCommittedCameras` — UE's
+ * actual camera position (updated after
  * every successful command). This ensures sliders work as absolute positioning
  * relative to 0: dragging from −15 to −10 sends +5 (zoom IN), not −10.
  *
- * `inFlightRef` prevents concurrent sends per key so committed camera
- * is always up-to-date before computing the next delta.
+ * A device broadcasting to a group sends to every engine of `getUeEndpoints`,
+ * each with the delta from its own committed camera.
+ *
+ * `inFlightRef` prevents concurrent sends per engine and key so committed
+ * camera is always up-to-date before computing the next delta.
+ *
+ * Deltas larger than the registry's offset range are sent in clamped chunks —
+ * the catch-up send after each success covers the remainder.
  */
 export function useSliderSend({
   deviceId,
   sendCommand = sendUeCommand,
+  onResult,
 }: UseSliderSendOptions): UseSliderSendResult {
   const updateSettings = useUeControlStore((s) => s.updateDeviceSettings);
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
 
   const sliderTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
-  /** True while an HTTP send is in-flight for a given key — prevents concurrent sends */
+  /** `${url} ${key}` while an HTTP send is in-flight — prevents concurrent sends */
   const inFlightRef = useRef(new Set<string>());
 
   // Clean up all pending timers on unmount.
@@ -58,61 +70,69 @@ export function useSliderSend({
 
   const resetSliderState = useCallback(() => {
     // Clear pending debounce timers and in-flight flags.
-    // Baseline is now always read from ueCommittedCamera in the store,
+    // Baseline is now always read from the committed camera in the store,
     // so no local state needs resetting beyond cancellation.
     sliderTimersRef.current.forEach((t) => clearTimeout(t));
     sliderTimersRef.current.clear();
     inFlightRef.current.clear();
   }, []);
 
-  const fireSliderSend = useCallback(
-    (key: SliderKey) => {
+  const sendToEngine = useCallback(
+    (url: string, key: SliderKey) => {
       const state = useUeControlStore.getState();
-      const url = state.ueApiUrl;
-      if (!url) return;
-      const cmd = SLIDER_COMMANDS[key];
-      if (!cmd) return;
-
-      // Only one send per key at a time — prevents baseline races
-      if (inFlightRef.current.has(key)) return;
-
-      // Baseline = UE's actual position; target = desired position for this device
-      const baseline = state.ueCommittedCamera[key];
-      const target = state.deviceSettings[deviceId]?.[key] ?? 0;
-      const delta = target - baseline;
+      const flightKey = `${url} ${key}`;
+
+      // Only one send per engine and key at a time — prevents baseline races
+      if (inFlightRef.current.has(flightKey)) return;
+
+      // Baseline = UE's actual position; target = what UE will have after this send
+      const baseline = state.getCommittedCamera(url)[key];
+      const desired = state.deviceSettings[deviceId]?.[key] ?? 0;
+      const delta = clampCameraDelta(desired - baseline);
       if (delta === 0) return;
+      const target = baseline + delta;
 
-      inFlightRef.current.add(key);
+      const built = buildCameraOffsetPayload(key, delta);
+      if (!built.ok) return;
 
-      void sendCommand(url, {
-        command: cmd.command,
-        [cmd.param]: String(delta),
-      })
-        .then((ok) => {
-          inFlightRef.current.delete(key);
+      inFlightRef.current.add(flightKey);
 
-          if (ok) {
+      void sendCommand(url, built.payload)
+        .then((result) => {
+          inFlightRef.current.delete(flightKey);
+          onResultRef.current?.(key, result, url);
+
+          if (result.ok) {
             // Advance committed — UE now has this position
-            useUeControlStore.getState().patchUeCommittedCamera({ [key]: target });
+            useUeControlStore.getState().patchUeCommittedCamera(url, { [key]: target });
 
             // Catch-up: if slider moved while we were in-flight, send again.
             // Only on success — on failure committed stays unchanged, and the
             // next debounce fire will recompute the full delta automatically.
             const latest = useUeControlStore.getState().deviceSettings[deviceId]?.[key] ?? 0;
             if (latest !== target) {
-              fireSliderSend(key);
+              sendToEngine(url, key);
             }
           }
           // On failure: committed stays at old value.
           // Next fire will read committed fresh and recompute the correct delta.
         })
         .catch(() => {
-          inFlightRef.current.delete(key);
+          inFlightRef.current.delete(flightKey);
         });
     },
     [deviceId, sendCommand],
   );
 
+  const fireSliderSend = useCallback(
+    (key: SliderKey) => {
+      for (const url of useUeControlStore.getState().getUeEndpoints(deviceId)) {
+        sendToEngine(url, key);
+      }
+    },
+    [deviceId, sendToEngine],
+  );
+
   const handleSlider = useCallback(
     (key: SliderKey, value: number) => {
       // Update store immediately (optimistic UI)
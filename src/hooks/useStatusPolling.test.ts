@@ -0,0 +1,114 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useUeControlStore, ZERO_CAMERA } from '@/stores/ueControlStore';
+import { checkUeApiHealth, getCameraState } from '@/services/ueRemoteApi';
+import { useStatusPolling, ueHealthBackoffMs, UE_MAX_BACKOFF_MS } from './useStatusPolling';
+
+vi.mock('@/services/voiceAgentWriter', () => ({
+  getProcessStatus: vi.fn(() => Promise.resolve({ running: false })),
+  checkPixelStreamingStatus: vi.fn(() => Promise.resolve({ reachable: false })),
+}));
+
+vi.mock('@/services/ueRemoteApi', () => ({
+  checkUeApiHealth: vi.fn(),
+  getCameraState: vi.fn(),
+}));
+
+// ── helpers ───────────────────────────────────────────────────────────────────
+
+const UE_URL = 'http://ue:8081';
+const UNREACHABLE = { reachable: false, latencyMs: null };
+const REACHABLE = { reachable: true, latencyMs: 3 };
+
+/** Let the poll loop run until `ms` after the current (fake) time */
+async function advance(ms: number) {
+  await act(async () => {
+    await vi.advanceTimersByTimeAsync(ms);
+  });
+}
+
+// ── suite ─────────────────────────────────────────────────────────────────────
+
+describe('ueHealthBackoffMs', () => {
+  it('doubles from the poll interval up to the cap', () => {
+    expect([0, 1, 2, 3, 4].map(ueHealthBackoffMs)).toEqual([5_000, 10_000, 20_000, UE_MAX_BACKOFF_MS, UE_MAX_BACKOFF_MS]);
+  });
+});
+
+describe('useStatusPolling', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(checkUeApiHealth).mockReset();
+    vi.mocked(getCameraState).mockReset();
+    useUeControlStore.setState({
+      ueApiUrl: UE_URL,
+      activeUeDeviceId: null,
+      deviceUeApiUrls: {},
+      ueReachable: null,
+      ueCommittedCameras: {},
+      ueCameraDrift: null,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('backs off while UE is unreachable', async () => {
+    vi.mocked(checkUeApiHealth).mockResolvedValue(UNREACHABLE);
+    const { unmount } = renderHook(() => useStatusPolling());
+
+    await advance(0);
+    expect(checkUeApiHealth).toHaveBeenCalledTimes(1);
+
+    // 1 failure → next check after 10s
+    await advance(5_000);
+    expect(checkUeApiHealth).toHaveBeenCalledTimes(1);
+    await advance(5_000);
+    expect(checkUeApiHealth).toHaveBeenCalledTimes(2);
+
+    // 2 failures → 20s
+    await advance(15_000);
+    expect(checkUeApiHealth).toHaveBeenCalledTimes(2);
+    await advance(5_000);
+    expect(checkUeApiHealth).toHaveBeenCalledTimes(3);
+    expect(useUeControlStore.getState().ueReachable).toBe(false);
+    unmount();
+  });
+
+  it('resets the backoff and re-reads the camera once when UE comes back', async () => {
+    vi.mocked(checkUeApiHealth).mockResolvedValueOnce(UNREACHABLE).mockResolvedValue(REACHABLE);
+    vi.mocked(getCameraState).mockResolvedValue({ ...ZERO_CAMERA, zoom: 120 });
+    const { unmount } = renderHook(() => useStatusPolling());
+
+    await advance(0);
+    await advance(10_000);
+    expect(checkUeApiHealth).toHaveBeenCalledTimes(2);
+    expect(useUeControlStore.getState().ueReachable).toBe(true);
+    expect(getCameraState).toHaveBeenCalledTimes(1);
+    expect(getCameraState).toHaveBeenCalledWith(UE_URL);
+    expect(useUeControlStore.getState().getCommittedCamera(UE_URL).zoom).toBe(120);
+
+    // Reachable again → checked every tick, no further recovery
+    await advance(5_000);
+    await advance(5_000);
+    expect(checkUeApiHealth).toHaveBeenCalledTimes(4);
+    expect(getCameraState).toHaveBeenCalledTimes(1);
+    unmount();
+  });
+
+  it('assumes a fresh start at zero when UE comes back without a camera read-back', async () => {
+    useUeControlStore.getState().setUeCommittedCamera(UE_URL, { ...ZERO_CAMERA, zoom: 80 });
+    vi.mocked(checkUeApiHealth).mockResolvedValueOnce(UNREACHABLE).mockResolvedValue(REACHABLE);
+    vi.mocked(getCameraState).mockResolvedValue(null);
+    const { unmount } = renderHook(() => useStatusPolling());
+
+    await advance(0);
+    await advance(10_000);
+
+    expect(getCameraState).toHaveBeenCalledTimes(1);
+    expect(useUeControlStore.getState().getCommittedCamera(UE_URL)).toEqual(ZERO_CAMERA);
+    unmount();
+  });
+});
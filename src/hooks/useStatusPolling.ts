@@ -1,15 +1,45 @@
 import { useEffect, useRef } from 'react';
 import { useSettingsStore } from '@/stores/settingsStore';
-// import { useUeControlStore } from '@/stores/ueControlStore';
+import { useUeControlStore, ZERO_LIGHTING } from '@/stores/ueControlStore';
 import { useStatusStore } from '@/stores/statusStore';
 import { getProcessStatus, checkPixelStreamingStatus } from '@/services/voiceAgentWriter';
-// import { checkUeApiHealth } from '@/services/ueRemoteApi';
+import { checkUeApiHealth, getCameraState } from '@/services/ueRemoteApi';
 import { isValidUrl } from '@/utils/isValidUrl';
 
 /** Base polling interval for process & PS checks */
 const STATUS_POLL_MS = 5_000;
-// /** Max backoff for UE health when unreachable */
-// const UE_MAX_BACKOFF_MS = 30_000;
+/** Max backoff for UE health when unreachable */
+export const UE_MAX_BACKOFF_MS = 30_000;
+
+/** Delay before the next UE health check after `failCount` consecutive failures. */
+export function ueHealthBackoffMs(failCount: number): number {
+  return Math.min(STATUS_POLL_MS * 2 ** failCount, UE_MAX_BACKOFF_MS);
+}
+
+/** Endpoint of the device whose UE panel is mounted (default URL if none). */
+function activeUeApiUrl(): string {
+  const { activeUeDeviceId, getUeApiUrl } = useUeControlStore.getState();
+  return getUeApiUrl(activeUeDeviceId);
+}
+
+/**
+ * UE came back after being unreachable — most likely it restarted, so our
+ * committed camera is stale. Adopt UE's read-back camera if it answers
+ * `GetCameraState`, otherwise assume a fresh start at zero. Lighting has no
+ * read-back; it's assumed back at UE's start-up lighting.
+ */
+async function recoverCommittedCamera(ueApiUrl: string): Promise<void> {
+  const actual = await getCameraState(ueApiUrl);
+  const store = useUeControlStore.getState();
+
+  if (actual) {
+    store.setUeCommittedCamera(ueApiUrl, actual);
+  } else {
+    store.resetUeCommittedCamera(ueApiUrl);
+  }
+  store.setUeCommittedLighting(ueApiUrl, ZERO_LIGHTING);
+  if (activeUeApiUrl() === ueApiUrl) store.setUeCameraDrift(null);
+}
 
 /**
  * Global status polling hook — runs at AppShell level.
@@ -17,38 +47,39 @@ const STATUS_POLL_MS = 5_000;
  * Polls every 5s:
  *  - start2stream process status
  *  - Pixel Streaming endpoint reachability
+ *  - UE Remote API reachability (TCP probe via the dev server's `/ue-health`)
+ *    of the active device's endpoint (`activeUeDeviceId`, else the default URL)
  *
- * UE Remote API health check is disabled until a real ping endpoint exists.
- * To re-enable: uncomment UE sections here and in UeControlPanel/OverviewPage.
+ * UE checks back off exponentially while UE is unreachable (5s → 10s → 20s → 30s max)
+ * and reset to every tick once it answers or the URL changes — including a
+ * switch to a device served by another engine.
  */
 export function useStatusPolling(): void {
   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  // UE health refs — disabled until real ping endpoint
-  // const ueFailCountRef = useRef(0);
-  // const tickRef = useRef(0);
-  // const prevUeUrlRef = useRef('');
+  const ueFailCountRef = useRef(0);
+  /** Epoch ms before which the UE check is skipped (backoff) */
+  const ueNextCheckAtRef = useRef(0);
+  const prevUeUrlRef = useRef('');
 
   useEffect(() => {
     let cancelled = false;
 
     const poll = async () => {
       const { pixelStreamingUrl } = useSettingsStore.getState();
-      // const { ueApiUrl, setUeReachable } = useUeControlStore.getState();
-
-      // UE health check backoff — disabled until real ping endpoint exists
-      // if (ueApiUrl !== prevUeUrlRef.current) {
-      //   ueFailCountRef.current = 0;
-      //   prevUeUrlRef.current = ueApiUrl;
-      // }
+      const { setUeReachable, setUeLatencyMs } = useUeControlStore.getState();
+      const ueApiUrl = activeUeApiUrl();
       const { setProcessRunning, setPsReachable } = useStatusStore.getState();
 
-      // tickRef.current += 1;
-      // const backoffMs = Math.min(
-      //   STATUS_POLL_MS * 2 ** ueFailCountRef.current,
-      //   UE_MAX_BACKOFF_MS,
-      // );
-      // const ticksBetweenUeChecks = Math.max(1, Math.round(backoffMs / STATUS_POLL_MS));
-      // const shouldCheckUe = tickRef.current % ticksBetweenUeChecks === 0;
+      // New URL — forget previous failures and check right away
+      if (ueApiUrl !== prevUeUrlRef.current) {
+        prevUeUrlRef.current = ueApiUrl;
+        ueFailCountRef.current = 0;
+        ueNextCheckAtRef.current = 0;
+        setUeReachable(null);
+        setUeLatencyMs(null);
+      }
+
+      const shouldCheckUe = Date.now() >= ueNextCheckAtRef.current;
 
       // Run health checks in parallel — no reason to block on each other
       await Promise.allSettled([
@@ -64,28 +95,26 @@ export function useStatusPolling(): void {
               .catch(() => setPsReachable(null))
           : Promise.resolve(setPsReachable(null)),
 
-        // UE API health — DISABLED until backend provides a dedicated ping endpoint.
-        // The previous `{ command: 'ping' }` was not a real UE command; it caused
-        // false "UE Offline" reports even though actual commands worked fine.
-        // To re-enable: implement a real health-check endpoint and uncomment.
-        //
-        // shouldCheckUe && ueApiUrl && isValidUrl(ueApiUrl)
-        //   ? checkUeApiHealth(ueApiUrl)
-        //       .then((ok) => {
-        //         const prevReachable = useUeControlStore.getState().ueReachable;
-        //         setUeReachable(ok);
-        //         ueFailCountRef.current = ok ? 0 : ueFailCountRef.current + 1;
-        //         if (ok && prevReachable === false) {
-        //           useUeControlStore.getState().resetUeCommittedCamera();
-        //         }
-        //       })
-        //       .catch(() => {
-        //         setUeReachable(null);
-        //         ueFailCountRef.current += 1;
-        //       })
-        //   : shouldCheckUe
-        //     ? Promise.resolve(setUeReachable(null))
-        //     : Promise.resolve(),
+        // UE API health (with backoff)
+        shouldCheckUe && ueApiUrl && isValidUrl(ueApiUrl)
+          ? checkUeApiHealth(ueApiUrl).then((health) => {
+              // URL changed while the probe was in flight — result is for the old host
+              if (activeUeApiUrl() !== ueApiUrl) return;
+
+              const prevReachable = useUeControlStore.getState().ueReachable;
+              setUeReachable(health.reachable);
+              setUeLatencyMs(health.latencyMs);
+
+              ueFailCountRef.current = health.reachable ? 0 : ueFailCountRef.current + 1;
+              ueNextCheckAtRef.current = Date.now() + ueHealthBackoffMs(ueFailCountRef.current);
+
+              if (health.reachable && prevReachable === false) {
+                void recoverCommittedCamera(ueApiUrl);
+              }
+            })
+          : shouldCheckUe
+            ? Promise.resolve(setUeReachable(null))
+            : Promise.resolve(),
       ]);
     };
 
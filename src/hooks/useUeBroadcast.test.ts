@@ -0,0 +1,96 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act, cleanup } from '@testing-library/react';
+import { useUeControlStore } from '@/stores/ueControlStore';
+import type { UeCommandResult } from '@/services/ueRemoteApi';
+import { useUeBroadcast } from './useUeBroadcast';
+
+// ── helpers ───────────────────────────────────────────────────────────────────
+
+const DEVICE = 'holobox';
+const HOLO_1 = 'http://holo-1:8081';
+const HOLO_2 = 'http://holo-2:8081';
+
+function commandResult(ok: boolean): UeCommandResult {
+  return ok
+    ? { ok, command: 'LightUp', errorClass: null, error: null, status: 200, latencyMs: 1, body: null }
+    : { ok, command: 'LightUp', errorClass: 'unreachable', error: 'UE API unreachable', status: 502, latencyMs: 1, body: null };
+}
+
+// ── suite ─────────────────────────────────────────────────────────────────────
+
+describe('useUeBroadcast', () => {
+  beforeEach(() => {
+    useUeControlStore.setState({
+      ueApiUrl: 'http://ue:8081',
+      deviceUeApiUrls: {},
+      deviceGroups: [],
+      broadcastGroupIds: {},
+    });
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  function joinBooth() {
+    const store = useUeControlStore.getState();
+    store.setBroadcastGroup(DEVICE, store.saveDeviceGroup('Booth', [HOLO_1, HOLO_2]));
+  }
+
+  it('targets the device engine until a group is selected', () => {
+    const { result } = renderHook(() => useUeBroadcast({ deviceId: DEVICE }));
+    expect(result.current).toMatchObject({ group: null, endpoints: ['http://ue:8081'] });
+
+    act(joinBooth);
+    expect(result.current.group?.name).toBe('Booth');
+    expect(result.current.endpoints).toEqual([HOLO_1, HOLO_2]);
+  });
+
+  it('records each engine in the matrix and reports all results', async () => {
+    joinBooth();
+    const onResult = vi.fn();
+    const send = vi.fn((url: string) => Promise.resolve(commandResult(url === HOLO_1)));
+    const { result } = renderHook(() => useUeBroadcast({ deviceId: DEVICE, onResult }));
+
+    await act(() => result.current.broadcast('lighting', send));
+
+    expect(send.mock.calls.map(([url]) => url)).toEqual([HOLO_1, HOLO_2]);
+    expect(result.current.matrix.lighting).toEqual({
+      results: { [HOLO_1]: commandResult(true), [HOLO_2]: commandResult(false) },
+      retryable: true,
+    });
+    expect(onResult).toHaveBeenCalledWith('lighting', [commandResult(true), commandResult(false)]);
+  });
+
+  it('retries only the engines that failed', async () => {
+    joinBooth();
+    const send = vi.fn((url: string) => Promise.resolve(commandResult(url === HOLO_1)));
+    const { result } = renderHook(() => useUeBroadcast({ deviceId: DEVICE }));
+    await act(() => result.current.broadcast('lighting', send));
+
+    send.mockResolvedValue(commandResult(true));
+    await act(async () => result.current.retryFailed('lighting'));
+
+    expect(send.mock.calls.map(([url]) => url)).toEqual([HOLO_1, HOLO_2, HOLO_2]);
+    expect(result.current.matrix.lighting?.results[HOLO_2]?.ok).toBe(true);
+  });
+
+  it('does not replay non-retryable sends or recorded results', async () => {
+    joinBooth();
+    const send = vi.fn(() => Promise.resolve([commandResult(true), commandResult(false)]));
+    const { result } = renderHook(() => useUeBroadcast({ deviceId: DEVICE }));
+
+    await act(() => result.current.broadcast('sync', send, { retryable: false }));
+    act(() => result.current.record('zoom', HOLO_1, commandResult(false)));
+    await act(async () => {
+      result.current.retryFailed('sync');
+      result.current.retryFailed('zoom');
+    });
+
+    expect(send).toHaveBeenCalledTimes(2);
+    // A multi-command send shows its first failure
+    expect(result.current.matrix.sync?.results[HOLO_1]?.ok).toBe(false);
+    expect(result.current.matrix.zoom).toEqual({ results: { [HOLO_1]: commandResult(false) }, retryable: false });
+  });
+});
@@ -0,0 +1,143 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { useUeControlStore, ueEndpointKey, type UeDeviceGroup } from '@/stores/ueControlStore';
+import { broadcastToEngines, type UeCommandResult } from '@/services/ueRemoteApi';
+
+/** One control's latest outcome on each engine */
+export interface UeBroadcastRow {
+  /** Keyed by `ueEndpointKey` */
+  results: Record<string, UeCommandResult>;
+  /** Sent via `broadcast`, so `retryFailed` can replay it */
+  retryable: boolean;
+}
+
+/** Rows keyed by control (e.g. `level`, `lighting`, `zoom`) */
+export type UeBroadcastMatrix = Record<string, UeBroadcastRow>;
+
+/** Sends one logical command to a single engine; may return several results (e.g. a camera move). */
+export type UeEngineSend = (url: string) => Promise<UeCommandResult | UeCommandResult[]>;
+
+interface UseUeBroadcastOptions {
+  deviceId: string;
+  /** Called with every engine's results of a broadcast, flattened */
+  onResult?: (control: string, results: UeCommandResult[]) => void;
+}
+
+interface UseUeBroadcastResult {
+  /** Group the device broadcasts to (null = its own engine only) */
+  group: UeDeviceGroup | null;
+  /** Engines the device's commands go to */
+  endpoints: string[];
+  matrix: UeBroadcastMatrix;
+  /**
+   * Run `send` against every engine in parallel and record each outcome.
+   * Pass `retryable: false` for sends that aren't safe to replay later
+   * (camera moves computed from a committed camera that has since changed).
+   */
+  broadcast: (control: string, send: UeEngineSend, options?: { retryable?: boolean }) => Promise<void>;
+  /** Record a result obtained outside `broadcast` (e.g. a slider send) */
+  record: (control: string, url: string, result: UeCommandResult) => void;
+  /** Re-run a control's last broadcast on the engines where it failed */
+  retryFailed: (control: string) => void;
+}
+
+const NO_MATRIX: UeBroadcastMatrix = {};
+
+/** A multi-command send is only as good as its first failure. */
+function summarize(results: UeCommandResult[]): UeCommandResult | null {
+  return results.find((r) => !r.ok) ?? results[results.length - 1] ?? null;
+}
+
+/**
+ * Fans the UE control panel's commands out to the device's engines —
+ * its broadcast group from `useUeControlStore`, or just its own endpoint —
+ * and keeps the per-engine success/failure matrix the panel renders.
+ *
+ * The matrix is panel-local: it describes what this session sent, not UE's
+ * state. `retryFailed` replays a control's last `send` on failed engines only,
+ * so engines that already applied it aren't hit twice.
+ */
+export function useUeBroadcast({ deviceId, onResult }: UseUeBroadcastOptions): UseUeBroadcastResult {
+  const groupSelector = useMemo(
+    () => (s: { deviceGroups: UeDeviceGroup[]; broadcastGroupIds: Record<string, string> }) =>
+      s.deviceGroups.find((g) => g.id === s.broadcastGroupIds[deviceId]) ?? null,
+    [deviceId],
+  );
+  const group = useUeControlStore(groupSelector);
+  const ownUrl = useUeControlStore((s) => s.getUeApiUrl(deviceId));
+  const endpoints = useMemo(() => group?.endpoints ?? (ownUrl ? [ownUrl] : []), [group, ownUrl]);
+
+  /** Matrices by DeviceId — switching devices shows that device's last results */
+  const [matrices, setMatrices] = useState<Record<string, UeBroadcastMatrix>>({});
+  const matrix = matrices[deviceId] ?? NO_MATRIX;
+  /** Last `send` per device and control — what `retryFailed` replays */
+  const sendersRef = useRef(new Map<string, UeEngineSend>());
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+
+  const updateMatrix = useCallback(
+    (update: (prev: UeBroadcastMatrix) => UeBroadcastMatrix) =>
+      setMatrices((all) => ({ ...all, [deviceId]: update(all[deviceId] ?? NO_MATRIX) })),
+    [deviceId],
+  );
+
+  const setCell = useCallback(
+    (control: string, url: string, result: UeCommandResult, retryable: boolean) =>
+      updateMatrix((prev) => ({
+        ...prev,
+        [control]: { results: { ...prev[control]?.results, [ueEndpointKey(url)]: result }, retryable },
+      })),
+    [updateMatrix],
+  );
+
+  const record = useCallback(
+    (control: string, url: string, result: UeCommandResult) => setCell(control, url, result, false),
+    [setCell],
+  );
+
+  const sendTo = useCallback(
+    async (control: string, urls: string[], send: UeEngineSend, retryable: boolean) => {
+      const outcomes = await broadcastToEngines(urls, send);
+      const all: UeCommandResult[] = [];
+      for (const { url, result } of outcomes) {
+        const results = Array.isArray(result) ? result : [result];
+        all.push(...results);
+        const summary = summarize(results);
+        if (summary) setCell(control, url, summary, retryable);
+      }
+      onResultRef.current?.(control, all);
+    },
+    [setCell],
+  );
+
+  const broadcast = useCallback(
+    (control: string, send: UeEngineSend, { retryable = true }: { retryable?: boolean } = {}) => {
+      const senderKey = `${deviceId} ${control}`;
+      if (retryable) sendersRef.current.set(senderKey, send);
+      else sendersRef.current.delete(senderKey);
+      // A fresh broadcast replaces the row — engines that left the group drop out
+      updateMatrix((prev) => {
+        const next = { ...prev };
+        delete next[control];
+        return next;
+      });
+      return sendTo(control, useUeControlStore.getState().getUeEndpoints(deviceId), send, retryable);
+    },
+    [deviceId, sendTo, updateMatrix],
+  );
+
+  const retryFailed = useCallback(
+    (control: string) => {
+      const send = sendersRef.current.get(`${deviceId} ${control}`);
+      const row = matrix[control];
+      if (!send || !row?.retryable) return;
+      const failed = useUeControlStore
+        .getState()
+        .getUeEndpoints(deviceId)
+        .filter((url) => row.results[ueEndpointKey(url)]?.ok === false);
+      if (failed.length) void sendTo(control, failed, send, true);
+    },
+    [deviceId, matrix, sendTo],
+  );
+
+  return { group, endpoints, matrix, broadcast, record, retryFailed };
+}
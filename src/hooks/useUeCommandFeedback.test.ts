@@ -0,0 +1,83 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import type { UeCommandResult } from '@/services/ueRemoteApi';
+import { useUeCommandFeedback, UE_TOAST_MS } from './useUeCommandFeedback';
+
+// ── helpers ───────────────────────────────────────────────────────────────────
+
+function ok(command = 'Logo'): UeCommandResult {
+  return { ok: true, command, errorClass: null, error: null, status: 200, latencyMs: 3, body: null };
+}
+
+function failed(command = 'Logo', status = 500): UeCommandResult {
+  return { ok: false, command, errorClass: 'ue', error: `HTTP ${status}`, status, latencyMs: 3, body: null };
+}
+
+// ── suite ─────────────────────────────────────────────────────────────────────
+
+describe('useUeCommandFeedback', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sets a per-control error and a toast on failure, clears the error on success', () => {
+    const { result } = renderHook(() => useUeCommandFeedback());
+
+    act(() => result.current.report('showLogo', failed()));
+
+    expect(result.current.errors.showLogo).toBe('Logo: UE returned 500 — HTTP 500');
+    expect(result.current.toasts.map((t) => t.message)).toEqual(['Logo: UE returned 500 — HTTP 500']);
+
+    act(() => result.current.report('showLogo', ok()));
+
+    expect(result.current.errors).toEqual({});
+  });
+
+  it('reports the first failure out of a batch', () => {
+    const { result } = renderHook(() => useUeCommandFeedback());
+
+    act(() => result.current.report('sync', [ok('ChangeLevel'), failed('Logo', 502), failed('zoom')]));
+
+    expect(result.current.errors.sync).toContain('Logo');
+    expect(result.current.toasts).toHaveLength(1);
+  });
+
+  it('does not stack identical messages and auto-dismisses toasts', () => {
+    const { result } = renderHook(() => useUeCommandFeedback());
+
+    act(() => result.current.report('zoom', failed('zoom')));
+    act(() => { vi.advanceTimersByTime(UE_TOAST_MS - 1_000); });
+    act(() => result.current.report('zoom', failed('zoom')));
+
+    expect(result.current.toasts).toHaveLength(1);
+
+    // Timer restarted by the duplicate — still up after the original deadline
+    act(() => { vi.advanceTimersByTime(1_000); });
+    expect(result.current.toasts).toHaveLength(1);
+
+    act(() => { vi.advanceTimersByTime(UE_TOAST_MS); });
+    expect(result.current.toasts).toEqual([]);
+    // Inline error outlives the toast
+    expect(result.current.errors.zoom).toBeDefined();
+  });
+
+  it('keeps at most three toasts and dismisses on demand', () => {
+    const { result } = renderHook(() => useUeCommandFeedback());
+
+    act(() => {
+      for (const command of ['A', 'B', 'C', 'D']) result.current.report(command, failed(command));
+    });
+
+    expect(result.current.toasts.map((t) => t.message.split(':')[0])).toEqual(['B', 'C', 'D']);
+
+    const first = result.current.toasts[0];
+    act(() => result.current.dismissToast(first?.id ?? -1));
+
+    expect(result.current.toasts).toHaveLength(2);
+  });
+});
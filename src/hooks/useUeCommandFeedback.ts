@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { describeUeError, type UeCommandResult } from '@/services/ueRemoteApi';
+
+/** How long a toast stays up */
+export const UE_TOAST_MS = 4_000;
+/** Oldest toasts are dropped beyond this */
+const MAX_TOASTS = 3;
+
+export interface UeToast {
+  id: number;
+  message: string;
+}
+
+interface UseUeCommandFeedbackResult {
+  /** Last error per control (e.g. `zoom`, `level`, `lighting`); absent = last send OK */
+  errors: Record<string, string>;
+  toasts: UeToast[];
+  /**
+   * Record the outcome of a control's command(s). The first failed result sets
+   * the control's error and raises a toast; all-OK clears the error.
+   */
+  report: (control: string, result: UeCommandResult | UeCommandResult[]) => void;
+  dismissToast: (id: number) => void;
+}
+
+/**
+ * Turns `UeCommandResult`s into UI feedback for the UE control panel:
+ * inline per-control errors plus short-lived toasts.
+ *
+ * Identical messages are not stacked — the existing toast's timer restarts
+ * instead, so a slider failing on every drag shows one toast.
+ */
+export function useUeCommandFeedback(): UseUeCommandFeedbackResult {
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [toasts, setToasts] = useState<UeToast[]>([]);
+  /** Mirror of `toasts` so `report` can dedupe without side effects in an updater */
+  const toastsRef = useRef<UeToast[]>([]);
+  const nextIdRef = useRef(1);
+  const timersRef = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+
+  const clearTimer = useCallback((id: number) => {
+    const timer = timersRef.current.get(id);
+    if (timer) clearTimeout(timer);
+    timersRef.current.delete(id);
+  }, []);
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => {
+      timers.forEach((t) => clearTimeout(t));
+    };
+  }, []);
+
+  const dismissToast = useCallback(
+    (id: number) => {
+      clearTimer(id);
+      toastsRef.current = toastsRef.current.filter((t) => t.id !== id);
+      setToasts(toastsRef.current);
+    },
+    [clearTimer],
+  );
+
+  const scheduleDismiss = useCallback(
+    (id: number) => {
+      clearTimer(id);
+      timersRef.current.set(id, setTimeout(() => dismissToast(id), UE_TOAST_MS));
+    },
+    [clearTimer, dismissToast],
+  );
+
+  const report = useCallback(
+    (control: string, result: UeCommandResult | UeCommandResult[]) => {
+      const results = Array.isArray(result) ? result : [result];
+      const failed = results.find((r) => !r.ok);
+
+      if (!failed) {
+        setErrors((prev) => {
+          if (!(control in prev)) return prev;
+          const next = { ...prev };
+          delete next[control];
+          return next;
+        });
+        return;
+      }
+
+      const message = describeUeError(failed);
+      setErrors((prev) => (prev[control] === message ? prev : { ...prev, [control]: message }));
+
+      const current = toastsRef.current;
+      const duplicate = current.find((t) => t.message === message);
+      if (duplicate) {
+        scheduleDismiss(duplicate.id);
+        return;
+      }
+
+      const toast = { id: nextIdRef.current++, message };
+      scheduleDismiss(toast.id);
+      const next = [...current, toast];
+      next.slice(0, -MAX_TOASTS).forEach((t) => clearTimer(t.id));
+      toastsRef.current = next.slice(-MAX_TOASTS);
+      setToasts(toastsRef.current);
+    },
+    [scheduleDismiss, clearTimer],
+  );
+
+  return { errors, toasts, report, dismissToast };
+}
@@ -0,0 +1,126 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act, cleanup } from '@testing-library/react';
+import { useUeControlStore } from '@/stores/ueControlStore';
+import { useUeCommandQueueStore, QUEUE_RETRY_BASE_MS } from '@/stores/ueCommandQueueStore';
+import type { UeCommandResult } from '@/services/ueRemoteApi';
+import { useUeCommandQueue } from './useUeCommandQueue';
+
+// ── helpers ───────────────────────────────────────────────────────────────────
+
+const DEVICE = 'kiosk';
+const UE_URL = 'http://ue:8081';
+
+function commandResult(ok: boolean): UeCommandResult {
+  return ok
+    ? { ok, command: 'Logo', errorClass: null, error: null, status: 200, latencyMs: 1, body: null }
+    : { ok, command: 'Logo', errorClass: 'unreachable', error: 'UE API unreachable', status: 502, latencyMs: 1, body: null };
+}
+
+/** Store change + submit, the way the panel's toggle handler does it */
+function toggleLogo(submit: (key: 'showLogo', value: boolean) => void, value: boolean) {
+  useUeControlStore.getState().updateDeviceSettings(DEVICE, { showLogo: value });
+  submit('showLogo', value);
+}
+
+// ── suite ─────────────────────────────────────────────────────────────────────
+
+describe('useUeCommandQueue', () => {
+  let sendSetting: ReturnType<typeof vi.fn<(url: string, key: string, value: unknown) => Promise<UeCommandResult>>>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sendSetting = vi.fn(() => Promise.resolve(commandResult(true)));
+    useUeCommandQueueStore.setState({ pending: {} });
+    useUeControlStore.setState({ ueApiUrl: UE_URL, ueReachable: true, deviceSettings: {} });
+  });
+
+  afterEach(() => {
+    // No vitest globals → no auto-cleanup; a mounted queue would react to the next test's store
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  function renderQueue() {
+    return renderHook(() => useUeCommandQueue({ deviceId: DEVICE, sendSetting }));
+  }
+
+  it('sends a submitted setting and clears it once UE confirms', async () => {
+    const { result } = renderQueue();
+
+    await act(async () => toggleLogo(result.current.submit, false));
+
+    expect(sendSetting).toHaveBeenCalledWith(UE_URL, 'showLogo', false);
+    expect(result.current.pending).toEqual({});
+  });
+
+  it('keeps a failed setting pending and retries it with backoff', async () => {
+    sendSetting.mockResolvedValueOnce(commandResult(false)).mockResolvedValueOnce(commandResult(false));
+    const { result } = renderQueue();
+
+    await act(async () => toggleLogo(result.current.submit, false));
+    expect(result.current.pending.showLogo).toMatchObject({ value: false, attempts: 1 });
+
+    await act(() => vi.advanceTimersByTimeAsync(QUEUE_RETRY_BASE_MS));
+    expect(sendSetting).toHaveBeenCalledTimes(2);
+    expect(result.current.pending.showLogo?.attempts).toBe(2);
+
+    // Second failure doubles the wait
+    await act(() => vi.advanceTimersByTimeAsync(QUEUE_RETRY_BASE_MS));
+    expect(sendSetting).toHaveBeenCalledTimes(2);
+
+    await act(() => vi.advanceTimersByTimeAsync(QUEUE_RETRY_BASE_MS));
+    expect(sendSetting).toHaveBeenCalledTimes(3);
+    expect(result.current.pending).toEqual({});
+  });
+
+  it('coalesces repeated changes while UE is offline and sends the last one when it returns', async () => {
+    useUeControlStore.setState({ ueReachable: false });
+    const { result } = renderQueue();
+
+    await act(async () => {
+      toggleLogo(result.current.submit, false);
+      toggleLogo(result.current.submit, true);
+      toggleLogo(result.current.submit, false);
+    });
+    await act(() => vi.advanceTimersByTimeAsync(60_000));
+
+    expect(sendSetting).not.toHaveBeenCalled();
+    expect(result.current.pending.showLogo?.value).toBe(false);
+
+    await act(async () => useUeControlStore.setState({ ueReachable: true }));
+
+    expect(sendSetting).toHaveBeenCalledOnce();
+    expect(sendSetting).toHaveBeenCalledWith(UE_URL, 'showLogo', false);
+    expect(result.current.pending).toEqual({});
+  });
+
+  it('drops a queued value superseded by another settings change', async () => {
+    useUeControlStore.setState({ ueReachable: false });
+    const { result } = renderQueue();
+
+    await act(async () => toggleLogo(result.current.submit, false));
+    // e.g. "Reset to defaults" — the queued `false` is no longer wanted
+    await act(async () => useUeControlStore.getState().updateDeviceSettings(DEVICE, { showLogo: true }));
+    expect(result.current.pending).toEqual({});
+
+    await act(async () => useUeControlStore.setState({ ueReachable: true }));
+
+    expect(sendSetting).not.toHaveBeenCalled();
+    expect(useUeCommandQueueStore.getState().getPending(DEVICE)).toEqual({});
+  });
+
+  it('reports every attempt through onResult', async () => {
+    sendSetting.mockResolvedValueOnce(commandResult(false));
+    const onResult = vi.fn();
+    const { result } = renderHook(() => useUeCommandQueue({ deviceId: DEVICE, sendSetting, onResult }));
+
+    await act(async () => toggleLogo(result.current.submit, false));
+    await act(() => vi.advanceTimersByTimeAsync(QUEUE_RETRY_BASE_MS));
+
+    expect(onResult.mock.calls.map(([key, r]) => [key, (r as UeCommandResult).ok])).toEqual([
+      ['showLogo', false],
+      ['showLogo', true],
+    ]);
+  });
+});
@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  useUeControlStore,
+  DEFAULT_DEVICE_SETTINGS,
+  type UeDeviceSettings,
+} from '@/stores/ueControlStore';
+import { useUeCommandQueueStore, type PendingUeSetting } from '@/stores/ueCommandQueueStore';
+import { describeUeError, sendDeviceSetting, type UeCommandResult } from '@/services/ueRemoteApi';
+import type { DeviceSettingKey } from '@/services/ueCommandRegistry';
+
+interface UseUeCommandQueueOptions {
+  deviceId: string;
+  /** Called with every send outcome, including background retries */
+  onResult?: (key: DeviceSettingKey, result: UeCommandResult) => void;
+  /** Inject for tests — defaults to real sendDeviceSetting */
+  sendSetting?: typeof sendDeviceSetting;
+}
+
+interface UseUeCommandQueueResult {
+  /** Unconfirmed settings of this device, by key (superseded values excluded) */
+  pending: Partial<Record<DeviceSettingKey, PendingUeSetting>>;
+  /** Queue an absolute setting and try to send it right away */
+  submit: <K extends DeviceSettingKey>(key: K, value: UeDeviceSettings[K]) => void;
+}
+
+/**
+ * Delivers absolute device settings (level, logo, interruption, …) to UE
+ * through `useUeCommandQueueStore`, so a change made while UE is down isn't lost.
+ *
+ * `submit` queues the value and flushes at once. A failed send stays queued and
+ * is retried with exponential backoff (1s → 2s → … → 30s) while UE is reachable;
+ * retries pause while the health probe reports UE offline and fire immediately
+ * when it comes back. Before each send the entry is checked against the device's
+ * current settings — a value superseded by a reset, preset or show step is
+ * dropped instead of sent.
+ *
+ * Only the active device's entries are flushed: UE shows one device at a time.
+ */
+export function useUeCommandQueue({
+  deviceId,
+  onResult,
+  sendSetting = sendDeviceSetting,
+}: UseUeCommandQueueOptions): UseUeCommandQueueResult {
+  const pendingSelector = useMemo(
+    () => (s: { pending: Record<string, Partial<Record<DeviceSettingKey, PendingUeSetting>>> }) =>
+      s.pending[deviceId],
+    [deviceId],
+  );
+  const settingsSelector = useMemo(
+    () => (s: { deviceSettings: Record<string, UeDeviceSettings> }) =>
+      s.deviceSettings[deviceId] ?? DEFAULT_DEVICE_SETTINGS,
+    [deviceId],
+  );
+  const storedPending = useUeCommandQueueStore(pendingSelector);
+  const settings = useUeControlStore(settingsSelector);
+  const pending = useMemo(() => {
+    const current: Partial<Record<DeviceSettingKey, PendingUeSetting>> = {};
+    for (const entry of Object.values(storedPending ?? {})) {
+      if (settings[entry.key] === entry.value) current[entry.key] = entry;
+    }
+    return current;
+  }, [storedPending, settings]);
+  const ueReachable = useUeControlStore((s) => s.ueReachable);
+
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+  const sendSettingRef = useRef(sendSetting);
+  sendSettingRef.current = sendSetting;
+
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  /** Bumped on device switch / unmount — a flush of an older generation stops */
+  const genRef = useRef(0);
+  /** Generation of the flush in progress (null = idle) */
+  const flushingGenRef = useRef<number | null>(null);
+  /** Set when a flush was requested while one was running */
+  const rerunRef = useRef(false);
+
+  const clearTimer = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+  }, []);
+
+  const flush = useCallback(async (): Promise<void> => {
+    const gen = genRef.current;
+    if (flushingGenRef.current === gen) {
+      rerunRef.current = true;
+      return;
+    }
+    flushingGenRef.current = gen;
+    rerunRef.current = false;
+    clearTimer();
+
+    try {
+      do {
+        rerunRef.current = false;
+        const attempted = new Set<DeviceSettingKey>();
+
+        while (genRef.current === gen) {
+          const { getUeApiUrl, ueReachable: reachable, getDeviceSettings } = useUeControlStore.getState();
+          const ueApiUrl = getUeApiUrl(deviceId);
+          if (!ueApiUrl || reachable === false) break;
+
+          const queue = useUeCommandQueueStore.getState();
+          const now = Date.now();
+          const due = Object.values(queue.getPending(deviceId)).find(
+            (entry) => entry.nextAttemptAt <= now && !attempted.has(entry.key),
+          );
+          if (!due) break;
+          attempted.add(due.key);
+
+          // Superseded by a reset / preset / show step — the queued value is no longer wanted
+          if (getDeviceSettings(deviceId)[due.key] !== due.value) {
+            queue.confirm(deviceId, due.key, due.value);
+            continue;
+          }
+
+          const result = await sendSettingRef.current(ueApiUrl, due.key, due.value);
+          onResultRef.current?.(due.key, result);
+          if (result.ok) {
+            useUeCommandQueueStore.getState().confirm(deviceId, due.key, due.value);
+          } else {
+            useUeCommandQueueStore.getState().markFailed(deviceId, due.key, due.value, describeUeError(result));
+          }
+        }
+      } while (rerunRef.current && genRef.current === gen);
+    } finally {
+      if (flushingGenRef.current === gen) flushingGenRef.current = null;
+    }
+
+    // Schedule the next retry
+    const { getUeApiUrl, ueReachable: reachable } = useUeControlStore.getState();
+    const ueApiUrl = getUeApiUrl(deviceId);
+    const entries = Object.values(useUeCommandQueueStore.getState().getPending(deviceId));
+    if (genRef.current !== gen || !ueApiUrl || reachable === false || entries.length === 0) return;
+
+    const nextAt = Math.min(...entries.map((e) => e.nextAttemptAt));
+    timerRef.current = setTimeout(() => void flush(), Math.max(0, nextAt - Date.now()));
+  }, [deviceId, clearTimer]);
+
+  const submit = useCallback(
+    <K extends DeviceSettingKey>(key: K, value: UeDeviceSettings[K]) => {
+      useUeCommandQueueStore.getState().enqueue(deviceId, key, value);
+      void flush();
+    },
+    [deviceId, flush],
+  );
+
+  // Flush on mount / device switch, and right away (no backoff) when UE comes back
+  useEffect(() => {
+    if (ueReachable === false) {
+      clearTimer();
+      return;
+    }
+    if (ueReachable) useUeCommandQueueStore.getState().retryNow(deviceId);
+    void flush();
+  }, [deviceId, ueReachable, flush, clearTimer]);
+
+  useEffect(
+    () => () => {
+      genRef.current++;
+      clearTimer();
+    },
+    [deviceId, clearTimer],
+  );
+
+  return { pending, submit };
+}
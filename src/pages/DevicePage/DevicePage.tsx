@@ -5,6 +5,7 @@ import { useResolvedUrl, isStreamingDevice } from '@/stores/settingsStore';
 import { useStreamingStore } from '@/stores/streamingStore';
 import { DevicePreview } from '@/components/DevicePreview/DevicePreview';
 import { UeControlPanel } from '@/components/UeControlPanel/UeControlPanel';
+import { UeCommandInspector } from '@/components/UeCommandInspector/UeCommandInspector';
 import styles from './DevicePage.module.css';
 
 const EXIT_TRANSITION_MS = 220;
@@ -17,7 +18,8 @@ type TransitionPhase = 'idle' | 'exiting' | 'entering';
  *
  * Responsibilities:
  *   1. Resolves the device template from URL params (phone/laptop/kiosk/holobox/keba-kiosk).
- *   2. For streaming devices — shows/hides the persistent PS iframe and renders UeControlPanel.
+ *   2. For streaming devices — shows/hides the persistent PS iframe and renders UeControlPanel
+ *      plus the collapsible UE command inspector.
  *   3. On device switch — runs a crossfade transition (exit → swap → enter).
  *   4. For non-streaming devices — renders an `<iframe>` with the widget URL inside DevicePreview.
  */
@@ -130,6 +132,7 @@ export function DevicePage() {
           isStreaming={isStreaming}
         />
         {isStreaming && <UeControlPanel deviceId={displayedDeviceId} />}
+        {isStreaming && <UeCommandInspector />}
       </div>
     </div>
   );
@@ -2,7 +2,7 @@ import { useState, useCallback, useEffect, useRef } from 'react';
 import { devices, preloadDeviceFrameImages } from '@/config/devices';
 import { warmDetectScreenRect } from '@/hooks/useDetectScreenRect';
 import { useDebouncedUrlSave } from '@/hooks/useDebouncedUrlSave';
-import { useSettingsStore } from '@/stores/settingsStore';
+import { useSettingsStore, STREAMING_DEVICE_IDS } from '@/stores/settingsStore';
 import type { VoiceAgent } from '@/stores/settingsStore';
 import { isValidUrl } from '@/utils/isValidUrl';
 import {
@@ -19,9 +19,38 @@ import {
   startProcess,
   stopProcess,
   getProcessStatus,
+  getFaceCaptureState,
+  sendFaceCapture,
+  getProcessLogs,
+  getRestartPolicies,
+  setRestartPolicy,
+  getStartupProfiles,
+  getStackStatus,
+  startStack,
+  stopStack,
+  DEFAULT_RESTART_POLICY,
+  RESTART_POLICY_NAMES,
+  type ProcessLogEntry,
+  type ProcessStatusEntry,
+  type RestartPolicy,
+  type RestartPolicyName,
+  type StackRun,
+  type StackStepPhase,
+  type StartupProfileSummary,
 } from '@/services/voiceAgentWriter';
-import { setFaceCapture } from '@/services/ueRemoteApi';
-import { useUeControlStore } from '@/stores/ueControlStore';
+import { useProcessLogs } from '@/hooks/useProcessLogs';
+import { useUeControlStore, ueConfigDeviceIds, type UeConfig, type UeLevelSource } from '@/stores/ueControlStore';
+import { useUeHistoryStore } from '@/stores/ueHistoryStore';
+import { useLevelCatalog } from '@/hooks/useLevelCatalog';
+import { LEVEL_SOURCE_LABELS } from '@/services/ueLevelCatalog';
+import {
+  diffUeConfig,
+  exportUeConfig,
+  parseUeConfig,
+  ueConfigFileName,
+  type UeConfigChange,
+} from '@/services/ueConfigTransfer';
+import { DEVICE_SETTING_FIELDS } from '@/components/UeControlPanel/deviceSettingFields';
 import styles from './OverviewPage.module.css';
 
 const IS_WINDOWS =
@@ -30,7 +59,12 @@ const IS_WINDOWS =
     (navigator as { userAgentData?: { platform?: string } }).userAgentData?.platform ===
       'Windows');
 
-const LAUNCH_COOLDOWN_MS = 2_000;
+/** Process status refresh — picks up crashes and supervisor restarts */
+const PROCESS_STATUS_POLL_MS = 5_000;
+/** Faster refresh while a start waits for its process to get ready */
+const STARTUP_POLL_MS = 1_000;
+/** Stack progress refresh while a start / stop runs */
+const STACK_POLL_MS = 1_000;
 
 interface DeviceField {
   id: 'phone' | 'laptop';
@@ -43,6 +77,571 @@ const WIDGET_DEVICES: DeviceField[] = [
   { id: 'laptop', label: 'Laptop', placeholder: 'https://widget.example.com/laptop' },
 ];
 
+const UE_URL_PLACEHOLDER = 'http://127.0.0.1:8081';
+
+interface UeEndpointFieldProps {
+  id: string;
+  label: string;
+  storeValue: string;
+  saveFn: (url: string) => void;
+  placeholder: string;
+}
+
+/** One debounced UE API URL input (default endpoint or a device override). */
+function UeEndpointField({ id, label, storeValue, saveFn, placeholder }: UeEndpointFieldProps) {
+  const urlHook = useDebouncedUrlSave({ storeValue, saveFn });
+  const hasUrl = urlHook.input.trim().length > 0;
+  const urlValid = !hasUrl || isValidUrl(urlHook.input);
+
+  return (
+    <div className={styles.field}>
+      <div className={styles.fieldHeader}>
+        <label className={styles.label} htmlFor={id}>
+          {label}
+        </label>
+        {hasUrl && (
+          <span className={`${styles.badge} ${urlValid ? styles.badgeValid : styles.badgeInvalid}`}>
+            {urlValid ? '✓ Valid' : '✗ Invalid URL'}
+          </span>
+        )}
+      </div>
+      <input
+        id={id}
+        className={`${styles.input} ${hasUrl && !urlValid ? styles.inputError : ''} ${urlHook.isSaving ? styles.inputSaving : ''}`}
+        type="url"
+        placeholder={placeholder}
+        value={urlHook.input}
+        onChange={(e) => urlHook.setInput(e.target.value)}
+        spellCheck={false}
+        autoComplete="url"
+      />
+    </div>
+  );
+}
+
+/**
+ * Engine groups for broadcast (e.g. a booth of identical holoboxes).
+ * Endpoints are entered comma- or space-separated; saving an existing name
+ * replaces that group.
+ */
+function UeEngineGroups() {
+  const groups = useUeControlStore((s) => s.deviceGroups);
+  const saveDeviceGroup = useUeControlStore((s) => s.saveDeviceGroup);
+  const deleteDeviceGroup = useUeControlStore((s) => s.deleteDeviceGroup);
+  const [name, setName] = useState('');
+  const [endpointsInput, setEndpointsInput] = useState('');
+
+  const endpoints = endpointsInput.split(/[\s,]+/).filter(Boolean);
+  const invalid = endpoints.filter((url) => !isValidUrl(url));
+  const canSave = name.trim().length > 0 && endpoints.length > 0 && invalid.length === 0;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    if (saveDeviceGroup(name, endpoints)) {
+      setName('');
+      setEndpointsInput('');
+    }
+  };
+
+  return (
+    <div className={styles.field}>
+      <div className={styles.fieldHeader}>
+        <span className={styles.label}>Engine groups</span>
+      </div>
+
+      {groups.map((group) => (
+        <div key={group.id} className={styles.filePathRow}>
+          <input
+            className={styles.input}
+            type="text"
+            value={`${group.name}: ${group.endpoints.join(', ')}`}
+            readOnly
+            aria-label={`Engine group ${group.name}`}
+          />
+          <button
+            type="button"
+            className={styles.stopButton}
+            onClick={() => deleteDeviceGroup(group.id)}
+          >
+            Delete
+          </button>
+        </div>
+      ))}
+
+      <div className={styles.filePathRow}>
+        <input
+          className={styles.input}
+          type="text"
+          placeholder="Group name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          spellCheck={false}
+          autoComplete="off"
+          aria-label="Engine group name"
+        />
+        <input
+          className={`${styles.input} ${invalid.length ? styles.inputError : ''}`}
+          type="text"
+          placeholder="http://10.0.0.11:8081, http://10.0.0.12:8081"
+          value={endpointsInput}
+          onChange={(e) => setEndpointsInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSave();
+          }}
+          spellCheck={false}
+          autoComplete="off"
+          aria-label="Engine group endpoints"
+        />
+        <button type="button" className={styles.filePathAction} onClick={handleSave} disabled={!canSave}>
+          Save
+        </button>
+      </div>
+      {invalid.length > 0 && (
+        <span className={styles.filePathValidationError}>Invalid URL: {invalid.join(', ')}</span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Where the scene selector's levels come from, what the cached list holds,
+ * and a manual refresh (e.g. after the content team shipped new levels).
+ * The `ue` source asks the default endpoint.
+ */
+function UeLevelCatalogField() {
+  const setLevelSource = useUeControlStore((s) => s.setLevelSource);
+  const { catalog, source, loading, error, refresh } = useLevelCatalog(null);
+
+  return (
+    <div className={styles.field}>
+      <div className={styles.fieldHeader}>
+        <label className={styles.label} htmlFor="ue-level-source">
+          Level list
+        </label>
+      </div>
+      <div className={styles.filePathRow}>
+        <select
+          id="ue-level-source"
+          className={styles.select}
+          value={source}
+          onChange={(e) => setLevelSource(e.target.value as UeLevelSource)}
+        >
+          {(Object.keys(LEVEL_SOURCE_LABELS) as UeLevelSource[]).map((s) => (
+            <option key={s} value={s}>
+              {LEVEL_SOURCE_LABELS[s]}
+            </option>
+          ))}
+        </select>
+        <button type="button" className={styles.filePathAction} onClick={() => void refresh()} disabled={loading}>
+          {loading ? 'Loading…' : 'Refresh'}
+        </button>
+      </div>
+      <span className={styles.fieldNote}>
+        {catalog.levels.length} levels from {LEVEL_SOURCE_LABELS[catalog.source]}
+        {catalog.fetchedAt > 0 && ` · updated ${new Date(catalog.fetchedAt).toLocaleTimeString()}`}
+      </span>
+      {error && (
+        <span className={styles.filePathValidationError}>
+          {error} — using the {catalog.source === source ? 'cached' : 'built-in'} list
+        </span>
+      )}
+    </div>
+  );
+}
+
+function configChangeLabel({ deviceId, field }: UeConfigChange): string {
+  const device = deviceId === null ? 'Default' : (devices.find((d) => d.id === deviceId)?.name ?? deviceId);
+  const name =
+    field === 'ueApiUrl' ? 'UE API URL' : field === 'cameraPresets' ? 'Camera presets' : DEVICE_SETTING_FIELDS[field].label;
+  return `${device} · ${name}`;
+}
+
+function formatConfigValue(value: unknown): string {
+  if (Array.isArray(value)) return value.length ? value.join(', ') : '(none)';
+  if (typeof value === 'boolean') return value ? 'on' : 'off';
+  return value === '' ? '(none)' : String(value);
+}
+
+/**
+ * Export the UE setup (URLs, per-device settings, camera presets) as JSON and
+ * import one with a preview of every field it would change. Nothing is taken
+ * over until "Apply"; devices the file doesn't mention keep their settings.
+ */
+function UeConfigTransfer() {
+  const importUeConfig = useUeControlStore((s) => s.importUeConfig);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<{ config: UeConfig; changes: UeConfigChange[]; version: number } | null>(
+    null,
+  );
+  const [errors, setErrors] = useState<string[]>([]);
+  const [note, setNote] = useState<string | null>(null);
+
+  const handleExport = () => {
+    const doc = exportUeConfig(useUeControlStore.getState());
+    const href = URL.createObjectURL(new Blob([JSON.stringify(doc, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = href;
+    link.download = ueConfigFileName();
+    link.click();
+    URL.revokeObjectURL(href);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setPending(null);
+    setNote(null);
+    const state = useUeControlStore.getState();
+    const { config, version, errors: parseErrors } = parseUeConfig(await file.text(), state.levelCatalog);
+    setErrors(parseErrors);
+    if (!config || version === null) return;
+    const changes = diffUeConfig(state, config);
+    if (changes.length === 0) setNote(`${file.name} matches the current configuration`);
+    else setPending({ config, changes, version });
+  };
+
+  const handleApply = () => {
+    if (!pending) return;
+    importUeConfig(pending.config);
+    // Undo would otherwise bring back (and re-send) settings from before the import
+    useUeHistoryStore.getState().clear(ueConfigDeviceIds(pending.config));
+    setNote(`Imported ${pending.changes.length} change${pending.changes.length === 1 ? '' : 's'}`);
+    setPending(null);
+  };
+
+  return (
+    <div className={styles.field}>
+      <div className={styles.fieldHeader}>
+        <span className={styles.label}>Configuration</span>
+      </div>
+      <div className={styles.filePathRow}>
+        <button type="button" className={styles.filePathAction} onClick={handleExport}>
+          Export
+        </button>
+        <button type="button" className={styles.filePathAction} onClick={() => fileInputRef.current?.click()}>
+          Import…
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          hidden
+          onChange={(e) => {
+            void handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {errors.map((error) => (
+        <span key={error} className={styles.filePathValidationError}>
+          {error}
+        </span>
+      ))}
+      {note && <span className={styles.fieldNote}>{note}</span>}
+
+      {pending && (
+        <>
+          <span className={styles.fieldNote}>
+            {pending.changes.length} change{pending.changes.length === 1 ? '' : 's'} (exported as v{pending.version}):
+          </span>
+          <ul className={styles.configDiff} aria-label="Import preview">
+            {pending.changes.map((change) => (
+              <li key={`${change.deviceId ?? ''}.${change.field}`} className={styles.configDiffItem}>
+                <span>{configChangeLabel(change)}</span>
+                <span className={styles.configDiffValues}>
+                  {formatConfigValue(change.from)} → {formatConfigValue(change.to)}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <div className={styles.filePathRow}>
+            <button type="button" className={styles.startButton} onClick={handleApply}>
+              Apply
+            </button>
+            <button type="button" className={styles.filePathAction} onClick={() => setPending(null)}>
+              Cancel
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function formatLogLine({ at, stream, line }: ProcessLogEntry): string {
+  return `${at} [${stream}] ${line}`;
+}
+
+/** Scrolled this close to the end still counts as following */
+const LOG_FOLLOW_SLACK_PX = 8;
+
+/**
+ * Output of one kiosk process: stored lines, then live. Follow keeps the view
+ * at the newest line (scrolling up turns it off); search filters lines;
+ * download saves everything the backend kept, not only the matches.
+ */
+function ProcessLogViewer({ processId, label }: { processId: ShortcutId; label: string }) {
+  const { entries, connected } = useProcessLogs(processId, true);
+  const [follow, setFollow] = useState(true);
+  const [query, setQuery] = useState('');
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const linesRef = useRef<HTMLDivElement>(null);
+
+  const needle = query.trim().toLowerCase();
+  const shown = needle ? entries.filter((e) => e.line.toLowerCase().includes(needle)) : entries;
+
+  useEffect(() => {
+    const el = linesRef.current;
+    if (follow && el) el.scrollTop = el.scrollHeight;
+  }, [shown, follow]);
+
+  const handleScroll = () => {
+    const el = linesRef.current;
+    if (!el) return;
+    const atEnd = el.scrollHeight - el.scrollTop - el.clientHeight <= LOG_FOLLOW_SLACK_PX;
+    if (follow !== atEnd) setFollow(atEnd);
+  };
+
+  const handleDownload = async () => {
+    setDownloadError(null);
+    try {
+      const { entries: all } = await getProcessLogs(processId);
+      const text = all.map(formatLogLine).join('\n');
+      const href = URL.createObjectURL(new Blob([`${text}\n`], { type: 'text/plain' }));
+      const link = document.createElement('a');
+      link.href = href;
+      link.download = `${processId}-${new Date().toISOString().replace(/[:.]/g, '-')}.log`;
+      link.click();
+      URL.revokeObjectURL(href);
+    } catch (error) {
+      setDownloadError(error instanceof Error ? error.message : 'Download failed');
+    }
+  };
+
+  return (
+    <div className={styles.processLog}>
+      <div className={styles.filePathRow}>
+        <input
+          className={styles.input}
+          type="search"
+          placeholder="Search output"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          aria-label={`Search ${label} output`}
+          spellCheck={false}
+        />
+        <label className={styles.processLogFollow}>
+          <input type="checkbox" checked={follow} onChange={(e) => setFollow(e.target.checked)} /> Follow
+        </label>
+        <button type="button" className={styles.filePathAction} onClick={() => void handleDownload()}>
+          Download
+        </button>
+      </div>
+      <div
+        ref={linesRef}
+        className={styles.processLogLines}
+        onScroll={handleScroll}
+        role="log"
+        aria-label={`${label} output`}
+      >
+        {shown.map((entry) => (
+          <div
+            key={entry.seq}
+            className={
+              entry.stream === 'stderr'
+                ? styles.processLogStderr
+                : entry.stream === 'system'
+                  ? styles.processLogSystem
+                  : undefined
+            }
+            title={entry.at}
+          >
+            {entry.line || '\u00a0'}
+          </div>
+        ))}
+      </div>
+      <span className={styles.fieldNote}>
+        {!connected
+          ? 'Not connected to the backend'
+          : needle
+            ? `${shown.length} of ${entries.length} lines match`
+            : `${entries.length} line${entries.length === 1 ? '' : 's'}`}
+      </span>
+      {downloadError && <span className={styles.filePathValidationError}>{downloadError}</span>}
+    </div>
+  );
+}
+
+const RESTART_POLICY_LABELS: Record<RestartPolicyName, string> = {
+  never: "Don't restart",
+  'on-failure': 'Restart on failure',
+  always: 'Always restart',
+};
+
+/** Badge for a supervised process that is down (null while running or never started) */
+function supervisorBadge(status: ProcessStatusEntry | undefined): { label: string; error: boolean } | null {
+  if (!status?.supervisor || status.running) return null;
+  switch (status.supervisor.state) {
+    case 'backoff':
+    case 'restarting':
+      return { label: 'Restarting...', error: false };
+    case 'crash-loop':
+      return { label: 'Crash loop', error: true };
+    case 'gave-up':
+      return { label: 'Gave up', error: true };
+    case 'exited':
+      return { label: 'Exited', error: status.supervisor.lastExitCode !== 0 };
+    default:
+      return null;
+  }
+}
+
+/** Badge text while a start is pending: what its readiness check waits for, if it has one */
+function startupLabel(status: ProcessStatusEntry | undefined): string {
+  const startup = status?.startup;
+  return startup?.phase === 'waiting' && startup.waitingFor ? `Waiting for ${startup.waitingFor}...` : 'Starting...';
+}
+
+/** "Restarted 2× · last exit code 1" — empty until something happened */
+function supervisorNote(status: ProcessStatusEntry | undefined): string {
+  const supervision = status?.supervisor;
+  if (!supervision) return '';
+  const parts: string[] = [];
+  if (supervision.restarts > 0) parts.push(`Restarted ${supervision.restarts}×`);
+  if (supervision.state === 'backoff' && supervision.nextRestartAt !== null) {
+    parts.push(`next try in ${Math.max(0, Math.ceil((supervision.nextRestartAt - Date.now()) / 1000))}s`);
+  }
+  if (supervision.lastExitCode !== null) parts.push(`last exit code ${supervision.lastExitCode}`);
+  return parts.join(' · ');
+}
+
+const STACK_PHASE_LABELS: Record<StackStepPhase, string> = {
+  pending: 'Queued',
+  starting: 'Starting...',
+  waiting: 'Waiting until ready...',
+  ready: 'Ready',
+  failed: 'Failed',
+  skipped: 'Skipped',
+  stopping: 'Stopping...',
+  stopped: 'Stopped',
+};
+
+function processLabel(processId: string): string {
+  return KIOSK_SHORTCUTS.find((s) => s.id === processId)?.label ?? processId;
+}
+
+/**
+ * "Start stack" / "Stop stack" for a backend startup profile: the kiosk
+ * processes in dependency order, each started once what it depends on is
+ * ready. Uses the shortcut paths below; progress is polled while a run lasts.
+ */
+function StackControls() {
+  const [profiles, setProfiles] = useState<StartupProfileSummary[]>([]);
+  const [profileName, setProfileName] = useState('');
+  const [run, setRun] = useState<StackRun | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const busy = run?.state === 'running';
+
+  useEffect(() => {
+    let cancelled = false;
+    void (async () => {
+      try {
+        const [list, status] = await Promise.all([getStartupProfiles(), getStackStatus()]);
+        if (cancelled) return;
+        setProfiles(list);
+        setProfileName(status?.profile ?? list[0]?.name ?? '');
+        setRun(status);
+      } catch {
+        // ignore — backend down, no stack controls
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (!busy) return;
+    const interval = setInterval(() => {
+      getStackStatus()
+        .then(setRun)
+        .catch(() => {
+          // keep the last progress until the backend answers again
+        });
+    }, STACK_POLL_MS);
+    return () => clearInterval(interval);
+  }, [busy]);
+
+  const handleAction = async (action: 'start' | 'stop') => {
+    setError(null);
+    try {
+      const result =
+        action === 'start'
+          ? await startStack(profileName, useKiosksStore.getState().paths)
+          : await stopStack(profileName);
+      if (!result.ok) setError(result.error ?? `Failed to ${action} stack`);
+      else setRun(result.run ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  if (profiles.length === 0) return null;
+  const shownRun = run?.profile === profileName ? run : null;
+
+  return (
+    <div className={styles.field}>
+      <div className={styles.fieldHeader}>
+        <label className={styles.label} htmlFor="stack-profile">
+          Stack
+        </label>
+        {shownRun?.state === 'running' && (
+          <span className={`${styles.badge} ${styles.badgeValid}`}>
+            {shownRun.action === 'start' ? 'Starting...' : 'Stopping...'}
+          </span>
+        )}
+        {shownRun?.state === 'failed' && <span className={`${styles.badge} ${styles.badgeInvalid}`}>Failed</span>}
+        {shownRun?.state === 'done' && shownRun.action === 'start' && (
+          <span className={`${styles.badge} ${styles.badgeRunning}`}>Ready</span>
+        )}
+      </div>
+      <div className={styles.filePathRow}>
+        <select
+          id="stack-profile"
+          className={styles.select}
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          disabled={busy}
+        >
+          {profiles.map((profile) => (
+            <option key={profile.name} value={profile.name}>
+              {profile.label} ({profile.processIds.map(processLabel).join(', ')})
+            </option>
+          ))}
+        </select>
+        <button type="button" className={styles.startButton} onClick={() => void handleAction('start')} disabled={busy}>
+          Start stack
+        </button>
+        <button type="button" className={styles.stopButton} onClick={() => void handleAction('stop')} disabled={busy}>
+          Stop stack
+        </button>
+      </div>
+      {error && <span className={styles.filePathValidationError}>{error}</span>}
+      {shownRun && shownRun.steps.length > 0 && (
+        <ol className={styles.stackSteps} aria-label="Stack progress">
+          {shownRun.steps.map((step) => (
+            <li key={step.processId} className={styles.stackStep}>
+              <span>{processLabel(step.processId)}</span>
+              <span className={`${styles.stackStepPhase} ${step.phase === 'failed' ? styles.stackStepFailed : ''}`}>
+                {STACK_PHASE_LABELS[step.phase]}
+                {step.error && ` — ${step.error}`}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
 // ── Component ────────────────────────────────────────────────────────────────
 
 export function OverviewPage() {
@@ -68,6 +667,12 @@ export function OverviewPage() {
     return v.trim().length > 0 && isValidUrl(v);
   });
 
+  // ── Unreal Engine endpoints ─────────────────────────────────────────────
+  const ueApiUrl = useUeControlStore((s) => s.ueApiUrl);
+  const deviceUeApiUrls = useUeControlStore((s) => s.deviceUeApiUrls);
+  const setUeApiUrl = useUeControlStore((s) => s.setUeApiUrl);
+  const setDeviceUeApiUrl = useUeControlStore((s) => s.setDeviceUeApiUrl);
+
   // ── Process (kiosks store) ──────────────────────────────────────────────
   const paths = useKiosksStore((s) => s.paths);
   const setPath = useKiosksStore((s) => s.setPath);
@@ -86,6 +691,8 @@ export function OverviewPage() {
   const [applying, setApplying] = useState(false);
   const [applyError, setApplyError] = useState<string | null>(null);
   const [faceCaptureError, setFaceCaptureError] = useState<string | null>(null);
+  /** Face capture state confirmed by the backend (null = unknown) */
+  const [faceCaptureActive, setFaceCaptureActive] = useState<boolean | null>(null);
 
   // Sync local state with store on external changes (e.g. persist rehydration)
   useEffect(() => { setLicenseInput(licenseFilePath); }, [licenseFilePath]);
@@ -417,11 +1024,7 @@ export function OverviewPage() {
         }
         if (startResult.pid) console.log(`[${kioskId}] started, PID: ${startResult.pid}`);
         setRunning((prev) => ({ ...prev, [kioskId]: true }));
-
-        if (launchTimers.current[kioskId]) clearTimeout(launchTimers.current[kioskId]);
-        launchTimers.current[kioskId] = setTimeout(() => {
-          setLaunching((prev) => ({ ...prev, [kioskId]: false }));
-        }, LAUNCH_COOLDOWN_MS);
+        setLaunching((prev) => ({ ...prev, [kioskId]: false }));
       }
     } catch (err) {
       setApplyError(err instanceof Error ? err.message : String(err));
@@ -436,18 +1039,14 @@ export function OverviewPage() {
   const [browsing, setBrowsing] = useState<ShortcutId | null>(null);
   const [starting, setStarting] = useState<ShortcutId | null>(null);
   const [stopping, setStopping] = useState<ShortcutId | null>(null);
+  const [logsOpen, setLogsOpen] = useState<ShortcutId | null>(null);
   const [errors, setErrors] = useState<Partial<Record<ShortcutId, string>>>({});
   const [running, setRunning] = useState<Partial<Record<ShortcutId, boolean>>>({});
+  const [processStatus, setProcessStatus] = useState<Partial<Record<ShortcutId, ProcessStatusEntry>>>({});
+  const [restartPolicies, setRestartPolicies] = useState<Partial<Record<string, RestartPolicy>>>({});
+  // Pending start requests — the backend answers once the process is ready
   const [launching, setLaunching] = useState<Partial<Record<ShortcutId, boolean>>>({});
-  const launchTimers = useRef<Partial<Record<ShortcutId, ReturnType<typeof setTimeout>>>>({});
-
-  // Cleanup launch timers on unmount
-  useEffect(() => {
-    const timers = launchTimers.current;
-    return () => {
-      Object.values(timers).forEach((t) => { if (t) clearTimeout(t); });
-    };
-  }, []);
+  const anyLaunching = Object.values(launching).some(Boolean);
 
   const clearError = useCallback((id: ShortcutId) => {
     setErrors((prev) => {
@@ -458,25 +1057,61 @@ export function OverviewPage() {
     });
   }, []);
 
-  // Fetch process status once on mount
+  // Poll process status — processes crash, and the backend supervisor restarts them.
+  // Every second while a start is pending, to show what it waits for.
   useEffect(() => {
     let cancelled = false;
-    void (async () => {
+    const poll = async () => {
       try {
         const status = await getProcessStatus();
         if (cancelled) return;
         const next: Partial<Record<ShortcutId, boolean>> = {};
+        const nextStatus: Partial<Record<ShortcutId, ProcessStatusEntry>> = {};
         for (const s of KIOSK_SHORTCUTS) {
           next[s.id] = status.processes[s.id]?.running === true;
+          nextStatus[s.id] = status.processes[s.id];
         }
         setRunning(next);
+        setProcessStatus(nextStatus);
       } catch {
         // ignore
       }
-    })();
+    };
+    void poll();
+    const interval = setInterval(() => void poll(), anyLaunching ? STARTUP_POLL_MS : PROCESS_STATUS_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [anyLaunching]);
+
+  // Restart policies live in the backend config
+  useEffect(() => {
+    let cancelled = false;
+    getRestartPolicies()
+      .then((policies) => {
+        if (!cancelled) setRestartPolicies(policies);
+      })
+      .catch(() => {
+        // ignore — backend down, shown as the default policy
+      });
     return () => { cancelled = true; };
   }, []);
 
+  const handleRestartPolicy = useCallback(async (id: ShortcutId, policy: RestartPolicy) => {
+    setRestartPolicies((prev) => ({ ...prev, [id]: policy }));
+    clearError(id);
+    try {
+      const result = await setRestartPolicy(id, policy);
+      if (!result.ok) setErrors((prev) => ({ ...prev, [id]: result.error ?? 'Failed to set restart policy' }));
+    } catch (err) {
+      setErrors((prev) => ({
+        ...prev,
+        [id]: err instanceof Error ? err.message : String(err),
+      }));
+    }
+  }, [clearError]);
+
   const handleBrowse = useCallback(async (id: ShortcutId) => {
     setBrowsing(id);
     clearError(id);
@@ -516,11 +1151,7 @@ export function OverviewPage() {
       } else {
         if (result.pid) console.log(`[${id}] started, PID: ${result.pid}`);
         setRunning((prev) => ({ ...prev, [id]: true }));
-        // Keep "Starting..." state for cooldown period
-        if (launchTimers.current[id]) clearTimeout(launchTimers.current[id]);
-        launchTimers.current[id] = setTimeout(() => {
-          setLaunching((prev) => ({ ...prev, [id]: false }));
-        }, LAUNCH_COOLDOWN_MS);
+        setLaunching((prev) => ({ ...prev, [id]: false }));
       }
     } catch (err) {
       setErrors((prev) => ({
@@ -578,10 +1209,7 @@ export function OverviewPage() {
       } else {
         if (result.pid) console.log(`[${id}] restarted, PID: ${result.pid}`);
         setRunning((prev) => ({ ...prev, [id]: true }));
-        if (launchTimers.current[id]) clearTimeout(launchTimers.current[id]);
-        launchTimers.current[id] = setTimeout(() => {
-          setLaunching((prev) => ({ ...prev, [id]: false }));
-        }, LAUNCH_COOLDOWN_MS);
+        setLaunching((prev) => ({ ...prev, [id]: false }));
       }
     } catch (err) {
       setErrors((prev) => ({
@@ -603,7 +1231,24 @@ export function OverviewPage() {
     });
   }, []);
 
-  // Send FaceCapture command to UE when assistant mode changes (dedup by ref)
+  // Read the confirmed face capture state once on mount (survives page reloads).
+  // Skipped if a send already confirmed a newer state.
+  const faceCaptureConfirmed = useRef(false);
+  useEffect(() => {
+    let cancelled = false;
+    void (async () => {
+      try {
+        const state = await getFaceCaptureState();
+        if (cancelled || faceCaptureConfirmed.current) return;
+        setFaceCaptureActive(state.enabled);
+      } catch {
+        // ignore — backend down, state stays unknown
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  // Send FaceCapture command via the backend when assistant mode changes (dedup by ref)
   const lastSentFaceCapture = useRef<boolean | null>(null);
   useEffect(() => {
     const enabled = assistantMode === 'human';
@@ -611,11 +1256,20 @@ export function OverviewPage() {
     lastSentFaceCapture.current = enabled;
 
     const url = useUeControlStore.getState().ueApiUrl;
-    if (url) {
-      setFaceCapture(url, enabled).then((ok) => {
-        if (!ok) console.warn('[FaceCapture] UE did not respond — command may not have been applied');
-      });
-    }
+    if (!url) return;
+
+    void sendFaceCapture(enabled, url).then((result) => {
+      if (lastSentFaceCapture.current !== enabled) return;
+      if (result.ok) {
+        faceCaptureConfirmed.current = true;
+        setFaceCaptureActive(result.state?.enabled ?? enabled);
+        setFaceCaptureError(null);
+      } else {
+        // Allow a retry on the next mode switch
+        lastSentFaceCapture.current = null;
+        setFaceCaptureError(result.error ?? 'Failed to send face capture command');
+      }
+    });
   }, [assistantMode]);
 
   // ── Render ────────────────────────────────────────────────────────────
@@ -625,6 +1279,8 @@ export function OverviewPage() {
       <section className={styles.settingsBlock}>
         <h2 className={styles.settingsBlockTitle}>Process</h2>
 
+        <StackControls />
+
         {KIOSK_SHORTCUTS.map((shortcut) => {
           const value = paths[shortcut.id];
           const error = errors[shortcut.id];
@@ -635,6 +1291,9 @@ export function OverviewPage() {
           const isStopping = stopping === shortcut.id;
           const hasPath = value.trim().length > 0;
           const isBusy = isStarting || isLaunching;
+          const policy = restartPolicies[shortcut.id] ?? DEFAULT_RESTART_POLICY;
+          const badge = isLaunching ? null : supervisorBadge(processStatus[shortcut.id]);
+          const note = supervisorNote(processStatus[shortcut.id]);
 
           return (
             <div key={shortcut.id} className={styles.field}>
@@ -643,11 +1302,18 @@ export function OverviewPage() {
                   {shortcut.label}
                 </label>
                 {isLaunching && (
-                  <span className={`${styles.badge} ${styles.badgeValid}`}>Starting...</span>
+                  <span className={`${styles.badge} ${styles.badgeValid}`}>
+                    {startupLabel(processStatus[shortcut.id])}
+                  </span>
                 )}
                 {isRunning && !isLaunching && (
                   <span className={`${styles.badge} ${styles.badgeRunning}`}>Running</span>
                 )}
+                {badge && (
+                  <span className={`${styles.badge} ${badge.error ? styles.badgeInvalid : styles.badgeValid}`}>
+                    {badge.label}
+                  </span>
+                )}
               </div>
               <div className={styles.filePathRow}>
                 <input
@@ -702,8 +1368,50 @@ export function OverviewPage() {
                     {isBusy ? 'Starting...' : 'Start'}
                   </button>
                 )}
+                <button
+                  type="button"
+                  className={styles.filePathAction}
+                  onClick={() => setLogsOpen((open) => (open === shortcut.id ? null : shortcut.id))}
+                  aria-expanded={logsOpen === shortcut.id}
+                >
+                  Logs
+                </button>
+              </div>
+              <div className={styles.filePathRow}>
+                <select
+                  className={styles.select}
+                  value={policy.policy}
+                  onChange={(e) =>
+                    void handleRestartPolicy(shortcut.id, { ...policy, policy: e.target.value as RestartPolicyName })
+                  }
+                  aria-label={`${shortcut.label} restart policy`}
+                >
+                  {RESTART_POLICY_NAMES.map((name) => (
+                    <option key={name} value={name}>
+                      {RESTART_POLICY_LABELS[name]}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  className={`${styles.input} ${styles.retriesInput}`}
+                  type="number"
+                  min={0}
+                  max={99}
+                  value={policy.maxRetries}
+                  onChange={(e) => {
+                    const maxRetries = Number(e.target.value);
+                    if (Number.isInteger(maxRetries) && maxRetries >= 0) {
+                      void handleRestartPolicy(shortcut.id, { ...policy, maxRetries });
+                    }
+                  }}
+                  disabled={policy.policy === 'never'}
+                  aria-label={`${shortcut.label} max restarts`}
+                  title="Max restarts since the last manual start"
+                />
               </div>
+              {note && <span className={styles.fieldNote}>{note}</span>}
               {error && <span className={styles.filePathValidationError}>{error}</span>}
+              {logsOpen === shortcut.id && <ProcessLogViewer processId={shortcut.id} label={shortcut.label} />}
             </div>
           );
         })}
@@ -860,6 +1568,13 @@ export function OverviewPage() {
                       <span className={styles.radioMark} />
                       <span>FaceCapture</span>
                     </label>
+                    {faceCaptureActive !== null && (
+                      <span
+                        className={`${styles.badge} ${faceCaptureActive ? styles.badgeRunning : styles.badgeInvalid}`}
+                      >
+                        {faceCaptureActive ? 'On' : 'Off'}
+                      </span>
+                    )}
                   </div>
                   <div
                     className={styles.operatorBadgeWrap}
@@ -946,6 +1661,36 @@ export function OverviewPage() {
           );
         })}
       </section>
+
+      {/* ── Unreal Engine: endpoints, per-device overrides, broadcast groups, level list, import/export ── */}
+      <section className={styles.settingsBlock}>
+        <h2 className={styles.settingsBlockTitle}>Unreal Engine</h2>
+
+        <UeEndpointField
+          id="ue-api-url"
+          label="UE API URL"
+          storeValue={ueApiUrl}
+          saveFn={setUeApiUrl}
+          placeholder={UE_URL_PLACEHOLDER}
+        />
+
+        {STREAMING_DEVICE_IDS.map((deviceId) => (
+          <UeEndpointField
+            key={deviceId}
+            id={`ue-api-url-${deviceId}`}
+            label={devices.find((d) => d.id === deviceId)?.name ?? deviceId}
+            storeValue={deviceUeApiUrls[deviceId] ?? ''}
+            saveFn={(url) => setDeviceUeApiUrl(deviceId, url)}
+            placeholder={ueApiUrl ? `Default (${ueApiUrl})` : 'Default'}
+          />
+        ))}
+
+        <UeEngineGroups />
+
+        <UeLevelCatalogField />
+
+        <UeConfigTransfer />
+      </section>
     </div>
   );
 }
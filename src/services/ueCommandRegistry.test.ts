@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  UE_COMMANDS,
+  MAX_CAMERA_DELTA,
+  buildUeCommandPayload,
+  buildCameraOffsetPayload,
+  clampCameraDelta,
+} from './ueCommandRegistry';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// buildUeCommandPayload
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('buildUeCommandPayload', () => {
+  it('stringifies params under their wire names', () => {
+    expect(buildUeCommandPayload('changeLevel', { Level: 'LVL_Master_Logo' })).toEqual({
+      ok: true,
+      payload: { command: 'ChangeLevel', Level: 'LVL_Master_Logo' },
+    });
+    expect(buildUeCommandPayload('setFaceCapture', { isFaceCapture: false })).toEqual({
+      ok: true,
+      payload: { command: 'FaceCapture', isFaceCapture: 'false' },
+    });
+    expect(buildUeCommandPayload('stopAnswer', {})).toEqual({
+      ok: true,
+      payload: { command: 'StopAnswer' },
+    });
+  });
+
+  it.each<[string, () => ReturnType<typeof buildUeCommandPayload>]>([
+    ['offset above range', () => buildUeCommandPayload('zoom', { offset: MAX_CAMERA_DELTA + 1 })],
+    ['non-finite offset', () => buildUeCommandPayload('cameraPitch', { angle: Number.NaN })],
+    ['malformed level id', () => buildUeCommandPayload('changeLevel', { Level: 'LVL Nope; drop' })],
+    ['blank avatar id', () => buildUeCommandPayload('changeAvatarById', { AvatarID: '  ' })],
+    ['string for a boolean', () => buildUeCommandPayload('setLogo', { showLogo: 'true' as never })],
+  ])('rejects %s', (_label, build) => {
+    const result = build();
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toMatch(/^\w+: /);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// camera offsets
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('buildCameraOffsetPayload', () => {
+  it('uses the axis command param name (angle for pitch)', () => {
+    expect(buildCameraOffsetPayload('cameraVertical', -15)).toEqual({
+      ok: true,
+      payload: { command: 'CameraVertical', offset: '-15' },
+    });
+    expect(buildCameraOffsetPayload('cameraPitch', 2.25)).toEqual({
+      ok: true,
+      payload: { command: 'cameraPitch', angle: '2.25' },
+    });
+  });
+
+  it('clampCameraDelta keeps deltas within the offset range', () => {
+    expect(clampCameraDelta(5000)).toBe(MAX_CAMERA_DELTA);
+    expect(clampCameraDelta(-5000)).toBe(-MAX_CAMERA_DELTA);
+    expect(clampCameraDelta(12)).toBe(12);
+    expect(buildCameraOffsetPayload('zoom', clampCameraDelta(5000)).ok).toBe(true);
+  });
+});
+
+describe('UE_COMMANDS', () => {
+  it('classifies every camera command as offset and the rest otherwise', () => {
+    const offsets = Object.entries(UE_COMMANDS)
+      .filter(([, spec]) => spec.kind === 'offset')
+      .map(([id]) => id);
+    expect(offsets).toEqual(['zoom', 'cameraVertical', 'cameraHorizontal', 'cameraPitch']);
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Declarative registry of UE Remote API commands.
+ *
+ * Single source of truth for each command's wire name, parameter names/types,
+ * allowed values and idempotency class. `ueRemoteApi.ts` wrappers,
+ * `SLIDER_COMMANDS` and `applyDeviceSettings` all build payloads from here,
+ * and every payload is validated before it reaches the network.
+ *
+ * Idempotency classes:
+ *   - **absolute** — sets a value; safe to re-send.
+ *   - **offset** — cumulative delta; NOT idempotent, must be computed from the
+ *     committed camera.
+ *   - **action** — fire-and-forget trigger with no stored state.
+ *   - **query** — reads state back, changes nothing.
+ */
+import { LEVEL_ID_PATTERN, type CameraPosition, type UeDeviceSettings } from '@/stores/ueControlStore';
+
+// ─── Schema types ────────────────────────────────────────────────────────────
+
+export type UeCommandKind = 'absolute' | 'offset' | 'action' | 'query';
+
+interface NumberParam {
+  name: string;
+  type: 'number';
+  min: number;
+  max: number;
+}
+
+interface BooleanParam {
+  name: string;
+  type: 'boolean';
+}
+
+interface StringParam {
+  name: string;
+  type: 'string';
+  /** Allowed values (omit for free text) */
+  values?: readonly string[];
+  /** Format the value must match */
+  pattern?: RegExp;
+}
+
+export type UeParamSpec = NumberParam | BooleanParam | StringParam;
+
+export interface UeCommandSpec {
+  /** Command name on the wire (`command` field) */
+  name: string;
+  kind: UeCommandKind;
+  params: readonly UeParamSpec[];
+}
+
+/** Wire payload: `command` plus stringified params. */
+export interface UeCommandPayload {
+  command: string;
+  [key: string]: string;
+}
+
+// ─── Registry ────────────────────────────────────────────────────────────────
+
+/** Maximum per-axis camera delta sent in one command.
+ *  Prevents UE crashes from oversized offsets (e.g. stale committed camera). */
+export const MAX_CAMERA_DELTA = 1000;
+
+const cameraOffset = (name: string) =>
+  ({ name, type: 'number', min: -MAX_CAMERA_DELTA, max: MAX_CAMERA_DELTA }) as const;
+
+export const UE_COMMANDS = {
+  // Offset commands — UE adds the value to its current camera state
+  zoom: { name: 'zoom', kind: 'offset', params: [cameraOffset('offset')] },
+  cameraVertical: { name: 'CameraVertical', kind: 'offset', params: [cameraOffset('offset')] },
+  cameraHorizontal: { name: 'CameraHorizontal', kind: 'offset', params: [cameraOffset('offset')] },
+  cameraPitch: { name: 'cameraPitch', kind: 'offset', params: [cameraOffset('angle')] },
+
+  // Absolute commands
+  changeLevel: {
+    name: 'ChangeLevel',
+    kind: 'absolute',
+    params: [{ name: 'Level', type: 'string', pattern: LEVEL_ID_PATTERN }],
+  },
+  setCustomBackground: {
+    name: 'SetCustomBackground',
+    kind: 'absolute',
+    params: [{ name: 'Path', type: 'string' }],
+  },
+  changeAvatarById: {
+    name: 'ChangeAvatarByID',
+    kind: 'absolute',
+    params: [{ name: 'AvatarID', type: 'string' }],
+  },
+  setLogo: { name: 'Logo', kind: 'absolute', params: [{ name: 'showLogo', type: 'boolean' }] },
+  setAllowAvatarChange: {
+    name: 'AllowAvatarChange',
+    kind: 'absolute',
+    params: [{ name: 'Allow', type: 'boolean' }],
+  },
+  setInterruption: { name: 'Interruption', kind: 'absolute', params: [{ name: 'Allow', type: 'boolean' }] },
+  setOutputAudioFormat: {
+    name: 'OutputAudioFormat',
+    kind: 'absolute',
+    params: [{ name: 'IsPcm', type: 'boolean' }],
+  },
+  setFaceCapture: {
+    name: 'FaceCapture',
+    kind: 'absolute',
+    params: [{ name: 'isFaceCapture', type: 'boolean' }],
+  },
+
+  // Action commands
+  lightUp: { name: 'LightUp', kind: 'action', params: [] },
+  lightDown: { name: 'LightDown', kind: 'action', params: [] },
+  changeLight: { name: 'ChangeLight', kind: 'action', params: [] },
+  stopAnswer: { name: 'StopAnswer', kind: 'action', params: [] },
+
+  // Queries
+  getCameraState: { name: 'GetCameraState', kind: 'query', params: [] },
+  getLevels: { name: 'GetLevels', kind: 'query', params: [] },
+} as const satisfies Record<string, UeCommandSpec>;
+
+export type UeCommandId = keyof typeof UE_COMMANDS;
+
+/** Camera axis → offset command that moves it */
+export const CAMERA_AXIS_COMMANDS = {
+  zoom: 'zoom',
+  cameraVertical: 'cameraVertical',
+  cameraHorizontal: 'cameraHorizontal',
+  cameraPitch: 'cameraPitch',
+} as const satisfies Record<keyof CameraPosition, UeCommandId>;
+
+/**
+ * Device setting → absolute command that applies it, in send order.
+ * Camera fields are absent — they're offsets, applied via camera transitions.
+ */
+export const DEVICE_SETTING_COMMANDS = {
+  level: 'changeLevel',
+  customBackground: 'setCustomBackground',
+  showLogo: 'setLogo',
+  allowAvatarChange: 'setAllowAvatarChange',
+  allowInterruption: 'setInterruption',
+  isPcm: 'setOutputAudioFormat',
+  avatarId: 'changeAvatarById',
+} as const satisfies Partial<Record<keyof UeDeviceSettings, UeCommandId>>;
+
+/** Device settings applied by an absolute command */
+export type DeviceSettingKey = keyof typeof DEVICE_SETTING_COMMANDS;
+
+// ─── Typed arguments ─────────────────────────────────────────────────────────
+
+type ParamValue<P> = P extends { type: 'number' }
+  ? number
+  : P extends { type: 'boolean' }
+    ? boolean
+    : P extends { values: readonly (infer V)[] }
+      ? V
+      : string;
+
+type ParamsOf<K extends UeCommandId> = (typeof UE_COMMANDS)[K]['params'][number];
+
+/** Argument object for a command, e.g. `{ offset: number }` for `zoom`. */
+export type UeCommandArgs<K extends UeCommandId> = {
+  [P in ParamsOf<K> as P['name']]: ParamValue<P>;
+};
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+export type UeBuildResult =
+  | { ok: true; payload: UeCommandPayload }
+  | { ok: false; error: string };
+
+function validateParam(spec: UeParamSpec, value: unknown): string | null {
+  switch (spec.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `${spec.name} must be a finite number`;
+      }
+      if (value < spec.min || value > spec.max) {
+        return `${spec.name} ${value} is outside [${spec.min}, ${spec.max}]`;
+      }
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${spec.name} must be a boolean`;
+    case 'string':
+      if (typeof value !== 'string' || !value.trim()) return `${spec.name} must be a non-empty string`;
+      if (spec.values && !spec.values.includes(value)) return `${spec.name} "${value}" is not allowed`;
+      if (spec.pattern && !spec.pattern.test(value)) return `${spec.name} "${value}" is not a valid value`;
+      return null;
+  }
+}
+
+/** Validate args against a spec and stringify them into a wire payload. */
+export function buildPayloadFromSpec(
+  spec: UeCommandSpec,
+  args: Record<string, unknown>,
+): UeBuildResult {
+  const payload: UeCommandPayload = { command: spec.name };
+
+  for (const param of spec.params) {
+    const error = validateParam(param, args[param.name]);
+    if (error) return { ok: false, error: `${spec.name}: ${error}` };
+    payload[param.name] = String(args[param.name]);
+  }
+
+  return { ok: true, payload };
+}
+
+/** Build a validated payload for a registered command. */
+export function buildUeCommandPayload<K extends UeCommandId>(
+  id: K,
+  args: UeCommandArgs<K>,
+): UeBuildResult {
+  return buildPayloadFromSpec(UE_COMMANDS[id], args as Record<string, unknown>);
+}
+
+/** Build the offset command for one camera axis (`zoom` → `{ offset }`, pitch → `{ angle }`). */
+export function buildCameraOffsetPayload(
+  axis: keyof CameraPosition,
+  delta: number,
+): UeBuildResult {
+  const spec: UeCommandSpec = UE_COMMANDS[CAMERA_AXIS_COMMANDS[axis]];
+  const [param] = spec.params;
+  return buildPayloadFromSpec(spec, param ? { [param.name]: delta } : {});
+}
+
+/** Build the absolute command that applies one device setting. */
+export function buildDeviceSettingPayload<K extends DeviceSettingKey>(
+  key: K,
+  value: UeDeviceSettings[K],
+): UeBuildResult {
+  const spec: UeCommandSpec = UE_COMMANDS[DEVICE_SETTING_COMMANDS[key]];
+  const [param] = spec.params;
+  return buildPayloadFromSpec(spec, param ? { [param.name]: value } : {});
+}
+
+/** Look a registered command up by its wire name (e.g. `ChangeLevel`). */
+export function findUeCommandByName(name: string): UeCommandSpec | undefined {
+  return Object.values<UeCommandSpec>(UE_COMMANDS).find((spec) => spec.name === name);
+}
+
+/** Clamp a camera delta into the range its offset command accepts. */
+export function clampCameraDelta(delta: number): number {
+  return Math.max(-MAX_CAMERA_DELTA, Math.min(MAX_CAMERA_DELTA, delta));
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BUILTIN_LEVEL_CATALOG,
+  DEFAULT_DEVICE_SETTINGS,
+  UE_CONTROL_STORE_VERSION,
+  UE_LEVELS,
+  fallbackLevel,
+  type UeConfig,
+  type UeDeviceSettings,
+} from '@/stores/ueControlStore';
+import { diffUeConfig, exportUeConfig, parseUeConfig, ueConfigFileName, UE_CONFIG_FORMAT } from './ueConfigTransfer';
+
+const CLOSE_UP = {
+  id: 'preset-1',
+  name: 'Close-up',
+  camera: { zoom: 300, cameraVertical: 15, cameraHorizontal: 0, cameraPitch: -4.5 },
+};
+
+const CONFIG: UeConfig = {
+  ueApiUrl: 'http://ue:8081',
+  deviceUeApiUrls: { holobox: 'http://holo:8081' },
+  deviceSettings: { kiosk: { ...DEFAULT_DEVICE_SETTINGS, zoom: 300, avatarId: 'anna' } },
+  cameraPresets: { kiosk: [CLOSE_UP] },
+};
+
+function parse(doc: unknown) {
+  return parseUeConfig(JSON.stringify(doc), BUILTIN_LEVEL_CATALOG);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// export / parse
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('exportUeConfig / parseUeConfig', () => {
+  it('round-trips the current version without changes', () => {
+    const doc = exportUeConfig({ ...CONFIG }, new Date('2026-10-19T12:00:00Z'));
+    expect(doc).toMatchObject({
+      format: UE_CONFIG_FORMAT,
+      version: UE_CONTROL_STORE_VERSION,
+      exportedAt: '2026-10-19T12:00:00.000Z',
+    });
+
+    const result = parse(doc);
+    expect(result).toEqual({ config: CONFIG, version: UE_CONTROL_STORE_VERSION, errors: [] });
+    expect(diffUeConfig(CONFIG, result.config!)).toEqual([]);
+    expect(ueConfigFileName(new Date('2026-10-19T12:00:00Z'))).toBe('rvtr-ue-config-2026-10-19.json');
+  });
+
+  it('migrates an older document through the store migration', () => {
+    const v6Settings: Partial<UeDeviceSettings> = { ...DEFAULT_DEVICE_SETTINGS };
+    delete v6Settings.customBackground;
+    delete v6Settings.lightBrightness;
+    delete v6Settings.lightPreset;
+    const result = parse({
+      format: UE_CONFIG_FORMAT,
+      version: 6,
+      ueApiUrl: 'http://ue:8081',
+      deviceUeApiUrls: {},
+      deviceSettings: { kiosk: { ...v6Settings, zoom: 100 } },
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.version).toBe(6);
+    expect(result.config?.deviceSettings.kiosk).toEqual({ ...DEFAULT_DEVICE_SETTINGS, zoom: 100 });
+    expect(result.config?.cameraPresets).toEqual({});
+  });
+
+  it('moves a level this catalogue does not list to the fallback level', () => {
+    const result = parse({
+      ...exportUeConfig(CONFIG),
+      deviceSettings: { kiosk: { ...DEFAULT_DEVICE_SETTINGS, level: 'LVL_Gone' } },
+    });
+    expect(result.config?.deviceSettings.kiosk?.level).toBe(fallbackLevel(UE_LEVELS));
+  });
+
+  it('migrates a pre-catalogue document against the given catalogue', () => {
+    const catalog = {
+      levels: [...UE_LEVELS, { id: 'LVL_Showroom', label: 'Showroom' }],
+      source: 'backend' as const,
+      fetchedAt: 1,
+    };
+    const v5Settings: Partial<UeDeviceSettings> = { ...DEFAULT_DEVICE_SETTINGS, level: 'LVL_Showroom' };
+    delete v5Settings.customBackground;
+    const doc = { format: UE_CONFIG_FORMAT, version: 5, ueApiUrl: 'http://ue:8081', deviceSettings: { kiosk: v5Settings } };
+
+    expect(parseUeConfig(JSON.stringify(doc), catalog).config?.deviceSettings.kiosk?.level).toBe('LVL_Showroom');
+    expect(parse(doc).config?.deviceSettings.kiosk?.level).toBe(fallbackLevel(UE_LEVELS));
+  });
+
+  it('rejects files that are not a readable export', () => {
+    expect(parseUeConfig('{', BUILTIN_LEVEL_CATALOG).errors).toEqual(['Not a JSON file']);
+    expect(parse({ ...CONFIG }).errors).toEqual(['Not a UE configuration export']);
+    expect(parse({ ...exportUeConfig(CONFIG), version: 'x' }).errors).toEqual(['Missing or invalid version']);
+    expect(parse({ ...exportUeConfig(CONFIG), version: UE_CONTROL_STORE_VERSION + 1 })).toMatchObject({
+      config: null,
+      version: UE_CONTROL_STORE_VERSION + 1,
+    });
+  });
+
+  it('reports every field that does not match the settings shape', () => {
+    const withoutLogo: Partial<UeDeviceSettings> = { ...DEFAULT_DEVICE_SETTINGS };
+    delete withoutLogo.showLogo;
+    const result = parse({
+      ...exportUeConfig(CONFIG),
+      deviceUeApiUrls: { holobox: 'not a url' },
+      deviceSettings: { kiosk: { ...withoutLogo, zoom: '300' } },
+      cameraPresets: { kiosk: [{ id: 'p', name: ' ', camera: CLOSE_UP.camera }] },
+    });
+
+    expect(result.config).toBeNull();
+    expect(result.errors).toEqual([
+      'deviceUeApiUrls.holobox is not a valid URL',
+      'deviceSettings.kiosk.zoom must be a number',
+      'deviceSettings.kiosk.showLogo must be a boolean',
+      'cameraPresets.kiosk[0] must have an id, a name and a numeric camera',
+    ]);
+  });
+
+  it('rejects device settings that are not objects before migrating', () => {
+    expect(parse({ ...exportUeConfig(CONFIG), deviceSettings: { kiosk: null } }).errors).toEqual([
+      'deviceSettings.kiosk must be an object',
+    ]);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// diffUeConfig
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('diffUeConfig', () => {
+  it('lists the URL, settings and presets an import would change', () => {
+    const incoming: UeConfig = {
+      ueApiUrl: 'http://ue-2:8081',
+      deviceUeApiUrls: {},
+      deviceSettings: { kiosk: { ...CONFIG.deviceSettings.kiosk!, zoom: 0 } },
+      cameraPresets: { kiosk: [CLOSE_UP, { ...CLOSE_UP, id: 'preset-2', name: 'Wide' }] },
+    };
+
+    expect(diffUeConfig(CONFIG, incoming)).toEqual([
+      { deviceId: null, field: 'ueApiUrl', from: 'http://ue:8081', to: 'http://ue-2:8081' },
+      { deviceId: 'kiosk', field: 'zoom', from: 300, to: 0 },
+      { deviceId: 'kiosk', field: 'cameraPresets', from: ['Close-up'], to: ['Close-up', 'Wide'] },
+    ]);
+  });
+
+  it('compares a device without stored settings against the defaults', () => {
+    const incoming: UeConfig = {
+      ...CONFIG,
+      deviceSettings: { holobox: { ...DEFAULT_DEVICE_SETTINGS, showLogo: false } },
+      cameraPresets: {},
+    };
+
+    expect(diffUeConfig(CONFIG, incoming)).toEqual([
+      { deviceId: 'holobox', field: 'showLogo', from: true, to: false },
+    ]);
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Export / import of the UE device configuration (`UeConfig`) as a versioned
+ * JSON document, so a new kiosk laptop can be set up from an existing one.
+ *
+ * The document carries the `rvtr-ue-control` persist version it was written
+ * with. On import, older documents go through the store's own migration
+ * (`migrateUeControlState`), then every device's settings are checked against
+ * the `UeDeviceSettings` shape. Levels this browser's catalogue doesn't list
+ * are moved to its fallback level by the migration, like stored settings are.
+ *
+ * Nothing engine-specific (committed cameras / lighting, groups, catalogue)
+ * is exported — those describe the machines a browser talks to, not the setup.
+ */
+import {
+  migrateUeControlState,
+  ueConfigDeviceIds,
+  DEFAULT_DEVICE_SETTINGS,
+  UE_CONTROL_STORE_VERSION,
+  type CameraPreset,
+  type UeConfig,
+  type UeDeviceSettings,
+  type UeLevelCatalog,
+} from '@/stores/ueControlStore';
+import { isValidUrl } from '@/utils/isValidUrl';
+
+/** `format` marker of an exported document */
+export const UE_CONFIG_FORMAT = 'rvtr-ue-config';
+
+export interface UeConfigDocument extends UeConfig {
+  format: typeof UE_CONFIG_FORMAT;
+  /** `UE_CONTROL_STORE_VERSION` at export time */
+  version: number;
+  /** ISO timestamp */
+  exportedAt: string;
+}
+
+export interface UeConfigParse {
+  /** Validated config at the current version (null when `errors` isn't empty) */
+  config: UeConfig | null;
+  /** Version the document was exported with (null = unreadable) */
+  version: number | null;
+  errors: string[];
+}
+
+/** One field an import would change; `deviceId` null = the default UE API URL */
+export interface UeConfigChange {
+  deviceId: string | null;
+  field: keyof UeDeviceSettings | 'ueApiUrl' | 'cameraPresets';
+  from: unknown;
+  to: unknown;
+}
+
+// ─── Export ──────────────────────────────────────────────────────────────────
+
+/** Versioned document for `config` (extra store fields are left out) */
+export function exportUeConfig(config: UeConfig, now = new Date()): UeConfigDocument {
+  return {
+    format: UE_CONFIG_FORMAT,
+    version: UE_CONTROL_STORE_VERSION,
+    exportedAt: now.toISOString(),
+    ueApiUrl: config.ueApiUrl,
+    deviceUeApiUrls: config.deviceUeApiUrls,
+    deviceSettings: config.deviceSettings,
+    cameraPresets: config.cameraPresets,
+  };
+}
+
+/** Download name, e.g. `rvtr-ue-config-2026-10-19.json` */
+export function ueConfigFileName(now = new Date()): string {
+  return `${UE_CONFIG_FORMAT}-${now.toISOString().slice(0, 10)}.json`;
+}
+
+// ─── Import ──────────────────────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkUrl(value: unknown, path: string, errors: string[]): string {
+  if (typeof value !== 'string') {
+    errors.push(`${path} must be a string`);
+    return '';
+  }
+  if (value.trim() && !isValidUrl(value)) errors.push(`${path} is not a valid URL`);
+  return value.trim();
+}
+
+/** Every `UeDeviceSettings` field with the default's type; unknown fields are dropped */
+function checkDeviceSettings(value: unknown, path: string, errors: string[]): UeDeviceSettings {
+  const settings = { ...DEFAULT_DEVICE_SETTINGS };
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return settings;
+  }
+  for (const key of Object.keys(DEFAULT_DEVICE_SETTINGS) as (keyof UeDeviceSettings)[]) {
+    const field = value[key];
+    const expected = typeof DEFAULT_DEVICE_SETTINGS[key];
+    if (typeof field !== expected || (typeof field === 'number' && !Number.isFinite(field))) {
+      errors.push(`${path}.${key} must be a ${expected}`);
+      continue;
+    }
+    (settings as Record<string, unknown>)[key] = field;
+  }
+  return settings;
+}
+
+function checkPresets(value: unknown, path: string, errors: string[]): CameraPreset[] {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be a list`);
+    return [];
+  }
+  return value.flatMap((preset: unknown, i) => {
+    const at = `${path}[${i}]`;
+    const camera = isRecord(preset) ? preset.camera : undefined;
+    if (
+      !isRecord(preset) ||
+      typeof preset.id !== 'string' ||
+      typeof preset.name !== 'string' ||
+      !preset.name.trim() ||
+      !isRecord(camera) ||
+      !['zoom', 'cameraVertical', 'cameraHorizontal', 'cameraPitch'].every((k) =>
+        Number.isFinite(camera[k]),
+      )
+    ) {
+      errors.push(`${at} must have an id, a name and a numeric camera`);
+      return [];
+    }
+    return [
+      {
+        id: preset.id,
+        name: preset.name.trim(),
+        camera: {
+          zoom: camera.zoom as number,
+          cameraVertical: camera.cameraVertical as number,
+          cameraHorizontal: camera.cameraHorizontal as number,
+          cameraPitch: camera.cameraPitch as number,
+        },
+      },
+    ];
+  });
+}
+
+function checkRecord<T>(
+  value: unknown,
+  path: string,
+  errors: string[],
+  check: (entry: unknown, path: string, errors: string[]) => T,
+): Record<string, T> {
+  if (value === undefined) return {};
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object keyed by device`);
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([deviceId, entry]) => [deviceId, check(entry, `${path}.${deviceId}`, errors)]),
+  );
+}
+
+/**
+ * Read an exported document: JSON, format marker and version first, then the
+ * store migration (against this browser's `levelCatalog`), then the shape.
+ */
+export function parseUeConfig(text: string, levelCatalog: UeLevelCatalog): UeConfigParse {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    return { config: null, version: null, errors: ['Not a JSON file'] };
+  }
+  if (!isRecord(doc) || doc.format !== UE_CONFIG_FORMAT) {
+    return { config: null, version: null, errors: ['Not a UE configuration export'] };
+  }
+  const { version } = doc;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { config: null, version: null, errors: ['Missing or invalid version'] };
+  }
+  if (version > UE_CONTROL_STORE_VERSION) {
+    return {
+      config: null,
+      version,
+      errors: [`Exported by a newer version (v${version}; this app reads up to v${UE_CONTROL_STORE_VERSION})`],
+    };
+  }
+
+  // The migration walks deviceSettings entries, so they must be objects first
+  const errors: string[] = [];
+  if (doc.deviceSettings !== undefined && !isRecord(doc.deviceSettings)) {
+    errors.push('deviceSettings must be an object keyed by device');
+  } else {
+    for (const [deviceId, settings] of Object.entries(doc.deviceSettings ?? {})) {
+      if (!isRecord(settings)) errors.push(`deviceSettings.${deviceId} must be an object`);
+    }
+  }
+  if (errors.length) return { config: null, version, errors };
+
+  const migrated = migrateUeControlState(
+    {
+      ueApiUrl: doc.ueApiUrl,
+      deviceUeApiUrls: doc.deviceUeApiUrls,
+      deviceSettings: doc.deviceSettings ?? {},
+      cameraPresets: doc.cameraPresets,
+      levelCatalog,
+    },
+    version,
+  );
+
+  const config: UeConfig = {
+    ueApiUrl: checkUrl(migrated.ueApiUrl, 'ueApiUrl', errors),
+    deviceUeApiUrls: checkRecord(migrated.deviceUeApiUrls, 'deviceUeApiUrls', errors, checkUrl),
+    deviceSettings: checkRecord(migrated.deviceSettings, 'deviceSettings', errors, checkDeviceSettings),
+    cameraPresets: checkRecord(migrated.cameraPresets, 'cameraPresets', errors, checkPresets),
+  };
+  return errors.length ? { config: null, version, errors } : { config, version, errors };
+}
+
+// ─── Preview ─────────────────────────────────────────────────────────────────
+
+/**
+ * What `importUeConfig(incoming)` would change, per device in the document's
+ * order. A device without stored settings counts as `DEFAULT_DEVICE_SETTINGS`;
+ * presets are listed by name.
+ */
+export function diffUeConfig(current: UeConfig, incoming: UeConfig): UeConfigChange[] {
+  const changes: UeConfigChange[] = [];
+  if (current.ueApiUrl !== incoming.ueApiUrl) {
+    changes.push({ deviceId: null, field: 'ueApiUrl', from: current.ueApiUrl, to: incoming.ueApiUrl });
+  }
+
+  for (const deviceId of ueConfigDeviceIds(incoming)) {
+    const fromUrl = current.deviceUeApiUrls[deviceId] ?? '';
+    const toUrl = incoming.deviceUeApiUrls[deviceId] ?? '';
+    if (fromUrl !== toUrl) changes.push({ deviceId, field: 'ueApiUrl', from: fromUrl, to: toUrl });
+
+    const from = current.deviceSettings[deviceId] ?? DEFAULT_DEVICE_SETTINGS;
+    const to = incoming.deviceSettings[deviceId] ?? DEFAULT_DEVICE_SETTINGS;
+    for (const field of Object.keys(DEFAULT_DEVICE_SETTINGS) as (keyof UeDeviceSettings)[]) {
+      if (from[field] !== to[field]) changes.push({ deviceId, field, from: from[field], to: to[field] });
+    }
+
+    const fromPresets = current.cameraPresets[deviceId] ?? [];
+    const toPresets = incoming.cameraPresets[deviceId] ?? [];
+    if (JSON.stringify(fromPresets) !== JSON.stringify(toPresets)) {
+      changes.push({
+        deviceId,
+        field: 'cameraPresets',
+        from: fromPresets.map((p) => p.name),
+        to: toPresets.map((p) => p.name),
+      });
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,92 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { UE_LEVELS } from '@/stores/ueControlStore';
+import { loadLevelCatalog, isLevelCatalogStale, LEVEL_CATALOG_TTL_MS } from './ueLevelCatalog';
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+const NOW = 1_000_000;
+
+beforeEach(() => {
+  mockFetch.mockReset();
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// loadLevelCatalog
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('loadLevelCatalog', () => {
+  it('returns the built-in list without fetching', async () => {
+    const { catalog, error } = await loadLevelCatalog('builtin', 'http://ue:8081', NOW);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(error).toBeNull();
+    expect(catalog).toEqual({ levels: UE_LEVELS, source: 'builtin', fetchedAt: NOW });
+  });
+
+  it('asks UE for its levels', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ Levels: ['LVL_Master_Beach'] }));
+
+    const { catalog, error } = await loadLevelCatalog('ue', 'http://ue:8081', NOW);
+
+    expect(error).toBeNull();
+    expect(catalog).toEqual({ levels: [{ id: 'LVL_Master_Beach', label: 'Beach' }], source: 'ue', fetchedAt: NOW });
+  });
+
+  it('reads levels.json from the writer backend', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ ok: true, levels: [{ id: 'LVL_Master_Roof', label: 'Roof' }] }));
+
+    const { catalog } = await loadLevelCatalog('backend', '', NOW);
+
+    expect(mockFetch.mock.calls[0]?.[0]).toBe('http://127.0.0.1:3210/levels');
+    expect(catalog.source).toBe('backend');
+    expect(catalog.levels).toEqual([{ id: 'LVL_Master_Roof', label: 'Roof' }]);
+  });
+
+  it.each([
+    ['no UE URL', () => loadLevelCatalog('ue', '', NOW), 'No UE API URL configured'],
+    [
+      'an empty backend list',
+      () => {
+        mockFetch.mockResolvedValueOnce(jsonResponse({ ok: true, levels: [] }));
+        return loadLevelCatalog('backend', '', NOW);
+      },
+      'Writer backend (levels.json) returned no levels',
+    ],
+    [
+      'a backend error',
+      () => {
+        mockFetch.mockRejectedValueOnce(new Error('Failed to fetch'));
+        return loadLevelCatalog('backend', '', NOW);
+      },
+      'Failed to fetch',
+    ],
+  ])('falls back to the built-in list on %s', async (_label, load, message) => {
+    const { catalog, error } = await load();
+
+    expect(error).toBe(message);
+    expect(catalog).toEqual({ levels: UE_LEVELS, source: 'builtin', fetchedAt: NOW });
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// isLevelCatalogStale
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('isLevelCatalogStale', () => {
+  const catalog = { levels: UE_LEVELS, source: 'ue' as const, fetchedAt: NOW };
+
+  it('is fresh for the same source within the TTL', () => {
+    expect(isLevelCatalogStale(catalog, 'ue', NOW + LEVEL_CATALOG_TTL_MS)).toBe(false);
+  });
+
+  it('is stale after the TTL or when the source changed', () => {
+    expect(isLevelCatalogStale(catalog, 'ue', NOW + LEVEL_CATALOG_TTL_MS + 1)).toBe(true);
+    expect(isLevelCatalogStale(catalog, 'backend', NOW)).toBe(true);
+  });
+});
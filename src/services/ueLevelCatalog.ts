@@ -0,0 +1,67 @@
+/**
+ * Loads the UE level catalogue from the configured source:
+ *   - `ue` — the engine's `GetLevels` query (`getUeLevels`)
+ *   - `backend` — levels.json served by agent-option-writer (`getLevelCatalog`)
+ *   - `builtin` — `UE_LEVELS`, compiled into the app
+ *
+ * A failed or empty fetch falls back to the built-in list and reports why;
+ * the caller decides whether to keep an older cached catalogue instead.
+ */
+import {
+  BUILTIN_LEVEL_CATALOG,
+  UE_LEVELS,
+  type UeLevel,
+  type UeLevelCatalog,
+  type UeLevelSource,
+} from '@/stores/ueControlStore';
+import { getUeLevels } from '@/services/ueRemoteApi';
+import { getLevelCatalog } from '@/services/voiceAgentWriter';
+
+/** A cached catalogue older than this is re-fetched */
+export const LEVEL_CATALOG_TTL_MS = 10 * 60_000;
+
+export const LEVEL_SOURCE_LABELS: Record<UeLevelSource, string> = {
+  builtin: 'Built-in list',
+  ue: 'Unreal Engine (GetLevels)',
+  backend: 'Writer backend (levels.json)',
+};
+
+export interface LevelCatalogLoad {
+  catalog: UeLevelCatalog;
+  /** Why the source couldn't be used (null = catalogue came from it) */
+  error: string | null;
+}
+
+async function fetchLevels(source: UeLevelSource, ueApiUrl: string): Promise<UeLevel[]> {
+  switch (source) {
+    case 'builtin':
+      return [...UE_LEVELS];
+    case 'ue':
+      if (!ueApiUrl) throw new Error('No UE API URL configured');
+      return (await getUeLevels(ueApiUrl)) ?? [];
+    case 'backend':
+      return getLevelCatalog();
+  }
+}
+
+/** Fetch levels from `source`; falls back to the built-in list on failure or an empty list. */
+export async function loadLevelCatalog(
+  source: UeLevelSource,
+  ueApiUrl: string,
+  now = Date.now(),
+): Promise<LevelCatalogLoad> {
+  let error: string;
+  try {
+    const levels = await fetchLevels(source, ueApiUrl);
+    if (levels.length) return { catalog: { levels, source, fetchedAt: now }, error: null };
+    error = `${LEVEL_SOURCE_LABELS[source]} returned no levels`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+  return { catalog: { ...BUILTIN_LEVEL_CATALOG, fetchedAt: now }, error };
+}
+
+/** True when the cached catalogue isn't from `source` or has outlived the TTL. */
+export function isLevelCatalogStale(catalog: UeLevelCatalog, source: UeLevelSource, now = Date.now()): boolean {
+  return catalog.source !== source || now - catalog.fetchedAt > LEVEL_CATALOG_TTL_MS;
+}
@@ -1,5 +1,5 @@
 // @vitest-environment jsdom
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -12,10 +12,25 @@ beforeEach(() => {
 // Import after mocks
 const {
   sendUeCommand,
+  runUeCommand,
+  describeUeError,
+  buildUeCurlCommand,
+  changeAvatarById,
   applyCameraTransition,
+  planCameraMove,
+  animateCameraTransition,
   applyDeviceSettings,
+  applyLightingTransition,
+  planLightingSteps,
+  broadcastToEngines,
+  broadcastUeCommand,
   checkUeApiHealth,
+  getCameraState,
+  getUeLevels,
+  parseCameraState,
+  detectCameraDrift,
 } = await import('./ueRemoteApi');
+const { useUeCommandLogStore } = await import('@/stores/ueCommandLogStore');
 
 // Helpers
 
@@ -30,19 +45,23 @@ function callInit(n: number): RequestInit & { headers: Record<string, string> }
   return (mockFetch.mock.calls[n] as [string, RequestInit & { headers: Record<string, string> }])[1];
 }
 
-function okResponse(): Response {
+function okResponse(body: unknown = {}): Response {
   return {
     ok: true,
     status: 200,
-    json: () => Promise.resolve({}),
+    headers: new Headers(),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
   } as Response;
 }
 
-function errorResponse(status = 500): Response {
+function errorResponse(status = 500, body = '', headers: Record<string, string> = {}): Response {
   return {
     ok: false,
     status,
-    json: () => Promise.resolve({}),
+    headers: new Headers(headers),
+    json: () => Promise.resolve(body ? (JSON.parse(body) as unknown) : {}),
+    text: () => Promise.resolve(body),
   } as Response;
 }
 
@@ -51,28 +70,77 @@ function errorResponse(status = 500): Response {
 // ═══════════════════════════════════════════════════════════════════════════
 
 describe('sendUeCommand', () => {
-  it('returns true on 200 OK', async () => {
-    mockFetch.mockResolvedValueOnce(okResponse());
+  it('returns an OK result with status and parsed body on 200', async () => {
+    mockFetch.mockResolvedValueOnce(okResponse({ done: true }));
     const result = await sendUeCommand('http://ue:8080', { command: 'ping' });
-    expect(result).toBe(true);
+
+    expect(result).toMatchObject({
+      ok: true,
+      command: 'ping',
+      errorClass: null,
+      error: null,
+      status: 200,
+      body: { done: true },
+    });
+    expect(result.latencyMs).toBeGreaterThanOrEqual(0);
   });
 
-  it('returns false on empty baseUrl (no fetch)', async () => {
+  it('returns no-url on empty baseUrl (no fetch)', async () => {
     const result = await sendUeCommand('', { command: 'ping' });
-    expect(result).toBe(false);
+    expect(result).toMatchObject({ ok: false, errorClass: 'no-url', status: null, latencyMs: null });
     expect(mockFetch).not.toHaveBeenCalled();
   });
 
-  it('returns false on network error', async () => {
+  it('returns network on fetch error', async () => {
     mockFetch.mockRejectedValueOnce(new Error('Network error'));
     const result = await sendUeCommand('http://ue:8080', { command: 'ping' });
-    expect(result).toBe(false);
+    expect(result).toMatchObject({ ok: false, errorClass: 'network', status: null });
   });
 
-  it('returns false on non-2xx response', async () => {
-    mockFetch.mockResolvedValueOnce(errorResponse(500));
-    const result = await sendUeCommand('http://ue:8080', { command: 'ping' });
-    expect(result).toBe(false);
+  it('returns timeout when the request is aborted by the client timer', async () => {
+    vi.useFakeTimers();
+    mockFetch.mockImplementationOnce(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+        }),
+    );
+
+    const promise = sendUeCommand('http://ue:8080', { command: 'ping' });
+    await vi.advanceTimersByTimeAsync(5_000);
+    vi.useRealTimers();
+
+    expect(await promise).toMatchObject({ ok: false, errorClass: 'timeout' });
+  });
+
+  it('classifies a non-2xx from UE as ue, with the body error message', async () => {
+    mockFetch.mockResolvedValueOnce(errorResponse(500, JSON.stringify({ error: 'level not loaded' })));
+    const result = await sendUeCommand('http://ue:8080', { command: 'ChangeLevel' });
+
+    expect(result).toMatchObject({
+      ok: false,
+      errorClass: 'ue',
+      status: 500,
+      error: 'level not loaded',
+      body: { error: 'level not loaded' },
+    });
+    expect(describeUeError(result)).toBe('ChangeLevel: UE returned 500 — level not loaded');
+  });
+
+  it('classifies proxy-generated errors by X-Ue-Proxy-Error', async () => {
+    mockFetch
+      .mockResolvedValueOnce(errorResponse(502, '', { 'X-Ue-Proxy-Error': 'unreachable' }))
+      .mockResolvedValueOnce(errorResponse(504, '', { 'X-Ue-Proxy-Error': 'timeout' }))
+      .mockResolvedValueOnce(errorResponse(400, '', { 'X-Ue-Proxy-Error': 'bad-target' }))
+      .mockResolvedValueOnce(errorResponse(502));
+
+    const classes = [];
+    for (let i = 0; i < 4; i++) {
+      classes.push((await sendUeCommand('http://ue:8080', { command: 'ping' })).errorClass);
+    }
+
+    // A 502 without the header came from UE (or something behind it), not the proxy
+    expect(classes).toEqual(['unreachable', 'timeout', 'proxy', 'ue']);
   });
 
   it('strips trailing slashes from baseUrl', async () => {
@@ -93,6 +161,57 @@ describe('sendUeCommand', () => {
     expect(init.headers['Content-Type']).toBe('application/json');
     expect(init.headers['X-Ue-Target']).toBe('http://ue:8080');
   });
+
+  it('records every call in the command log', async () => {
+    useUeCommandLogStore.setState({ entries: [] });
+    mockFetch.mockResolvedValueOnce(okResponse()).mockResolvedValueOnce(errorResponse(500));
+
+    await sendUeCommand('http://ue:8080/', { command: 'Logo', showLogo: 'true' });
+    await sendUeCommand('http://ue:8080', { command: 'LightUp' });
+    await sendUeCommand('', { command: 'LightDown' });
+
+    const { entries } = useUeCommandLogStore.getState();
+    expect(entries.map((e) => [e.payload.command, e.result.errorClass])).toEqual([
+      ['Logo', null],
+      ['LightUp', 'ue'],
+      ['LightDown', 'no-url'],
+    ]);
+    expect(entries[0]).toMatchObject({ target: 'http://ue:8080', payload: { showLogo: 'true' } });
+    expect(entries[0]?.durationMs).toBeGreaterThanOrEqual(0);
+  });
+});
+
+describe('buildUeCurlCommand', () => {
+  it('targets UE directly and shell-quotes the payload', () => {
+    expect(buildUeCurlCommand('http://ue:8081/', { command: 'ChangeAvatarByID', AvatarID: "o'neil" })).toBe(
+      "curl -X POST 'http://ue:8081/ravatar' -H 'Content-Type: application/json' " +
+        `-d '{"command":"ChangeAvatarByID","AvatarID":"o'\\''neil"}'`,
+    );
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// runUeCommand (registry-validated)
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('runUeCommand', () => {
+  it('sends the registry payload', async () => {
+    mockFetch.mockResolvedValueOnce(okResponse());
+    const result = await runUeCommand('http://ue:8080', 'setAllowAvatarChange', { Allow: true });
+
+    expect(result.ok).toBe(true);
+    expect(callBody(0)).toEqual({ command: 'AllowAvatarChange', Allow: 'true' });
+  });
+
+  it('never sends an invalid payload', async () => {
+    const zoom = await runUeCommand('http://ue:8080', 'zoom', { offset: 5000 });
+    const avatar = await changeAvatarById('http://ue:8080', '');
+
+    expect(zoom).toMatchObject({ ok: false, command: 'zoom', errorClass: 'invalid' });
+    expect(zoom.error).toContain('outside');
+    expect(avatar).toMatchObject({ ok: false, command: 'ChangeAvatarByID', errorClass: 'invalid' });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
 });
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -120,12 +239,12 @@ describe('applyCameraTransition', () => {
     mockFetch.mockResolvedValueOnce(okResponse());
     const desired = { ...zero, zoom: 2000 };
 
-    const result = await applyCameraTransition('http://ue', zero, desired);
+    const { newCommitted } = await applyCameraTransition('http://ue', zero, desired);
 
     const body = callBody(0);
     expect(body.offset).toBe('1000');
     // Committed advances by clamped delta, not desired
-    expect(result.zoom).toBe(1000);
+    expect(newCommitted.zoom).toBe(1000);
   });
 
   it('on partial failure: committed advances only for succeeded axes', async () => {
@@ -135,13 +254,16 @@ describe('applyCameraTransition', () => {
       .mockResolvedValueOnce(errorResponse()); // cameraVertical
 
     const desired = { zoom: 10, cameraVertical: 20, cameraHorizontal: 30, cameraPitch: 40 };
-    const result = await applyCameraTransition('http://ue', zero, desired);
+    const { newCommitted, results } = await applyCameraTransition('http://ue', zero, desired);
 
-    expect(result.zoom).toBe(10);
+    expect(newCommitted.zoom).toBe(10);
     // Failed axis + remaining axes stay at committed
-    expect(result.cameraVertical).toBe(0);
-    expect(result.cameraHorizontal).toBe(0);
-    expect(result.cameraPitch).toBe(0);
+    expect(newCommitted.cameraVertical).toBe(0);
+    expect(newCommitted.cameraHorizontal).toBe(0);
+    expect(newCommitted.cameraPitch).toBe(0);
+    // One result per attempted axis; the failure carries its status
+    expect(results.map((r) => r.ok)).toEqual([true, false]);
+    expect(results[1]).toMatchObject({ command: 'CameraVertical', errorClass: 'ue', status: 500 });
   });
 
   it('on full success: returns desired position', async () => {
@@ -152,17 +274,18 @@ describe('applyCameraTransition', () => {
       .mockResolvedValueOnce(okResponse());
 
     const desired = { zoom: 10, cameraVertical: 20, cameraHorizontal: 30, cameraPitch: 40 };
-    const result = await applyCameraTransition('http://ue', zero, desired);
+    const { newCommitted, results } = await applyCameraTransition('http://ue', zero, desired);
 
-    expect(result).toEqual(desired);
+    expect(newCommitted).toEqual(desired);
+    expect(results).toHaveLength(4);
   });
 
   it('returns copy of committed when baseUrl is empty', async () => {
     const committed = { zoom: 5, cameraVertical: 10, cameraHorizontal: 0, cameraPitch: 0 };
-    const result = await applyCameraTransition('', committed, { ...committed, zoom: 100 });
+    const { newCommitted } = await applyCameraTransition('', committed, { ...committed, zoom: 100 });
 
-    expect(result).toEqual(committed);
-    expect(result).not.toBe(committed); // new object
+    expect(newCommitted).toEqual(committed);
+    expect(newCommitted).not.toBe(committed); // new object
     expect(mockFetch).not.toHaveBeenCalled();
   });
 
@@ -171,10 +294,11 @@ describe('applyCameraTransition', () => {
     controller.abort();
 
     const desired = { zoom: 10, cameraVertical: 20, cameraHorizontal: 0, cameraPitch: 0 };
-    const result = await applyCameraTransition('http://ue', zero, desired, controller.signal);
+    const { newCommitted, results } = await applyCameraTransition('http://ue', zero, desired, controller.signal);
 
     expect(mockFetch).not.toHaveBeenCalled();
-    expect(result).toEqual(zero);
+    expect(newCommitted).toEqual(zero);
+    expect(results).toEqual([]);
   });
 
   it('sends all four axes sequentially', async () => {
@@ -194,10 +318,159 @@ describe('applyCameraTransition', () => {
 
   it('returns committed unchanged when all deltas are zero', async () => {
     const committed = { zoom: 5, cameraVertical: 10, cameraHorizontal: 15, cameraPitch: 20 };
-    const result = await applyCameraTransition('http://ue', committed, committed);
+    const { newCommitted } = await applyCameraTransition('http://ue', committed, committed);
 
     expect(mockFetch).not.toHaveBeenCalled();
-    expect(result).toEqual(committed);
+    expect(newCommitted).toEqual(committed);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// planCameraMove / animateCameraTransition
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('planCameraMove', () => {
+  const zero = { zoom: 0, cameraVertical: 0, cameraHorizontal: 0, cameraPitch: 0 };
+  const linear = (t: number) => t;
+
+  it('splits the move into timed steps that sum to the target', () => {
+    const desired = { ...zero, zoom: 100, cameraPitch: -9 };
+    const steps = planCameraMove(zero, desired, { durationMs: 400, stepMs: 100, easing: linear });
+
+    expect(steps.map((s) => s.atMs)).toEqual([0, 100, 200, 300]);
+    expect(steps.map((s) => s.deltas.zoom)).toEqual([25, 25, 25, 25]);
+    expect(steps.map((s) => s.deltas.cameraPitch)).toEqual([-2.25, -2.25, -2.25, -2.25]);
+    expect(steps.at(-1)?.position).toEqual(desired);
+  });
+
+  it('follows the easing curve (ease-in-out: small steps at the ends)', () => {
+    const steps = planCameraMove(zero, { ...zero, zoom: 1000 }, { durationMs: 400, stepMs: 100 });
+    const zooms = steps.map((s) => s.deltas.zoom ?? 0);
+
+    expect(zooms).toHaveLength(4);
+    expect(zooms[0]).toBeLessThan(zooms[1] ?? 0);
+    expect(zooms[3]).toBeLessThan(zooms[2] ?? 0);
+    expect(zooms.reduce((a, b) => a + b, 0)).toBe(1000);
+  });
+
+  it('clamps the total move to MAX_CAMERA_DELTA', () => {
+    const steps = planCameraMove(zero, { ...zero, zoom: 5000 }, { easing: linear });
+    expect(steps.at(-1)?.position.zoom).toBe(1000);
+  });
+
+  it('returns no steps when already at the target', () => {
+    expect(planCameraMove(zero, zero)).toEqual([]);
+  });
+});
+
+describe('animateCameraTransition', () => {
+  const zero = { zoom: 0, cameraVertical: 0, cameraHorizontal: 0, cameraPitch: 0 };
+  const linear = (t: number) => t;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends axes of a step together and reaches the target', async () => {
+    mockFetch.mockResolvedValue(okResponse());
+    const onStep = vi.fn();
+    const desired = { ...zero, zoom: 100, cameraVertical: 30 };
+
+    const promise = animateCameraTransition('http://ue', zero, desired, {
+      durationMs: 200, stepMs: 100, easing: linear, onStep,
+    });
+    await vi.advanceTimersByTimeAsync(200);
+
+    const { newCommitted, results } = await promise;
+    expect(newCommitted).toEqual(desired);
+    expect(results).toHaveLength(4);
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+    expect([callBody(0).command, callBody(1).command]).toEqual(['zoom', 'CameraVertical']);
+    expect(callBody(0).offset).toBe('50');
+    expect(onStep).toHaveBeenNthCalledWith(1, { ...zero, zoom: 50, cameraVertical: 15 });
+  });
+
+  it('waits between steps', async () => {
+    mockFetch.mockResolvedValue(okResponse());
+
+    const promise = animateCameraTransition('http://ue', zero, { ...zero, zoom: 100 }, {
+      durationMs: 200, stepMs: 100, easing: linear,
+    });
+    await vi.advanceTimersByTimeAsync(50);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(50);
+    await promise;
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('on abort: stops and commits only the steps already sent', async () => {
+    mockFetch.mockResolvedValue(okResponse());
+    const controller = new AbortController();
+
+    const promise = animateCameraTransition('http://ue', zero, { ...zero, zoom: 100 }, {
+      durationMs: 400, stepMs: 100, easing: linear, signal: controller.signal,
+    });
+    await vi.advanceTimersByTimeAsync(150);
+    controller.abort();
+
+    expect((await promise).newCommitted).toEqual({ ...zero, zoom: 50 });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('on failure: keeps succeeded axes of the step and stops', async () => {
+    mockFetch
+      .mockResolvedValueOnce(okResponse())     // zoom, step 1
+      .mockResolvedValueOnce(errorResponse()); // cameraVertical, step 1
+
+    const promise = animateCameraTransition('http://ue', zero, { ...zero, zoom: 100, cameraVertical: 30 }, {
+      durationMs: 200, stepMs: 100, easing: linear,
+    });
+    await vi.advanceTimersByTimeAsync(200);
+
+    const { newCommitted, results } = await promise;
+    expect(newCommitted).toEqual({ ...zero, zoom: 50 });
+    expect(results.find((r) => !r.ok)?.command).toBe('CameraVertical');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// planLightingSteps / applyLightingTransition
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('planLightingSteps', () => {
+  const lighting = (lightBrightness: number, lightPreset: number) => ({ lightBrightness, lightPreset });
+
+  it('replays the net brightness difference, then cycles presets forward', () => {
+    expect(planLightingSteps(lighting(1, 0), lighting(-1, 2))).toEqual([
+      'lightDown',
+      'lightDown',
+      'changeLight',
+      'changeLight',
+    ]);
+    // Presets wrap: 2 → 0 is one cycle
+    expect(planLightingSteps(lighting(0, 2), lighting(1, 0))).toEqual(['lightUp', 'changeLight']);
+    expect(planLightingSteps(lighting(3, 1), lighting(3, 1))).toEqual([]);
+  });
+});
+
+describe('applyLightingTransition', () => {
+  it('advances the committed lighting only by the steps UE accepted', async () => {
+    mockFetch.mockResolvedValueOnce(okResponse()).mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    const { newCommitted, results } = await applyLightingTransition(
+      'http://ue',
+      { lightBrightness: 0, lightPreset: 0 },
+      { lightBrightness: 2, lightPreset: 1 },
+    );
+
+    expect(results.map((r) => r.command)).toEqual(['LightUp', 'LightUp']);
+    expect(newCommitted).toEqual({ lightBrightness: 1, lightPreset: 0 });
   });
 });
 
@@ -206,19 +479,25 @@ describe('applyCameraTransition', () => {
 // ═══════════════════════════════════════════════════════════════════════════
 
 describe('applyDeviceSettings', () => {
-  const zero = { zoom: 0, cameraVertical: 0, cameraHorizontal: 0, cameraPitch: 0 };
+  const zero = {
+    camera: { zoom: 0, cameraVertical: 0, cameraHorizontal: 0, cameraPitch: 0 },
+    lighting: { lightBrightness: 0, lightPreset: 0 },
+  };
 
   const baseSettings = {
     zoom: 0,
     cameraVertical: 0,
     cameraHorizontal: 0,
     cameraPitch: 0,
-    level: 'LVL_Master_ModernOffice' as const,
+    level: 'LVL_Master_ModernOffice',
+    customBackground: '',
     avatarId: '',
     showLogo: true,
     allowAvatarChange: true,
     allowInterruption: true,
     isPcm: false,
+    lightBrightness: 0,
+    lightPreset: 0,
   };
 
   it('skips absolute commands when prev matches current', async () => {
@@ -262,7 +541,99 @@ describe('applyDeviceSettings', () => {
     // 5 absolute + 1 zoom = 6
     expect(mockFetch).toHaveBeenCalledTimes(6);
     expect(result.successCount).toBe(6);
-    expect(result.newCommitted.zoom).toBe(50);
+    expect(result.newCommitted.camera.zoom).toBe(50);
+    expect(result.results.map((r) => r.command)).toEqual([
+      'ChangeLevel',
+      'Logo',
+      'AllowAvatarChange',
+      'Interruption',
+      'OutputAudioFormat',
+      'zoom',
+    ]);
+  });
+
+  it('replays lighting as net steps from the committed lighting, after the camera', async () => {
+    const settings = { ...baseSettings, zoom: 50, lightBrightness: 1, lightPreset: 1 };
+    const committed = { ...zero, lighting: { lightBrightness: 3, lightPreset: 1 } };
+    mockFetch.mockResolvedValue(okResponse());
+
+    const result = await applyDeviceSettings('http://ue', settings, committed, undefined, baseSettings);
+
+    expect(result.results.map((r) => r.command)).toEqual(['zoom', 'LightDown', 'LightDown']);
+    expect(result.newCommitted.lighting).toEqual({ lightBrightness: 1, lightPreset: 1 });
+  });
+
+  it('sends the custom background after its level, and only on that level', async () => {
+    const custom = {
+      ...baseSettings,
+      level: 'LVL_Master_CustomBackground',
+      customBackground: 'C:/bg/beach.mp4',
+    };
+    mockFetch.mockResolvedValue(okResponse());
+
+    await applyDeviceSettings('http://ue', custom, zero);
+    expect(callBody(0)).toEqual({ command: 'ChangeLevel', Level: 'LVL_Master_CustomBackground' });
+    expect(callBody(1)).toEqual({ command: 'SetCustomBackground', Path: 'C:/bg/beach.mp4' });
+
+    mockFetch.mockClear();
+    await applyDeviceSettings('http://ue', { ...custom, level: 'LVL_Master_Logo' }, zero, undefined, custom);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(callBody(0).command).toBe('ChangeLevel');
+  });
+
+  it('re-sends an unchanged custom background when switching to its level', async () => {
+    const custom = {
+      ...baseSettings,
+      level: 'LVL_Master_CustomBackground',
+      customBackground: 'C:/bg/beach.mp4',
+    };
+    const prev = { ...custom, level: 'LVL_Master_Logo' };
+    mockFetch.mockResolvedValue(okResponse());
+
+    await applyDeviceSettings('http://ue', custom, zero, undefined, prev);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(callBody(1).command).toBe('SetCustomBackground');
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Broadcast
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('broadcastUeCommand', () => {
+  it('sends the payload to each distinct engine and reports per engine', async () => {
+    mockFetch.mockImplementation((_url: string, init: { headers: Record<string, string> }) =>
+      Promise.resolve(
+        init.headers['X-Ue-Target'] === 'http://holo-2:8081'
+          ? errorResponse(502, '', { 'X-Ue-Proxy-Error': 'unreachable' })
+          : okResponse(),
+      ),
+    );
+
+    const results = await broadcastUeCommand(
+      ['http://holo-1:8081', 'http://holo-2:8081', 'http://holo-1:8081/'],
+      { command: 'StopAnswer' },
+    );
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(results.map(({ url, result }) => [url, result.ok, result.errorClass])).toEqual([
+      ['http://holo-1:8081', true, null],
+      ['http://holo-2:8081', false, 'unreachable'],
+    ]);
+  });
+
+  it('starts every engine before any finishes', async () => {
+    const started: string[] = [];
+    const release: Array<() => void> = [];
+    const done = broadcastToEngines(['http://a:1', 'http://b:1'], (url) => {
+      started.push(url);
+      return new Promise<string>((resolve) => release.push(() => resolve(url)));
+    });
+
+    expect(started).toEqual(['http://a:1', 'http://b:1']);
+    release.forEach((r) => r());
+    expect((await done).map((e) => e.result)).toEqual(['http://a:1', 'http://b:1']);
   });
 });
 
@@ -271,27 +642,139 @@ describe('applyDeviceSettings', () => {
 // ═══════════════════════════════════════════════════════════════════════════
 
 describe('checkUeApiHealth', () => {
-  it('returns true for status < 502 (even 500 means UE is up)', async () => {
-    mockFetch.mockResolvedValueOnce(errorResponse(500));
-    const result = await checkUeApiHealth('http://ue:8080');
-    expect(result).toBe(true);
+  it('calls /ue-health with X-Ue-Target and returns latency', async () => {
+    mockFetch.mockResolvedValueOnce(okResponse({ ok: true, latencyMs: 12 }));
+    const result = await checkUeApiHealth('http://ue:8080/');
+
+    const url = (mockFetch.mock.calls[0] as [string])[0];
+    expect(url).toBe('/ue-health');
+    expect(callInit(0).headers['X-Ue-Target']).toBe('http://ue:8080');
+    expect(result).toEqual({ reachable: true, latencyMs: 12 });
   });
 
-  it('returns false on network error', async () => {
+  it('returns unreachable on network error', async () => {
     mockFetch.mockRejectedValueOnce(new Error('ECONNREFUSED'));
     const result = await checkUeApiHealth('http://ue:8080');
-    expect(result).toBe(false);
+    expect(result).toEqual({ reachable: false, latencyMs: null });
   });
 
-  it('returns false for empty baseUrl', async () => {
+  it('returns unreachable for empty baseUrl', async () => {
     const result = await checkUeApiHealth('');
-    expect(result).toBe(false);
+    expect(result.reachable).toBe(false);
     expect(mockFetch).not.toHaveBeenCalled();
   });
 
-  it('returns false for status 502 (proxy unreachable)', async () => {
+  it('returns unreachable for status 502 (TCP connect failed)', async () => {
     mockFetch.mockResolvedValueOnce(errorResponse(502));
     const result = await checkUeApiHealth('http://ue:8080');
-    expect(result).toBe(false);
+    expect(result.reachable).toBe(false);
+  });
+
+  it('returns unreachable for status 504 (TCP connect timed out)', async () => {
+    mockFetch.mockResolvedValueOnce(errorResponse(504));
+    const result = await checkUeApiHealth('http://ue:8080');
+    expect(result.reachable).toBe(false);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Camera read-back
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('parseCameraState', () => {
+  it('parses camelCase numeric fields', () => {
+    const body = { zoom: 50, cameraVertical: -15, cameraHorizontal: 0, cameraPitch: 2.25 };
+    expect(parseCameraState(body)).toEqual(body);
+  });
+
+  it('parses PascalCase numeric strings', () => {
+    const result = parseCameraState({
+      Zoom: '100',
+      CameraVertical: '30',
+      CameraHorizontal: '-45',
+      CameraPitch: '4.5',
+    });
+    expect(result).toEqual({ zoom: 100, cameraVertical: 30, cameraHorizontal: -45, cameraPitch: 4.5 });
+  });
+
+  it('returns null when an axis is missing', () => {
+    expect(parseCameraState({ zoom: 1, cameraVertical: 2, cameraHorizontal: 3 })).toBeNull();
+  });
+
+  it('returns null for non-numeric values and non-objects', () => {
+    expect(
+      parseCameraState({ zoom: 'abc', cameraVertical: 0, cameraHorizontal: 0, cameraPitch: 0 }),
+    ).toBeNull();
+    expect(parseCameraState(null)).toBeNull();
+    expect(parseCameraState('zoom=1')).toBeNull();
+  });
+});
+
+describe('getCameraState', () => {
+  it('sends GetCameraState and returns the parsed position', async () => {
+    mockFetch.mockResolvedValueOnce(
+      okResponse({ zoom: 10, cameraVertical: 20, cameraHorizontal: 30, cameraPitch: 40 }),
+    );
+
+    const result = await getCameraState('http://ue:8080');
+
+    expect(callBody(0)).toEqual({ command: 'GetCameraState' });
+    expect(result).toEqual({ zoom: 10, cameraVertical: 20, cameraHorizontal: 30, cameraPitch: 40 });
+  });
+
+  it('returns null on non-2xx response', async () => {
+    mockFetch.mockResolvedValueOnce(errorResponse(500));
+    expect(await getCameraState('http://ue:8080')).toBeNull();
+  });
+
+  it('returns null on network error', async () => {
+    mockFetch.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+    expect(await getCameraState('http://ue:8080')).toBeNull();
+  });
+
+  it('returns null for empty baseUrl without fetching', async () => {
+    expect(await getCameraState('')).toBeNull();
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('getUeLevels', () => {
+  it('sends GetLevels and returns the parsed levels', async () => {
+    mockFetch.mockResolvedValueOnce(
+      okResponse({ Levels: ['LVL_Master_Studio', { Id: 'LVL_Master_Beach', Label: 'Beach' }] }),
+    );
+
+    const result = await getUeLevels('http://ue:8080');
+
+    expect(callBody(0)).toEqual({ command: 'GetLevels' });
+    expect(result).toEqual([
+      { id: 'LVL_Master_Studio', label: 'Studio' },
+      { id: 'LVL_Master_Beach', label: 'Beach' },
+    ]);
+  });
+
+  it('returns null when UE fails or lists no valid level', async () => {
+    mockFetch.mockResolvedValueOnce(errorResponse(500));
+    expect(await getUeLevels('http://ue:8080')).toBeNull();
+
+    mockFetch.mockResolvedValueOnce(okResponse({ Levels: ['not a level', 7] }));
+    expect(await getUeLevels('http://ue:8080')).toBeNull();
+  });
+});
+
+describe('detectCameraDrift', () => {
+  const zero = { zoom: 0, cameraVertical: 0, cameraHorizontal: 0, cameraPitch: 0 };
+
+  it('returns empty array when positions match', () => {
+    expect(detectCameraDrift(zero, { ...zero })).toEqual([]);
+  });
+
+  it('ignores differences within tolerance', () => {
+    expect(detectCameraDrift(zero, { ...zero, cameraPitch: 0.4 })).toEqual([]);
+  });
+
+  it('returns drifted axes in send order', () => {
+    const actual = { zoom: 0, cameraVertical: 15, cameraHorizontal: 0, cameraPitch: -50 };
+    expect(detectCameraDrift(zero, actual)).toEqual(['cameraVertical', 'cameraPitch']);
   });
 });
@@ -8,41 +8,182 @@
  *   - **Absolute** (level, logo, avatar, toggles) — idempotent, safe to re-send.
  *   - **Offset-based** (zoom, cameraVertical/Horizontal, cameraPitch) —
  *     cumulative deltas, NOT idempotent. Transitions use `applyCameraTransition`
- *     to compute per-axis deltas from the committed camera position.
+ *     to compute per-axis deltas from the committed camera position, or
+ *     `animateCameraTransition` to spread them over eased, timed sub-steps.
+ *   - **Lighting actions** (LightUp, LightDown, ChangeLight) — one relative step
+ *     each. `applyLightingTransition` replays the net steps from the committed
+ *     lighting, the same way camera offsets are replayed.
+ *
+ * `getCameraState` reads UE's actual camera back so the committed model
+ * can be reconciled after a UE restart or a missed command. `getUeLevels`
+ * asks UE for the levels it can load (the `ue` level catalogue source).
+ *
+ * Broadcast (`broadcastToEngines` / `broadcastUeCommand`) sends one logical
+ * command to several engines in parallel and reports each engine's outcome.
+ *
+ * Command names, parameters and ranges live in `ueCommandRegistry.ts`;
+ * wrappers here go through `runUeCommand`, which validates before sending.
  */
-import type { UeDeviceSettings, UeLevelId, CameraPosition } from '@/stores/ueControlStore';
-import { ZERO_CAMERA } from '@/stores/ueControlStore';
+import type {
+  UeDeviceSettings,
+  UeLevel,
+  UeLevelId,
+  CameraPosition,
+  LightingAction,
+  LightingState,
+} from '@/stores/ueControlStore';
+import {
+  CUSTOM_BACKGROUND_LEVEL,
+  LIGHT_PRESET_COUNT,
+  ZERO_CAMERA,
+  lightingOf,
+  parseUeLevels,
+  stepLighting,
+  ueEndpointKey,
+} from '@/stores/ueControlStore';
+import { useUeCommandLogStore } from '@/stores/ueCommandLogStore';
+import {
+  UE_COMMANDS,
+  DEVICE_SETTING_COMMANDS,
+  buildUeCommandPayload,
+  buildCameraOffsetPayload,
+  buildDeviceSettingPayload,
+  clampCameraDelta,
+  type DeviceSettingKey,
+  type UeCommandArgs,
+  type UeCommandId,
+  type UeCommandPayload,
+} from '@/services/ueCommandRegistry';
 
 const REQUEST_TIMEOUT_MS = 5_000;
 
-// ─── Low-level transport ─────────────────────────────────────────────────────
+/** Set by the dev-server proxy on error responses it generated itself
+ *  (`unreachable` | `timeout` | `bad-target`) — absent when UE answered. */
+const PROXY_ERROR_HEADER = 'X-Ue-Proxy-Error';
+
+// ─── Command results ─────────────────────────────────────────────────────────
 
-interface UeCommandPayload {
+/**
+ * Why a command failed:
+ *   - `no-url` — UE API URL not configured, nothing sent
+ *   - `invalid` — payload rejected by the command registry, nothing sent
+ *   - `network` — the dev server itself didn't answer
+ *   - `timeout` — no answer in time (client abort or proxy 504)
+ *   - `unreachable` — proxy couldn't connect to UE (502)
+ *   - `proxy` — proxy rejected the request (bad `X-Ue-Target`)
+ *   - `ue` — UE answered with a non-2xx status
+ */
+export type UeErrorClass =
+  | 'no-url'
+  | 'invalid'
+  | 'network'
+  | 'timeout'
+  | 'unreachable'
+  | 'proxy'
+  | 'ue';
+
+export interface UeCommandResult {
+  ok: boolean;
+  /** Wire command name (e.g. `ChangeLevel`) */
   command: string;
-  [key: string]: string;
+  errorClass: UeErrorClass | null;
+  /** Human-readable error (null on success) */
+  error: string | null;
+  /** HTTP status (null when no response arrived) */
+  status: number | null;
+  /** Round-trip time through the proxy (null when nothing was sent) */
+  latencyMs: number | null;
+  /** Parsed JSON body, raw text, or null when empty */
+  body: unknown;
+}
+
+function failedResult(
+  command: string,
+  errorClass: UeErrorClass,
+  error: string,
+  extra: Partial<Pick<UeCommandResult, 'status' | 'latencyMs' | 'body'>> = {},
+): UeCommandResult {
+  return { ok: false, command, errorClass, error, status: null, latencyMs: null, body: null, ...extra };
+}
+
+/** One-line description for toasts / inline errors. */
+export function describeUeError(result: UeCommandResult): string {
+  switch (result.errorClass) {
+    case null:
+      return `${result.command}: OK`;
+    case 'no-url':
+      return 'UE API URL is not set';
+    case 'ue':
+      return `${result.command}: UE returned ${result.status}${result.error ? ` — ${result.error}` : ''}`;
+    default:
+      return `${result.command}: ${result.error}`;
+  }
+}
+
+async function readResponseBody(res: Response): Promise<unknown> {
+  const text = await res.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return text;
+  }
 }
 
+/** Pull an error message out of a `{ error }` JSON body or a short text body. */
+function bodyErrorMessage(body: unknown): string | null {
+  if (body && typeof body === 'object' && 'error' in body && typeof body.error === 'string') {
+    return body.error;
+  }
+  if (typeof body === 'string' && body.length <= 200) return body;
+  return null;
+}
+
+// ─── Low-level transport ─────────────────────────────────────────────────────
+
 /**
  * Send a single command to the UE Remote API.
  *
  * In dev mode, requests go through the Vite proxy (`/ue-api/ravatar`)
  * to bypass CORS. The actual UE host is passed via the `X-Ue-Target` header.
  *
- * Returns `true` on success, `false` on any error (network, timeout, non-2xx).
+ * Never throws — every outcome (missing URL, network error, timeout,
+ * non-2xx from the proxy or UE) comes back as a `UeCommandResult`.
+ * Every call is recorded in `useUeCommandLogStore` for the command inspector.
  */
 export async function sendUeCommand(
   baseUrl: string,
   payload: UeCommandPayload,
-): Promise<boolean> {
-  if (!baseUrl) return false;
+): Promise<UeCommandResult> {
+  const at = Date.now();
+  const result = await postUeCommand(baseUrl, payload);
+  useUeCommandLogStore.getState().record({
+    at,
+    target: baseUrl.replace(/\/+$/, ''),
+    payload,
+    result,
+    durationMs: Date.now() - at,
+  });
+  return result;
+}
+
+async function postUeCommand(
+  baseUrl: string,
+  payload: UeCommandPayload,
+): Promise<UeCommandResult> {
+  const { command } = payload;
+  if (!baseUrl) return failedResult(command, 'no-url', 'UE API URL is not set');
 
   const normalizedBase = baseUrl.replace(/\/+$/, '');
   const url = '/ue-api/ravatar';
   const controller = new AbortController();
   const timer = window.setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  const startedAt = Date.now();
 
+  let res: Response;
+  let body: unknown;
   try {
-    const res = await fetch(url, {
+    res = await fetch(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -51,80 +192,154 @@ export async function sendUeCommand(
       body: JSON.stringify(payload),
       signal: controller.signal,
     });
-    return res.ok;
+    body = await readResponseBody(res);
   } catch {
-    return false;
+    const latencyMs = Date.now() - startedAt;
+    return controller.signal.aborted
+      ? failedResult(command, 'timeout', `no response within ${REQUEST_TIMEOUT_MS}ms`, { latencyMs })
+      : failedResult(command, 'network', 'dev server unreachable', { latencyMs });
   } finally {
     window.clearTimeout(timer);
   }
+
+  const latencyMs = Date.now() - startedAt;
+  if (res.ok) {
+    return { ok: true, command, errorClass: null, error: null, status: res.status, latencyMs, body };
+  }
+
+  const proxyError = res.headers.get(PROXY_ERROR_HEADER);
+  const errorClass: UeErrorClass =
+    proxyError === 'timeout' ? 'timeout'
+      : proxyError === 'unreachable' ? 'unreachable'
+        : proxyError ? 'proxy'
+          : 'ue';
+
+  return failedResult(command, errorClass, bodyErrorMessage(body) ?? `HTTP ${res.status}`, {
+    status: res.status,
+    latencyMs,
+    body,
+  });
+}
+
+/**
+ * Validate args against the command registry, then send.
+ * Invalid payloads are never sent — they come back as `invalid` results.
+ */
+export async function runUeCommand<K extends UeCommandId>(
+  baseUrl: string,
+  id: K,
+  args: UeCommandArgs<K>,
+): Promise<UeCommandResult> {
+  const built = buildUeCommandPayload(id, args);
+  if (!built.ok) return failedResult(UE_COMMANDS[id].name, 'invalid', built.error);
+  return sendUeCommand(baseUrl, built.payload);
+}
+
+/**
+ * Send a query command and return the parsed JSON body.
+ * Returns `null` on any error or when the body is not JSON.
+ */
+async function queryUeCommand(
+  baseUrl: string,
+  payload: UeCommandPayload,
+): Promise<unknown> {
+  const result = await sendUeCommand(baseUrl, payload);
+  if (!result.ok || typeof result.body !== 'object') return null;
+  return result.body;
+}
+
+/**
+ * Shell command that sends `payload` straight to UE (bypassing the dev proxy),
+ * for reproducing a logged command outside the browser.
+ */
+export function buildUeCurlCommand(baseUrl: string, payload: UeCommandPayload): string {
+  const quote = (s: string) => `'${s.replace(/'/g, `'\\''`)}'`;
+  const url = `${baseUrl.replace(/\/+$/, '')}/ravatar`;
+  return [
+    'curl -X POST',
+    quote(url),
+    "-H 'Content-Type: application/json'",
+    `-d ${quote(JSON.stringify(payload))}`,
+  ].join(' ');
 }
 
 // ─── Individual commands ─────────────────────────────────────────────────────
-// Each function maps to a single UE HTTP command.
+// One wrapper per registry entry (see UE_COMMANDS for names and ranges).
 // Offset commands (zoom, camera*) send deltas — UE adds them to current state.
 // Absolute commands (level, logo, avatar, toggles) set the value directly.
 
 /** @group Offset commands */
-export function setZoom(baseUrl: string, offset: number): Promise<boolean> {
-  return sendUeCommand(baseUrl, { command: 'zoom', offset: String(offset) });
+export function setZoom(baseUrl: string, offset: number): Promise<UeCommandResult> {
+  return runUeCommand(baseUrl, 'zoom', { offset });
 }
 
-export function setCameraVertical(baseUrl: string, offset: number): Promise<boolean> {
-  return sendUeCommand(baseUrl, { command: 'CameraVertical', offset: String(offset) });
+export function setCameraVertical(baseUrl: string, offset: number): Promise<UeCommandResult> {
+  return runUeCommand(baseUrl, 'cameraVertical', { offset });
 }
 
-export function setCameraHorizontal(baseUrl: string, offset: number): Promise<boolean> {
-  return sendUeCommand(baseUrl, { command: 'CameraHorizontal', offset: String(offset) });
+export function setCameraHorizontal(baseUrl: string, offset: number): Promise<UeCommandResult> {
+  return runUeCommand(baseUrl, 'cameraHorizontal', { offset });
 }
 
-export function setCameraPitch(baseUrl: string, angle: number): Promise<boolean> {
-  return sendUeCommand(baseUrl, { command: 'cameraPitch', angle: String(angle) });
+export function setCameraPitch(baseUrl: string, angle: number): Promise<UeCommandResult> {
+  return runUeCommand(baseUrl, 'cameraPitch', { angle });
 }
 
 /** @group Absolute commands */
-export function changeLevel(baseUrl: string, level: UeLevelId): Promise<boolean> {
-  return sendUeCommand(baseUrl, { command: 'ChangeLevel', Level: level });
+export function changeLevel(baseUrl: string, level: UeLevelId): Promise<UeCommandResult> {
+  return runUeCommand(baseUrl, 'changeLevel', { Level: level });
 }
 
-export function changeAvatarById(baseUrl: string, avatarId: string): Promise<boolean> {
-  return sendUeCommand(baseUrl, { command: 'ChangeAvatarByID', AvatarID: avatarId });
+export function changeAvatarById(baseUrl: string, avatarId: string): Promise<UeCommandResult> {
+  return runUeCommand(baseUrl, 'changeAvatarById', { AvatarID: avatarId });
 }
 
-export function setLogo(baseUrl: string, show: boolean): Promise<boolean> {
-  return sendUeCommand(baseUrl, { command: 'Logo', showLogo: String(show) });
+export function setLogo(baseUrl: string, show: boolean): Promise<UeCommandResult> {
+  return runUeCommand(baseUrl, 'setLogo', { showLogo: show });
 }
 
-export function setAllowAvatarChange(baseUrl: string, allow: boolean): Promise<boolean> {
-  return sendUeCommand(baseUrl, { command: 'AllowAvatarChange', Allow: String(allow) });
+export function setAllowAvatarChange(baseUrl: string, allow: boolean): Promise<UeCommandResult> {
+  return runUeCommand(baseUrl, 'setAllowAvatarChange', { Allow: allow });
 }
 
-export function setInterruption(baseUrl: string, allow: boolean): Promise<boolean> {
-  return sendUeCommand(baseUrl, { command: 'Interruption', Allow: String(allow) });
+export function setInterruption(baseUrl: string, allow: boolean): Promise<UeCommandResult> {
+  return runUeCommand(baseUrl, 'setInterruption', { Allow: allow });
 }
 
-export function setOutputAudioFormat(baseUrl: string, isPcm: boolean): Promise<boolean> {
-  return sendUeCommand(baseUrl, { command: 'OutputAudioFormat', IsPcm: String(isPcm) });
+export function setOutputAudioFormat(baseUrl: string, isPcm: boolean): Promise<UeCommandResult> {
+  return runUeCommand(baseUrl, 'setOutputAudioFormat', { IsPcm: isPcm });
 }
 
-export function setFaceCapture(baseUrl: string, enabled: boolean): Promise<boolean> {
-  return sendUeCommand(baseUrl, { command: 'FaceCapture', isFaceCapture: String(enabled) });
+export function setFaceCapture(baseUrl: string, enabled: boolean): Promise<UeCommandResult> {
+  return runUeCommand(baseUrl, 'setFaceCapture', { isFaceCapture: enabled });
 }
 
-/** @group Action commands (fire-and-forget, no stored state) */
-export function lightUp(baseUrl: string): Promise<boolean> {
-  return sendUeCommand(baseUrl, { command: 'LightUp' });
+/** @group Action commands (one relative step — see `applyLightingTransition`) */
+export function lightUp(baseUrl: string): Promise<UeCommandResult> {
+  return runUeCommand(baseUrl, 'lightUp', {});
 }
 
-export function lightDown(baseUrl: string): Promise<boolean> {
-  return sendUeCommand(baseUrl, { command: 'LightDown' });
+export function lightDown(baseUrl: string): Promise<UeCommandResult> {
+  return runUeCommand(baseUrl, 'lightDown', {});
 }
 
-export function changeLight(baseUrl: string): Promise<boolean> {
-  return sendUeCommand(baseUrl, { command: 'ChangeLight' });
+export function changeLight(baseUrl: string): Promise<UeCommandResult> {
+  return runUeCommand(baseUrl, 'changeLight', {});
 }
 
-export function stopAnswer(baseUrl: string): Promise<boolean> {
-  return sendUeCommand(baseUrl, { command: 'StopAnswer' });
+export function stopAnswer(baseUrl: string): Promise<UeCommandResult> {
+  return runUeCommand(baseUrl, 'stopAnswer', {});
+}
+
+/** Send the absolute command that applies one device setting (see `DEVICE_SETTING_COMMANDS`). */
+export async function sendDeviceSetting<K extends DeviceSettingKey>(
+  baseUrl: string,
+  key: K,
+  value: UeDeviceSettings[K],
+): Promise<UeCommandResult> {
+  const built = buildDeviceSettingPayload(key, value);
+  if (!built.ok) return failedResult(UE_COMMANDS[DEVICE_SETTING_COMMANDS[key]].name, 'invalid', built.error);
+  return sendUeCommand(baseUrl, built.payload);
 }
 
 // ─── Camera transition ───────────────────────────────────────────────────────
@@ -137,20 +352,22 @@ const CAMERA_KEYS: (keyof CameraPosition)[] = [
   'cameraPitch',
 ];
 
-/** Maximum per-axis camera delta sent in one command.
- *  Prevents UE crashes from oversized offsets (e.g. stale committed camera). */
-const MAX_CAMERA_DELTA = 1000;
-
-/** Map camera key → UE send function */
-const CAMERA_SENDERS: Record<
-  keyof CameraPosition,
-  (baseUrl: string, delta: number) => Promise<boolean>
-> = {
-  zoom: setZoom,
-  cameraVertical: setCameraVertical,
-  cameraHorizontal: setCameraHorizontal,
-  cameraPitch: setCameraPitch,
-};
+/** Send the registry's offset command for one camera axis. */
+async function sendCameraOffset(
+  baseUrl: string,
+  axis: keyof CameraPosition,
+  delta: number,
+): Promise<UeCommandResult> {
+  const built = buildCameraOffsetPayload(axis, delta);
+  if (!built.ok) return failedResult(UE_COMMANDS[axis].name, 'invalid', built.error);
+  return sendUeCommand(baseUrl, built.payload);
+}
+
+/** Outcome of a camera move: where UE's camera now is, plus every command sent. */
+export interface CameraTransitionResult {
+  newCommitted: CameraPosition;
+  results: UeCommandResult[];
+}
 
 /**
  * Transition UE camera from `committed` position to `desired` position
@@ -165,10 +382,11 @@ export async function applyCameraTransition(
   committed: CameraPosition,
   desired: CameraPosition,
   signal?: AbortSignal,
-): Promise<CameraPosition> {
-  if (!baseUrl) return { ...committed };
+): Promise<CameraTransitionResult> {
+  if (!baseUrl) return { newCommitted: { ...committed }, results: [] };
 
   const newCommitted = { ...committed };
+  const results: UeCommandResult[] = [];
 
   for (const key of CAMERA_KEYS) {
     if (signal?.aborted) break;
@@ -180,12 +398,12 @@ export async function applyCameraTransition(
     }
 
     // Clamp to prevent UE crashes from oversized offsets
-    const delta = Math.max(-MAX_CAMERA_DELTA, Math.min(MAX_CAMERA_DELTA, rawDelta));
+    const delta = clampCameraDelta(rawDelta);
 
-    const sendFn = CAMERA_SENDERS[key];
-    const ok = await sendFn(baseUrl, delta);
+    const result = await sendCameraOffset(baseUrl, key, delta);
+    results.push(result);
 
-    if (ok) {
+    if (result.ok) {
       // Use committed + clamped delta (not desired) when delta was clamped
       newCommitted[key] = committed[key] + delta;
     } else {
@@ -194,76 +412,355 @@ export async function applyCameraTransition(
     }
   }
 
-  return newCommitted;
+  return { newCommitted, results };
 }
 
 /**
  * Send offsets to bring UE camera back to its default (0) position
  * from the given committed position.
  *
- * Returns the new committed position (zeros on full success).
+ * `newCommitted` is zeros on full success.
  */
 export async function resetCameraToZero(
   baseUrl: string,
   committed: CameraPosition,
-): Promise<CameraPosition> {
+): Promise<CameraTransitionResult> {
   return applyCameraTransition(baseUrl, committed, ZERO_CAMERA);
 }
 
+// ─── Lighting transition ─────────────────────────────────────────────────────
+
+/**
+ * Actions that take UE's lighting from `committed` to `desired`: the net
+ * brightness difference as LightUp / LightDown steps, then as many
+ * ChangeLight cycles as reach the desired preset (presets wrap around).
+ */
+export function planLightingSteps(committed: LightingState, desired: LightingState): LightingAction[] {
+  const brightness = desired.lightBrightness - committed.lightBrightness;
+  const cycles =
+    (((desired.lightPreset - committed.lightPreset) % LIGHT_PRESET_COUNT) + LIGHT_PRESET_COUNT) %
+    LIGHT_PRESET_COUNT;
+  return [
+    ...Array<LightingAction>(Math.abs(brightness)).fill(brightness > 0 ? 'lightUp' : 'lightDown'),
+    ...Array<LightingAction>(cycles).fill('changeLight'),
+  ];
+}
+
+/** Outcome of a lighting change: the lighting UE now has, plus every command sent. */
+export interface LightingTransitionResult {
+  newCommitted: LightingState;
+  results: UeCommandResult[];
+}
+
+/**
+ * Step UE's lighting from `committed` to `desired` (`planLightingSteps`).
+ *
+ * Each accepted step advances the committed lighting by one; the first
+ * failure stops the transition, so the returned lighting is what UE really
+ * received and the next transition picks up the remainder.
+ */
+export async function applyLightingTransition(
+  baseUrl: string,
+  committed: LightingState,
+  desired: LightingState,
+  signal?: AbortSignal,
+): Promise<LightingTransitionResult> {
+  let newCommitted = lightingOf(committed);
+  const results: UeCommandResult[] = [];
+  if (!baseUrl) return { newCommitted, results };
+
+  for (const action of planLightingSteps(committed, desired)) {
+    if (signal?.aborted) break;
+    const result = await runUeCommand(baseUrl, action, {});
+    results.push(result);
+    // UE likely unreachable — skip remaining steps to avoid request spam
+    if (!result.ok) break;
+    newCommitted = stepLighting(newCommitted, action);
+  }
+
+  return { newCommitted, results };
+}
+
+// ─── Animated camera move ────────────────────────────────────────────────────
+
+/** Default length of an animated camera move */
+export const CAMERA_MOVE_DURATION_MS = 800;
+/** Default interval between sub-delta sends */
+export const CAMERA_MOVE_STEP_MS = 100;
+
+/** Maps linear progress (0…1) to eased progress (0…1). */
+export type CameraEasing = (t: number) => number;
+
+export const easeInOutCubic: CameraEasing = (t) =>
+  t < 0.5 ? 4 * t ** 3 : 1 - (-2 * t + 2) ** 3 / 2;
+
+export interface CameraMoveOptions {
+  durationMs?: number;
+  stepMs?: number;
+  easing?: CameraEasing;
+  signal?: AbortSignal;
+  /** Called with the committed position after every step that reached UE */
+  onStep?: (committed: CameraPosition) => void;
+}
+
+/** One timed step of a planned camera move. */
+export interface CameraMoveStep {
+  /** Offset from the start of the move, ms */
+  atMs: number;
+  /** Per-axis sub-deltas to send (only non-zero axes) */
+  deltas: Partial<CameraPosition>;
+  /** Camera position once this step is applied */
+  position: CameraPosition;
+}
+
+/** Round sub-step positions so float noise doesn't leak into UE offsets. */
+const roundPosition = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Split a committed → desired move into timed sub-deltas following `easing`.
+ *
+ * The total per-axis move is clamped to `MAX_CAMERA_DELTA` (same as
+ * `applyCameraTransition`), and the last step always lands exactly on the
+ * (clamped) target. Steps whose rounded deltas are all zero are dropped.
+ */
+export function planCameraMove(
+  committed: CameraPosition,
+  desired: CameraPosition,
+  {
+    durationMs = CAMERA_MOVE_DURATION_MS,
+    stepMs = CAMERA_MOVE_STEP_MS,
+    easing = easeInOutCubic,
+  }: Pick<CameraMoveOptions, 'durationMs' | 'stepMs' | 'easing'> = {},
+): CameraMoveStep[] {
+  const target = { ...committed };
+  for (const key of CAMERA_KEYS) {
+    target[key] = committed[key] + clampCameraDelta(desired[key] - committed[key]);
+  }
+
+  const stepCount = stepMs > 0 ? Math.max(1, Math.round(durationMs / stepMs)) : 1;
+  const steps: CameraMoveStep[] = [];
+  let previous = { ...committed };
+
+  for (let i = 1; i <= stepCount; i++) {
+    const progress = i === stepCount ? 1 : easing(i / stepCount);
+    const position = { ...previous };
+    const deltas: Partial<CameraPosition> = {};
+
+    for (const key of CAMERA_KEYS) {
+      position[key] = i === stepCount
+        ? target[key]
+        : roundPosition(committed[key] + (target[key] - committed[key]) * progress);
+      const delta = roundPosition(position[key] - previous[key]);
+      if (delta !== 0) deltas[key] = delta;
+    }
+
+    if (Object.keys(deltas).length === 0) continue;
+    steps.push({ atMs: Math.round((i - 1) * (durationMs / stepCount)), deltas, position });
+    previous = position;
+  }
+
+  return steps;
+}
+
+/** Resolve after `ms`, or immediately once `signal` aborts. */
+function waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (ms <= 0 || signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      window.clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = window.setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Smoothly move UE camera from `committed` to `desired` (see `planCameraMove`).
+ *
+ * Each step sends its axis sub-deltas in parallel. Aborting `signal` stops
+ * before the next step; a failed axis stops the move after the current step.
+ * Either way the returned position (and every `onStep` call) reflects only
+ * the sub-deltas UE acknowledged, so the committed camera stays correct
+ * when the move ends partway.
+ */
+export async function animateCameraTransition(
+  baseUrl: string,
+  committed: CameraPosition,
+  desired: CameraPosition,
+  { signal, onStep, ...planOptions }: CameraMoveOptions = {},
+): Promise<CameraTransitionResult> {
+  if (!baseUrl) return { newCommitted: { ...committed }, results: [] };
+
+  const steps = planCameraMove(committed, desired, planOptions);
+  const newCommitted = { ...committed };
+  const allResults: UeCommandResult[] = [];
+  const startedAt = Date.now();
+
+  for (const step of steps) {
+    await waitFor(step.atMs - (Date.now() - startedAt), signal);
+    if (signal?.aborted) break;
+
+    const axes = CAMERA_KEYS.filter((key) => step.deltas[key] !== undefined);
+    const results = await Promise.all(
+      axes.map((key) => sendCameraOffset(baseUrl, key, step.deltas[key] ?? 0)),
+    );
+    allResults.push(...results);
+
+    // Earlier steps all succeeded (we stop on failure), so a successful
+    // axis is exactly at the planned position
+    axes.forEach((key, i) => {
+      if (results[i]?.ok) newCommitted[key] = step.position[key];
+    });
+    onStep?.({ ...newCommitted });
+
+    // UE likely unreachable — stop instead of drifting axes apart
+    if (results.some((r) => !r.ok)) break;
+  }
+
+  return { newCommitted, results: allResults };
+}
+
+// ─── Camera read-back ────────────────────────────────────────────────────────
+
+/** Per-axis difference (UE units) below which committed and actual camera
+ *  are considered equal. Absorbs float rounding on the UE side. */
+export const CAMERA_DRIFT_TOLERANCE = 0.5;
+
+/** Accepted field names per axis in the `GetCameraState` response. */
+const CAMERA_STATE_FIELDS: Record<keyof CameraPosition, string[]> = {
+  zoom: ['zoom', 'Zoom'],
+  cameraVertical: ['cameraVertical', 'CameraVertical'],
+  cameraHorizontal: ['cameraHorizontal', 'CameraHorizontal'],
+  cameraPitch: ['cameraPitch', 'CameraPitch'],
+};
+
+/**
+ * Parse a `GetCameraState` response body into a CameraPosition.
+ * UE may reply with camelCase or PascalCase keys and numeric strings.
+ * Returns `null` if any axis is missing or not a finite number.
+ */
+export function parseCameraState(body: unknown): CameraPosition | null {
+  if (!body || typeof body !== 'object') return null;
+  const record = body as Record<string, unknown>;
+  const result = { ...ZERO_CAMERA };
+
+  for (const key of CAMERA_KEYS) {
+    const field = CAMERA_STATE_FIELDS[key].find((name) => name in record);
+    if (!field) return null;
+    const value = Number(record[field]);
+    if (!Number.isFinite(value)) return null;
+    result[key] = value;
+  }
+
+  return result;
+}
+
+/**
+ * Ask UE for its current camera offsets (`GetCameraState`).
+ * Returns `null` when UE is unreachable or the reply can't be parsed.
+ */
+export async function getCameraState(baseUrl: string): Promise<CameraPosition | null> {
+  const body = await queryUeCommand(baseUrl, { command: UE_COMMANDS.getCameraState.name });
+  return parseCameraState(body);
+}
+
+/**
+ * Ask UE which levels it can load (`GetLevels`).
+ * Returns `null` when UE is unreachable or the reply lists no valid level.
+ */
+export async function getUeLevels(baseUrl: string): Promise<UeLevel[] | null> {
+  const body = await queryUeCommand(baseUrl, { command: UE_COMMANDS.getLevels.name });
+  const levels = parseUeLevels(body);
+  return levels.length ? levels : null;
+}
+
+/**
+ * Compare our committed camera model with UE's actual camera.
+ * Returns the axes that differ by more than `tolerance` (empty = in sync).
+ */
+export function detectCameraDrift(
+  committed: CameraPosition,
+  actual: CameraPosition,
+  tolerance = CAMERA_DRIFT_TOLERANCE,
+): (keyof CameraPosition)[] {
+  return CAMERA_KEYS.filter((key) => Math.abs(actual[key] - committed[key]) > tolerance);
+}
+
 // ─── Batch apply ─────────────────────────────────────────────────────────────
 
+/** What we believe an engine shows — the base relative commands are replayed from */
+export interface CommittedEngineState {
+  camera: CameraPosition;
+  lighting: LightingState;
+}
+
+export interface DeviceSettingsResult {
+  successCount: number;
+  newCommitted: CommittedEngineState;
+  results: UeCommandResult[];
+}
+
 /**
  * Apply full device settings to UE in a single batch.
  * Sends commands sequentially to avoid overwhelming the UE HTTP server.
  *
- * Camera commands are computed as deltas from `committed` to the target
- * `settings` camera values. Non-camera commands (level, toggles) are
- * absolute and only sent if changed from `prev`.
+ * Camera commands are computed as deltas from `committed.camera` to the target
+ * `settings` camera values, lighting as net steps from `committed.lighting`.
+ * Non-camera commands (level, toggles) are absolute and only sent if changed
+ * from `prev`.
  *
  * Accepts an optional AbortSignal to bail out early when the device
- * switches again before the batch finishes. Each failed command gets
- * one retry.
+ * switches again before the batch finishes. Nothing is retried: the first
+ * failed absolute command ends the absolute part (UE is likely unreachable),
+ * and the camera and lighting transitions each stop at their first failure,
+ * committing only what UE accepted.
  *
- * Returns the number of successfully applied commands and the new
- * committed camera position.
+ * Returns the number of successfully applied commands, the new
+ * committed camera and lighting and every command result (absolute first,
+ * then camera, then lighting).
  */
 export async function applyDeviceSettings(
   baseUrl: string,
   settings: UeDeviceSettings,
-  committed: CameraPosition,
+  committed: CommittedEngineState,
   signal?: AbortSignal,
   prev?: UeDeviceSettings,
-): Promise<{ successCount: number; newCommitted: CameraPosition }> {
-  if (!baseUrl) return { successCount: 0, newCommitted: { ...committed } };
+): Promise<DeviceSettingsResult> {
+  if (!baseUrl) {
+    return {
+      successCount: 0,
+      newCommitted: { camera: { ...committed.camera }, lighting: { ...committed.lighting } },
+      results: [],
+    };
+  }
 
   let success = 0;
-
-  // Absolute commands — skip if value unchanged from previous device
-  const absoluteCommands: Array<() => Promise<boolean>> = [];
-
-  if (!prev || prev.level !== settings.level) {
-    absoluteCommands.push(() => changeLevel(baseUrl, settings.level));
-  }
-  if (!prev || prev.showLogo !== settings.showLogo) {
-    absoluteCommands.push(() => setLogo(baseUrl, settings.showLogo));
-  }
-  if (!prev || prev.allowAvatarChange !== settings.allowAvatarChange) {
-    absoluteCommands.push(() => setAllowAvatarChange(baseUrl, settings.allowAvatarChange));
-  }
-  if (!prev || prev.allowInterruption !== settings.allowInterruption) {
-    absoluteCommands.push(() => setInterruption(baseUrl, settings.allowInterruption));
-  }
-  if (!prev || prev.isPcm !== settings.isPcm) {
-    absoluteCommands.push(() => setOutputAudioFormat(baseUrl, settings.isPcm));
-  }
-  if (settings.avatarId.trim() && (!prev || prev.avatarId !== settings.avatarId)) {
-    absoluteCommands.push(() => changeAvatarById(baseUrl, settings.avatarId));
+  const results: UeCommandResult[] = [];
+
+  // Absolute commands — skip if value unchanged from previous device,
+  // or if the registry rejects the value (e.g. blank avatar id).
+  // The custom background only applies on its level and is re-sent after a level change.
+  const absolutePayloads: UeCommandPayload[] = [];
+
+  for (const key of Object.keys(DEVICE_SETTING_COMMANDS) as DeviceSettingKey[]) {
+    if (key === 'customBackground') {
+      if (settings.level !== CUSTOM_BACKGROUND_LEVEL) continue;
+      if (prev && prev.level === settings.level && prev[key] === settings[key]) continue;
+    } else if (prev && prev[key] === settings[key]) continue;
+    const built = buildDeviceSettingPayload(key, settings[key]);
+    if (built.ok) absolutePayloads.push(built.payload);
   }
 
-  for (const cmd of absoluteCommands) {
+  for (const payload of absolutePayloads) {
     if (signal?.aborted) break;
-    const ok = await cmd();
-    if (ok) {
+    const result = await sendUeCommand(baseUrl, payload);
+    results.push(result);
+    if (result.ok) {
       success++;
     } else {
       // UE likely unreachable — skip remaining commands to avoid request spam
@@ -279,43 +776,96 @@ export async function applyDeviceSettings(
     cameraPitch: settings.cameraPitch,
   };
 
-  const newCommitted = await applyCameraTransition(baseUrl, committed, desired, signal);
+  const camera = await applyCameraTransition(baseUrl, committed.camera, desired, signal);
+  results.push(...camera.results);
 
-  for (const key of CAMERA_KEYS) {
-    if (newCommitted[key] !== committed[key]) success++;
-  }
+  // Lighting steps — net difference from the committed lighting
+  const lighting = await applyLightingTransition(baseUrl, committed.lighting, lightingOf(settings), signal);
+  results.push(...lighting.results);
 
-  return { successCount: success, newCommitted };
+  success += [...camera.results, ...lighting.results].filter((r) => r.ok).length;
+
+  return {
+    successCount: success,
+    newCommitted: { camera: camera.newCommitted, lighting: lighting.newCommitted },
+    results,
+  };
+}
+
+// ─── Broadcast ───────────────────────────────────────────────────────────────
+
+/** One engine's outcome of a broadcast. */
+export interface UeEngineResult<T = UeCommandResult> {
+  /** Engine base URL as given */
+  url: string;
+  result: T;
+}
+
+/**
+ * Run `send` against every engine in parallel — once per distinct endpoint
+ * (`ueEndpointKey`), in the order given. Engines don't wait on each other,
+ * so one unreachable engine only delays its own entry.
+ *
+ * Camera moves pass a `send` that starts from that engine's own committed
+ * camera; engines in a group drift apart independently.
+ */
+export async function broadcastToEngines<T>(
+  urls: string[],
+  send: (url: string) => Promise<T>,
+): Promise<UeEngineResult<T>[]> {
+  const seen = new Set<string>();
+  const targets = urls.filter((url) => {
+    const key = ueEndpointKey(url);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return Promise.all(targets.map(async (url) => ({ url, result: await send(url) })));
+}
+
+/** Send one payload to every engine in parallel. */
+export function broadcastUeCommand(
+  urls: string[],
+  payload: UeCommandPayload,
+): Promise<UeEngineResult[]> {
+  return broadcastToEngines(urls, (url) => sendUeCommand(url, payload));
 }
 
 // ─── Health check ────────────────────────────────────────────────────────────
 
+export interface UeHealthResult {
+  reachable: boolean;
+  /** TCP connect latency measured by the dev server (null when unreachable) */
+  latencyMs: number | null;
+}
+
 /**
  * Check if UE Remote API is reachable.
- * Sends a no-op POST through the Vite proxy and treats any non-5xx response as healthy.
+ * Calls the Vite proxy's `/ue-health` route, which opens a TCP connection
+ * to the `X-Ue-Target` host — no UE command is sent, so UE can't reject it.
  */
-export async function checkUeApiHealth(baseUrl: string): Promise<boolean> {
-  if (!baseUrl) return false;
+export async function checkUeApiHealth(baseUrl: string): Promise<UeHealthResult> {
+  if (!baseUrl) return { reachable: false, latencyMs: null };
 
   const normalizedBase = baseUrl.replace(/\/+$/, '');
   const controller = new AbortController();
   const timer = window.setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
 
   try {
-    const res = await fetch('/ue-api/ravatar', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Ue-Target': normalizedBase,
-      },
-      body: JSON.stringify({ command: 'ping' }),
+    const res = await fetch('/ue-health', {
+      method: 'GET',
+      headers: { 'X-Ue-Target': normalizedBase },
       signal: controller.signal,
     });
-    // Any response from UE (including 500 for unknown commands) means UE is up.
-    // Only 502/504 from our Vite proxy mean UE is truly unreachable.
-    return res.status < 502;
+    if (!res.ok) return { reachable: false, latencyMs: null };
+
+    const body = (await res.json().catch(() => null)) as { latencyMs?: unknown } | null;
+    return {
+      reachable: true,
+      latencyMs: typeof body?.latencyMs === 'number' ? body.latencyMs : null,
+    };
   } catch {
-    return false;
+    return { reachable: false, latencyMs: null };
   } finally {
     window.clearTimeout(timer);
   }
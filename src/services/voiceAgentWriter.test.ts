@@ -77,6 +77,21 @@ const {
   stopProcess,
   getProcessStatus,
   checkPixelStreamingStatus,
+  getFaceCaptureState,
+  sendFaceCapture,
+  getAvatarCatalog,
+  getLevelCatalog,
+  listBackgrounds,
+  uploadBackground,
+  deleteBackground,
+  getProcessLogs,
+  subscribeProcessLogs,
+  getRestartPolicies,
+  setRestartPolicy,
+  getStartupProfiles,
+  getStackStatus,
+  startStack,
+  stopStack,
 } = await import('./voiceAgentWriter');
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -280,6 +295,84 @@ describe('writeVoiceAgentToFile', () => {
   });
 });
 
+// ═══════════════════════════════════════════════════════════════════════════
+// getFaceCaptureState / sendFaceCapture
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('getFaceCaptureState', () => {
+  it('parses enabled, ueApiUrl and updatedAt', async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockResponse({
+        ok: true,
+        enabled: true,
+        ueApiUrl: 'http://127.0.0.1:8081',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+      }),
+    );
+
+    const state = await getFaceCaptureState();
+    expect(state).toEqual({
+      enabled: true,
+      ueApiUrl: 'http://127.0.0.1:8081',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('defaults to disabled when fields are missing', async () => {
+    mockFetch.mockResolvedValueOnce(mockResponse({ ok: true }));
+
+    const state = await getFaceCaptureState();
+    expect(state).toEqual({ enabled: false, ueApiUrl: '', updatedAt: null });
+  });
+});
+
+describe('sendFaceCapture', () => {
+  it('sends enabled flag and UE URL in body', async () => {
+    mockFetch.mockResolvedValueOnce(mockResponse({ ok: true, enabled: true }));
+
+    await sendFaceCapture(true, 'http://ue:8081');
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      `${WRITER_BASE_URL}/face-capture`,
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ enabled: true, ueApiUrl: 'http://ue:8081' }),
+      }),
+    );
+  });
+
+  it('omits ueApiUrl when not provided', async () => {
+    mockFetch.mockResolvedValueOnce(mockResponse({ ok: true, enabled: false }));
+
+    const result = await sendFaceCapture(false);
+
+    expect(result.ok).toBe(true);
+    expect(result.state?.enabled).toBe(false);
+    expect(mockFetch).toHaveBeenCalledWith(
+      `${WRITER_BASE_URL}/face-capture`,
+      expect.objectContaining({ body: JSON.stringify({ enabled: false }) }),
+    );
+  });
+
+  it('returns ok=false with backend error when UE is unreachable', async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockResponse({ ok: false, error: 'UE API unreachable' }, { status: 502 }),
+    );
+
+    const result = await sendFaceCapture(true, 'http://ue:8081');
+    expect(result.ok).toBe(false);
+    expect(result.error).toBe('UE API unreachable');
+  });
+
+  it('returns ok=false on network error instead of throwing', async () => {
+    mockFetch.mockRejectedValueOnce(new Error('Failed to fetch'));
+
+    const result = await sendFaceCapture(true);
+    expect(result.ok).toBe(false);
+    expect(result.error).toBe('Failed to fetch');
+  });
+});
+
 // ═══════════════════════════════════════════════════════════════════════════
 // startProcess / stopProcess
 // ═══════════════════════════════════════════════════════════════════════════
@@ -332,6 +425,33 @@ describe('stopProcess', () => {
   });
 });
 
+describe('process operation queue', () => {
+  it('queues per processId and sends a stop past a start still in flight', async () => {
+    let finishKioskStart: (response: Response) => void = () => {};
+    mockFetch
+      .mockImplementationOnce(() => new Promise<Response>((resolve) => { finishKioskStart = resolve; }))
+      .mockImplementation(() => Promise.resolve(mockResponse({ pid: 1 })));
+    const sent = () => mockFetch.mock.calls.map(([url, init]) => `${String(url).split('/').pop()} ${String(init?.body)}`);
+
+    const kioskStart = startProcess('/kiosk.exe', 'kiosk');
+    await startProcess('/hub.exe', 'hub');
+    await stopProcess('kiosk');
+    const kioskRestart = startProcess('/kiosk.exe', 'kiosk');
+    await Promise.resolve();
+
+    expect(sent()).toEqual([
+      'start {"exePath":"/kiosk.exe","processId":"kiosk"}',
+      'start {"exePath":"/hub.exe","processId":"hub"}',
+      'stop {"processId":"kiosk"}',
+    ]);
+
+    finishKioskStart(mockResponse({ error: 'Stopped during startup' }, { status: 500 }));
+    await expect(kioskStart).resolves.toEqual({ ok: false, error: 'Stopped during startup' });
+    await kioskRestart;
+    expect(sent()).toHaveLength(4);
+  });
+});
+
 // ═══════════════════════════════════════════════════════════════════════════
 // getProcessStatus
 // ═══════════════════════════════════════════════════════════════════════════
@@ -352,8 +472,66 @@ describe('getProcessStatus', () => {
     const result = await getProcessStatus();
     expect(result.running).toBe(true);
     expect(result.pid).toBe(999);
-    expect(result.processes.kiosk).toEqual({ running: true, pid: 1001 });
-    expect(result.processes.holobox).toEqual({ running: false, pid: null });
+    expect(result.processes.kiosk).toEqual({
+      running: true,
+      pid: 1001,
+      restartPolicy: null,
+      supervisor: null,
+      startup: null,
+    });
+    expect(result.processes.holobox).toEqual({
+      running: false,
+      pid: null,
+      restartPolicy: null,
+      supervisor: null,
+      startup: null,
+    });
+  });
+
+  it('parses restart policy and supervisor state', async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockResponse({
+        running: false,
+        pid: null,
+        processes: {
+          'kiosk-app': {
+            running: false,
+            pid: null,
+            restartPolicy: { policy: 'on-failure', maxRetries: 3 },
+            supervisor: { state: 'backoff', restarts: 2, lastExitCode: 1, lastExitSignal: null, nextRestartAt: 5000 },
+            startup: { phase: 'failed', waitingFor: null, error: 'Not ready after 30s (waiting for port 127.0.0.1:8080)' },
+          },
+          'agentic-proxy': { running: true, pid: 7, restartPolicy: { policy: 'bogus' }, supervisor: { state: '?' } },
+        },
+      }),
+    );
+
+    const { processes } = await getProcessStatus();
+    expect(processes['kiosk-app']).toEqual({
+      running: false,
+      pid: null,
+      restartPolicy: { policy: 'on-failure', maxRetries: 3 },
+      supervisor: { state: 'backoff', restarts: 2, lastExitCode: 1, nextRestartAt: 5000 },
+      startup: { phase: 'failed', waitingFor: null, error: 'Not ready after 30s (waiting for port 127.0.0.1:8080)' },
+    });
+    expect(processes['agentic-proxy']).toMatchObject({ restartPolicy: null, supervisor: null });
+  });
+
+  it('reports what a start is waiting for', async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockResponse({
+        running: false,
+        pid: null,
+        processes: {
+          'kiosk-app': { running: false, pid: null, startup: { phase: 'waiting', waitingFor: 'port 127.0.0.1:8080', error: null } },
+          'agentic-proxy': { running: true, pid: 7, startup: { phase: 'warming up' } },
+        },
+      }),
+    );
+
+    const { processes } = await getProcessStatus();
+    expect(processes['kiosk-app']?.startup).toEqual({ phase: 'waiting', waitingFor: 'port 127.0.0.1:8080', error: null });
+    expect(processes['agentic-proxy']?.startup).toBeNull();
   });
 
   it('handles missing processes field gracefully', async () => {
@@ -368,6 +546,111 @@ describe('getProcessStatus', () => {
   });
 });
 
+// ═══════════════════════════════════════════════════════════════════════════
+// Restart policies
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('restart policies', () => {
+  it('reads valid policies only', async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockResponse({
+        ok: true,
+        policies: { 'kiosk-app': { policy: 'always', maxRetries: 5 }, other: { policy: 'x', maxRetries: 1 } },
+      }),
+    );
+
+    expect(await getRestartPolicies()).toEqual({ 'kiosk-app': { policy: 'always', maxRetries: 5 } });
+  });
+
+  it('posts a policy and reports backend errors', async () => {
+    mockFetch.mockResolvedValueOnce(mockResponse({ ok: true }));
+    expect(await setRestartPolicy('kiosk-app', { policy: 'on-failure', maxRetries: 2 })).toEqual({ ok: true });
+    const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe(`${WRITER_BASE_URL}/process/policy`);
+    expect(JSON.parse(init.body as string)).toEqual({ processId: 'kiosk-app', policy: 'on-failure', maxRetries: 2 });
+
+    mockFetch.mockResolvedValueOnce(mockResponse({ ok: false, error: 'processId and a policy are required' }, { status: 400 }));
+    expect(await setRestartPolicy('', { policy: 'never', maxRetries: 0 })).toEqual({
+      ok: false,
+      error: 'processId and a policy are required',
+    });
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Startup profiles / stack
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('startup profiles', () => {
+  it('lists profiles with their process ids', async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockResponse({
+        ok: true,
+        profiles: {
+          kiosk: {
+            label: 'Kiosk stack',
+            processes: [{ id: 'agentic-proxy', dependsOn: [] }, { id: 'kiosk-app', dependsOn: ['agentic-proxy'] }],
+          },
+        },
+      }),
+    );
+
+    expect(await getStartupProfiles()).toEqual([
+      { name: 'kiosk', label: 'Kiosk stack', processIds: ['agentic-proxy', 'kiosk-app'] },
+    ]);
+  });
+
+  it('maps run steps and drops unknown phases', async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockResponse({
+        ok: true,
+        run: {
+          profile: 'kiosk',
+          action: 'start',
+          state: 'running',
+          steps: [
+            { id: 'agentic-proxy', phase: 'ready', error: null },
+            { id: 'kiosk-app', phase: 'waiting', error: null },
+            { id: 'livelink-hub', phase: 'bogus' },
+          ],
+        },
+      }),
+    );
+
+    expect(await getStackStatus()).toEqual({
+      profile: 'kiosk',
+      action: 'start',
+      state: 'running',
+      steps: [
+        { processId: 'agentic-proxy', phase: 'ready', error: null },
+        { processId: 'kiosk-app', phase: 'waiting', error: null },
+      ],
+    });
+
+    mockFetch.mockResolvedValueOnce(mockResponse({ ok: true, run: null }));
+    expect(await getStackStatus()).toBeNull();
+  });
+
+  it('posts start with exe paths and stop with the profile only', async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockResponse({ ok: true, run: { profile: 'kiosk', action: 'start', state: 'running', steps: [] } }, { status: 202 }),
+    );
+    expect(await startStack('kiosk', { 'kiosk-app': '/srv/kiosk/run.sh' })).toEqual({
+      ok: true,
+      run: { profile: 'kiosk', action: 'start', state: 'running', steps: [] },
+    });
+    const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe(`${WRITER_BASE_URL}/stack/start`);
+    expect(JSON.parse(init.body as string)).toEqual({ profile: 'kiosk', exePaths: { 'kiosk-app': '/srv/kiosk/run.sh' } });
+
+    mockFetch.mockResolvedValueOnce(mockResponse({ ok: false, error: 'Stack start of kiosk still running' }, { status: 409 }));
+    expect(await stopStack('kiosk')).toEqual({ ok: false, error: 'Stack start of kiosk still running' });
+    const [stopUrl, stopInit] = mockFetch.mock.calls[1] as [string, RequestInit];
+    expect(stopUrl).toBe(`${WRITER_BASE_URL}/stack/stop`);
+    expect(JSON.parse(stopInit.body as string)).toEqual({ profile: 'kiosk' });
+  });
+});
+
 // ═══════════════════════════════════════════════════════════════════════════
 // checkPixelStreamingStatus
 // ═══════════════════════════════════════════════════════════════════════════
@@ -379,3 +662,170 @@ describe('checkPixelStreamingStatus', () => {
     expect(mockFetch).not.toHaveBeenCalled();
   });
 });
+
+// ═══════════════════════════════════════════════════════════════════════════
+// getAvatarCatalog
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('getAvatarCatalog', () => {
+  it('parses entries and makes thumbnail URLs absolute', async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockResponse({
+        ok: true,
+        avatars: [
+          {
+            id: 'AV_Anna',
+            name: 'Anna',
+            thumbnailPath: 'thumbs/anna.png',
+            thumbnailUrl: '/avatars/thumbnail?id=AV_Anna',
+            tags: ['female', 7],
+          },
+          { id: 'AV_Max' },
+          { name: 'No id' },
+        ],
+      }),
+    );
+
+    const avatars = await getAvatarCatalog();
+    expect(mockFetch.mock.calls[0]![0]).toBe('http://127.0.0.1:3210/avatars');
+    expect(avatars).toEqual([
+      {
+        id: 'AV_Anna',
+        name: 'Anna',
+        thumbnailPath: 'thumbs/anna.png',
+        thumbnailUrl: 'http://127.0.0.1:3210/avatars/thumbnail?id=AV_Anna',
+        tags: ['female'],
+      },
+      { id: 'AV_Max', name: 'AV_Max', thumbnailPath: null, thumbnailUrl: null, tags: [] },
+    ]);
+  });
+
+  it('throws the backend error for an unreadable catalogue', async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockResponse({ ok: false, error: 'Avatar catalogue is not valid JSON' }, { status: 500 }),
+    );
+
+    await expect(getAvatarCatalog()).rejects.toThrow('Avatar catalogue is not valid JSON');
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// getLevelCatalog
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('getLevelCatalog', () => {
+  it('parses levels and derives missing labels from the id', async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockResponse({
+        ok: true,
+        levels: [{ id: 'LVL_Master_Beach', label: 'Beach' }, { id: 'LVL_Master_RoofTop' }],
+      }),
+    );
+
+    expect(await getLevelCatalog()).toEqual([
+      { id: 'LVL_Master_Beach', label: 'Beach' },
+      { id: 'LVL_Master_RoofTop', label: 'Roof Top' },
+    ]);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Custom backgrounds
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('custom backgrounds', () => {
+  const beach = {
+    id: 'beach.mp4',
+    kind: 'video',
+    size: 1024,
+    modifiedAt: '2026-01-01T00:00:00.000Z',
+    path: 'C:/rvtr/backgrounds/beach.mp4',
+    url: '/backgrounds/file?id=beach.mp4',
+  };
+
+  it('lists backgrounds with absolute file URLs, dropping malformed entries', async () => {
+    mockFetch.mockResolvedValueOnce(mockResponse({ ok: true, backgrounds: [beach, { id: 42 }] }));
+
+    expect(await listBackgrounds()).toEqual([
+      { ...beach, url: `${WRITER_BASE_URL}/backgrounds/file?id=beach.mp4` },
+    ]);
+  });
+
+  it('uploads the raw file under its name and content type', async () => {
+    mockFetch.mockResolvedValueOnce(mockResponse({ ok: true, background: beach }));
+    const file = new File(['data'], 'my beach.mp4', { type: 'video/mp4' });
+
+    const result = await uploadBackground(file);
+
+    expect(result.ok).toBe(true);
+    expect(result.background?.path).toBe(beach.path);
+    const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe(`${WRITER_BASE_URL}/backgrounds/upload?name=my%20beach.mp4`);
+    expect(init.body).toBe(file);
+    expect((init.headers as Record<string, string>)['Content-Type']).toBe('video/mp4');
+  });
+
+  it('reports upload and delete errors from the backend', async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockResponse({ ok: false, error: 'Unsupported background file: a.gif' }, { status: 400 }),
+    );
+    expect(await uploadBackground(new File([''], 'a.gif'))).toEqual({
+      ok: false,
+      error: 'Unsupported background file: a.gif',
+    });
+
+    mockFetch.mockResolvedValueOnce(
+      mockResponse({ ok: false, error: 'Background not found: gone.png' }, { status: 404 }),
+    );
+    expect(await deleteBackground('gone.png')).toEqual({
+      ok: false,
+      error: 'Background not found: gone.png',
+    });
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Process logs
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('process logs', () => {
+  const line = { seq: 4, at: '2026-10-19T10:00:00.000Z', stream: 'stderr', line: 'port in use' };
+
+  it('reads stored lines and drops malformed ones', async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockResponse({ ok: true, entries: [line, { seq: 'x' }, { ...line, stream: 'other' }], nextSeq: 5 }),
+    );
+
+    const result = await getProcessLogs('livelink-hub', { since: 3 });
+
+    expect(result).toEqual({ entries: [line], nextSeq: 5 });
+    expect(mockFetch.mock.calls[0]?.[0]).toBe(
+      `${WRITER_BASE_URL}/process/livelink-hub/logs?since=3&limit=2000`,
+    );
+  });
+
+  it('streams parsed lines until closed', () => {
+    const sources: { url: string; onmessage: ((e: { data: string }) => void) | null; close: () => void }[] = [];
+    vi.stubGlobal(
+      'EventSource',
+      vi.fn(function (this: (typeof sources)[number], url: string) {
+        this.url = url;
+        this.onmessage = null;
+        this.close = vi.fn();
+        sources.push(this);
+      }),
+    );
+    const onEntry = vi.fn();
+
+    const close = subscribeProcessLogs('kiosk-app', onEntry, { since: 12 });
+    const source = sources[0]!;
+    source.onmessage?.({ data: JSON.stringify(line) });
+    source.onmessage?.({ data: 'not json' });
+    close();
+
+    expect(source.url).toBe(`${WRITER_BASE_URL}/process/kiosk-app/logs/stream?since=12`);
+    expect(onEntry).toHaveBeenCalledTimes(1);
+    expect(onEntry).toHaveBeenCalledWith(line);
+    expect(source.close).toHaveBeenCalled();
+  });
+});
@@ -5,16 +5,25 @@
  *  - License file path CRUD (GET/POST /config, /config/browse, /config/validate)
  *  - Global executable path (POST /config/exe, /config/browse-exe)
  *  - Voice agent read/write to the license file (GET/POST /voice-agent)
+ *  - Face capture toggle forwarded to UE (GET/POST /face-capture)
+ *  - Avatar catalogue for the UE avatar picker (GET /avatars)
+ *  - UE level catalogue, the `backend` level source (GET /levels)
+ *  - Custom background files: list, upload, delete (GET /backgrounds, POST /backgrounds/*)
  *  - Process lifecycle: start, stop, restart, status (POST/GET /process/*)
+ *  - Restart policies for the backend's process supervisor (GET/POST /process/polic{ies,y})
+ *  - Startup profiles: start / stop the kiosk stack in order (GET/POST /stack/*)
+ *  - Process output logs, stored and live via SSE (GET /process/:id/logs[/stream])
  *
  * All requests use fetchWithTimeout (5s default) to avoid hanging when backend is down.
- * Browse endpoints use 120s timeout because they block on native OS file picker.
+ * Browse endpoints use 120s timeout because they block on native OS file picker;
+ * background uploads get the same budget for large videos.
  *
  * Error handling: every endpoint returns a typed result object with ok/error fields
  * instead of throwing, so callers can show user-friendly messages without try/catch.
  * Internal helpers (ensureOk, parseJsonSafely) handle malformed responses gracefully.
  */
 import type { VoiceAgent } from '@/stores/settingsStore';
+import { parseUeLevels, type UeLevel } from '@/stores/ueControlStore';
 
 /** Backend runs on localhost — not configurable, hardcoded by agent-option-writer */
 const WRITER_BASE_URL = 'http://127.0.0.1:3210';
@@ -327,15 +336,61 @@ export async function forceRewriteVoiceAgentFile(
 // Face capture — human assistant mode
 // ---------------------------------------------------------------------------
 
+export interface FaceCaptureState {
+  enabled: boolean;
+  /** UE Remote API URL the backend last sent the command to */
+  ueApiUrl: string;
+  /** ISO timestamp of the last confirmed change (null = never set) */
+  updatedAt: string | null;
+}
+
+function parseFaceCaptureState(record: Record<string, unknown>): FaceCaptureState {
+  return {
+    enabled: record.enabled === true,
+    ueApiUrl: typeof record.ueApiUrl === 'string' ? record.ueApiUrl : '',
+    updatedAt: typeof record.updatedAt === 'string' ? record.updatedAt : null,
+  };
+}
+
+/** GET /face-capture — last face capture state confirmed by UE */
+export async function getFaceCaptureState(): Promise<FaceCaptureState> {
+  const response = await fetchWithTimeout(`${WRITER_BASE_URL}/face-capture`);
+  const payload = await ensureOk(response, 'Failed to read face capture state');
+  const record = (payload && typeof payload === 'object' ? payload : {}) as Record<
+    string,
+    unknown
+  >;
+
+  return parseFaceCaptureState(record);
+}
+
+/**
+ * The backend gives UE 5s (UE_REQUEST_TIMEOUT_MS in face-capture.mjs); the
+ * request waits longer so its "UE API unreachable" error reaches the UI.
+ */
+const FACE_CAPTURE_TIMEOUT_MS = 10_000;
+
+/**
+ * POST /face-capture — backend forwards a FaceCapture command to UE.
+ * `ueApiUrl` is remembered by the backend; omit it to reuse the last one.
+ */
 export async function sendFaceCapture(
   enabled: boolean,
-): Promise<{ ok: boolean; error?: string }> {
+  ueApiUrl?: string,
+): Promise<{ ok: boolean; error?: string; state?: FaceCaptureState }> {
   try {
-    const response = await fetchWithTimeout(`${WRITER_BASE_URL}/face-capture`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ enabled }),
-    });
+    const body: Record<string, unknown> = { enabled };
+    if (ueApiUrl) body.ueApiUrl = ueApiUrl;
+
+    const response = await fetchWithTimeout(
+      `${WRITER_BASE_URL}/face-capture`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      },
+      FACE_CAPTURE_TIMEOUT_MS,
+    );
 
     const payload = await parseJsonSafely(response);
     const record = (payload && typeof payload === 'object' ? payload : {}) as Record<
@@ -351,7 +406,7 @@ export async function sendFaceCapture(
       };
     }
 
-    return { ok: true };
+    return { ok: true, state: parseFaceCaptureState(record) };
   } catch (err) {
     return {
       ok: false,
@@ -360,6 +415,165 @@ export async function sendFaceCapture(
   }
 }
 
+// ---------------------------------------------------------------------------
+// Avatar catalogue — avatars.json served by the backend
+// ---------------------------------------------------------------------------
+
+export interface AvatarCatalogEntry {
+  /** UE avatar id sent with ChangeAvatarByID */
+  id: string;
+  name: string;
+  /** Path as written in the catalogue file (null = no thumbnail) */
+  thumbnailPath: string | null;
+  /** Absolute URL of the thumbnail image served by the backend */
+  thumbnailUrl: string | null;
+  tags: string[];
+}
+
+function parseAvatarCatalogEntry(value: unknown): AvatarCatalogEntry | null {
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+  if (typeof record.id !== 'string' || !record.id) return null;
+
+  return {
+    id: record.id,
+    name: typeof record.name === 'string' && record.name ? record.name : record.id,
+    thumbnailPath: typeof record.thumbnailPath === 'string' ? record.thumbnailPath : null,
+    thumbnailUrl:
+      typeof record.thumbnailUrl === 'string' ? `${WRITER_BASE_URL}${record.thumbnailUrl}` : null,
+    tags: Array.isArray(record.tags)
+      ? record.tags.filter((t): t is string => typeof t === 'string')
+      : [],
+  };
+}
+
+/** GET /avatars — avatar catalogue (empty when the backend has no catalogue file) */
+export async function getAvatarCatalog(): Promise<AvatarCatalogEntry[]> {
+  const response = await fetchWithTimeout(`${WRITER_BASE_URL}/avatars`);
+  const payload = await ensureOk(response, 'Failed to load avatar catalogue');
+  const avatars =
+    payload && typeof payload === 'object' ? (payload as { avatars?: unknown }).avatars : null;
+
+  return Array.isArray(avatars)
+    ? avatars.map(parseAvatarCatalogEntry).filter((a): a is AvatarCatalogEntry => a !== null)
+    : [];
+}
+
+// ---------------------------------------------------------------------------
+// Level catalogue — levels.json served by the backend
+// ---------------------------------------------------------------------------
+
+/** GET /levels — UE levels from the backend's catalogue file (empty when it has none) */
+export async function getLevelCatalog(): Promise<UeLevel[]> {
+  const response = await fetchWithTimeout(`${WRITER_BASE_URL}/levels`);
+  const payload = await ensureOk(response, 'Failed to load level catalogue');
+  return parseUeLevels(payload);
+}
+
+// ---------------------------------------------------------------------------
+// Custom backgrounds — files for LVL_Master_CustomBackground
+// ---------------------------------------------------------------------------
+
+const UPLOAD_TIMEOUT_MS = 120_000;
+
+export interface BackgroundFile {
+  /** File name in the backend's backgrounds folder */
+  id: string;
+  kind: 'image' | 'video';
+  size: number;
+  /** ISO timestamp */
+  modifiedAt: string;
+  /** Absolute path on the backend machine — sent to UE */
+  path: string;
+  /** Absolute URL of the file served by the backend */
+  url: string;
+}
+
+function parseBackgroundFile(value: unknown): BackgroundFile | null {
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+  if (typeof record.id !== 'string' || typeof record.path !== 'string') return null;
+
+  return {
+    id: record.id,
+    kind: record.kind === 'video' ? 'video' : 'image',
+    size: typeof record.size === 'number' ? record.size : 0,
+    modifiedAt: typeof record.modifiedAt === 'string' ? record.modifiedAt : '',
+    path: record.path,
+    url: `${WRITER_BASE_URL}${typeof record.url === 'string' ? record.url : ''}`,
+  };
+}
+
+/** GET /backgrounds — uploaded backgrounds, newest first */
+export async function listBackgrounds(): Promise<BackgroundFile[]> {
+  const response = await fetchWithTimeout(`${WRITER_BASE_URL}/backgrounds`);
+  const payload = await ensureOk(response, 'Failed to list backgrounds');
+  const backgrounds =
+    payload && typeof payload === 'object'
+      ? (payload as { backgrounds?: unknown }).backgrounds
+      : null;
+
+  return Array.isArray(backgrounds)
+    ? backgrounds.map(parseBackgroundFile).filter((b): b is BackgroundFile => b !== null)
+    : [];
+}
+
+/** POST /backgrounds/upload — file body as-is; the backend picks a unique file name */
+export async function uploadBackground(
+  file: File,
+): Promise<{ ok: boolean; error?: string; background?: BackgroundFile }> {
+  try {
+    const response = await fetchWithTimeout(
+      `${WRITER_BASE_URL}/backgrounds/upload?name=${encodeURIComponent(file.name)}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': file.type || 'application/octet-stream' },
+        body: file,
+      },
+      UPLOAD_TIMEOUT_MS,
+    );
+
+    const payload = await parseJsonSafely(response);
+    const record = (payload && typeof payload === 'object' ? payload : {}) as Record<
+      string,
+      unknown
+    >;
+    const background = parseBackgroundFile(record.background);
+
+    if (!response.ok || !background) {
+      return {
+        ok: false,
+        error: typeof record.error === 'string' ? record.error : 'Failed to upload background',
+      };
+    }
+
+    return { ok: true, background };
+  } catch (err) {
+    return {
+      ok: false,
+      error: err instanceof Error ? err.message : 'Failed to upload background',
+    };
+  }
+}
+
+/** POST /backgrounds/delete */
+export async function deleteBackground(id: string): Promise<{ ok: boolean; error?: string }> {
+  try {
+    const response = await fetchWithTimeout(`${WRITER_BASE_URL}/backgrounds/delete`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id }),
+    });
+    await ensureOk(response, 'Failed to delete background');
+    return { ok: true };
+  } catch (err) {
+    return {
+      ok: false,
+      error: err instanceof Error ? err.message : 'Failed to delete background',
+    };
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Executable path — global .bat/.sh for start2stream
 // ---------------------------------------------------------------------------
@@ -439,15 +653,38 @@ export async function browseForExe(): Promise<BrowseExeResult> {
 // ---------------------------------------------------------------------------
 // Process lifecycle — start2stream
 //
-// All mutating process operations are serialized through an async queue
-// to prevent concurrent HTTP requests that could create duplicate processes.
+// Mutating process operations are serialized per processId through an async
+// queue to prevent concurrent HTTP requests that could create duplicate
+// processes. A slow start only holds up its own processId; stack runs share
+// one queue of their own.
 // ---------------------------------------------------------------------------
 
-let processQueue: Promise<unknown> = Promise.resolve();
+/** Queue key of the legacy process without a processId (the backend's own key) */
+const DEFAULT_PROCESS_QUEUE = '__default__';
+/** Queue key of stack start / stop */
+const STACK_QUEUE = '__stack__';
+
+const processQueues = new Map<string, Promise<unknown>>();
 
-function enqueueProcessOp<T>(op: () => Promise<T>): Promise<T> {
-  const result = processQueue.then(op, op);
-  processQueue = result.catch(() => {});
+/**
+ * Start / restart answer once the process is ready — its readiness check
+ * may take up to 120s (MAX_READY_TIMEOUT_MS in readiness-probes.mjs).
+ */
+const PROCESS_START_TIMEOUT_MS = 130_000;
+
+/**
+ * Run `op` after the queued operations on `key`. With `jump`, it runs at
+ * once — a stop must reach a start that is still waiting for readiness —
+ * and later operations on `key` still wait for it.
+ */
+function enqueueProcessOp<T>(key: string, op: () => Promise<T>, { jump = false } = {}): Promise<T> {
+  const previous = processQueues.get(key) ?? Promise.resolve();
+  const result = jump ? op() : previous.then(op, op);
+  const tail = Promise.all([previous, result.catch(() => {})]);
+  processQueues.set(key, tail);
+  void tail.then(() => {
+    if (processQueues.get(key) === tail) processQueues.delete(key);
+  });
   return result;
 }
 
@@ -461,10 +698,12 @@ export interface ProcessStartResult {
  * POST /process/start — start a process.
  * If processId is provided, starts a named process (multiple can run concurrently).
  * Without processId, uses the legacy default slot (kills previous default process).
+ * Resolves once the process is ready (its readiness check passed, if it has one);
+ * getProcessStatus reports the phase meanwhile.
  * Serialized via async queue.
  */
 export function startProcess(exePath: string, processId?: string): Promise<ProcessStartResult> {
-  return enqueueProcessOp(async () => {
+  return enqueueProcessOp(processId || DEFAULT_PROCESS_QUEUE, async () => {
     const body: Record<string, string> = { exePath };
     if (processId) body.processId = processId;
 
@@ -475,7 +714,7 @@ export function startProcess(exePath: string, processId?: string): Promise<Proce
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(body),
       },
-      15_000,
+      PROCESS_START_TIMEOUT_MS,
     );
 
     const payload = await parseJsonSafely(response);
@@ -508,10 +747,11 @@ export interface ProcessStopResult {
  * POST /process/stop — stop a process.
  * If processId is provided, stops that specific named process.
  * Without processId, stops the legacy default process.
- * Serialized via async queue.
+ * Sent at once, even while a start of the same process is in flight (that
+ * start then fails as stopped); later operations on it wait for the stop.
  */
 export function stopProcess(processId?: string, exePath?: string): Promise<ProcessStopResult> {
-  return enqueueProcessOp(async () => {
+  return enqueueProcessOp(processId || DEFAULT_PROCESS_QUEUE, async () => {
     const body: Record<string, string> = {};
     if (processId) body.processId = processId;
     if (exePath) body.exePath = exePath;
@@ -541,7 +781,7 @@ export function stopProcess(processId?: string, exePath?: string): Promise<Proce
     }
 
     return { ok: true };
-  });
+  }, { jump: true });
 }
 
 export interface ProcessRestartResult {
@@ -552,11 +792,11 @@ export interface ProcessRestartResult {
 
 /** Restart the process. Serialized via async queue. */
 export function restartProcess(): Promise<ProcessRestartResult> {
-  return enqueueProcessOp(async () => {
+  return enqueueProcessOp(DEFAULT_PROCESS_QUEUE, async () => {
     const response = await fetchWithTimeout(
       `${WRITER_BASE_URL}/process/restart`,
       { method: 'POST' },
-      15_000,
+      PROCESS_START_TIMEOUT_MS,
     );
 
     const payload = await parseJsonSafely(response);
@@ -580,11 +820,106 @@ export function restartProcess(): Promise<ProcessRestartResult> {
   });
 }
 
+export type RestartPolicyName = 'never' | 'on-failure' | 'always';
+
+export const RESTART_POLICY_NAMES: RestartPolicyName[] = ['never', 'on-failure', 'always'];
+
+export interface RestartPolicy {
+  policy: RestartPolicyName;
+  /** Restarts allowed since the last manual start */
+  maxRetries: number;
+}
+
+/** What the backend applies to a processId without a policy (process-supervisor.mjs) */
+export const DEFAULT_RESTART_POLICY: RestartPolicy = { policy: 'never', maxRetries: 5 };
+
+/** Backend supervisor state of a process that was started */
+export type SupervisorState =
+  | 'running'
+  | 'backoff'
+  | 'restarting'
+  | 'exited'
+  | 'crash-loop'
+  | 'gave-up'
+  | 'stopped';
+
+export interface ProcessSupervision {
+  state: SupervisorState;
+  /** Automatic restarts since the last manual start */
+  restarts: number;
+  /** null = not exited yet, killed by a signal, or unknown (.lnk/.ahk) */
+  lastExitCode: number | null;
+  /** Epoch ms of the pending restart (state `backoff`) */
+  nextRestartAt: number | null;
+}
+
+/** starting = fixed start watch, waiting = readiness check (see `waitingFor`) */
+export type StartupPhase = 'starting' | 'waiting' | 'ready' | 'failed';
+
+export interface ProcessStartup {
+  phase: StartupPhase;
+  /** What the readiness check waits for, e.g. "port 127.0.0.1:8080" */
+  waitingFor: string | null;
+  error: string | null;
+}
+
+export interface ProcessStatusEntry {
+  running: boolean;
+  pid: number | null;
+  restartPolicy: RestartPolicy | null;
+  /** null = never started through the backend since it launched */
+  supervisor: ProcessSupervision | null;
+  /** Latest start; null = none since the backend launched */
+  startup: ProcessStartup | null;
+}
+
 export interface ProcessStatusResult {
   running: boolean;
   pid: number | null;
-  /** Per-process running states (keyed by processId). */
-  processes: Record<string, { running: boolean; pid: number | null }>;
+  /** Per-process states (keyed by processId): running or starting ones plus supervised ones that are down. */
+  processes: Record<string, ProcessStatusEntry>;
+}
+
+const SUPERVISOR_STATES: SupervisorState[] = [
+  'running',
+  'backoff',
+  'restarting',
+  'exited',
+  'crash-loop',
+  'gave-up',
+  'stopped',
+];
+
+function parseRestartPolicy(value: unknown): RestartPolicy | null {
+  if (!value || typeof value !== 'object') return null;
+  const r = value as Record<string, unknown>;
+  if (!(RESTART_POLICY_NAMES as unknown[]).includes(r.policy) || typeof r.maxRetries !== 'number') return null;
+  return { policy: r.policy as RestartPolicyName, maxRetries: r.maxRetries };
+}
+
+const STARTUP_PHASES: StartupPhase[] = ['starting', 'waiting', 'ready', 'failed'];
+
+function parseStartup(value: unknown): ProcessStartup | null {
+  if (!value || typeof value !== 'object') return null;
+  const r = value as Record<string, unknown>;
+  if (!(STARTUP_PHASES as unknown[]).includes(r.phase)) return null;
+  return {
+    phase: r.phase as StartupPhase,
+    waitingFor: typeof r.waitingFor === 'string' ? r.waitingFor : null,
+    error: typeof r.error === 'string' ? r.error : null,
+  };
+}
+
+function parseSupervision(value: unknown): ProcessSupervision | null {
+  if (!value || typeof value !== 'object') return null;
+  const r = value as Record<string, unknown>;
+  if (!(SUPERVISOR_STATES as unknown[]).includes(r.state)) return null;
+  return {
+    state: r.state as SupervisorState,
+    restarts: typeof r.restarts === 'number' ? r.restarts : 0,
+    lastExitCode: typeof r.lastExitCode === 'number' ? r.lastExitCode : null,
+    nextRestartAt: typeof r.nextRestartAt === 'number' ? r.nextRestartAt : null,
+  };
 }
 
 /** GET /process/status — check all process statuses */
@@ -595,13 +930,16 @@ export async function getProcessStatus(): Promise<ProcessStatusResult> {
   const r = record as Record<string, unknown> | null;
 
   const rawProcesses = r?.processes as Record<string, Record<string, unknown>> | undefined;
-  const processes: Record<string, { running: boolean; pid: number | null }> = {};
+  const processes: Record<string, ProcessStatusEntry> = {};
   if (rawProcesses && typeof rawProcesses === 'object') {
     for (const [key, val] of Object.entries(rawProcesses)) {
       if (val && typeof val === 'object') {
         processes[key] = {
           running: val.running === true,
           pid: typeof val.pid === 'number' ? val.pid : null,
+          restartPolicy: parseRestartPolicy(val.restartPolicy),
+          supervisor: parseSupervision(val.supervisor),
+          startup: parseStartup(val.startup),
         };
       }
     }
@@ -614,6 +952,261 @@ export async function getProcessStatus(): Promise<ProcessStatusResult> {
   };
 }
 
+/** GET /process/policies — restart policies set per processId (unset = never) */
+export async function getRestartPolicies(): Promise<Record<string, RestartPolicy>> {
+  const response = await fetchWithTimeout(`${WRITER_BASE_URL}/process/policies`);
+  const payload = await ensureOk(response, 'Failed to read restart policies');
+  const raw = payload && typeof payload === 'object' ? (payload as Record<string, unknown>).policies : null;
+  const policies: Record<string, RestartPolicy> = {};
+  if (raw && typeof raw === 'object') {
+    for (const [processId, value] of Object.entries(raw)) {
+      const policy = parseRestartPolicy(value);
+      if (policy) policies[processId] = policy;
+    }
+  }
+  return policies;
+}
+
+/** POST /process/policy — set a process's restart policy (applies to its next exit) */
+export async function setRestartPolicy(
+  processId: string,
+  { policy, maxRetries }: RestartPolicy,
+): Promise<{ ok: boolean; error?: string }> {
+  const response = await fetchWithTimeout(`${WRITER_BASE_URL}/process/policy`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ processId, policy, maxRetries }),
+  });
+  const payload = await parseJsonSafely(response);
+  const record = (payload && typeof payload === 'object' ? payload : {}) as Record<string, unknown>;
+  if (!response.ok) {
+    return {
+      ok: false,
+      error: typeof record.error === 'string' ? record.error : 'Failed to set restart policy',
+    };
+  }
+  return { ok: true };
+}
+
+// ---------------------------------------------------------------------------
+// Startup profiles — start / stop a whole stack in dependency order
+// ---------------------------------------------------------------------------
+
+export interface StartupProfileSummary {
+  name: string;
+  label: string;
+  /** Listed order */
+  processIds: string[];
+}
+
+export type StackStepPhase =
+  | 'pending'
+  | 'starting'
+  | 'waiting'
+  | 'ready'
+  | 'failed'
+  | 'skipped'
+  | 'stopping'
+  | 'stopped';
+
+export interface StackStep {
+  processId: string;
+  phase: StackStepPhase;
+  error: string | null;
+}
+
+export interface StackRun {
+  profile: string;
+  action: 'start' | 'stop';
+  state: 'running' | 'done' | 'failed';
+  /** In run order */
+  steps: StackStep[];
+}
+
+const STACK_STEP_PHASES: StackStepPhase[] = [
+  'pending',
+  'starting',
+  'waiting',
+  'ready',
+  'failed',
+  'skipped',
+  'stopping',
+  'stopped',
+];
+
+function parseStackRun(value: unknown): StackRun | null {
+  if (!value || typeof value !== 'object') return null;
+  const r = value as Record<string, unknown>;
+  if (
+    typeof r.profile !== 'string' ||
+    (r.action !== 'start' && r.action !== 'stop') ||
+    (r.state !== 'running' && r.state !== 'done' && r.state !== 'failed')
+  ) {
+    return null;
+  }
+  const steps = Array.isArray(r.steps)
+    ? r.steps.flatMap((step: unknown): StackStep[] => {
+        const s = (step && typeof step === 'object' ? step : {}) as Record<string, unknown>;
+        if (typeof s.id !== 'string' || !(STACK_STEP_PHASES as unknown[]).includes(s.phase)) return [];
+        return [
+          {
+            processId: s.id,
+            phase: s.phase as StackStepPhase,
+            error: typeof s.error === 'string' ? s.error : null,
+          },
+        ];
+      })
+    : [];
+  return { profile: r.profile, action: r.action, state: r.state, steps };
+}
+
+/** GET /stack/profiles — startup profiles from the writer config (or the built-in one) */
+export async function getStartupProfiles(): Promise<StartupProfileSummary[]> {
+  const response = await fetchWithTimeout(`${WRITER_BASE_URL}/stack/profiles`);
+  const payload = await ensureOk(response, 'Failed to read startup profiles');
+  const raw = payload && typeof payload === 'object' ? (payload as Record<string, unknown>).profiles : null;
+  if (!raw || typeof raw !== 'object') return [];
+  return Object.entries(raw as Record<string, unknown>).map(([name, value]) => {
+    const r = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+    const processes = Array.isArray(r.processes) ? (r.processes as unknown[]) : [];
+    return {
+      name,
+      label: typeof r.label === 'string' ? r.label : name,
+      processIds: processes.flatMap((p) =>
+        p && typeof p === 'object' && typeof (p as { id?: unknown }).id === 'string'
+          ? [(p as { id: string }).id]
+          : [],
+      ),
+    };
+  });
+}
+
+/** GET /stack/status — the last stack run (null = none since the backend started) */
+export async function getStackStatus(): Promise<StackRun | null> {
+  const response = await fetchWithTimeout(`${WRITER_BASE_URL}/stack/status`);
+  const payload = await ensureOk(response, 'Failed to read stack status');
+  return parseStackRun(payload && typeof payload === 'object' ? (payload as Record<string, unknown>).run : null);
+}
+
+async function postStack(
+  action: 'start' | 'stop',
+  body: Record<string, unknown>,
+): Promise<{ ok: boolean; run?: StackRun; error?: string }> {
+  const response = await fetchWithTimeout(`${WRITER_BASE_URL}/stack/${action}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const payload = await parseJsonSafely(response);
+  const record = (payload && typeof payload === 'object' ? payload : {}) as Record<string, unknown>;
+  if (!response.ok) {
+    return {
+      ok: false,
+      error: typeof record.error === 'string' ? record.error : `Failed to ${action} stack`,
+    };
+  }
+  return { ok: true, run: parseStackRun(record.run) ?? undefined };
+}
+
+/**
+ * POST /stack/start — start a profile's processes in dependency order.
+ * Answers once the run began; follow it with getStackStatus.
+ * Processes already running are kept, not restarted.
+ */
+export function startStack(
+  profile: string,
+  exePaths: Record<string, string>,
+): Promise<{ ok: boolean; run?: StackRun; error?: string }> {
+  return enqueueProcessOp(STACK_QUEUE, () => postStack('start', { profile, exePaths }));
+}
+
+/** POST /stack/stop — stop a profile's processes, dependents first */
+export function stopStack(profile: string): Promise<{ ok: boolean; run?: StackRun; error?: string }> {
+  return enqueueProcessOp(STACK_QUEUE, () => postStack('stop', { profile }));
+}
+
+// ---------------------------------------------------------------------------
+// Process logs — stdout/stderr lines the backend keeps per processId
+// ---------------------------------------------------------------------------
+
+/** `system` = the backend's own notes (started / exited) */
+export type ProcessLogStream = 'stdout' | 'stderr' | 'system';
+
+export interface ProcessLogEntry {
+  /** Increases across restarts of the same processId */
+  seq: number;
+  /** ISO timestamp */
+  at: string;
+  stream: ProcessLogStream;
+  line: string;
+}
+
+export interface ProcessLogsResult {
+  entries: ProcessLogEntry[];
+  /** Seq the next line will get */
+  nextSeq: number;
+}
+
+/** A log entry from the backend, or null if malformed */
+export function parseProcessLogEntry(value: unknown): ProcessLogEntry | null {
+  if (!value || typeof value !== 'object') return null;
+  const r = value as Record<string, unknown>;
+  if (
+    typeof r.seq !== 'number' ||
+    typeof r.at !== 'string' ||
+    typeof r.line !== 'string' ||
+    (r.stream !== 'stdout' && r.stream !== 'stderr' && r.stream !== 'system')
+  ) {
+    return null;
+  }
+  return { seq: r.seq, at: r.at, stream: r.stream, line: r.line };
+}
+
+/** GET /process/:id/logs — stored lines after `since`, at most the newest `limit` */
+export async function getProcessLogs(
+  processId: string,
+  { since = 0, limit = 2_000 }: { since?: number; limit?: number } = {},
+): Promise<ProcessLogsResult> {
+  const response = await fetchWithTimeout(
+    `${WRITER_BASE_URL}/process/${encodeURIComponent(processId)}/logs?since=${since}&limit=${limit}`,
+  );
+  const payload = await ensureOk(response, 'Failed to read process logs');
+  const r = (payload && typeof payload === 'object' ? payload : {}) as Record<string, unknown>;
+  const entries = Array.isArray(r.entries)
+    ? r.entries.map(parseProcessLogEntry).filter((e): e is ProcessLogEntry => e !== null)
+    : [];
+  return { entries, nextSeq: typeof r.nextSeq === 'number' ? r.nextSeq : 1 };
+}
+
+/**
+ * GET /process/:id/logs/stream — Server-Sent Events: stored lines after
+ * `since`, then every new line. EventSource reconnects on its own and resumes
+ * after the last line received. `onOpen` / `onError` fire on each
+ * (re)connect / connection loss. Returns the function that closes the stream.
+ */
+export function subscribeProcessLogs(
+  processId: string,
+  onEntry: (entry: ProcessLogEntry) => void,
+  { since = 0, onOpen, onError }: { since?: number; onOpen?: () => void; onError?: () => void } = {},
+): () => void {
+  const source = new EventSource(
+    `${WRITER_BASE_URL}/process/${encodeURIComponent(processId)}/logs/stream?since=${since}`,
+  );
+  source.onmessage = (event: MessageEvent<string>) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+    const entry = parseProcessLogEntry(data);
+    if (entry) onEntry(entry);
+  };
+  if (onOpen) source.onopen = onOpen;
+  if (onError) source.onerror = onError;
+  return () => source.close();
+}
+
 /** Check if the Pixel Streaming URL is reachable (HEAD request) */
 export async function checkPixelStreamingStatus(
   url: string,
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { AvatarCatalogEntry } from '@/services/voiceAgentWriter';
+import { useAvatarCatalogStore, filterAvatars } from './avatarCatalogStore';
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+function avatar(id: string, name: string, tags: string[] = []): AvatarCatalogEntry {
+  return { id, name, thumbnailPath: null, thumbnailUrl: null, tags };
+}
+
+function catalogResponse(avatars: unknown[], status = 200) {
+  return { ok: status < 400, status, json: () => Promise.resolve({ ok: status < 400, avatars }) };
+}
+
+const catalog = () => useAvatarCatalogStore.getState();
+
+// ═══════════════════════════════════════════════════════════════════════════
+// filterAvatars
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('filterAvatars', () => {
+  const avatars = [
+    avatar('AV_Anna', 'Anna', ['female', 'business']),
+    avatar('AV_Max', 'Max', ['male', 'casual']),
+  ];
+
+  it('returns everything for a blank query', () => {
+    expect(filterAvatars(avatars, '  ')).toBe(avatars);
+  });
+
+  it('matches name, id and tags case-insensitively, all terms required', () => {
+    expect(filterAvatars(avatars, 'anna').map((a) => a.id)).toEqual(['AV_Anna']);
+    expect(filterAvatars(avatars, 'av_max').map((a) => a.id)).toEqual(['AV_Max']);
+    expect(filterAvatars(avatars, 'CASUAL').map((a) => a.id)).toEqual(['AV_Max']);
+    expect(filterAvatars(avatars, 'female casual')).toEqual([]);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// load
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('avatarCatalogStore.load', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    useAvatarCatalogStore.setState({ avatars: [], status: 'idle', error: null });
+  });
+
+  it('loads once and re-reads only when forced', async () => {
+    mockFetch.mockResolvedValue(catalogResponse([{ id: 'AV_Anna', name: 'Anna' }]));
+
+    await catalog().load();
+    await catalog().load();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(catalog()).toMatchObject({ status: 'ready', error: null });
+    expect(catalog().avatars.map((a) => a.id)).toEqual(['AV_Anna']);
+
+    await catalog().load(true);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the last good list when a reload fails', async () => {
+    mockFetch.mockResolvedValueOnce(catalogResponse([{ id: 'AV_Anna' }]));
+    await catalog().load();
+
+    mockFetch.mockRejectedValueOnce(new Error('Failed to fetch'));
+    await catalog().load(true);
+
+    expect(catalog()).toMatchObject({ status: 'error', error: 'Failed to fetch' });
+    expect(catalog().avatars).toHaveLength(1);
+  });
+});
@@ -0,0 +1,52 @@
+import { create } from 'zustand';
+import { getAvatarCatalog, type AvatarCatalogEntry } from '@/services/voiceAgentWriter';
+
+export type AvatarCatalogStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+/**
+ * Avatars matching every whitespace-separated term of `query`
+ * (case-insensitive, against name, id and tags). Empty query = all.
+ */
+export function filterAvatars(avatars: AvatarCatalogEntry[], query: string): AvatarCatalogEntry[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return avatars;
+  return avatars.filter((avatar) => {
+    const haystack = [avatar.name, avatar.id, ...avatar.tags].join(' ').toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+}
+
+/**
+ * Avatar catalogue loaded from the agent-option-writer backend (GET /avatars).
+ *
+ * Not persisted — the catalogue file is the source of truth. Loaded once on
+ * first use; `load(true)` re-reads it after the file was edited.
+ */
+interface AvatarCatalogState {
+  avatars: AvatarCatalogEntry[];
+  status: AvatarCatalogStatus;
+  /** Last load error (null after a successful load) */
+  error: string | null;
+
+  load: (force?: boolean) => Promise<void>;
+}
+
+export const useAvatarCatalogStore = create<AvatarCatalogState>()((set, get) => ({
+  avatars: [],
+  status: 'idle',
+  error: null,
+
+  load: async (force = false) => {
+    const { status } = get();
+    if (status === 'loading' || (status === 'ready' && !force)) return;
+
+    set({ status: 'loading' });
+    try {
+      const avatars = await getAvatarCatalog();
+      set({ avatars, status: 'ready', error: null });
+    } catch (err) {
+      // Keep the last good list so the picker stays usable
+      set({ status: 'error', error: err instanceof Error ? err.message : String(err) });
+    }
+  },
+}));
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { BackgroundFile } from '@/services/voiceAgentWriter';
+import { useBackgroundLibraryStore } from './backgroundLibraryStore';
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+function background(id: string): BackgroundFile {
+  return {
+    id,
+    kind: 'image',
+    size: 10,
+    modifiedAt: '',
+    path: `/srv/backgrounds/${id}`,
+    url: `/backgrounds/file?id=${id}`,
+  };
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return { ok: status < 400, status, json: () => Promise.resolve(body) };
+}
+
+const library = () => useBackgroundLibraryStore.getState();
+
+describe('backgroundLibraryStore', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    useBackgroundLibraryStore.setState({ backgrounds: [], status: 'idle', error: null, uploading: null });
+  });
+
+  it('loads once and re-reads only when forced', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ ok: true, backgrounds: [background('beach.png')] }));
+
+    await library().load();
+    await library().load();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(library().backgrounds.map((b) => b.id)).toEqual(['beach.png']);
+
+    await library().load(true);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('puts an upload first and drops deleted files', async () => {
+    useBackgroundLibraryStore.setState({ backgrounds: [background('a.png')] });
+    mockFetch.mockResolvedValueOnce(jsonResponse({ ok: true, background: background('b.png') }));
+
+    const stored = await library().upload(new File(['x'], 'b.png', { type: 'image/png' }));
+    expect(stored?.path).toBe('/srv/backgrounds/b.png');
+    expect(library().backgrounds.map((b) => b.id)).toEqual(['b.png', 'a.png']);
+    expect(library().uploading).toBeNull();
+
+    mockFetch.mockResolvedValueOnce(jsonResponse({ ok: true }));
+    expect(await library().remove('a.png')).toBe(true);
+    expect(library().backgrounds.map((b) => b.id)).toEqual(['b.png']);
+  });
+
+  it('keeps the list and reports the error when an upload fails', async () => {
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({ ok: false, error: 'Background file is too large' }, 413),
+    );
+
+    expect(await library().upload(new File(['x'], 'huge.mp4'))).toBeNull();
+    expect(library()).toMatchObject({
+      error: 'Background file is too large',
+      uploading: null,
+      backgrounds: [],
+    });
+  });
+});
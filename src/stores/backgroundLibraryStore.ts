@@ -0,0 +1,78 @@
+import { create } from 'zustand';
+import {
+  listBackgrounds,
+  uploadBackground,
+  deleteBackground,
+  type BackgroundFile,
+} from '@/services/voiceAgentWriter';
+
+export type BackgroundLibraryStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+/**
+ * Custom background files stored by the agent-option-writer backend
+ * (GET /backgrounds), for the `LVL_Master_CustomBackground` picker.
+ *
+ * Not persisted — the backend's folder is the source of truth. Loaded once on
+ * first use; uploads and deletes update the list in place.
+ */
+interface BackgroundLibraryState {
+  backgrounds: BackgroundFile[];
+  status: BackgroundLibraryStatus;
+  /** Last load / upload / delete error (null after a successful one) */
+  error: string | null;
+  /** File name of the upload in flight */
+  uploading: string | null;
+
+  load: (force?: boolean) => Promise<void>;
+  /** Resolves to the stored file, or null on failure (see `error`) */
+  upload: (file: File) => Promise<BackgroundFile | null>;
+  remove: (id: string) => Promise<boolean>;
+}
+
+export const useBackgroundLibraryStore = create<BackgroundLibraryState>()((set, get) => ({
+  backgrounds: [],
+  status: 'idle',
+  error: null,
+  uploading: null,
+
+  load: async (force = false) => {
+    const { status } = get();
+    if (status === 'loading' || (status === 'ready' && !force)) return;
+
+    set({ status: 'loading' });
+    try {
+      const backgrounds = await listBackgrounds();
+      set({ backgrounds, status: 'ready', error: null });
+    } catch (err) {
+      // Keep the last good list so the picker stays usable
+      set({ status: 'error', error: err instanceof Error ? err.message : String(err) });
+    }
+  },
+
+  upload: async (file) => {
+    set({ uploading: file.name });
+    const result = await uploadBackground(file);
+    if (!result.ok || !result.background) {
+      set({ uploading: null, error: result.error ?? 'Failed to upload background' });
+      return null;
+    }
+
+    const background = result.background;
+    set((s) => ({
+      uploading: null,
+      error: null,
+      backgrounds: [background, ...s.backgrounds.filter((b) => b.id !== background.id)],
+    }));
+    return background;
+  },
+
+  remove: async (id) => {
+    const result = await deleteBackground(id);
+    if (!result.ok) {
+      set({ error: result.error ?? 'Failed to delete background' });
+      return false;
+    }
+    set((s) => ({ error: null, backgrounds: s.backgrounds.filter((b) => b.id !== id) }));
+    return true;
+  },
+}));
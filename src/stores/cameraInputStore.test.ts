@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  useCameraInputStore,
+  actionForKey,
+  keyCodeLabel,
+  DEFAULT_KEY_BINDINGS,
+  DEFAULT_GAMEPAD_BINDINGS,
+} from './cameraInputStore';
+
+const input = () => useCameraInputStore.getState();
+
+describe('cameraInputStore', () => {
+  beforeEach(() => {
+    useCameraInputStore.setState({
+      keyBindings: DEFAULT_KEY_BINDINGS,
+      gamepadEnabled: false,
+      gamepadBindings: DEFAULT_GAMEPAD_BINDINGS,
+      capturing: false,
+    });
+  });
+
+  it('finds the action bound to a key code', () => {
+    expect(actionForKey(DEFAULT_KEY_BINDINGS, 'KeyW')).toBe('moveUp');
+    expect(actionForKey(DEFAULT_KEY_BINDINGS, 'KeyZ')).toBeNull();
+    expect(actionForKey({ ...DEFAULT_KEY_BINDINGS, zoomIn: '' }, '')).toBeNull();
+  });
+
+  it('unbinds the action that already used a key', () => {
+    input().setKeyBinding('zoomIn', 'KeyW');
+
+    expect(input().keyBindings.zoomIn).toBe('KeyW');
+    expect(input().keyBindings.moveUp).toBe('');
+    expect(actionForKey(input().keyBindings, 'KeyW')).toBe('zoomIn');
+  });
+
+  it('replaces one gamepad axis binding and resets all bindings', () => {
+    input().setKeyBinding('pitchUp', 'ArrowUp');
+    input().setGamepadBinding('zoom', { axis: null, invert: false });
+    expect(input().gamepadBindings.zoom).toEqual({ axis: null, invert: false });
+    expect(input().gamepadBindings.cameraPitch).toEqual(DEFAULT_GAMEPAD_BINDINGS.cameraPitch);
+
+    input().resetBindings();
+    expect(input().keyBindings).toEqual(DEFAULT_KEY_BINDINGS);
+    expect(input().gamepadBindings).toEqual(DEFAULT_GAMEPAD_BINDINGS);
+  });
+
+  it('labels key codes for display', () => {
+    expect(keyCodeLabel('KeyW')).toBe('W');
+    expect(keyCodeLabel('Digit1')).toBe('1');
+    expect(keyCodeLabel('ArrowLeft')).toBe('←');
+    expect(keyCodeLabel('PageUp')).toBe('PageUp');
+    expect(keyCodeLabel('')).toBe('—');
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Keyboard / gamepad camera bindings (persisted to localStorage as `rvtr-camera-input`).
+ *
+ * Each camera axis has two nudge actions (e.g. zoom in / zoom out) bound to a
+ * `KeyboardEvent.code`, so bindings follow key positions rather than layouts.
+ * The gamepad maps a stick axis (Gamepad API standard mapping: 0 = left X,
+ * 1 = left Y, 2 = right X, 3 = right Y) to each camera axis.
+ *
+ * `capturing` is runtime-only: input only reaches the page while the capture
+ * target holds focus — otherwise the PS iframe keeps it (see
+ * PersistentPixelStreaming's focus guard). Playback lives in `useCameraInput`.
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { CameraPosition } from './ueControlStore';
+
+// ─── Actions ─────────────────────────────────────────────────────────────────
+
+export type CameraAxis = keyof CameraPosition;
+
+export type CameraInputAction =
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'moveUp'
+  | 'moveDown'
+  | 'moveLeft'
+  | 'moveRight'
+  | 'pitchUp'
+  | 'pitchDown';
+
+/** Axis and direction (in slider steps) each action nudges, in display order */
+export const CAMERA_INPUT_ACTIONS: Record<
+  CameraInputAction,
+  { label: string; axis: CameraAxis; direction: 1 | -1 }
+> = {
+  zoomIn: { label: 'Zoom in', axis: 'zoom', direction: 1 },
+  zoomOut: { label: 'Zoom out', axis: 'zoom', direction: -1 },
+  moveUp: { label: 'Move up', axis: 'cameraVertical', direction: 1 },
+  moveDown: { label: 'Move down', axis: 'cameraVertical', direction: -1 },
+  moveLeft: { label: 'Move left', axis: 'cameraHorizontal', direction: -1 },
+  moveRight: { label: 'Move right', axis: 'cameraHorizontal', direction: 1 },
+  pitchUp: { label: 'Pitch up', axis: 'cameraPitch', direction: 1 },
+  pitchDown: { label: 'Pitch down', axis: 'cameraPitch', direction: -1 },
+};
+
+/** `KeyboardEvent.code` per action ('' = unbound) */
+export type CameraKeyBindings = Record<CameraInputAction, string>;
+
+export const DEFAULT_KEY_BINDINGS: CameraKeyBindings = {
+  zoomIn: 'KeyE',
+  zoomOut: 'KeyQ',
+  moveUp: 'KeyW',
+  moveDown: 'KeyS',
+  moveLeft: 'KeyA',
+  moveRight: 'KeyD',
+  pitchUp: 'KeyR',
+  pitchDown: 'KeyF',
+};
+
+/** Action bound to a key code, if any */
+export function actionForKey(bindings: CameraKeyBindings, code: string): CameraInputAction | null {
+  if (!code) return null;
+  const entry = Object.entries(bindings).find(([, bound]) => bound === code);
+  return entry ? (entry[0] as CameraInputAction) : null;
+}
+
+/** `KeyW` → `W`, `Digit1` → `1`, `ArrowUp` → `↑`; other codes as-is */
+export function keyCodeLabel(code: string): string {
+  if (!code) return '—';
+  const arrows: Record<string, string> = { ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→' };
+  return arrows[code] ?? code.replace(/^(Key|Digit)/, '');
+}
+
+// ─── Gamepad ─────────────────────────────────────────────────────────────────
+
+/** Stick axis driving a camera axis; `invert` flips its direction (null axis = unbound) */
+export interface GamepadAxisBinding {
+  axis: number | null;
+  invert: boolean;
+}
+
+export type CameraGamepadBindings = Record<CameraAxis, GamepadAxisBinding>;
+
+/** Stick axes of the standard gamepad mapping */
+export const GAMEPAD_STICK_AXES = [
+  { index: 0, label: 'Left stick X' },
+  { index: 1, label: 'Left stick Y' },
+  { index: 2, label: 'Right stick X' },
+  { index: 3, label: 'Right stick Y' },
+] as const;
+
+export const DEFAULT_GAMEPAD_BINDINGS: CameraGamepadBindings = {
+  zoom: { axis: 3, invert: true },
+  cameraVertical: { axis: 1, invert: true },
+  cameraHorizontal: { axis: 0, invert: false },
+  cameraPitch: { axis: 2, invert: false },
+};
+
+// ─── Store ───────────────────────────────────────────────────────────────────
+
+interface CameraInputState {
+  keyBindings: CameraKeyBindings;
+  /** Poll connected gamepads while capturing */
+  gamepadEnabled: boolean;
+  gamepadBindings: CameraGamepadBindings;
+  /** Runtime-only: keyboard / gamepad input is routed to the camera */
+  capturing: boolean;
+
+  /** Bind a key to an action; an action already using that key is unbound */
+  setKeyBinding: (action: CameraInputAction, code: string) => void;
+  setGamepadEnabled: (enabled: boolean) => void;
+  setGamepadBinding: (axis: CameraAxis, binding: GamepadAxisBinding) => void;
+  /** Restore default keys and gamepad axes */
+  resetBindings: () => void;
+  setCapturing: (capturing: boolean) => void;
+}
+
+export const useCameraInputStore = create<CameraInputState>()(
+  persist(
+    (set) => ({
+      keyBindings: DEFAULT_KEY_BINDINGS,
+      gamepadEnabled: false,
+      gamepadBindings: DEFAULT_GAMEPAD_BINDINGS,
+      capturing: false,
+
+      setKeyBinding: (action, code) =>
+        set((state) => {
+          const keyBindings = { ...state.keyBindings };
+          const previous = actionForKey(keyBindings, code);
+          if (previous) keyBindings[previous] = '';
+          keyBindings[action] = code;
+          return { keyBindings };
+        }),
+
+      setGamepadEnabled: (enabled) => set({ gamepadEnabled: enabled }),
+
+      setGamepadBinding: (axis, binding) =>
+        set((state) => ({ gamepadBindings: { ...state.gamepadBindings, [axis]: binding } })),
+
+      resetBindings: () =>
+        set({ keyBindings: DEFAULT_KEY_BINDINGS, gamepadBindings: DEFAULT_GAMEPAD_BINDINGS }),
+
+      setCapturing: (capturing) => set({ capturing }),
+    }),
+    {
+      name: 'rvtr-camera-input',
+      version: 1,
+      partialize: (state) => ({
+        keyBindings: state.keyBindings,
+        gamepadEnabled: state.gamepadEnabled,
+        gamepadBindings: state.gamepadBindings,
+      }),
+    },
+  ),
+);
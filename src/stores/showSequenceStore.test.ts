@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useShowSequenceStore, SHOW_COMMANDS, DEFAULT_STEP_DELAY_MS } from './showSequenceStore';
+
+const DEVICE = 'holobox';
+
+const commands = () => useShowSequenceStore.getState().getSteps(DEVICE).map((s) => s.command);
+
+describe('showSequenceStore', () => {
+  beforeEach(() => {
+    useShowSequenceStore.setState({ sequences: {} });
+  });
+
+  it('adds steps with command defaults', () => {
+    useShowSequenceStore.getState().addStep(DEVICE, { command: 'level' });
+
+    expect(useShowSequenceStore.getState().getSteps(DEVICE)[0]).toMatchObject({
+      command: 'level',
+      param: SHOW_COMMANDS.level.defaultParam,
+      delayMs: DEFAULT_STEP_DELAY_MS,
+    });
+    expect(useShowSequenceStore.getState().getSteps('kiosk')).toEqual([]);
+  });
+
+  it('resets param when the command changes and clamps negative delays', () => {
+    const id = useShowSequenceStore.getState().addStep(DEVICE, { command: 'zoom', param: '300' });
+    useShowSequenceStore.getState().updateStep(DEVICE, id, { command: 'logo', delayMs: -5 });
+
+    expect(useShowSequenceStore.getState().getSteps(DEVICE)[0]).toMatchObject({
+      command: 'logo',
+      param: 'true',
+      delayMs: 0,
+    });
+  });
+
+  it('moves and removes steps', () => {
+    const { addStep, moveStep, removeStep } = useShowSequenceStore.getState();
+    const a = addStep(DEVICE, { command: 'lightUp' });
+    addStep(DEVICE, { command: 'lightDown' });
+    addStep(DEVICE, { command: 'stopAnswer' });
+
+    moveStep(DEVICE, a, 1);
+    expect(commands()).toEqual(['lightDown', 'lightUp', 'stopAnswer']);
+
+    moveStep(DEVICE, a, 1);
+    moveStep(DEVICE, a, 1); // already last — no-op
+    expect(commands()).toEqual(['lightDown', 'stopAnswer', 'lightUp']);
+
+    removeStep(DEVICE, a);
+    expect(commands()).toEqual(['lightDown', 'stopAnswer']);
+  });
+});
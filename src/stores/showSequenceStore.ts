@@ -0,0 +1,140 @@
+/**
+ * Show-mode sequences (persisted to localStorage as `rvtr-show-sequences`).
+ *
+ * A sequence is an ordered timeline of UE commands replayed during sales demos
+ * (change level → logo on → light up → zoom in → stop answer). Sequences are
+ * keyed by DeviceId so kiosk and holobox keep their own scripts.
+ *
+ * Playback lives in `useShowRunner` — this store only holds the timeline.
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+// ─── Step commands ───────────────────────────────────────────────────────────
+
+export type ShowCommandId =
+  | 'level'
+  | 'logo'
+  | 'interruption'
+  | 'lightUp'
+  | 'lightDown'
+  | 'changeLight'
+  | 'zoom'
+  | 'stopAnswer';
+
+/** How a step's `param` is edited and interpreted. */
+export type ShowParamKind = 'none' | 'level' | 'boolean' | 'number';
+
+export const SHOW_COMMANDS: Record<
+  ShowCommandId,
+  { label: string; param: ShowParamKind; defaultParam: string }
+> = {
+  level: { label: 'Change level', param: 'level', defaultParam: 'LVL_Master_ModernOffice' },
+  logo: { label: 'Logo', param: 'boolean', defaultParam: 'true' },
+  interruption: { label: 'Interruption', param: 'boolean', defaultParam: 'true' },
+  lightUp: { label: 'Light +', param: 'none', defaultParam: '' },
+  lightDown: { label: 'Light -', param: 'none', defaultParam: '' },
+  changeLight: { label: 'Toggle light type', param: 'none', defaultParam: '' },
+  zoom: { label: 'Zoom to', param: 'number', defaultParam: '0' },
+  stopAnswer: { label: 'Stop answer', param: 'none', defaultParam: '' },
+};
+
+export interface ShowStep {
+  id: string;
+  command: ShowCommandId;
+  /** Level id, 'true'/'false', or absolute zoom offset (UE units) — see SHOW_COMMANDS */
+  param: string;
+  /** Wait before this step runs, ms */
+  delayMs: number;
+}
+
+export const DEFAULT_STEP_DELAY_MS = 1_000;
+
+const NO_STEPS: ShowStep[] = [];
+
+function createStepId(): string {
+  return `step-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// ─── Store ───────────────────────────────────────────────────────────────────
+
+interface ShowSequenceState {
+  /** Step timelines, keyed by DeviceId */
+  sequences: Record<string, ShowStep[]>;
+
+  /** Append a step (defaults to a 1s "Light +" step). Returns the new step id. */
+  addStep: (deviceId: string, step?: Partial<Omit<ShowStep, 'id'>>) => string;
+  /** Partial update; changing `command` resets `param` to that command's default */
+  updateStep: (deviceId: string, stepId: string, patch: Partial<Omit<ShowStep, 'id'>>) => void;
+  removeStep: (deviceId: string, stepId: string) => void;
+  /** Move a step one slot up (-1) or down (+1) */
+  moveStep: (deviceId: string, stepId: string, direction: -1 | 1) => void;
+  /** Steps for a device (stable empty array if none) */
+  getSteps: (deviceId: string) => ShowStep[];
+}
+
+export const useShowSequenceStore = create<ShowSequenceState>()(
+  persist(
+    (set, get) => {
+      const setSteps = (deviceId: string, update: (steps: ShowStep[]) => ShowStep[]) =>
+        set((state) => ({
+          sequences: {
+            ...state.sequences,
+            [deviceId]: update(state.sequences[deviceId] ?? NO_STEPS),
+          },
+        }));
+
+      return {
+        sequences: {},
+
+        addStep: (deviceId, step = {}) => {
+          const command = step.command ?? 'lightUp';
+          const id = createStepId();
+          setSteps(deviceId, (steps) => [
+            ...steps,
+            {
+              id,
+              command,
+              param: step.param ?? SHOW_COMMANDS[command].defaultParam,
+              delayMs: Math.max(0, step.delayMs ?? DEFAULT_STEP_DELAY_MS),
+            },
+          ]);
+          return id;
+        },
+
+        updateStep: (deviceId, stepId, patch) =>
+          setSteps(deviceId, (steps) =>
+            steps.map((s) => {
+              if (s.id !== stepId) return s;
+              const next = { ...s, ...patch };
+              if (patch.command && patch.command !== s.command && patch.param === undefined) {
+                next.param = SHOW_COMMANDS[patch.command].defaultParam;
+              }
+              next.delayMs = Math.max(0, next.delayMs);
+              return next;
+            }),
+          ),
+
+        removeStep: (deviceId, stepId) =>
+          setSteps(deviceId, (steps) => steps.filter((s) => s.id !== stepId)),
+
+        moveStep: (deviceId, stepId, direction) =>
+          setSteps(deviceId, (steps) => {
+            const from = steps.findIndex((s) => s.id === stepId);
+            const to = from + direction;
+            if (from === -1 || to < 0 || to >= steps.length) return steps;
+            const next = [...steps];
+            next.splice(to, 0, ...next.splice(from, 1));
+            return next;
+          }),
+
+        getSteps: (deviceId) => get().sequences[deviceId] ?? NO_STEPS,
+      };
+    },
+    {
+      name: 'rvtr-show-sequences',
+      version: 1,
+      partialize: (state) => ({ sequences: state.sequences }),
+    },
+  ),
+);
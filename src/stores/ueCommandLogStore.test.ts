@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { UeCommandResult } from '@/services/ueRemoteApi';
+import { useUeCommandLogStore, UE_COMMAND_LOG_LIMIT } from './ueCommandLogStore';
+
+const OK: UeCommandResult = {
+  ok: true,
+  command: 'zoom',
+  errorClass: null,
+  error: null,
+  status: 200,
+  latencyMs: 4,
+  body: null,
+};
+
+const log = () => useUeCommandLogStore.getState();
+
+function record(offset: number) {
+  log().record({
+    at: 1_000 + offset,
+    target: 'http://ue:8081',
+    payload: { command: 'zoom', offset: String(offset) },
+    result: OK,
+    durationMs: 4,
+  });
+}
+
+describe('ueCommandLogStore', () => {
+  beforeEach(() => {
+    useUeCommandLogStore.setState({ entries: [] });
+  });
+
+  it('appends entries with unique ids, oldest first', () => {
+    record(1);
+    record(2);
+
+    const { entries } = log();
+    expect(entries.map((e) => e.payload.offset)).toEqual(['1', '2']);
+    expect(entries[0]?.id).not.toBe(entries[1]?.id);
+  });
+
+  it('drops the oldest entries beyond the limit', () => {
+    for (let i = 0; i < UE_COMMAND_LOG_LIMIT + 5; i++) record(i);
+
+    const { entries } = log();
+    expect(entries).toHaveLength(UE_COMMAND_LOG_LIMIT);
+    expect(entries[0]?.payload.offset).toBe('5');
+  });
+
+  it('clears the log', () => {
+    record(1);
+    log().clear();
+    expect(log().entries).toEqual([]);
+  });
+});
@@ -0,0 +1,45 @@
+import { create } from 'zustand';
+import type { UeCommandPayload } from '@/services/ueCommandRegistry';
+import type { UeCommandResult } from '@/services/ueRemoteApi';
+
+/** Oldest entries are dropped beyond this */
+export const UE_COMMAND_LOG_LIMIT = 300;
+
+export interface UeCommandLogEntry {
+  id: number;
+  /** Send time, epoch ms */
+  at: number;
+  /** UE base URL the command was sent to (`X-Ue-Target`) */
+  target: string;
+  payload: UeCommandPayload;
+  result: UeCommandResult;
+  /** Wall time of the whole call, ms (0 when nothing was sent) */
+  durationMs: number;
+}
+
+/**
+ * In-memory log of every command sent through `sendUeCommand`.
+ *
+ * Not persisted — it exists to answer "what did the UI actually send?"
+ * while debugging a kiosk session. `UeCommandInspector` reads it.
+ */
+interface UeCommandLogState {
+  /** Oldest first, at most `UE_COMMAND_LOG_LIMIT` */
+  entries: UeCommandLogEntry[];
+
+  record: (entry: Omit<UeCommandLogEntry, 'id'>) => void;
+  clear: () => void;
+}
+
+let nextEntryId = 1;
+
+export const useUeCommandLogStore = create<UeCommandLogState>()((set) => ({
+  entries: [],
+
+  record: (entry) =>
+    set((state) => ({
+      entries: [...state.entries, { ...entry, id: nextEntryId++ }].slice(-UE_COMMAND_LOG_LIMIT),
+    })),
+
+  clear: () => set({ entries: [] }),
+}));
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import {
+  useUeCommandQueueStore,
+  queueRetryDelayMs,
+  QUEUE_RETRY_BASE_MS,
+  QUEUE_RETRY_MAX_MS,
+} from './ueCommandQueueStore';
+
+const DEVICE = 'holobox';
+
+const queue = () => useUeCommandQueueStore.getState();
+
+describe('ueCommandQueueStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(10_000);
+    useUeCommandQueueStore.setState({ pending: {} });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('coalesces entries per device and setting', () => {
+    queue().enqueue(DEVICE, 'showLogo', false);
+    queue().enqueue(DEVICE, 'showLogo', true);
+    queue().enqueue(DEVICE, 'level', 'LVL_Master_Ravabox');
+    queue().enqueue('kiosk', 'showLogo', false);
+
+    expect(queue().getPending(DEVICE)).toEqual({
+      showLogo: { key: 'showLogo', value: true, attempts: 0, nextAttemptAt: 0, lastError: null },
+      level: { key: 'level', value: 'LVL_Master_Ravabox', attempts: 0, nextAttemptAt: 0, lastError: null },
+    });
+    expect(queue().getPending('kiosk').showLogo?.value).toBe(false);
+  });
+
+  it('backs off failed entries, ignoring failures of stale values', () => {
+    queue().enqueue(DEVICE, 'showLogo', false);
+    queue().markFailed(DEVICE, 'showLogo', false, 'timeout');
+    queue().markFailed(DEVICE, 'showLogo', false, 'timeout');
+
+    expect(queue().getPending(DEVICE).showLogo).toMatchObject({
+      attempts: 2,
+      nextAttemptAt: 10_000 + 2 * QUEUE_RETRY_BASE_MS,
+      lastError: 'timeout',
+    });
+
+    // A newer value resets the backoff; a late failure of the old value is ignored
+    queue().enqueue(DEVICE, 'showLogo', true);
+    queue().markFailed(DEVICE, 'showLogo', false, 'timeout');
+    expect(queue().getPending(DEVICE).showLogo).toMatchObject({ value: true, attempts: 0, nextAttemptAt: 0 });
+  });
+
+  it('confirms only the queued value', () => {
+    queue().enqueue(DEVICE, 'showLogo', true);
+    queue().confirm(DEVICE, 'showLogo', false);
+    expect(queue().getPending(DEVICE).showLogo).toBeDefined();
+
+    queue().confirm(DEVICE, 'showLogo', true);
+    expect(queue().getPending(DEVICE)).toEqual({});
+  });
+
+  it('caps the retry delay', () => {
+    expect(queueRetryDelayMs(1)).toBe(QUEUE_RETRY_BASE_MS);
+    expect(queueRetryDelayMs(3)).toBe(4 * QUEUE_RETRY_BASE_MS);
+    expect(queueRetryDelayMs(20)).toBe(QUEUE_RETRY_MAX_MS);
+  });
+});
@@ -0,0 +1,106 @@
+import { create } from 'zustand';
+import type { DeviceSettingKey } from '@/services/ueCommandRegistry';
+import type { UeDeviceSettings } from '@/stores/ueControlStore';
+
+/** First retry delay after a failed send; doubles per attempt */
+export const QUEUE_RETRY_BASE_MS = 1_000;
+/** Retry delay cap */
+export const QUEUE_RETRY_MAX_MS = 30_000;
+
+/** Delay before the next attempt after `attempts` consecutive failures. */
+export function queueRetryDelayMs(attempts: number): number {
+  return Math.min(QUEUE_RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), QUEUE_RETRY_MAX_MS);
+}
+
+export interface PendingUeSetting<K extends DeviceSettingKey = DeviceSettingKey> {
+  key: K;
+  /** Latest desired value — repeated changes coalesce into one entry */
+  value: UeDeviceSettings[K];
+  /** Failed sends of this value so far */
+  attempts: number;
+  /** Epoch ms before which the entry isn't retried (0 = send now) */
+  nextAttemptAt: number;
+  lastError: string | null;
+}
+
+type DevicePending = Partial<Record<DeviceSettingKey, PendingUeSetting>>;
+
+const NO_PENDING: DevicePending = {};
+
+/**
+ * Absolute UE settings the user changed that UE hasn't confirmed yet.
+ *
+ * Keyed by DeviceId and setting, so toggling the logo five times while UE is
+ * down leaves one entry holding the last value. `useUeCommandQueue` drains
+ * it; the panel marks controls with a pending entry as unsynced.
+ *
+ * Not persisted — after a reload the device switch re-applies all settings.
+ */
+interface UeCommandQueueState {
+  pending: Record<string, DevicePending>;
+
+  /** Queue (or replace) the value for a setting — due immediately */
+  enqueue: <K extends DeviceSettingKey>(deviceId: string, key: K, value: UeDeviceSettings[K]) => void;
+  /** Record a failed send; ignored if a newer value was queued meanwhile */
+  markFailed: <K extends DeviceSettingKey>(
+    deviceId: string,
+    key: K,
+    value: UeDeviceSettings[K],
+    error: string,
+  ) => void;
+  /** Drop the entry once UE accepted `value` (or it was superseded); ignored if a newer value is queued */
+  confirm: <K extends DeviceSettingKey>(deviceId: string, key: K, value: UeDeviceSettings[K]) => void;
+  /** Make every entry of a device due now (e.g. UE just came back) */
+  retryNow: (deviceId: string) => void;
+  /** Pending entries for a device (stable empty object if none) */
+  getPending: (deviceId: string) => DevicePending;
+}
+
+export const useUeCommandQueueStore = create<UeCommandQueueState>()((set, get) => {
+  const updateEntry = (
+    deviceId: string,
+    key: DeviceSettingKey,
+    update: (entry: PendingUeSetting | undefined) => PendingUeSetting | undefined,
+  ) =>
+    set((state) => {
+      const device = state.pending[deviceId] ?? NO_PENDING;
+      const current = device[key];
+      const next = update(current);
+      if (next === current) return state;
+
+      const entries = { ...device };
+      if (next) entries[key] = next;
+      else delete entries[key];
+      return { pending: { ...state.pending, [deviceId]: entries } };
+    });
+
+  return {
+    pending: {},
+
+    enqueue: (deviceId, key, value) =>
+      updateEntry(deviceId, key, () => ({ key, value, attempts: 0, nextAttemptAt: 0, lastError: null })),
+
+    markFailed: (deviceId, key, value, error) =>
+      updateEntry(deviceId, key, (entry) => {
+        if (!entry || entry.value !== value) return entry;
+        const attempts = entry.attempts + 1;
+        return { ...entry, attempts, nextAttemptAt: Date.now() + queueRetryDelayMs(attempts), lastError: error };
+      }),
+
+    confirm: (deviceId, key, value) =>
+      updateEntry(deviceId, key, (entry) => (entry && entry.value === value ? undefined : entry)),
+
+    retryNow: (deviceId) =>
+      set((state) => {
+        const device = state.pending[deviceId];
+        if (!device) return state;
+        const entries: DevicePending = {};
+        for (const entry of Object.values(device)) {
+          entries[entry.key] = { ...entry, nextAttemptAt: 0 };
+        }
+        return { pending: { ...state.pending, [deviceId]: entries } };
+      }),
+
+    getPending: (deviceId) => get().pending[deviceId] ?? NO_PENDING,
+  };
+});
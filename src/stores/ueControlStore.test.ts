@@ -0,0 +1,426 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  useUeControlStore,
+  migrateUeControlState,
+  parseUeLevels,
+  isUeLevelId,
+  fallbackLevel,
+  BUILTIN_LEVEL_CATALOG,
+  DEFAULT_DEVICE_SETTINGS,
+  LIGHT_BRIGHTNESS_RANGE,
+  LIGHT_PRESET_COUNT,
+  UE_LEVELS,
+  ZERO_CAMERA,
+  ZERO_LIGHTING,
+  stepLighting,
+  type UeLevel,
+  type UeDeviceSettings,
+} from './ueControlStore';
+
+const DEVICE = 'kiosk';
+const CLOSE_UP = { zoom: 300, cameraVertical: 15, cameraHorizontal: 0, cameraPitch: -4.5 };
+
+// ═══════════════════════════════════════════════════════════════════════════
+// camera presets
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('camera presets', () => {
+  beforeEach(() => {
+    useUeControlStore.setState({ cameraPresets: {} });
+  });
+
+  it('saves a preset per device', () => {
+    const id = useUeControlStore.getState().saveCameraPreset(DEVICE, '  Close-up ', CLOSE_UP);
+
+    expect(id).toBeTruthy();
+    expect(useUeControlStore.getState().getCameraPresets(DEVICE)).toEqual([
+      { id, name: 'Close-up', camera: CLOSE_UP },
+    ]);
+    expect(useUeControlStore.getState().getCameraPresets('holobox')).toEqual([]);
+  });
+
+  it('ignores blank names', () => {
+    expect(useUeControlStore.getState().saveCameraPreset(DEVICE, '   ', CLOSE_UP)).toBeNull();
+    expect(useUeControlStore.getState().getCameraPresets(DEVICE)).toEqual([]);
+  });
+
+  it('overwrites a preset with the same name instead of duplicating it', () => {
+    const { saveCameraPreset } = useUeControlStore.getState();
+    const first = saveCameraPreset(DEVICE, 'Close-up', CLOSE_UP);
+    const second = saveCameraPreset(DEVICE, 'close-up', ZERO_CAMERA);
+
+    const presets = useUeControlStore.getState().getCameraPresets(DEVICE);
+    expect(second).toBe(first);
+    expect(presets).toHaveLength(1);
+    expect(presets[0]?.camera).toEqual(ZERO_CAMERA);
+  });
+
+  it('renames and deletes by id', () => {
+    const { saveCameraPreset, renameCameraPreset, deleteCameraPreset } = useUeControlStore.getState();
+    const id = saveCameraPreset(DEVICE, 'Close-up', CLOSE_UP)!;
+    saveCameraPreset(DEVICE, 'Full body', ZERO_CAMERA);
+
+    renameCameraPreset(DEVICE, id, 'Portrait');
+    renameCameraPreset(DEVICE, id, '  ');
+    expect(useUeControlStore.getState().getCameraPresets(DEVICE).map((p) => p.name)).toEqual([
+      'Portrait',
+      'Full body',
+    ]);
+
+    deleteCameraPreset(DEVICE, id);
+    expect(useUeControlStore.getState().getCameraPresets(DEVICE).map((p) => p.name)).toEqual([
+      'Full body',
+    ]);
+  });
+
+  it('stores a copy of the camera, not a reference', () => {
+    const camera = { ...CLOSE_UP };
+    useUeControlStore.getState().saveCameraPreset(DEVICE, 'Close-up', camera);
+    camera.zoom = 0;
+
+    expect(useUeControlStore.getState().getCameraPresets(DEVICE)[0]?.camera.zoom).toBe(300);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// persist migration
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('persist migration', () => {
+  const V6_DEFAULTS = { levelSource: 'builtin', levelCatalog: BUILTIN_LEVEL_CATALOG };
+  const V8_DEFAULTS = { ueCommittedLightings: {} };
+
+  it('v1 gets a zero committed camera for its URL and empty presets', () => {
+    const result = migrateUeControlState({ ueApiUrl: 'http://ue:8081/' }, 1);
+    expect(result).toEqual({
+      ueApiUrl: 'http://ue:8081/',
+      deviceUeApiUrls: {},
+      ueCommittedCameras: { 'http://ue:8081': ZERO_CAMERA },
+      cameraPresets: {},
+      deviceGroups: [],
+      broadcastGroupIds: {},
+      ...V6_DEFAULTS,
+      ...V8_DEFAULTS,
+    });
+  });
+
+  it('v2 keeps committed camera and adds empty presets', () => {
+    const committed = { ...ZERO_CAMERA, zoom: 100 };
+    const result = migrateUeControlState({ ueApiUrl: 'http://ue:8081', ueCommittedCamera: committed }, 2);
+    expect(result).toEqual({
+      ueApiUrl: 'http://ue:8081',
+      deviceUeApiUrls: {},
+      ueCommittedCameras: { 'http://ue:8081': committed },
+      cameraPresets: {},
+      deviceGroups: [],
+      broadcastGroupIds: {},
+      ...V6_DEFAULTS,
+      ...V8_DEFAULTS,
+    });
+  });
+
+  it('v3 drops the committed camera when no URL was set', () => {
+    const result = migrateUeControlState({ ueApiUrl: '', ueCommittedCamera: CLOSE_UP, cameraPresets: {} }, 3);
+    expect(result).toEqual({
+      ueApiUrl: '',
+      deviceUeApiUrls: {},
+      ueCommittedCameras: {},
+      cameraPresets: {},
+      deviceGroups: [],
+      broadcastGroupIds: {},
+      ...V6_DEFAULTS,
+      ...V8_DEFAULTS,
+    });
+  });
+
+  it('handles null persisted state', () => {
+    expect(migrateUeControlState(null, 2)).toEqual({
+      cameraPresets: {},
+      deviceUeApiUrls: {},
+      ueCommittedCameras: {},
+      deviceGroups: [],
+      broadcastGroupIds: {},
+      ...V6_DEFAULTS,
+      ...V8_DEFAULTS,
+    });
+  });
+
+  it('v4 adds empty device groups', () => {
+    expect(migrateUeControlState({ ueApiUrl: 'http://ue:8081' }, 4)).toEqual({
+      ueApiUrl: 'http://ue:8081',
+      deviceGroups: [],
+      broadcastGroupIds: {},
+      ...V6_DEFAULTS,
+      ...V8_DEFAULTS,
+    });
+  });
+
+  it('v5 adds the built-in level catalogue and moves devices off removed levels', () => {
+    const result = migrateUeControlState(
+      {
+        deviceSettings: {
+          [DEVICE]: { ...DEFAULT_DEVICE_SETTINGS, level: 'LVL_Master_Retired' },
+          holobox: { ...DEFAULT_DEVICE_SETTINGS, level: 'LVL_Master_Logo' },
+        },
+      },
+      5,
+    );
+
+    expect(result).toMatchObject(V6_DEFAULTS);
+    expect(result.deviceSettings).toEqual({
+      [DEVICE]: DEFAULT_DEVICE_SETTINGS,
+      holobox: { ...DEFAULT_DEVICE_SETTINGS, level: 'LVL_Master_Logo' },
+    });
+  });
+
+  it('v6 adds an empty custom background to stored device settings', () => {
+    const v6Settings: Partial<UeDeviceSettings> = { ...DEFAULT_DEVICE_SETTINGS };
+    delete v6Settings.customBackground;
+    const result = migrateUeControlState(
+      { levelCatalog: BUILTIN_LEVEL_CATALOG, deviceSettings: { [DEVICE]: v6Settings } },
+      6,
+    );
+
+    expect(result.deviceSettings).toEqual({ [DEVICE]: DEFAULT_DEVICE_SETTINGS });
+  });
+
+  it('v7 assumes start-up lighting on every engine and device', () => {
+    const v7Settings: Partial<UeDeviceSettings> = { ...DEFAULT_DEVICE_SETTINGS };
+    delete v7Settings.lightBrightness;
+    delete v7Settings.lightPreset;
+    const result = migrateUeControlState(
+      { levelCatalog: BUILTIN_LEVEL_CATALOG, deviceSettings: { [DEVICE]: v7Settings } },
+      7,
+    );
+
+    expect(result).toMatchObject(V8_DEFAULTS);
+    expect(result.deviceSettings).toEqual({ [DEVICE]: DEFAULT_DEVICE_SETTINGS });
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Lighting
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('lighting', () => {
+  it('steps brightness within its range and wraps presets', () => {
+    const top = { lightBrightness: LIGHT_BRIGHTNESS_RANGE.max, lightPreset: LIGHT_PRESET_COUNT - 1 };
+    expect(stepLighting(top, 'lightUp')).toEqual(top);
+    expect(stepLighting(top, 'lightDown').lightBrightness).toBe(LIGHT_BRIGHTNESS_RANGE.max - 1);
+    expect(stepLighting(top, 'changeLight').lightPreset).toBe(0);
+    expect(stepLighting(ZERO_LIGHTING, 'changeLight')).toEqual({ lightBrightness: 0, lightPreset: 1 });
+  });
+
+  it('tracks committed lighting per engine', () => {
+    const { setUeCommittedLighting, getCommittedLighting } = useUeControlStore.getState();
+    setUeCommittedLighting('http://ue:8081/', { lightBrightness: 2, lightPreset: 1 });
+
+    expect(getCommittedLighting('http://ue:8081')).toEqual({ lightBrightness: 2, lightPreset: 1 });
+    expect(getCommittedLighting('http://other:8081')).toBe(ZERO_LIGHTING);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Level catalogue
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('level catalogue', () => {
+  const STUDIO: UeLevel = { id: 'LVL_Master_Studio', label: 'Studio' };
+  const BEACH: UeLevel = { id: 'LVL_Master_Beach', label: 'Beach' };
+
+  beforeEach(() => {
+    useUeControlStore.setState({ deviceSettings: {}, levelCatalog: BUILTIN_LEVEL_CATALOG });
+  });
+
+  it('parses ids and labelled entries, dropping malformed and repeated ids', () => {
+    const levels = parseUeLevels([
+      'LVL_Master_OfficeSunset',
+      { name: 'LVL_Master_Beach', label: 'Beach ' },
+      'x y',
+      'LVL_Master_Beach',
+    ]);
+    expect(levels).toEqual([{ id: 'LVL_Master_OfficeSunset', label: 'Office Sunset' }, BEACH]);
+    expect(parseUeLevels({ levels: [{ Id: 'LVL_Master_Studio' }] })).toEqual([STUDIO]);
+    expect(parseUeLevels('LVL_Master_Studio')).toEqual([]);
+  });
+
+  it('validates level ids by format', () => {
+    expect(isUeLevelId('LVL_Master_Beach')).toBe(true);
+    expect(isUeLevelId('LVL Master')).toBe(false);
+    expect(isUeLevelId('')).toBe(false);
+    expect(isUeLevelId(42)).toBe(false);
+  });
+
+  it('moves devices whose level is gone to the default level, else the first level', () => {
+    const store = useUeControlStore.getState();
+    store.updateDeviceSettings(DEVICE, { level: 'LVL_Master_Logo' });
+    store.updateDeviceSettings('holobox', { level: 'LVL_Master_ModernOffice' });
+
+    store.setLevelCatalog({ levels: [STUDIO, BEACH], source: 'ue', fetchedAt: 1 });
+
+    const { deviceSettings, levelCatalog } = useUeControlStore.getState();
+    expect(levelCatalog.source).toBe('ue');
+    expect(deviceSettings[DEVICE]?.level).toBe('LVL_Master_Studio');
+    expect(deviceSettings.holobox?.level).toBe('LVL_Master_Studio');
+    expect(fallbackLevel([...UE_LEVELS, BEACH])).toBe(DEFAULT_DEVICE_SETTINGS.level);
+  });
+
+  it('keeps settings untouched when every level is still listed', () => {
+    useUeControlStore.getState().updateDeviceSettings(DEVICE, { level: 'LVL_Master_Logo' });
+    const before = useUeControlStore.getState().deviceSettings;
+
+    useUeControlStore.getState().setLevelCatalog({ levels: [...UE_LEVELS, BEACH], source: 'backend', fetchedAt: 1 });
+
+    expect(useUeControlStore.getState().deviceSettings).toBe(before);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// UE endpoints
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('UE endpoints', () => {
+  beforeEach(() => {
+    useUeControlStore.setState({
+      ueApiUrl: 'http://ue:8081',
+      deviceUeApiUrls: {},
+      activeUeDeviceId: null,
+      ueCommittedCameras: {},
+      ueReachable: null,
+      ueCameraDrift: null,
+    });
+  });
+
+  it('resolves a device override, falling back to the default URL', () => {
+    const { setDeviceUeApiUrl } = useUeControlStore.getState();
+    setDeviceUeApiUrl('holobox', ' http://holobox-ue:8081 ');
+
+    const { getUeApiUrl } = useUeControlStore.getState();
+    expect(getUeApiUrl('holobox')).toBe('http://holobox-ue:8081');
+    expect(getUeApiUrl(DEVICE)).toBe('http://ue:8081');
+    expect(getUeApiUrl(null)).toBe('http://ue:8081');
+
+    setDeviceUeApiUrl('holobox', '  ');
+    expect(useUeControlStore.getState().deviceUeApiUrls).toEqual({});
+  });
+
+  it('keeps a committed camera per endpoint, ignoring trailing slashes', () => {
+    const { setUeCommittedCamera, patchUeCommittedCamera } = useUeControlStore.getState();
+    setUeCommittedCamera('http://ue:8081/', CLOSE_UP);
+    patchUeCommittedCamera('http://holobox-ue:8081', { zoom: 20 });
+
+    const { getCommittedCamera, resetUeCommittedCamera } = useUeControlStore.getState();
+    expect(getCommittedCamera('http://ue:8081')).toEqual(CLOSE_UP);
+    expect(getCommittedCamera('http://holobox-ue:8081')).toEqual({ ...ZERO_CAMERA, zoom: 20 });
+    expect(getCommittedCamera('http://other:8081')).toEqual(ZERO_CAMERA);
+
+    resetUeCommittedCamera('http://ue:8081');
+    expect(useUeControlStore.getState().getCommittedCamera('http://ue:8081')).toEqual(ZERO_CAMERA);
+  });
+
+  it('forgets reachability only when the active device uses another engine', () => {
+    const store = useUeControlStore.getState();
+    store.setDeviceUeApiUrl('holobox', 'http://holobox-ue:8081');
+    store.setActiveUeDevice(DEVICE);
+    store.setUeReachable(true);
+
+    store.setActiveUeDevice('keba-kiosk');
+    expect(useUeControlStore.getState().ueReachable).toBe(true);
+
+    store.setActiveUeDevice('holobox');
+    expect(useUeControlStore.getState()).toMatchObject({ activeUeDeviceId: 'holobox', ueReachable: null });
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// device groups
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('device groups', () => {
+  const BOOTH = ['http://holo-1:8081', 'http://holo-2:8081/', ' http://holo-2:8081 ', ''];
+
+  beforeEach(() => {
+    useUeControlStore.setState({
+      ueApiUrl: 'http://ue:8081',
+      deviceUeApiUrls: {},
+      deviceGroups: [],
+      broadcastGroupIds: {},
+    });
+  });
+
+  it('saves distinct endpoints and replaces a group with the same name', () => {
+    const { saveDeviceGroup } = useUeControlStore.getState();
+    const id = saveDeviceGroup(' Booth ', BOOTH);
+    expect(saveDeviceGroup('booth', ['http://holo-3:8081'])).toBe(id);
+
+    expect(useUeControlStore.getState().deviceGroups).toEqual([
+      { id, name: 'booth', endpoints: ['http://holo-3:8081'] },
+    ]);
+    expect(saveDeviceGroup('  ', BOOTH)).toBeNull();
+    expect(saveDeviceGroup('Empty', [' '])).toBeNull();
+  });
+
+  it('resolves a broadcasting device to its group endpoints', () => {
+    const store = useUeControlStore.getState();
+    const id = store.saveDeviceGroup('Booth', BOOTH)!;
+
+    expect(store.getUeEndpoints('holobox')).toEqual(['http://ue:8081']);
+
+    store.setBroadcastGroup('holobox', id);
+    expect(useUeControlStore.getState().getUeEndpoints('holobox')).toEqual([
+      'http://holo-1:8081',
+      'http://holo-2:8081/',
+    ]);
+
+    useUeControlStore.setState({ ueApiUrl: '' });
+    store.setBroadcastGroup('holobox', null);
+    expect(useUeControlStore.getState().getUeEndpoints('holobox')).toEqual([]);
+  });
+
+  it('unlinks devices from a deleted group', () => {
+    const store = useUeControlStore.getState();
+    const id = store.saveDeviceGroup('Booth', BOOTH)!;
+    store.setBroadcastGroup('holobox', id);
+
+    store.deleteDeviceGroup(id);
+
+    expect(useUeControlStore.getState()).toMatchObject({ deviceGroups: [], broadcastGroupIds: {} });
+    expect(useUeControlStore.getState().getUeEndpoints('holobox')).toEqual(['http://ue:8081']);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// config import
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('config import', () => {
+  beforeEach(() => {
+    useUeControlStore.setState({
+      ueApiUrl: 'http://ue:8081',
+      deviceUeApiUrls: { kiosk: 'http://kiosk:8081' },
+      deviceSettings: {
+        kiosk: { ...DEFAULT_DEVICE_SETTINGS, zoom: 100 },
+        holobox: { ...DEFAULT_DEVICE_SETTINGS, zoom: 50 },
+      },
+      cameraPresets: {},
+      ueCommittedCameras: { 'http://ue:8081': { ...ZERO_CAMERA, zoom: 50 } },
+    });
+  });
+
+  it('replaces the devices the config lists and leaves the others alone', () => {
+    useUeControlStore.getState().importUeConfig({
+      ueApiUrl: 'http://ue-2:8081',
+      deviceUeApiUrls: {},
+      deviceSettings: { kiosk: { ...DEFAULT_DEVICE_SETTINGS, zoom: 300 } },
+      cameraPresets: { kiosk: [{ id: 'p1', name: 'Close-up', camera: CLOSE_UP }] },
+    });
+
+    const state = useUeControlStore.getState();
+    expect(state.ueApiUrl).toBe('http://ue-2:8081');
+    expect(state.deviceUeApiUrls).toEqual({});
+    expect(state.getDeviceSettings('kiosk').zoom).toBe(300);
+    expect(state.getDeviceSettings('holobox').zoom).toBe(50);
+    expect(state.getCameraPresets('kiosk').map((p) => p.name)).toEqual(['Close-up']);
+    expect(state.ueCommittedCameras).toEqual({ 'http://ue:8081': { ...ZERO_CAMERA, zoom: 50 } });
+  });
+});
@@ -2,10 +2,38 @@
  * UE Remote Control store (persisted to localStorage as `rvtr-ue-control`).
  *
  * Stores per-device UE settings (camera offsets, level, avatar, toggles)
- * and the UE API URL. Settings are keyed by DeviceId so each streaming device
+ * and the UE API URLs. Settings are keyed by DeviceId so each streaming device
  * (kiosk, keba-kiosk, holobox) remembers its own camera position independently.
+ * `cameraPresets` holds named camera framings per device (close-up, full body, …).
  *
- * `ueReachable` is runtime-only (excluded from persist) — set by useStatusPolling.
+ * Each device may run against its own UE instance: `deviceUeApiUrls` overrides
+ * the default `ueApiUrl` per DeviceId (`getUeApiUrl`). The committed camera is
+ * tracked per engine (`ueCommittedCameras`, keyed by `ueEndpointKey`), so two
+ * devices sharing an engine share its camera and separate engines don't mix.
+ *
+ * `deviceGroups` are named sets of engines (e.g. the identical holoboxes of a
+ * trade-show booth). A device with a `broadcastGroupIds` entry sends its panel
+ * commands to every engine of that group (`getUeEndpoints`).
+ *
+ * The scene selector's levels come from `levelCatalog` — fetched from the
+ * `levelSource` (UE's `GetLevels` query, the writer backend's levels.json, or
+ * the built-in `UE_LEVELS`) and cached here. Replacing the catalogue moves
+ * devices whose level disappeared to a fallback level.
+ *
+ * Lighting works like the camera: `lightBrightness` / `lightPreset` are the
+ * desired state per device, `ueCommittedLightings` what each engine shows.
+ * UE only knows relative LightUp / LightDown / ChangeLight actions, so the
+ * difference is replayed as net steps (see `applyLightingTransition`).
+ *
+ * The portable part — URLs, per-device settings and presets (`UeConfig`) —
+ * can be moved between browsers as a JSON document (see ueConfigTransfer.ts);
+ * `importUeConfig` replaces the devices the document lists.
+ *
+ * `activeUeDeviceId` is runtime-only — the device whose panel is mounted. Its
+ * endpoint is the one useStatusPolling probes; `ueReachable` / `ueLatencyMs`
+ * (runtime-only) describe that endpoint. `ueCameraDrift` is runtime-only too —
+ * set by useCameraReconciliation when UE's read-back camera disagrees with the
+ * committed one.
  *
  * Important: camera values (zoom, cameraVertical/Horizontal, cameraPitch) are
  * cumulative offsets, NOT absolute positions. The UE API adds them to its current
@@ -16,7 +44,19 @@ import { persist } from 'zustand/middleware';
 
 // ─── Level catalogue ────────────────────────────────────────────────────────
 
-export const UE_LEVELS = [
+/** UE level (map) asset name, e.g. `LVL_Master_ModernOffice` — check with `isUeLevelId` */
+export type UeLevelId = string;
+
+/** Letters, digits and underscores, starting with a letter */
+export const LEVEL_ID_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+export interface UeLevel {
+  id: UeLevelId;
+  label: string;
+}
+
+/** Built-in levels — used until a catalogue is fetched and whenever fetching fails */
+export const UE_LEVELS: readonly UeLevel[] = [
   { id: 'LVL_Master_ModernOffice', label: 'Modern Office' },
   { id: 'LVL_Master_Ravabox', label: 'Ravabox' },
   { id: 'LVL_Master_RavaboxBackground', label: 'Ravabox Background' },
@@ -25,9 +65,78 @@ export const UE_LEVELS = [
   { id: 'LVL_Master_Logo', label: 'Logo' },
   { id: 'LVL_Master_OfficeSunset', label: 'Office Sunset' },
   { id: 'LVL_Master_White_Ravabox', label: 'White Ravabox' },
-] as const;
+];
+
+/** Level that shows `customBackground` — the only one the setting applies to */
+export const CUSTOM_BACKGROUND_LEVEL: UeLevelId = 'LVL_Master_CustomBackground';
+
+/** Where the level catalogue is fetched from */
+export type UeLevelSource = 'builtin' | 'ue' | 'backend';
+
+export interface UeLevelCatalog {
+  levels: readonly UeLevel[];
+  /** Source the levels actually came from (`builtin` after a failed fetch) */
+  source: UeLevelSource;
+  /** Epoch ms of the fetch (0 = never fetched) */
+  fetchedAt: number;
+}
+
+export const BUILTIN_LEVEL_CATALOG: UeLevelCatalog = { levels: UE_LEVELS, source: 'builtin', fetchedAt: 0 };
+
+export function isUeLevelId(value: unknown): value is UeLevelId {
+  return typeof value === 'string' && LEVEL_ID_PATTERN.test(value);
+}
+
+/** `LVL_Master_OfficeSunset` → `Office Sunset` */
+export function levelLabelFromId(id: UeLevelId): string {
+  return id
+    .replace(/^LVL_(Master_)?/, '')
+    .replace(/_/g, ' ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .trim() || id;
+}
+
+/**
+ * Normalize a level list — from UE's `GetLevels` reply or the backend.
+ * Accepts an array (or `{ levels }` / `{ Levels }`) of ids or
+ * `{ id | Id | name, label | Label }` objects. Invalid and repeated ids are dropped.
+ */
+export function parseUeLevels(body: unknown): UeLevel[] {
+  const record = body && typeof body === 'object' ? (body as Record<string, unknown>) : null;
+  const entries = Array.isArray(body) ? body : (record?.levels ?? record?.Levels);
+  if (!Array.isArray(entries)) return [];
 
-export type UeLevelId = (typeof UE_LEVELS)[number]['id'];
+  const levels: UeLevel[] = [];
+  for (const entry of entries) {
+    const item = entry && typeof entry === 'object' ? (entry as Record<string, unknown>) : null;
+    const id = item ? (item.id ?? item.Id ?? item.name) : entry;
+    if (!isUeLevelId(id) || levels.some((l) => l.id === id)) continue;
+    const label = item ? (item.label ?? item.Label) : null;
+    levels.push({ id, label: typeof label === 'string' && label.trim() ? label.trim() : levelLabelFromId(id) });
+  }
+  return levels;
+}
+
+/** Level for devices whose level isn't in `levels`: the default level if listed, else the first */
+export function fallbackLevel(levels: readonly UeLevel[]): UeLevelId {
+  const preferred = DEFAULT_DEVICE_SETTINGS.level;
+  return levels.some((l) => l.id === preferred) ? preferred : (levels[0]?.id ?? preferred);
+}
+
+/** Move devices whose level isn't in `levels` to `fallbackLevel` (same object if none moved). */
+function remapMissingLevels(
+  deviceSettings: Record<string, UeDeviceSettings>,
+  levels: readonly UeLevel[],
+): Record<string, UeDeviceSettings> {
+  const known = new Set(levels.map((l) => l.id));
+  let next: Record<string, UeDeviceSettings> | null = null;
+  for (const [deviceId, settings] of Object.entries(deviceSettings)) {
+    if (known.has(settings.level)) continue;
+    next ??= { ...deviceSettings };
+    next[deviceId] = { ...settings, level: fallbackLevel(levels) };
+  }
+  return next ?? deviceSettings;
+}
 
 // ─── Camera position (committed state) ───────────────────────────────────────
 
@@ -46,6 +155,109 @@ export const ZERO_CAMERA: CameraPosition = {
   cameraPitch: 0,
 };
 
+// ─── Lighting (committed state) ──────────────────────────────────────────────
+
+/** Brightness steps either side of UE's start-up brightness; LightUp / LightDown move one step */
+export const LIGHT_BRIGHTNESS_RANGE = { min: -10, max: 10 } as const;
+/** Light presets `ChangeLight` cycles through — must match the UE project */
+export const LIGHT_PRESET_COUNT = 3;
+
+/** Represents the lighting we believe UE currently has (0/0 = as UE starts). */
+export interface LightingState {
+  /** Net LightUp minus LightDown steps */
+  lightBrightness: number;
+  /** Index of the active light preset, 0…LIGHT_PRESET_COUNT-1 */
+  lightPreset: number;
+}
+
+export const ZERO_LIGHTING: LightingState = { lightBrightness: 0, lightPreset: 0 };
+
+/** Panel / show-step lighting actions (registry command ids) */
+export type LightingAction = 'lightUp' | 'lightDown' | 'changeLight';
+
+/** Lighting after one action; brightness stops at the range ends, presets wrap. */
+export function stepLighting(lighting: LightingState, action: LightingAction): LightingState {
+  const { min, max } = LIGHT_BRIGHTNESS_RANGE;
+  switch (action) {
+    case 'lightUp':
+      return { ...lighting, lightBrightness: Math.min(max, lighting.lightBrightness + 1) };
+    case 'lightDown':
+      return { ...lighting, lightBrightness: Math.max(min, lighting.lightBrightness - 1) };
+    case 'changeLight':
+      return { ...lighting, lightPreset: (lighting.lightPreset + 1) % LIGHT_PRESET_COUNT };
+  }
+}
+
+/** The lighting part of a device's settings */
+export function lightingOf(settings: LightingState): LightingState {
+  return { lightBrightness: settings.lightBrightness, lightPreset: settings.lightPreset };
+}
+
+/** Mismatch between the committed camera and the camera UE reported back. */
+export interface CameraDrift {
+  /** Engine the camera was read from — drift is only ever applied to it */
+  ueApiUrl: string;
+  /** Camera position reported by UE (`GetCameraState`) */
+  actual: CameraPosition;
+  /** Axes whose committed value differs from `actual` */
+  axes: (keyof CameraPosition)[];
+  /** Epoch ms of the check that detected the drift */
+  detectedAt: number;
+}
+
+/**
+ * Key of an endpoint in `ueCommittedCameras` — the URL without surrounding
+ * whitespace or trailing slashes, so `http://ue:8081/` and `http://ue:8081`
+ * are the same engine.
+ */
+export function ueEndpointKey(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+// ─── Device groups ───────────────────────────────────────────────────────────
+
+/** Named set of UE engines that receive the same commands (broadcast). */
+export interface UeDeviceGroup {
+  id: string;
+  name: string;
+  /** Engine base URLs, distinct by `ueEndpointKey` */
+  endpoints: string[];
+}
+
+const NO_ENDPOINTS: string[] = [];
+
+function createGroupId(): string {
+  return `group-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/** Trim, drop blanks and collapse endpoints that name the same engine. */
+function distinctEndpoints(urls: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const url of urls) {
+    const key = ueEndpointKey(url);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    result.push(url.trim());
+  }
+  return result;
+}
+
+// ─── Camera presets ─────────────────────────────────────────────────────────
+
+/** Named camera framing saved for a device (e.g. "Close-up", "Full body"). */
+export interface CameraPreset {
+  id: string;
+  name: string;
+  camera: CameraPosition;
+}
+
+const NO_PRESETS: CameraPreset[] = [];
+
+function createPresetId(): string {
+  return `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
 // ─── Per-device settings ─────────────────────────────────────────────────────
 
 export interface UeDeviceSettings {
@@ -59,6 +271,8 @@ export interface UeDeviceSettings {
   cameraPitch: number;
   /** Active background level */
   level: UeLevelId;
+  /** Background file path on the UE machine for `CUSTOM_BACKGROUND_LEVEL` ('' = none) */
+  customBackground: string;
   /** Avatar ID */
   avatarId: string;
   /** Show RAVATAR logo overlay */
@@ -69,6 +283,10 @@ export interface UeDeviceSettings {
   allowInterruption: boolean;
   /** Output audio as PCM */
   isPcm: boolean;
+  /** Brightness step (see `LightingState`) */
+  lightBrightness: number;
+  /** Active light preset index */
+  lightPreset: number;
 }
 
 export const DEFAULT_DEVICE_SETTINGS: UeDeviceSettings = {
@@ -77,37 +295,116 @@ export const DEFAULT_DEVICE_SETTINGS: UeDeviceSettings = {
   cameraHorizontal: 0,
   cameraPitch: 0,
   level: 'LVL_Master_ModernOffice',
+  customBackground: '',
   avatarId: '',
   showLogo: true,
   allowAvatarChange: true,
   allowInterruption: true,
   isPcm: false,
+  lightBrightness: 0,
+  lightPreset: 0,
 };
 
 // ─── Store ───────────────────────────────────────────────────────────────────
 
+/** Persist version of `rvtr-ue-control` (exported config documents carry it too) */
+export const UE_CONTROL_STORE_VERSION = 8;
+
+/** Browser-independent part of the store: what a config export carries */
+export interface UeConfig {
+  ueApiUrl: string;
+  deviceUeApiUrls: Record<string, string>;
+  deviceSettings: Record<string, UeDeviceSettings>;
+  cameraPresets: Record<string, CameraPreset[]>;
+}
+
+/** Devices a config has anything for (settings, presets or a URL override) */
+export function ueConfigDeviceIds(config: UeConfig): string[] {
+  return [
+    ...new Set([
+      ...Object.keys(config.deviceSettings),
+      ...Object.keys(config.cameraPresets),
+      ...Object.keys(config.deviceUeApiUrls),
+    ]),
+  ];
+}
+
 interface UeControlState {
-  /** UE Remote API base URL (e.g. http://127.0.0.1:8081) */
+  /** Default UE Remote API base URL (e.g. http://127.0.0.1:8081) */
   ueApiUrl: string;
+  /** Per-device UE API URL overrides, keyed by DeviceId (absent = default) */
+  deviceUeApiUrls: Record<string, string>;
+  /** Runtime-only: device whose UE endpoint is health-checked (null = none mounted) */
+  activeUeDeviceId: string | null;
   /** Per-device settings, keyed by DeviceId */
   deviceSettings: Record<string, UeDeviceSettings>;
   /** Runtime-only: UE API reachability (null = unknown, true/false = last check) */
   ueReachable: boolean | null;
+  /** Runtime-only: TCP connect latency of the last successful health check */
+  ueLatencyMs: number | null;
   /**
-   * Persisted model of UE's current camera position.
-   * Updated after every successful camera command.
+   * Persisted model of each engine's current camera position, keyed by
+   * `ueEndpointKey`. Updated after every successful camera command.
    * Used to compute correct deltas on device switch and page refresh.
    */
-  ueCommittedCamera: CameraPosition;
+  ueCommittedCameras: Record<string, CameraPosition>;
+  /**
+   * Persisted model of each engine's lighting, keyed by `ueEndpointKey`.
+   * Advanced after every lighting step UE accepted.
+   */
+  ueCommittedLightings: Record<string, LightingState>;
+  /** Runtime-only: last detected camera drift (null = in sync or not checked) */
+  ueCameraDrift: CameraDrift | null;
+  /** Named camera presets, keyed by DeviceId */
+  cameraPresets: Record<string, CameraPreset[]>;
+  /** Engine groups available for broadcast */
+  deviceGroups: UeDeviceGroup[];
+  /** Group a device broadcasts to, keyed by DeviceId (absent = its own engine only) */
+  broadcastGroupIds: Record<string, string>;
+  /** Where the level catalogue is fetched from */
+  levelSource: UeLevelSource;
+  /** Last fetched level catalogue (cached across reloads) */
+  levelCatalog: UeLevelCatalog;
 
   setUeApiUrl: (url: string) => void;
+  /** Override the UE API URL for a device; a blank URL falls back to the default */
+  setDeviceUeApiUrl: (deviceId: string, url: string) => void;
+  /** UE API URL a device talks to — its override, else the default ('' = none) */
+  getUeApiUrl: (deviceId: string | null) => string;
+  /**
+   * Engines a device's commands go to: its broadcast group's endpoints, else
+   * its own endpoint (empty if no URL is configured).
+   */
+  getUeEndpoints: (deviceId: string) => string[];
+  /**
+   * Save an engine group. A group with the same name (case-insensitive) is
+   * replaced in place. Returns the group id, or null for a blank name or no endpoints.
+   */
+  saveDeviceGroup: (name: string, endpoints: string[]) => string | null;
+  /** Delete a group; devices broadcasting to it fall back to their own engine */
+  deleteDeviceGroup: (groupId: string) => void;
+  /** Broadcast a device's commands to a group (null = its own engine only) */
+  setBroadcastGroup: (deviceId: string, groupId: string | null) => void;
+  setLevelSource: (source: UeLevelSource) => void;
+  /** Replace the level catalogue; devices on a level it no longer lists move to `fallbackLevel` */
+  setLevelCatalog: (catalog: UeLevelCatalog) => void;
+  /** Mark the device whose endpoint is probed; resets reachability if the endpoint changes */
+  setActiveUeDevice: (deviceId: string | null) => void;
   setUeReachable: (reachable: boolean | null) => void;
-  /** Replace committed camera entirely (e.g. after device switch) */
-  setUeCommittedCamera: (pos: CameraPosition) => void;
+  setUeLatencyMs: (latencyMs: number | null) => void;
+  /** Committed camera of an endpoint (zeros if never moved) */
+  getCommittedCamera: (url: string) => CameraPosition;
+  /** Replace an endpoint's committed camera entirely (e.g. after device switch) */
+  setUeCommittedCamera: (url: string, pos: CameraPosition) => void;
   /** Partial update (e.g. after a single slider command succeeds) */
-  patchUeCommittedCamera: (patch: Partial<CameraPosition>) => void;
-  /** Reset to zeros (e.g. after UE restart) */
-  resetUeCommittedCamera: () => void;
+  patchUeCommittedCamera: (url: string, patch: Partial<CameraPosition>) => void;
+  /** Reset an endpoint to zeros (e.g. after UE restart) */
+  resetUeCommittedCamera: (url: string) => void;
+  setUeCameraDrift: (drift: CameraDrift | null) => void;
+  /** Committed lighting of an endpoint (zeros if never changed) */
+  getCommittedLighting: (url: string) => LightingState;
+  /** Replace an endpoint's committed lighting (ZERO_LIGHTING after a UE restart) */
+  setUeCommittedLighting: (url: string, lighting: LightingState) => void;
   /** Partial update for a single device */
   updateDeviceSettings: (
     deviceId: string,
@@ -117,25 +414,212 @@ interface UeControlState {
   resetDeviceSettings: (deviceId: string) => void;
   /** Get settings for a device (returns defaults if not yet configured) */
   getDeviceSettings: (deviceId: string) => UeDeviceSettings;
+  /**
+   * Save a camera preset. A preset with the same name (case-insensitive) is
+   * overwritten in place. Returns the preset id, or null for a blank name.
+   */
+  saveCameraPreset: (deviceId: string, name: string, camera: CameraPosition) => string | null;
+  renameCameraPreset: (deviceId: string, presetId: string, name: string) => void;
+  deleteCameraPreset: (deviceId: string, presetId: string) => void;
+  /** Presets for a device (stable empty array if none) */
+  getCameraPresets: (deviceId: string) => CameraPreset[];
+  /**
+   * Take over an imported config: the default URL, and for every device the
+   * config lists its settings, presets and URL override (absent = removed).
+   * Other devices and the committed engine state are left alone.
+   */
+  importUeConfig: (config: UeConfig) => void;
+}
+
+/**
+ * Zustand persist migration:
+ *   v1 → v2: add `ueCommittedCamera` (assume UE at zero)
+ *   v2 → v3: add `cameraPresets`
+ *   v3 → v4: add `deviceUeApiUrls`; `ueCommittedCamera` becomes the default
+ *            endpoint's entry in `ueCommittedCameras`
+ *   v4 → v5: add `deviceGroups` and `broadcastGroupIds`
+ *   v5 → v6: add `levelSource` and the cached `levelCatalog` (a catalogue
+ *            passed in is kept — config imports migrate against the live one)
+ *   v6 → v7: add `customBackground` to every stored device's settings
+ *   v7 → v8: add `ueCommittedLightings` (assume every engine at its start-up
+ *            lighting) and zero lighting to every stored device's settings
+ *
+ * Every migration then moves devices whose level the catalogue no longer lists
+ * to `fallbackLevel`.
+ */
+export function migrateUeControlState(persistedState: unknown, version: number) {
+  let state = (persistedState ?? {}) as Record<string, unknown>;
+  if (version < 2) {
+    state = { ...state, ueCommittedCamera: { ...ZERO_CAMERA } };
+  }
+  if (version < 3) {
+    state = { ...state, cameraPresets: {} };
+  }
+  if (version < 4) {
+    const { ueCommittedCamera, ...rest } = state;
+    const url = typeof rest.ueApiUrl === 'string' ? ueEndpointKey(rest.ueApiUrl) : '';
+    state = {
+      ...rest,
+      deviceUeApiUrls: {},
+      ueCommittedCameras: url && ueCommittedCamera ? { [url]: ueCommittedCamera } : {},
+    };
+  }
+  if (version < 5) {
+    state = { ...state, deviceGroups: [], broadcastGroupIds: {} };
+  }
+  if (version < 6) {
+    state = {
+      ...state,
+      levelSource: state.levelSource ?? 'builtin',
+      levelCatalog: state.levelCatalog ?? BUILTIN_LEVEL_CATALOG,
+    };
+  }
+  if (version < 7 && state.deviceSettings && typeof state.deviceSettings === 'object') {
+    const deviceSettings = state.deviceSettings as Record<string, UeDeviceSettings>;
+    state = {
+      ...state,
+      deviceSettings: Object.fromEntries(
+        Object.entries(deviceSettings).map(([id, s]) => [id, { ...s, customBackground: '' }]),
+      ),
+    };
+  }
+  if (version < 8) {
+    state = { ...state, ueCommittedLightings: {} };
+    if (state.deviceSettings && typeof state.deviceSettings === 'object') {
+      const deviceSettings = state.deviceSettings as Record<string, UeDeviceSettings>;
+      state = {
+        ...state,
+        deviceSettings: Object.fromEntries(
+          Object.entries(deviceSettings).map(([id, s]) => [id, { ...s, ...ZERO_LIGHTING }]),
+        ),
+      };
+    }
+  }
+  const catalog = state.levelCatalog as UeLevelCatalog | undefined;
+  const levels = Array.isArray(catalog?.levels) && catalog.levels.length ? catalog.levels : UE_LEVELS;
+  if (state.deviceSettings && typeof state.deviceSettings === 'object') {
+    state = {
+      ...state,
+      deviceSettings: remapMissingLevels(state.deviceSettings as Record<string, UeDeviceSettings>, levels),
+    };
+  }
+  return state;
 }
 
 export const useUeControlStore = create<UeControlState>()(
   persist(
     (set, get) => ({
       ueApiUrl: '',
+      deviceUeApiUrls: {},
+      activeUeDeviceId: null,
       deviceSettings: {},
       ueReachable: null,
-      ueCommittedCamera: { ...ZERO_CAMERA },
+      ueLatencyMs: null,
+      ueCommittedCameras: {},
+      ueCommittedLightings: {},
+      ueCameraDrift: null,
+      cameraPresets: {},
+      deviceGroups: [],
+      broadcastGroupIds: {},
+      levelSource: 'builtin',
+      levelCatalog: BUILTIN_LEVEL_CATALOG,
 
       setUeApiUrl: (url) => set({ ueApiUrl: url }),
+      setDeviceUeApiUrl: (deviceId, url) =>
+        set((state) => {
+          const next = { ...state.deviceUeApiUrls };
+          if (url.trim()) next[deviceId] = url.trim();
+          else delete next[deviceId];
+          return { deviceUeApiUrls: next };
+        }),
+      getUeApiUrl: (deviceId) => {
+        const { deviceUeApiUrls, ueApiUrl } = get();
+        return (deviceId !== null ? deviceUeApiUrls[deviceId] : undefined) ?? ueApiUrl;
+      },
+      getUeEndpoints: (deviceId) => {
+        const { deviceGroups, broadcastGroupIds, getUeApiUrl } = get();
+        const groupId = broadcastGroupIds[deviceId];
+        const group = groupId ? deviceGroups.find((g) => g.id === groupId) : undefined;
+        if (group) return group.endpoints;
+        const url = getUeApiUrl(deviceId);
+        return url ? [url] : NO_ENDPOINTS;
+      },
+      saveDeviceGroup: (name, endpoints) => {
+        const trimmed = name.trim();
+        const urls = distinctEndpoints(endpoints);
+        if (!trimmed || urls.length === 0) return null;
+
+        const groups = get().deviceGroups;
+        const existing = groups.find((g) => g.name.toLowerCase() === trimmed.toLowerCase());
+        const id = existing?.id ?? createGroupId();
+        const group: UeDeviceGroup = { id, name: trimmed, endpoints: urls };
+
+        set({
+          deviceGroups: existing ? groups.map((g) => (g.id === id ? group : g)) : [...groups, group],
+        });
+        return id;
+      },
+      deleteDeviceGroup: (groupId) =>
+        set((state) => {
+          const broadcastGroupIds = { ...state.broadcastGroupIds };
+          for (const [deviceId, id] of Object.entries(broadcastGroupIds)) {
+            if (id === groupId) delete broadcastGroupIds[deviceId];
+          }
+          return {
+            deviceGroups: state.deviceGroups.filter((g) => g.id !== groupId),
+            broadcastGroupIds,
+          };
+        }),
+      setBroadcastGroup: (deviceId, groupId) =>
+        set((state) => {
+          const next = { ...state.broadcastGroupIds };
+          if (groupId) next[deviceId] = groupId;
+          else delete next[deviceId];
+          return { broadcastGroupIds: next };
+        }),
+      setLevelSource: (source) => set({ levelSource: source }),
+      setLevelCatalog: (catalog) =>
+        set((state) => ({
+          levelCatalog: catalog,
+          deviceSettings: remapMissingLevels(state.deviceSettings, catalog.levels),
+        })),
+
+      setActiveUeDevice: (deviceId) => {
+        const { activeUeDeviceId, getUeApiUrl } = get();
+        if (activeUeDeviceId === deviceId) return;
+        const sameEndpoint =
+          ueEndpointKey(getUeApiUrl(activeUeDeviceId)) === ueEndpointKey(getUeApiUrl(deviceId));
+        set(
+          sameEndpoint
+            ? { activeUeDeviceId: deviceId }
+            : { activeUeDeviceId: deviceId, ueReachable: null, ueLatencyMs: null, ueCameraDrift: null },
+        );
+      },
       setUeReachable: (reachable) => set({ ueReachable: reachable }),
+      setUeLatencyMs: (latencyMs) => set({ ueLatencyMs: latencyMs }),
 
-      setUeCommittedCamera: (pos) => set({ ueCommittedCamera: pos }),
-      patchUeCommittedCamera: (patch) =>
+      getCommittedCamera: (url) => get().ueCommittedCameras[ueEndpointKey(url)] ?? ZERO_CAMERA,
+      setUeCommittedCamera: (url, pos) =>
         set((state) => ({
-          ueCommittedCamera: { ...state.ueCommittedCamera, ...patch },
+          ueCommittedCameras: { ...state.ueCommittedCameras, [ueEndpointKey(url)]: pos },
+        })),
+      patchUeCommittedCamera: (url, patch) =>
+        set((state) => {
+          const key = ueEndpointKey(url);
+          const current = state.ueCommittedCameras[key] ?? ZERO_CAMERA;
+          return { ueCommittedCameras: { ...state.ueCommittedCameras, [key]: { ...current, ...patch } } };
+        }),
+      resetUeCommittedCamera: (url) =>
+        set((state) => ({
+          ueCommittedCameras: { ...state.ueCommittedCameras, [ueEndpointKey(url)]: { ...ZERO_CAMERA } },
+        })),
+      setUeCameraDrift: (drift) => set({ ueCameraDrift: drift }),
+
+      getCommittedLighting: (url) => get().ueCommittedLightings[ueEndpointKey(url)] ?? ZERO_LIGHTING,
+      setUeCommittedLighting: (url, lighting) =>
+        set((state) => ({
+          ueCommittedLightings: { ...state.ueCommittedLightings, [ueEndpointKey(url)]: lighting },
         })),
-      resetUeCommittedCamera: () => set({ ueCommittedCamera: { ...ZERO_CAMERA } }),
 
       updateDeviceSettings: (deviceId, patch) =>
         set((state) => {
@@ -159,22 +643,83 @@ export const useUeControlStore = create<UeControlState>()(
         const stored = get().deviceSettings[deviceId];
         return stored ?? { ...DEFAULT_DEVICE_SETTINGS };
       },
+
+      saveCameraPreset: (deviceId, name, camera) => {
+        const trimmed = name.trim();
+        if (!trimmed) return null;
+
+        const presets = get().cameraPresets[deviceId] ?? NO_PRESETS;
+        const existing = presets.find((p) => p.name.toLowerCase() === trimmed.toLowerCase());
+        const id = existing?.id ?? createPresetId();
+        const preset: CameraPreset = { id, name: trimmed, camera: { ...camera } };
+
+        set((state) => ({
+          cameraPresets: {
+            ...state.cameraPresets,
+            [deviceId]: existing
+              ? presets.map((p) => (p.id === id ? preset : p))
+              : [...presets, preset],
+          },
+        }));
+        return id;
+      },
+
+      renameCameraPreset: (deviceId, presetId, name) => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        set((state) => ({
+          cameraPresets: {
+            ...state.cameraPresets,
+            [deviceId]: (state.cameraPresets[deviceId] ?? NO_PRESETS).map((p) =>
+              p.id === presetId ? { ...p, name: trimmed } : p,
+            ),
+          },
+        }));
+      },
+
+      deleteCameraPreset: (deviceId, presetId) =>
+        set((state) => ({
+          cameraPresets: {
+            ...state.cameraPresets,
+            [deviceId]: (state.cameraPresets[deviceId] ?? NO_PRESETS).filter((p) => p.id !== presetId),
+          },
+        })),
+
+      getCameraPresets: (deviceId) => get().cameraPresets[deviceId] ?? NO_PRESETS,
+
+      importUeConfig: (config) =>
+        set((state) => {
+          const deviceUeApiUrls = { ...state.deviceUeApiUrls };
+          const deviceSettings = { ...state.deviceSettings };
+          const cameraPresets = { ...state.cameraPresets };
+          for (const deviceId of ueConfigDeviceIds(config)) {
+            const url = config.deviceUeApiUrls[deviceId];
+            if (url) deviceUeApiUrls[deviceId] = url;
+            else delete deviceUeApiUrls[deviceId];
+            const settings = config.deviceSettings[deviceId];
+            if (settings) deviceSettings[deviceId] = settings;
+            else delete deviceSettings[deviceId];
+            cameraPresets[deviceId] = config.cameraPresets[deviceId] ?? [];
+          }
+          return { ueApiUrl: config.ueApiUrl, deviceUeApiUrls, deviceSettings, cameraPresets };
+        }),
     }),
     {
       name: 'rvtr-ue-control',
-      version: 2,
+      version: UE_CONTROL_STORE_VERSION,
       partialize: (state) => ({
         ueApiUrl: state.ueApiUrl,
+        deviceUeApiUrls: state.deviceUeApiUrls,
         deviceSettings: state.deviceSettings,
-        ueCommittedCamera: state.ueCommittedCamera,
+        ueCommittedCameras: state.ueCommittedCameras,
+        ueCommittedLightings: state.ueCommittedLightings,
+        cameraPresets: state.cameraPresets,
+        deviceGroups: state.deviceGroups,
+        broadcastGroupIds: state.broadcastGroupIds,
+        levelSource: state.levelSource,
+        levelCatalog: state.levelCatalog,
       }),
-      migrate: (persistedState: unknown, version: number) => {
-        const state = (persistedState ?? {}) as Record<string, unknown>;
-        if (version < 2) {
-          return { ...state, ueCommittedCamera: { ...ZERO_CAMERA } };
-        }
-        return state;
-      },
+      migrate: migrateUeControlState,
     },
   ),
 );
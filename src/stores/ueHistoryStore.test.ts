@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DEFAULT_DEVICE_SETTINGS, type UeDeviceSettings } from './ueControlStore';
+import { useUeHistoryStore, UE_HISTORY_LIMIT } from './ueHistoryStore';
+
+const DEVICE = 'kiosk';
+const history = () => useUeHistoryStore.getState();
+
+/** Record a change against `settings` and return the settings after it */
+function change(settings: UeDeviceSettings, patch: Partial<UeDeviceSettings>, gesture?: string) {
+  history().record(DEVICE, settings, patch, gesture);
+  return { ...settings, ...patch };
+}
+
+describe('ueHistoryStore', () => {
+  beforeEach(() => {
+    useUeHistoryStore.setState({ histories: {} });
+  });
+
+  it('undoes and redoes the changed fields only', () => {
+    change(DEFAULT_DEVICE_SETTINGS, { level: 'LVL_Master_Ravabox', showLogo: true });
+
+    expect(history().getHistory(DEVICE).past).toHaveLength(1);
+    expect(history().undo(DEVICE)).toEqual({ level: DEFAULT_DEVICE_SETTINGS.level });
+    expect(history().undo(DEVICE)).toBeNull();
+    expect(history().redo(DEVICE)).toEqual({ level: 'LVL_Master_Ravabox' });
+    expect(history().redo(DEVICE)).toBeNull();
+  });
+
+  it('ignores changes that change nothing', () => {
+    change(DEFAULT_DEVICE_SETTINGS, { zoom: 0 });
+    expect(history().getHistory(DEVICE).past).toEqual([]);
+  });
+
+  it('groups one slider gesture into a single entry', () => {
+    let settings = change(DEFAULT_DEVICE_SETTINGS, { zoom: 50 }, 'slider');
+    settings = change(settings, { zoom: 100 }, 'slider');
+    settings = change(settings, { zoom: 150 }, 'slider');
+    history().endGesture(DEVICE);
+    change(settings, { zoom: 200 }, 'slider');
+
+    const { past } = history().getHistory(DEVICE);
+    expect(past.map((e) => [e.before, e.after])).toEqual([
+      [{ zoom: 0 }, { zoom: 150 }],
+      [{ zoom: 150 }, { zoom: 200 }],
+    ]);
+  });
+
+  it('drops a gesture that ends where it started', () => {
+    const settings = change(DEFAULT_DEVICE_SETTINGS, { cameraPitch: 4.5 }, 'slider');
+    change(settings, { cameraPitch: 0 }, 'slider');
+    expect(history().getHistory(DEVICE).past).toEqual([]);
+  });
+
+  it('starts a new entry when another gesture or change comes in', () => {
+    let settings = change(DEFAULT_DEVICE_SETTINGS, { zoom: 50 }, 'nudge:zoom');
+    settings = change(settings, { cameraPitch: 2.25 }, 'nudge:cameraPitch');
+    change(settings, { zoom: 100 }, 'nudge:zoom');
+
+    expect(history().getHistory(DEVICE).past).toHaveLength(3);
+  });
+
+  it('clears the redo stack on a new change and keeps histories per device', () => {
+    const settings = change(DEFAULT_DEVICE_SETTINGS, { showLogo: false });
+    history().undo(DEVICE);
+    change(settings, { isPcm: true });
+    history().record('holobox', DEFAULT_DEVICE_SETTINGS, { zoom: 50 });
+
+    expect(history().getHistory(DEVICE).future).toEqual([]);
+    expect(history().redo(DEVICE)).toBeNull();
+    expect(history().getHistory('holobox').past).toHaveLength(1);
+  });
+
+  it('clears only the given devices', () => {
+    change(DEFAULT_DEVICE_SETTINGS, { zoom: 50 });
+    history().record('holobox', DEFAULT_DEVICE_SETTINGS, { zoom: 50 });
+    history().clear([DEVICE]);
+
+    expect(history().undo(DEVICE)).toBeNull();
+    expect(history().getHistory('holobox').past).toHaveLength(1);
+  });
+
+  it(`keeps at most ${UE_HISTORY_LIMIT} entries`, () => {
+    let settings = DEFAULT_DEVICE_SETTINGS;
+    for (let i = 1; i <= UE_HISTORY_LIMIT + 5; i++) settings = change(settings, { zoom: i * 50 });
+
+    const { past } = history().getHistory(DEVICE);
+    expect(past).toHaveLength(UE_HISTORY_LIMIT);
+    expect(past[0]?.before).toEqual({ zoom: 250 });
+  });
+});
@@ -0,0 +1,151 @@
+import { create } from 'zustand';
+import type { UeDeviceSettings } from './ueControlStore';
+
+/** Oldest entries are dropped beyond this, per device */
+export const UE_HISTORY_LIMIT = 50;
+
+export type UeSettingsPatch = Partial<UeDeviceSettings>;
+
+/** One undoable change: the changed fields' values before and after it */
+export interface UeHistoryEntry {
+  before: UeSettingsPatch;
+  after: UeSettingsPatch;
+  /**
+   * Open gesture the entry still absorbs changes from (e.g. `slider:zoom`
+   * while that slider is dragged); null once the gesture ended.
+   */
+  gesture: string | null;
+}
+
+export interface UeDeviceHistory {
+  /** Oldest first */
+  past: UeHistoryEntry[];
+  /** Next redo last */
+  future: UeHistoryEntry[];
+}
+
+const EMPTY_HISTORY: UeDeviceHistory = { past: [], future: [] };
+
+/** Fields of `patch` whose value differs from `settings`, with their values in `settings` */
+function changedFields(settings: UeDeviceSettings, patch: UeSettingsPatch): UeSettingsPatch {
+  const before: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(patch)) {
+    const current = settings[key as keyof UeDeviceSettings];
+    if (value !== undefined && value !== current) before[key] = current;
+  }
+  return before as UeSettingsPatch;
+}
+
+/** Drop fields a merged entry brought back to where they started */
+function withoutNoOps(entry: UeHistoryEntry): UeHistoryEntry {
+  const before: Record<string, unknown> = { ...entry.before };
+  const after: Record<string, unknown> = { ...entry.after };
+  for (const key of Object.keys(after)) {
+    if (before[key] === after[key]) {
+      delete before[key];
+      delete after[key];
+    }
+  }
+  return { ...entry, before: before as UeSettingsPatch, after: after as UeSettingsPatch };
+}
+
+/**
+ * Undo / redo history of each device's UE settings (not persisted).
+ *
+ * UeControlPanel records every settings change it makes before storing it.
+ * Changes tagged with the same `gesture` merge into one entry until
+ * `endGesture` — so a whole slider drag undoes in one step. Undo / redo only
+ * move entries and hand back the fields to restore; the panel stores and
+ * re-sends them. A config import clears the imported devices' histories —
+ * their entries describe settings the import replaced.
+ */
+interface UeHistoryState {
+  histories: Record<string, UeDeviceHistory>;
+
+  /**
+   * Record `patch` about to be applied to `settings` (the device's current
+   * settings). Unchanged fields are ignored; any new entry clears the redo stack.
+   */
+  record: (deviceId: string, settings: UeDeviceSettings, patch: UeSettingsPatch, gesture?: string) => void;
+  /** Close the device's open gesture — the next change starts a new entry */
+  endGesture: (deviceId: string) => void;
+  /** Step back; returns the fields to restore (null = nothing to undo) */
+  undo: (deviceId: string) => UeSettingsPatch | null;
+  /** Step forward again; returns the fields to restore (null = nothing to redo) */
+  redo: (deviceId: string) => UeSettingsPatch | null;
+  /** Forget the histories of these devices */
+  clear: (deviceIds: readonly string[]) => void;
+  /** History for a device (stable empty history if none) */
+  getHistory: (deviceId: string) => UeDeviceHistory;
+}
+
+export const useUeHistoryStore = create<UeHistoryState>()((set, get) => ({
+  histories: {},
+
+  record: (deviceId, settings, patch, gesture) => {
+    const before = changedFields(settings, patch);
+    if (Object.keys(before).length === 0) return;
+    const after = Object.fromEntries(Object.keys(before).map((key) => [key, patch[key as keyof UeDeviceSettings]]));
+
+    const { past } = get().getHistory(deviceId);
+    const last = past[past.length - 1];
+    let nextPast: UeHistoryEntry[];
+    if (gesture && last?.gesture === gesture) {
+      // Same gesture: keep the earliest `before` of every field, the latest `after`
+      const merged = withoutNoOps({
+        before: { ...before, ...last.before },
+        after: { ...last.after, ...after },
+        gesture,
+      });
+      nextPast = Object.keys(merged.after).length ? [...past.slice(0, -1), merged] : past.slice(0, -1);
+    } else {
+      const closed = last?.gesture ? [...past.slice(0, -1), { ...last, gesture: null }] : past;
+      nextPast = [...closed, { before, after, gesture: gesture ?? null }].slice(-UE_HISTORY_LIMIT);
+    }
+    set((state) => ({ histories: { ...state.histories, [deviceId]: { past: nextPast, future: [] } } }));
+  },
+
+  endGesture: (deviceId) => {
+    const history = get().getHistory(deviceId);
+    const last = history.past[history.past.length - 1];
+    if (!last?.gesture) return;
+    set((state) => ({
+      histories: {
+        ...state.histories,
+        [deviceId]: { ...history, past: [...history.past.slice(0, -1), { ...last, gesture: null }] },
+      },
+    }));
+  },
+
+  undo: (deviceId) => {
+    const { past, future } = get().getHistory(deviceId);
+    const last = past[past.length - 1];
+    if (!last) return null;
+    const entry = { ...last, gesture: null };
+    set((state) => ({
+      histories: { ...state.histories, [deviceId]: { past: past.slice(0, -1), future: [...future, entry] } },
+    }));
+    return entry.before;
+  },
+
+  redo: (deviceId) => {
+    const { past, future } = get().getHistory(deviceId);
+    const next = future[future.length - 1];
+    if (!next) return null;
+    set((state) => ({
+      histories: { ...state.histories, [deviceId]: { past: [...past, next], future: future.slice(0, -1) } },
+    }));
+    return next.after;
+  },
+
+  clear: (deviceIds) => {
+    if (!deviceIds.some((id) => id in get().histories)) return;
+    set((state) => {
+      const histories = { ...state.histories };
+      for (const id of deviceIds) delete histories[id];
+      return { histories };
+    });
+  },
+
+  getHistory: (deviceId) => get().histories[deviceId] ?? EMPTY_HISTORY,
+}));
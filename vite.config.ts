@@ -4,6 +4,7 @@ import { resolve } from 'path';
 import type { Plugin } from 'vite';
 import http from 'node:http';
 import { URL } from 'node:url';
+import { handleUeHealth } from './scripts/ue-health.mjs';
 
 /**
  * Custom Vite plugin that proxies /ue-api/* requests to the UE Remote API.
@@ -14,15 +15,32 @@ import { URL } from 'node:url';
  *
  * Frontend: POST /ue-api/ravatar  +  X-Ue-Target: http://127.0.0.1:8081
  *        → proxied to POST http://127.0.0.1:8081/ravatar
+ *          Errors the proxy generates itself carry `X-Ue-Proxy-Error`
+ *          (`bad-target` | `unreachable` | `timeout`) so the client can tell
+ *          them apart from UE's own error responses.
+ *
+ * Health: GET /ue-health  +  X-Ue-Target: http://127.0.0.1:8081
+ *        → TCP connect to 127.0.0.1:8081, no UE command is sent
+ *          (scripts/ue-health.mjs).
+ *          200 { ok, latencyMs } | 502 unreachable | 504 timeout
  */
 function ueApiProxyPlugin(): Plugin {
   return {
     name: 'ue-api-proxy',
     configureServer(server) {
+      server.middlewares.use('/ue-health', (req, res) => {
+        void handleUeHealth(req, res);
+      });
+
       server.middlewares.use('/ue-api', (req, res) => {
+        const proxyError = (kind: 'bad-target' | 'unreachable' | 'timeout') => ({
+          'Content-Type': 'application/json',
+          'X-Ue-Proxy-Error': kind,
+        });
+
         const targetHeader = req.headers['x-ue-target'];
         if (!targetHeader || typeof targetHeader !== 'string') {
-          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.writeHead(400, proxyError('bad-target'));
           res.end(JSON.stringify({ error: 'Missing X-Ue-Target header' }));
           return;
         }
@@ -33,7 +51,7 @@ function ueApiProxyPlugin(): Plugin {
           const restPath = (req.url ?? '').replace(/^\/ue-api/, '') || '/';
           targetUrl = new URL(restPath, targetHeader);
         } catch {
-          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.writeHead(400, proxyError('bad-target'));
           res.end(JSON.stringify({ error: 'Invalid X-Ue-Target URL' }));
           return;
         }
@@ -59,7 +77,7 @@ function ueApiProxyPlugin(): Plugin {
 
         proxyReq.on('error', () => {
           if (!res.headersSent) {
-            res.writeHead(502, { 'Content-Type': 'application/json' });
+            res.writeHead(502, proxyError('unreachable'));
           }
           res.end(JSON.stringify({ error: 'UE API unreachable' }));
         });
@@ -67,7 +85,7 @@ function ueApiProxyPlugin(): Plugin {
         proxyReq.on('timeout', () => {
           proxyReq.destroy();
           if (!res.headersSent) {
-            res.writeHead(504, { 'Content-Type': 'application/json' });
+            res.writeHead(504, proxyError('timeout'));
           }
           res.end(JSON.stringify({ error: 'UE API timeout' }));
         });